@@ -49,6 +49,8 @@ import { ShareModal } from "./modals/ShareModal";
 import { OverlaySearchModal } from "./modals/OverlaySearchModal";
 import { SimilarCharactersModal } from "./modals/SimilarCharactersModal";
 import { NotesModal } from "./modals/NotesModal";
+import { BanksModal } from "./modals/BanksModal";
+import { UnicodeMapModal } from "./modals/UnicodeMapModal";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 import { useCharacterLibrary } from "@/hooks/character-editor/useCharacterLibrary";
 import { useAutoSave } from "@/hooks/character-editor/useAutoSave";
@@ -57,9 +59,25 @@ import { useSnapshots } from "@/hooks/character-editor/useSnapshots";
 import { useNotes } from "@/hooks/character-editor/useNotes";
 import { useTipsOverlay } from "@/hooks/character-editor/useTipsOverlay";
 import { useCharacterEditor } from "@/hooks/character-editor/useCharacterEditor";
+import { usePixelSelection } from "@/hooks/character-editor/usePixelSelection";
 import { CharacterSet, AnchorPoint, generateId } from "@/lib/character-editor/types";
 import { getActiveColors, CustomColors } from "@/lib/character-editor/data/colorPresets";
 import { base64ToBinary, parseCharacterRom } from "@/lib/character-editor/import/binary";
+import { getBankIndexForCharacter, getBankRange, hasMultipleBanks, normalizeBanks } from "@/lib/character-editor/banks";
+import { getChipByPartNumber } from "@/lib/character-editor/data/systems";
+import { getMulticolorPalette, isMulticolorConfig, MAX_MULTICOLOR_INDEX } from "@/lib/character-editor/multicolor";
+import { DRAWING_TOOLS, DrawingTool, floodFill, setPixels } from "@/lib/character-editor/drawing";
+import { TileLayout, combineTile, createTileLayout, getTileConfig } from "@/lib/character-editor/tiles";
+import { SYMMETRY_MODES, SymmetrySettings, getSymmetryAxes, parseSymmetryAxis } from "@/lib/character-editor/symmetry";
+import {
+  DEFAULT_ONION_SKIN,
+  ONION_SKIN_PRESETS,
+  OnionSkinSettings,
+  formatOnionSkinOffsets,
+  getOnionSkinIndices,
+  parseOnionSkinOffsets,
+} from "@/lib/character-editor/onionSkin";
+import { setPixel, togglePixel } from "@/lib/character-editor/transforms";
 import { useToast } from "@/hooks/useToast";
 
 /**
@@ -85,6 +103,23 @@ export function EditView() {
   // Color settings
   const [colors, setColors] = useState<CustomColors>(getActiveColors());
 
+  // Draw color for multicolor (2bpp) sets
+  const [drawColor, setDrawColor] = useState(MAX_MULTICOLOR_INDEX);
+
+  // Active drawing tool of the pixel editor
+  const [drawingTool, setDrawingTool] = useState<DrawingTool>("pencil");
+
+  // Symmetry of the drawing tools and the asymmetry check overlay
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>({ mode: "none" });
+  const [showAsymmetry, setShowAsymmetry] = useState(false);
+
+  // Onion skin - neighboring characters of the same set ghosted under the edited one
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(DEFAULT_ONION_SKIN);
+  const [onionSkinOffsetsText, setOnionSkinOffsetsText] = useState(formatOnionSkinOffsets(DEFAULT_ONION_SKIN.offsets));
+
+  // Block of characters edited as one canvas (null when editing single characters)
+  const [tileLayout, setTileLayout] = useState<TileLayout | null>(null);
+
   // Zoom state
   const [zoom, setZoom] = useState(20);
   const minZoom = 8;
@@ -174,6 +209,8 @@ export function EditView() {
   const [showSnapshots, setShowSnapshots] = useState(false);
   const [showShare, setShowShare] = useState(false);
   const [showNotesModal, setShowNotesModal] = useState(false);
+  const [showBanksModal, setShowBanksModal] = useState(false);
+  const [showUnicodeMapModal, setShowUnicodeMapModal] = useState(false);
 
   // Overlay state
   const [overlayCharacterSet, setOverlayCharacterSet] = useState<CharacterSet | null>(null);
@@ -240,7 +277,9 @@ export function EditView() {
           // Full restore - use existing reset
           editor.reset({
             ...characterSet,
+            metadata: { ...characterSet.metadata, unicodeMap: editor.unicodeMap },
             characters,
+            banks: editor.banks && normalizeBanks(editor.banks, characters.length),
           });
           toast.info(snapshotName ? `Restored: ${snapshotName}` : "Snapshot restored");
         } else {
@@ -318,10 +357,12 @@ export function EditView() {
       const updatedSet: CharacterSet = {
         metadata: {
           ...characterSet.metadata,
+          unicodeMap: editor.unicodeMap,
           updatedAt: Date.now(),
         },
         config: editor.config,
         characters: editor.characters,
+        banks: editor.banks,
       };
 
       await save(updatedSet);
@@ -407,6 +448,7 @@ export function EditView() {
           ...characterSet,
           characters,
           config: data.config,
+          banks: characterSet.banks && normalizeBanks(characterSet.banks, characters.length),
         });
         editor.setSelectedIndex(data.selectedIndex);
         toast.success("Changes recovered");
@@ -430,6 +472,7 @@ export function EditView() {
           ...characterSet.metadata,
           id: crypto.randomUUID(),
           name: saveAsName.trim(),
+          unicodeMap: editor.unicodeMap,
           createdAt: Date.now(),
           updatedAt: Date.now(),
           isBuiltIn: false,
@@ -439,6 +482,7 @@ export function EditView() {
         },
         config: editor.config,
         characters: editor.characters,
+        banks: editor.banks,
       };
 
       await save(newSet);
@@ -526,6 +570,7 @@ export function EditView() {
           ...characterSet.metadata,
           id: generateId(),
           name: duplicateName.trim(),
+          unicodeMap: editor.unicodeMap,
           createdAt: Date.now(),
           updatedAt: Date.now(),
           isBuiltIn: false,
@@ -535,6 +580,7 @@ export function EditView() {
         },
         config: editor.config,
         characters: editor.characters,
+        banks: editor.banks,
       };
 
       await save(newSet);
@@ -552,6 +598,116 @@ export function EditView() {
     }
   }, [characterSet, duplicateName, editor, save, router, toast]);
 
+  // Multicolor handling - 2bpp sets are drawn with a four-color palette
+  const isMulticolor = isMulticolorConfig(editor.config);
+  const palette = useMemo(
+    () => (isMulticolor ? getMulticolorPalette(colors.foreground, colors.background) : undefined),
+    [isMulticolor, colors.foreground, colors.background],
+  );
+  const activeDrawColor = isMulticolor ? drawColor : undefined;
+
+  // Marquee selection of the select tool
+  const pixelSelection = usePixelSelection({
+    character: editor.characters[editor.selectedIndex] ?? null,
+    selectedIndices: editor.selectedIndices,
+    placePixelSelection: editor.placePixelSelection,
+    clearPixelRegion: editor.clearPixelRegion,
+  });
+  const hasPixelSelection = pixelSelection.selection !== null;
+
+  // Tile mode - the tile is combined from the characters on every render
+  const tileCharacter = useMemo(
+    () => (tileLayout ? combineTile(editor.characters, editor.config, tileLayout) : null),
+    [tileLayout, editor.characters, editor.config],
+  );
+  const tileConfig = useMemo(
+    () => (tileLayout ? getTileConfig(editor.config, tileLayout) : null),
+    [tileLayout, editor.config],
+  );
+  const tileCellSize = useMemo(
+    () => ({ width: editor.config.width, height: editor.config.height }),
+    [editor.config.width, editor.config.height],
+  );
+
+  const onionSkinCharacters = useMemo(
+    () =>
+      onionSkin.enabled
+        ? getOnionSkinIndices(editor.selectedIndex, onionSkin.offsets, editor.characters.length).map(
+            (index) => editor.characters[index],
+          )
+        : undefined,
+    [onionSkin.enabled, onionSkin.offsets, editor.selectedIndex, editor.characters],
+  );
+
+  const applyOnionSkinPreset = useCallback((offsets: number[]) => {
+    setOnionSkin((current) => ({ ...current, offsets }));
+    setOnionSkinOffsetsText(formatOnionSkinOffsets(offsets));
+  }, []);
+
+  // Size of the canvas the symmetry axes refer to
+  const canvasConfig = tileConfig ?? editor.config;
+  const symmetryAxes = getSymmetryAxes(symmetry, canvasConfig.width, canvasConfig.height);
+
+  const updateTileLayout = useCallback((changes: Partial<TileLayout>) => {
+    setTileLayout((current) => {
+      if (!current) return current;
+      // Tiles of consecutive characters stay consecutive when the width changes
+      const stride =
+        changes.columns !== undefined && changes.stride === undefined && current.stride === current.columns
+          ? changes.columns
+          : (changes.stride ?? current.stride);
+      return { ...current, ...changes, stride };
+    });
+  }, []);
+
+  const handleDrawingToolChange = useCallback(
+    (tool: DrawingTool) => {
+      // Leaving the select tool places the floating selection
+      if (tool !== "select") pixelSelection.deselect();
+      setDrawingTool(tool);
+    },
+    [pixelSelection],
+  );
+
+  const handleTileModeToggle = useCallback(() => {
+    if (tileLayout) {
+      setTileLayout(null);
+      return;
+    }
+    // The select tool works on single characters only
+    if (drawingTool === "select") handleDrawingToolChange("pencil");
+    setTileLayout(createTileLayout(editor.selectedIndex, 2, 2));
+  }, [tileLayout, drawingTool, handleDrawingToolChange, editor.selectedIndex]);
+
+  // Bank handling - the sidebar shows the bank containing the selected character
+  const multiBank = hasMultipleBanks(editor.banks);
+  const activeBank = editor.banks ? getBankIndexForCharacter(editor.banks, editor.selectedIndex) : 0;
+  const chipInfo = characterSet ? getChipByPartNumber(characterSet.metadata.chip) : undefined;
+
+  const handleActiveBankChange = useCallback(
+    (bankIndex: number) => {
+      const range = editor.banks ? getBankRange(editor.banks, bankIndex) : null;
+      if (!range) return;
+      if (range.start === range.end) {
+        toast.info("This bank is empty. Resize it in the Banks dialog.");
+        return;
+      }
+      editor.setSelectedIndex(range.start);
+      editor.clearBatchSelection();
+    },
+    [editor, toast],
+  );
+
+  // Add a character to the end of the active bank (or the end of the set)
+  const handleAddCharacter = useCallback(() => {
+    const range = multiBank && editor.banks ? getBankRange(editor.banks, activeBank) : null;
+    if (range) {
+      editor.insertCharacterAt(range.end);
+    } else {
+      editor.addCharacter();
+    }
+  }, [editor, multiBank, activeBank]);
+
   // Navigation handlers
   const totalCharacters = editor.characters.length;
 
@@ -585,6 +741,35 @@ export function EditView() {
     editor.setSelectedIndex(totalCharacters - 1);
   }, [editor, totalCharacters]);
 
+  // Pixel selection shortcuts are left to the dialogs while one is open
+  const isDialogOpen =
+    showShortcutsHelp ||
+    showMetadataModal ||
+    showDeleteConfirm ||
+    showResetConfirm ||
+    showClearHistoryConfirm ||
+    showDeleteCharacterConfirm ||
+    showSaveAsDialog ||
+    showDuplicateDialog ||
+    showResizeModal ||
+    showImportModal ||
+    showCopyModal ||
+    showReorderModal ||
+    showScaleModal ||
+    showGoToModal ||
+    showAsciiMap ||
+    showTextPreview ||
+    showSnapshots ||
+    showShare ||
+    showNotesModal ||
+    showBanksModal ||
+    showUnicodeMapModal ||
+    showOverlaySearch ||
+    showSimilarCharacters ||
+    showLeaveConfirm ||
+    !!contextMenu;
+  const selectionShortcutsEnabled = hasPixelSelection && !isDialogOpen;
+
   // Keyboard shortcuts
   const shortcuts = useMemo(
     () =>
@@ -592,20 +777,30 @@ export function EditView() {
         undo: editor.undo,
         redo: editor.redo,
         save: handleSave,
-        rotateLeft: () => editor.rotateSelected("left"),
-        rotateRight: () => editor.rotateSelected("right"),
+        // Rotate, flip and delete act on the pixel selection while there is one
+        rotateLeft: () =>
+          hasPixelSelection ? pixelSelection.transform("rotate-left") : editor.rotateSelected("left"),
+        rotateRight: () =>
+          hasPixelSelection ? pixelSelection.transform("rotate-right") : editor.rotateSelected("right"),
         shiftUp: () => editor.shiftSelected("up"),
         shiftDown: () => editor.shiftSelected("down"),
         shiftLeft: () => editor.shiftSelected("left"),
         shiftRight: () => editor.shiftSelected("right"),
         invert: editor.invertSelected,
-        flipHorizontal: editor.flipSelectedHorizontal,
-        flipVertical: editor.flipSelectedVertical,
+        flipHorizontal: () =>
+          hasPixelSelection ? pixelSelection.transform("flip-horizontal") : editor.flipSelectedHorizontal(),
+        flipVertical: () =>
+          hasPixelSelection ? pixelSelection.transform("flip-vertical") : editor.flipSelectedVertical(),
         selectAll: editor.selectAll,
-        deleteSelected: () => setShowDeleteCharacterConfirm(true),
-        addCharacter: editor.addCharacter,
+        deleteSelected: () => (hasPixelSelection ? pixelSelection.deleteSelection() : setShowDeleteCharacterConfirm(true)),
+        addCharacter: handleAddCharacter,
         duplicateSelected: editor.duplicateSelected,
         showHelp: () => setShowShortcutsHelp(true),
+        // Pixel selection
+        copySelection: selectionShortcutsEnabled ? pixelSelection.copy : undefined,
+        cutSelection: selectionShortcutsEnabled ? pixelSelection.cut : undefined,
+        pasteSelection: drawingTool === "select" && !isDialogOpen ? pixelSelection.paste : undefined,
+        clearSelection: selectionShortcutsEnabled ? pixelSelection.deselect : undefined,
         // Navigation
         navigatePrev,
         navigateNext,
@@ -630,10 +825,16 @@ export function EditView() {
       }),
     [
       editor,
+      pixelSelection,
+      hasPixelSelection,
+      selectionShortcutsEnabled,
+      isDialogOpen,
+      drawingTool,
       handleSave,
       handleExport,
       handleReset,
       handleZoomToFit,
+      handleAddCharacter,
       openSaveAsDialog,
       navigatePrev,
       navigateNext,
@@ -863,6 +1064,42 @@ export function EditView() {
       onClick: () => setShowReorderModal(true),
       priority: 0,
     },
+    {
+      id: "banks",
+      label: "Banks",
+      tooltip: "Split the set into character banks",
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4"
+          />
+        </svg>
+      ),
+      onClick: () => setShowBanksModal(true),
+      priority: 1,
+      active: multiBank,
+    },
+    {
+      id: "unicode-map",
+      label: "Unicode",
+      tooltip: "Map each character to its Unicode code point",
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129"
+          />
+        </svg>
+      ),
+      onClick: () => setShowUnicodeMapModal(true),
+      priority: 0,
+      active: !!editor.unicodeMap,
+    },
     {
       id: "notes",
       label: "Notes",
@@ -1007,6 +1244,34 @@ export function EditView() {
       activeVariant: "amber" as const,
       priority: 0,
     },
+    {
+      id: "onion-skin",
+      label: "Onion Skin",
+      tooltip: "Show neighboring characters under the edited one",
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <rect x="3" y="3" width="12" height="12" rx="1" strokeWidth={2} strokeDasharray="2 2" />
+          <rect x="9" y="9" width="12" height="12" rx="1" strokeWidth={2} />
+        </svg>
+      ),
+      onClick: () => setOnionSkin((current) => ({ ...current, enabled: !current.enabled })),
+      active: onionSkin.enabled,
+      priority: 0,
+    },
+    {
+      id: "tile-mode",
+      label: "Tile",
+      tooltip: "Edit a block of characters as one canvas",
+      icon: (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <rect x="4" y="4" width="16" height="16" rx="1" strokeWidth={2} />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16M4 12h16" />
+        </svg>
+      ),
+      onClick: handleTileModeToggle,
+      active: !!tileLayout,
+      priority: 0,
+    },
     {
       id: "similar-characters",
       label: "Similar",
@@ -1214,13 +1479,17 @@ export function EditView() {
                 selectedIndex={editor.selectedIndex}
                 batchSelection={editor.batchSelection}
                 onSelect={editor.toggleBatchSelection}
-                onAddCharacter={editor.addCharacter}
+                onAddCharacter={handleAddCharacter}
                 onDeleteSelected={() => setShowDeleteCharacterConfirm(true)}
                 onSelectAll={editor.selectAll}
                 onSelectNone={() => editor.toggleBatchSelection(editor.selectedIndex, false)}
                 onContextMenu={showContextMenu}
                 foregroundColor={colors.foreground}
+                palette={palette}
                 backgroundColor={colors.background}
+                banks={editor.banks}
+                activeBank={activeBank}
+                onActiveBankChange={handleActiveBankChange}
               />
             }
             leftSidebarWidth="240px"
@@ -1251,6 +1520,287 @@ export function EditView() {
             rightSidebarCollapsible={false}
           >
             <div className="w-full h-full flex flex-col">
+              {/* Drawing tool strip */}
+              <div className="flex-shrink-0 flex items-center gap-2 px-4 py-1.5 bg-retro-navy/80 backdrop-blur-sm border-b border-retro-grid/30 text-xs z-10">
+                <span className="text-gray-400">Tool:</span>
+                {DRAWING_TOOLS.filter((tool) => !tileLayout || tool.id !== "select").map((tool) => (
+                  <button
+                    key={tool.id}
+                    onClick={() => handleDrawingToolChange(tool.id)}
+                    className={`px-2 py-0.5 rounded transition-colors ${
+                      drawingTool === tool.id ? "bg-retro-cyan/20 text-retro-cyan" : "text-gray-400 hover:text-white"
+                    }`}
+                    aria-pressed={drawingTool === tool.id}
+                  >
+                    {tool.name}
+                  </button>
+                ))}
+                {drawingTool === "select" && (
+                  <>
+                    <span className="text-gray-500">|</span>
+                    {[
+                      { label: "Copy", onClick: pixelSelection.copy, enabled: hasPixelSelection },
+                      { label: "Cut", onClick: pixelSelection.cut, enabled: hasPixelSelection },
+                      { label: "Paste", onClick: pixelSelection.paste, enabled: pixelSelection.hasClipboard },
+                      { label: "Delete", onClick: pixelSelection.deleteSelection, enabled: hasPixelSelection },
+                      {
+                        label: "Flip H",
+                        onClick: () => pixelSelection.transform("flip-horizontal"),
+                        enabled: hasPixelSelection,
+                      },
+                      {
+                        label: "Flip V",
+                        onClick: () => pixelSelection.transform("flip-vertical"),
+                        enabled: hasPixelSelection,
+                      },
+                      {
+                        label: "Rotate L",
+                        onClick: () => pixelSelection.transform("rotate-left"),
+                        enabled: hasPixelSelection,
+                      },
+                      {
+                        label: "Rotate R",
+                        onClick: () => pixelSelection.transform("rotate-right"),
+                        enabled: hasPixelSelection,
+                      },
+                      { label: "Deselect", onClick: pixelSelection.deselect, enabled: hasPixelSelection },
+                    ].map((action) => (
+                      <button
+                        key={action.label}
+                        onClick={action.onClick}
+                        disabled={!action.enabled}
+                        className="px-2 py-0.5 rounded transition-colors text-gray-400 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400"
+                      >
+                        {action.label}
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
+
+              {/* Symmetry strip */}
+              <div className="flex-shrink-0 flex items-center gap-2 px-4 py-1.5 bg-retro-navy/80 backdrop-blur-sm border-b border-retro-grid/30 text-xs z-10">
+                <span className="text-gray-400">Symmetry:</span>
+                {SYMMETRY_MODES.map((mode) => (
+                  <button
+                    key={mode.id}
+                    onClick={() => setSymmetry((current) => ({ ...current, mode: mode.id }))}
+                    className={`px-2 py-0.5 rounded transition-colors ${
+                      symmetry.mode === mode.id ? "bg-retro-cyan/20 text-retro-cyan" : "text-gray-400 hover:text-white"
+                    }`}
+                    aria-pressed={symmetry.mode === mode.id}
+                  >
+                    {mode.name}
+                  </button>
+                ))}
+                {(symmetry.mode === "horizontal" || symmetry.mode === "four-way") && (
+                  <>
+                    <span className="text-gray-500">|</span>
+                    <span className="text-gray-400">Axis X</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={canvasConfig.width - 1}
+                      step={0.5}
+                      value={symmetryAxes.col}
+                      onChange={(e) => {
+                        const axisCol = parseSymmetryAxis(e.target.value, canvasConfig.width);
+                        if (axisCol !== null) setSymmetry((current) => ({ ...current, axisCol }));
+                      }}
+                      className="w-14 px-1 py-0.5 bg-retro-dark border border-retro-grid/50 rounded text-white focus:outline-none focus:border-retro-cyan"
+                      aria-label="Column of the vertical mirror axis"
+                      title="Column of the mirror axis (.5 places it between two columns)"
+                    />
+                  </>
+                )}
+                {(symmetry.mode === "vertical" || symmetry.mode === "four-way") && (
+                  <>
+                    <span className="text-gray-500">|</span>
+                    <span className="text-gray-400">Axis Y</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={canvasConfig.height - 1}
+                      step={0.5}
+                      value={symmetryAxes.row}
+                      onChange={(e) => {
+                        const axisRow = parseSymmetryAxis(e.target.value, canvasConfig.height);
+                        if (axisRow !== null) setSymmetry((current) => ({ ...current, axisRow }));
+                      }}
+                      className="w-14 px-1 py-0.5 bg-retro-dark border border-retro-grid/50 rounded text-white focus:outline-none focus:border-retro-cyan"
+                      aria-label="Row of the horizontal mirror axis"
+                      title="Row of the mirror axis (.5 places it between two rows)"
+                    />
+                  </>
+                )}
+                {symmetry.mode !== "none" && (
+                  <>
+                    <button
+                      onClick={() => setSymmetry((current) => ({ mode: current.mode }))}
+                      className="px-2 py-0.5 rounded transition-colors text-gray-400 hover:text-white"
+                      title="Move the axes to the centre of the character"
+                    >
+                      Center
+                    </button>
+                    <span className="text-gray-500">|</span>
+                    <button
+                      onClick={() => setShowAsymmetry((show) => !show)}
+                      className={`px-2 py-0.5 rounded transition-colors ${
+                        showAsymmetry ? "bg-retro-amber/20 text-retro-amber" : "text-gray-400 hover:text-white"
+                      }`}
+                      aria-pressed={showAsymmetry}
+                      title="Highlight pixels that break the symmetry"
+                    >
+                      Check Asymmetry
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {/* Onion skin strip */}
+              {onionSkin.enabled && (
+                <div className="flex-shrink-0 flex items-center gap-2 px-4 py-1.5 bg-retro-navy/80 backdrop-blur-sm border-b border-retro-grid/30 text-xs z-10">
+                  <span className="text-gray-400">Onion skin:</span>
+                  <input
+                    type="text"
+                    value={onionSkinOffsetsText}
+                    onChange={(e) => {
+                      setOnionSkinOffsetsText(e.target.value);
+                      setOnionSkin((current) => ({ ...current, offsets: parseOnionSkinOffsets(e.target.value) }));
+                    }}
+                    className="w-28 px-1 py-0.5 bg-retro-dark border border-retro-grid/50 rounded text-white font-mono focus:outline-none focus:border-retro-cyan"
+                    aria-label="Onion skin index offsets"
+                    title="Index offsets of the ghosted characters, e.g. -1, +1"
+                  />
+                  {ONION_SKIN_PRESETS.map((preset) => (
+                    <button
+                      key={preset.name}
+                      onClick={() => applyOnionSkinPreset(preset.offsets)}
+                      className="px-2 py-0.5 rounded transition-colors text-gray-400 hover:text-white"
+                    >
+                      {preset.name}
+                    </button>
+                  ))}
+                  <span className="text-gray-500">|</span>
+                  <input
+                    type="color"
+                    value={onionSkin.color}
+                    onChange={(e) => setOnionSkin((current) => ({ ...current, color: e.target.value }))}
+                    className="w-6 h-6 rounded border border-retro-grid/50 cursor-pointer"
+                    aria-label="Onion skin color"
+                  />
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={onionSkin.opacity}
+                    onChange={(e) => setOnionSkin((current) => ({ ...current, opacity: Number(e.target.value) }))}
+                    className="w-20 h-1.5 accent-retro-cyan"
+                    aria-label="Onion skin opacity"
+                  />
+                  <span className="text-gray-500 w-8">{Math.round(onionSkin.opacity * 100)}%</span>
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => setOnionSkin((current) => ({ ...current, enabled: false }))}
+                    className="text-gray-400 hover:text-red-400 transition-colors"
+                    title="Hide onion skin"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )}
+
+              {/* Tile mode strip */}
+              {tileLayout && (
+                <div className="flex-shrink-0 flex items-center gap-2 px-4 py-1.5 bg-retro-navy/80 backdrop-blur-sm border-b border-retro-grid/30 text-xs z-10">
+                  <span className="text-gray-400">Tile:</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={8}
+                    value={tileLayout.columns}
+                    onChange={(e) => updateTileLayout({ columns: Math.max(1, Math.min(8, Number(e.target.value) || 1)) })}
+                    className="w-12 px-1 py-0.5 bg-retro-dark border border-retro-grid/50 rounded text-white focus:outline-none focus:border-retro-cyan"
+                    aria-label="Tile columns"
+                  />
+                  <span className="text-gray-500">&times;</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={8}
+                    value={tileLayout.rows}
+                    onChange={(e) => updateTileLayout({ rows: Math.max(1, Math.min(8, Number(e.target.value) || 1)) })}
+                    className="w-12 px-1 py-0.5 bg-retro-dark border border-retro-grid/50 rounded text-white focus:outline-none focus:border-retro-cyan"
+                    aria-label="Tile rows"
+                  />
+                  <span className="text-gray-400">from #</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={totalCharacters - 1}
+                    value={tileLayout.start}
+                    onChange={(e) =>
+                      updateTileLayout({ start: Math.max(0, Math.min(totalCharacters - 1, Number(e.target.value) || 0)) })
+                    }
+                    className="w-16 px-1 py-0.5 bg-retro-dark border border-retro-grid/50 rounded text-white focus:outline-none focus:border-retro-cyan"
+                    aria-label="First character of the tile"
+                  />
+                  <span className="text-gray-400">row step</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={tileLayout.stride}
+                    onChange={(e) => updateTileLayout({ stride: Math.max(1, Number(e.target.value) || 1) })}
+                    className="w-16 px-1 py-0.5 bg-retro-dark border border-retro-grid/50 rounded text-white focus:outline-none focus:border-retro-cyan"
+                    aria-label="Character index step between tile rows"
+                    title="Index difference between tile rows (use the width of your character map for blocks in a grid)"
+                  />
+                  <button
+                    onClick={() => updateTileLayout({ start: editor.selectedIndex })}
+                    className="px-2 py-0.5 rounded transition-colors text-gray-400 hover:text-white"
+                  >
+                    Use Selected
+                  </button>
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => setTileLayout(null)}
+                    className="text-gray-400 hover:text-red-400 transition-colors"
+                    title="Leave tile mode"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )}
+
+              {/* Draw color strip - multicolor sets only */}
+              {palette && (
+                <div className="flex-shrink-0 flex items-center gap-2 px-4 py-1.5 bg-retro-navy/80 backdrop-blur-sm border-b border-retro-grid/30 text-xs z-10">
+                  <span className="text-gray-400">Draw color:</span>
+                  {palette.slice(1).map((color, i) => {
+                    const colorIndex = i + 1;
+                    return (
+                      <button
+                        key={colorIndex}
+                        onClick={() => setDrawColor(colorIndex)}
+                        className={`w-5 h-5 rounded border-2 transition-colors ${
+                          drawColor === colorIndex ? "border-retro-cyan" : "border-retro-grid/50 hover:border-gray-400"
+                        }`}
+                        style={{ backgroundColor: color }}
+                        title={`Color ${colorIndex}`}
+                        aria-label={`Draw with color ${colorIndex}`}
+                        aria-pressed={drawColor === colorIndex}
+                      />
+                    );
+                  })}
+                  <span className="text-gray-500">Right-click draws color 0</span>
+                </div>
+              )}
+
               {/* Overlay mode toggle strip - sticky at top of editor area */}
               {overlayCharacterSet && (
                 <div className="flex-shrink-0 flex items-center gap-2 px-4 py-1.5 bg-retro-navy/80 backdrop-blur-sm border-b border-retro-grid/30 text-xs z-10">
@@ -1299,8 +1849,45 @@ export function EditView() {
                 {/* Invisible div to measure available space for zoom-to-fit */}
                 <div ref={canvasContainerRef} className="absolute inset-0 pointer-events-none" />
 
-                {/* Side-by-side mode: two-column grid layout */}
-                {overlayMode === "side-by-side" && overlayCharacterSet ? (
+                {/* Tile mode: the characters of the tile in one canvas */}
+                {tileLayout && tileCharacter && tileConfig ? (
+                  <div className="w-full h-full">
+                    <EditorCanvas
+                      character={tileCharacter}
+                      config={tileConfig}
+                      onPixelToggle={(row, col, color) =>
+                        editor.updateTile(tileLayout, (tile) => togglePixel(tile, row, col, color))
+                      }
+                      onPixelSet={(row, col, value, color) =>
+                        editor.updateTile(tileLayout, (tile) => setPixel(tile, row, col, value, color))
+                      }
+                      onPixelsSet={(points, value, color) =>
+                        editor.updateTile(tileLayout, (tile) => setPixels(tile, points, value, color))
+                      }
+                      onFloodFill={(starts, value, color) =>
+                        editor.updateTile(tileLayout, (tile) => floodFill(tile, starts, value, color))
+                      }
+                      tool={drawingTool}
+                      tileCellSize={tileCellSize}
+                      symmetry={symmetry}
+                      showAsymmetry={showAsymmetry}
+                      drawColor={activeDrawColor}
+                      onDragStart={editor.startBatch}
+                      onDragEnd={(label) => editor.endBatch(label ?? "Paint pixels")}
+                      foregroundColor={colors.foreground}
+                      palette={palette}
+                      backgroundColor={colors.background}
+                      gridColor={colors.gridColor}
+                      zoom={zoom}
+                      minZoom={8}
+                      maxZoom={100}
+                      onZoomChange={setZoom}
+                      onPixelHover={(row, col) => setHoverCoords({ x: col, y: row })}
+                      onPixelLeave={() => setHoverCoords(null)}
+                    />
+                  </div>
+                ) : overlayMode === "side-by-side" && overlayCharacterSet ? (
+                  /* Side-by-side mode: two-column grid layout */
                   <div className="w-full h-full grid grid-cols-2 gap-4">
                     {/* Left column: Main editor */}
                     <div className="flex items-center justify-center">
@@ -1313,11 +1900,23 @@ export function EditView() {
                           config={editor.config}
                           onPixelToggle={editor.toggleSelectedPixel}
                           onPixelSet={editor.setSelectedPixel}
+                          onPixelsSet={editor.setSelectedPixels}
+                          onFloodFill={editor.floodFillSelected}
+                          tool={drawingTool}
+                          pixelSelection={pixelSelection.selection}
+                          floatingSelection={pixelSelection.floating}
+                          onSelectionChange={pixelSelection.select}
+                          onSelectionLift={pixelSelection.lift}
+                          onSelectionMove={pixelSelection.moveTo}
+                          symmetry={symmetry}
+                          showAsymmetry={showAsymmetry}
+                          drawColor={activeDrawColor}
                           onDragStart={editor.startBatch}
-                          onDragEnd={() => editor.endBatch("Paint pixels")}
+                          onDragEnd={(label) => editor.endBatch(label ?? "Paint pixels")}
                           getPixelState={editor.getSelectedPixelState}
                           batchMode={isBatchMode}
                           foregroundColor={colors.foreground}
+                          palette={palette}
                           backgroundColor={colors.background}
                           gridColor={colors.gridColor}
                           zoom={zoom}
@@ -1329,6 +1928,9 @@ export function EditView() {
                           overlayCharacter={null}
                           overlayConfig={undefined}
                           overlayMode={overlayMode}
+                          onionSkinCharacters={onionSkinCharacters}
+                          onionSkinColor={onionSkin.color}
+                          onionSkinOpacity={onionSkin.opacity}
                         />
                       </div>
                     </div>
@@ -1370,11 +1972,23 @@ export function EditView() {
                       config={editor.config}
                       onPixelToggle={editor.toggleSelectedPixel}
                       onPixelSet={editor.setSelectedPixel}
+                      onPixelsSet={editor.setSelectedPixels}
+                      onFloodFill={editor.floodFillSelected}
+                      tool={drawingTool}
+                      pixelSelection={pixelSelection.selection}
+                      floatingSelection={pixelSelection.floating}
+                      onSelectionChange={pixelSelection.select}
+                      onSelectionLift={pixelSelection.lift}
+                      onSelectionMove={pixelSelection.moveTo}
+                      symmetry={symmetry}
+                      showAsymmetry={showAsymmetry}
+                      drawColor={activeDrawColor}
                       onDragStart={editor.startBatch}
-                      onDragEnd={() => editor.endBatch("Paint pixels")}
+                      onDragEnd={(label) => editor.endBatch(label ?? "Paint pixels")}
                       getPixelState={editor.getSelectedPixelState}
                       batchMode={isBatchMode}
                       foregroundColor={colors.foreground}
+                      palette={palette}
                       backgroundColor={colors.background}
                       gridColor={colors.gridColor}
                       zoom={zoom}
@@ -1386,6 +2000,9 @@ export function EditView() {
                       overlayCharacter={overlayCharacterSet?.characters[editor.selectedIndex] || null}
                       overlayConfig={overlayCharacterSet?.config}
                       overlayMode={overlayMode}
+                      onionSkinCharacters={onionSkinCharacters}
+                      onionSkinColor={onionSkin.color}
+                      onionSkinOpacity={onionSkin.opacity}
                     />
                   </div>
                 )}
@@ -1489,9 +2106,27 @@ export function EditView() {
         isOpen={showReorderModal}
         onClose={() => setShowReorderModal(false)}
         characters={editor.characters}
-        onReorder={(chars) => {
-          editor.setCharacters(chars);
-        }}
+        onReorder={(order) => editor.reorderCharacters(order)}
+      />
+
+      {/* Banks modal */}
+      <BanksModal
+        isOpen={showBanksModal}
+        onClose={() => setShowBanksModal(false)}
+        banks={editor.banks}
+        totalCharacters={totalCharacters}
+        suggestedBankCount={chipInfo?.characterSetsStored}
+        chipName={chipInfo?.partNumber}
+        onApply={(banks) => editor.setBanks(banks)}
+      />
+
+      {/* Unicode mapping modal */}
+      <UnicodeMapModal
+        isOpen={showUnicodeMapModal}
+        onClose={() => setShowUnicodeMapModal(false)}
+        unicodeMap={editor.unicodeMap}
+        totalCharacters={totalCharacters}
+        onApply={(unicodeMap) => editor.setUnicodeMap(unicodeMap)}
       />
 
       {/* Scale modal */}
@@ -1527,6 +2162,7 @@ export function EditView() {
         onSelect={(index) => editor.setSelectedIndex(index)}
         foregroundColor={colors.foreground}
         backgroundColor={colors.background}
+        unicodeMap={editor.unicodeMap}
       />
 
       {/* Text preview modal */}
@@ -1536,6 +2172,7 @@ export function EditView() {
         characters={editor.characters}
         config={editor.config}
         colors={colors}
+        unicodeMap={editor.unicodeMap}
       />
 
       {/* Snapshots modal */}
@@ -1580,6 +2217,7 @@ export function EditView() {
           description={characterSet.metadata.description}
           characters={editor.characters}
           config={editor.config}
+          banks={editor.banks}
         />
       )}
 
@@ -2,7 +2,8 @@
 
 import { useCallback, useMemo } from "react";
 import { Character } from "@/lib/character-editor/types";
-import { isPrintableAscii, getControlCharInfo } from "@/lib/character-editor/data/ascii";
+import { getControlCharInfo } from "@/lib/character-editor/data/ascii";
+import { formatCodePoint, getIndexCodePoint, isPrintableCodePoint } from "@/lib/character-editor/data/codePages";
 import { Modal, ModalHeader, ModalContent, ModalFooter } from "@/components/ui/Modal";
 
 export interface AsciiMapModalProps {
@@ -20,6 +21,8 @@ export interface AsciiMapModalProps {
   foregroundColor?: string;
   /** Background color for rendering */
   backgroundColor?: string;
+  /** Unicode code point of each character index (defaults to ASCII) */
+  unicodeMap?: (number | null)[];
 }
 
 /**
@@ -28,6 +31,7 @@ export interface AsciiMapModalProps {
 function MiniCharacter({
   character,
   index,
+  codePoint,
   isSelected,
   onClick,
   foregroundColor,
@@ -35,6 +39,7 @@ function MiniCharacter({
 }: {
   character: Character;
   index: number;
+  codePoint: number | null;
   isSelected: boolean;
   onClick: () => void;
   foregroundColor: string;
@@ -42,22 +47,21 @@ function MiniCharacter({
 }) {
   const height = character.pixels.length;
   const width = character.pixels[0]?.length || 0;
-  const isPrintable = isPrintableAscii(index);
-  const controlCharInfo = getControlCharInfo(index);
-
   // Calculate tooltip
   const tooltip = useMemo(() => {
     const parts = [
       `#${index}`,
       `0x${index.toString(16).toUpperCase().padStart(2, "0")}`,
     ];
-    if (isPrintable) {
-      parts.push(`'${String.fromCharCode(index)}'`);
+    const controlCharInfo = codePoint !== null ? getControlCharInfo(codePoint) : null;
+    if (codePoint !== null && isPrintableCodePoint(codePoint)) {
+      parts.push(`'${String.fromCodePoint(codePoint)}'`);
+      if (codePoint > 0x7e) parts.push(formatCodePoint(codePoint));
     } else if (controlCharInfo) {
       parts.push(`${controlCharInfo.abbr} (${controlCharInfo.name})`);
     }
     return parts.join(" | ");
-  }, [index, isPrintable, controlCharInfo]);
+  }, [index, codePoint]);
 
   return (
     <button
@@ -108,6 +112,7 @@ export function AsciiMapModal({
   onSelect,
   foregroundColor = "#ffffff",
   backgroundColor = "#000000",
+  unicodeMap,
 }: AsciiMapModalProps) {
   // Handle character click
   const handleCharacterClick = useCallback(
@@ -121,6 +126,7 @@ export function AsciiMapModal({
   // Calculate grid dimensions
   const gridCols = 16; // Standard 16 columns for hex display
   const rows = Math.ceil(characters.length / gridCols);
+  const selectedCodePoint = getIndexCodePoint(selectedIndex, unicodeMap);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} size="2xl" maxHeight="90vh">
@@ -173,6 +179,7 @@ export function AsciiMapModal({
                         key={col}
                         character={characters[index]}
                         index={index}
+                        codePoint={getIndexCodePoint(index, unicodeMap)}
                         isSelected={index === selectedIndex}
                         onClick={() => handleCharacterClick(index)}
                         foregroundColor={foregroundColor}
@@ -195,9 +202,9 @@ export function AsciiMapModal({
           </span>
           <span>
             Current: #{selectedIndex} (0x{selectedIndex.toString(16).toUpperCase().padStart(2, "0")})
-            {isPrintableAscii(selectedIndex) && (
+            {selectedCodePoint !== null && isPrintableCodePoint(selectedCodePoint) && (
               <span className="ml-1 text-retro-pink">
-                &apos;{String.fromCharCode(selectedIndex)}&apos;
+                &apos;{String.fromCodePoint(selectedCodePoint)}&apos;
               </span>
             )}
           </span>
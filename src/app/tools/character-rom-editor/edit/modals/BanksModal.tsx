@@ -0,0 +1,192 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { CharacterBank } from "@/lib/character-editor/types";
+import {
+  normalizeBanks,
+  splitBanksEvenly,
+  getDefaultBankName,
+} from "@/lib/character-editor/banks";
+import { Modal, ModalContent, ModalActions } from "@/components/ui/Modal";
+
+export interface BanksModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** Current bank layout (undefined for single-bank sets) */
+  banks: CharacterBank[] | undefined;
+  /** Total number of characters in the set */
+  totalCharacters: number;
+  /** Number of character sets stored on the set's chip (e.g. 2 for the C64 ROM) */
+  suggestedBankCount?: number;
+  /** Chip part number used for the suggestion label */
+  chipName?: string;
+  /** Callback when the layout is applied (undefined means a single bank) */
+  onApply: (banks: CharacterBank[] | undefined) => void;
+}
+
+/**
+ * Modal for splitting a character set into banks
+ *
+ * Banks are contiguous ranges of characters. Resizing a bank moves the
+ * boundary to the next bank; the last bank always takes the remainder.
+ */
+export function BanksModal({
+  isOpen,
+  onClose,
+  banks,
+  totalCharacters,
+  suggestedBankCount,
+  chipName,
+  onApply,
+}: BanksModalProps) {
+  const [draft, setDraft] = useState<CharacterBank[]>(() =>
+    normalizeBanks(banks, totalCharacters)
+  );
+
+  // Reset draft when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- Resetting modal state on open is intentional
+      setDraft(normalizeBanks(banks, totalCharacters));
+    }
+  }, [isOpen, banks, totalCharacters]);
+
+  const assigned = useMemo(
+    () => draft.slice(0, -1).reduce((sum, bank) => sum + bank.characterCount, 0),
+    [draft]
+  );
+  const isValid = assigned <= totalCharacters && draft.every((bank) => bank.name.trim());
+
+  const updateBank = useCallback((index: number, updates: Partial<CharacterBank>) => {
+    setDraft((prev) => prev.map((bank, i) => (i === index ? { ...bank, ...updates } : bank)));
+  }, []);
+
+  const handleAddBank = useCallback(() => {
+    setDraft((prev) => {
+      // Split the last bank in half to make room for the new one
+      const last = prev[prev.length - 1];
+      const keep = Math.ceil(last.characterCount / 2);
+      return [
+        ...prev.slice(0, -1),
+        { ...last, characterCount: keep },
+        { name: getDefaultBankName(prev.length), characterCount: last.characterCount - keep },
+      ];
+    });
+  }, []);
+
+  const handleRemoveBank = useCallback((index: number) => {
+    setDraft((prev) => {
+      if (prev.length <= 1) return prev;
+      // Merge the removed bank's characters into its neighbour
+      const target = index > 0 ? index - 1 : 1;
+      return prev
+        .map((bank, i) =>
+          i === target
+            ? { ...bank, characterCount: bank.characterCount + prev[index].characterCount }
+            : bank
+        )
+        .filter((_, i) => i !== index);
+    });
+  }, []);
+
+  const handleSplitEvenly = useCallback(
+    (count: number) => {
+      setDraft(splitBanksEvenly(totalCharacters, count));
+    },
+    [totalCharacters]
+  );
+
+  const handleApply = useCallback(() => {
+    if (!isValid) return;
+    const normalized = normalizeBanks(
+      draft.map((bank) => ({ ...bank, name: bank.name.trim() })),
+      totalCharacters
+    );
+    onApply(normalized.length > 1 ? normalized : undefined);
+    onClose();
+  }, [isValid, draft, totalCharacters, onApply, onClose]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} onConfirm={handleApply} confirmOnEnter size="md">
+      <ModalContent>
+        <h2 className="text-lg font-medium text-white mb-1">Character Banks</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          Split this set into banks, e.g. the uppercase and lowercase sets of a C64 ROM. The
+          whole set is still saved and exported as one ROM.
+        </p>
+
+        {suggestedBankCount && suggestedBankCount > 1 && (
+          <button
+            onClick={() => handleSplitEvenly(suggestedBankCount)}
+            className="w-full mb-4 px-3 py-2 text-xs text-left rounded border border-retro-cyan/50 text-retro-cyan hover:bg-retro-cyan/10 transition-colors"
+          >
+            Split into {suggestedBankCount} banks of{" "}
+            {Math.floor(totalCharacters / suggestedBankCount)} characters
+            {chipName ? ` (${chipName} stores ${suggestedBankCount} sets)` : ""}
+          </button>
+        )}
+
+        <div className="space-y-2 mb-4">
+          {draft.map((bank, index) => {
+            const isLast = index === draft.length - 1;
+            const remaining = totalCharacters - assigned;
+            return (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={bank.name}
+                  onChange={(e) => updateBank(index, { name: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                  aria-label={`Bank ${index + 1} name`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={totalCharacters}
+                  value={isLast ? Math.max(0, remaining) : bank.characterCount}
+                  disabled={isLast}
+                  onChange={(e) =>
+                    updateBank(index, {
+                      characterCount: Math.max(0, parseInt(e.target.value) || 0),
+                    })
+                  }
+                  className="w-24 px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan disabled:opacity-50"
+                  aria-label={`Bank ${index + 1} character count`}
+                  title={isLast ? "The last bank holds the remaining characters" : undefined}
+                />
+                <button
+                  onClick={() => handleRemoveBank(index)}
+                  disabled={draft.length <= 1}
+                  className="p-2 text-gray-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:hover:text-gray-400"
+                  aria-label={`Remove bank ${index + 1}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={handleAddBank}
+            className="px-3 py-1.5 text-xs rounded border border-retro-grid/50 text-gray-300 hover:border-retro-cyan hover:text-retro-cyan transition-colors"
+          >
+            + Add bank
+          </button>
+          <span className={`text-xs ${isValid ? "text-gray-500" : "text-red-400"}`}>
+            {assigned > totalCharacters
+              ? `Banks exceed ${totalCharacters} characters`
+              : `${totalCharacters} characters total`}
+          </span>
+        </div>
+      </ModalContent>
+
+      <ModalActions onCancel={onClose} onConfirm={handleApply} confirmDisabled={!isValid} />
+    </Modal>
+  );
+}
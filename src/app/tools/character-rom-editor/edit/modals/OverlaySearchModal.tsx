@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useCallback, useMemo, useEffect } from "react";
-import { CharacterSet, SerializedCharacterSet } from "@/lib/character-editor/types";
+import { CharacterSet, SerializedCharacterSet, bytesPerCharacter } from "@/lib/character-editor/types";
 import { deserializeCharacterSet } from "@/lib/character-editor/import/binary";
 import { useCharacterLibrary } from "@/hooks/character-editor/useCharacterLibrary";
 import { Modal, ModalHeader, ModalContent } from "@/components/ui/Modal";
@@ -150,7 +150,7 @@ function CharacterSetListItem({
   const config = characterSet.config;
 
   // Calculate character count from binary data
-  const bytesPerChar = Math.ceil(config.width / 8) * config.height;
+  const bytesPerChar = bytesPerCharacter(config);
   const binaryLength = characterSet.binaryData ?
     Math.ceil(characterSet.binaryData.length * 3 / 4) : 0;
   const charCount = bytesPerChar > 0 ? Math.floor(binaryLength / bytesPerChar) : 0;
@@ -31,8 +31,8 @@ export interface ReorderModalProps {
   onClose: () => void;
   /** Array of characters to reorder */
   characters: Character[];
-  /** Callback when reorder is applied */
-  onReorder: (newCharacters: Character[]) => void;
+  /** Callback when reorder is applied, with the previous index of each character */
+  onReorder: (order: number[]) => void;
 }
 
 interface SortableCharacterProps {
@@ -104,18 +104,24 @@ export function ReorderModal({
   characters,
   onReorder,
 }: ReorderModalProps) {
-  // Local copy of characters for reordering
-  const [localCharacters, setLocalCharacters] = useState<Character[]>([]);
+  // Previous index of each character in the local order
+  const [order, setOrder] = useState<number[]>([]);
   const [activeId, setActiveId] = useState<string | null>(null);
 
-  // Reset local characters when modal opens
+  // Reset the local order when modal opens
   useEffect(() => {
     if (isOpen) {
       // eslint-disable-next-line react-hooks/set-state-in-effect -- Intentional sync when modal opens
-      setLocalCharacters([...characters]);
+      setOrder(characters.map((_, index) => index));
     }
   }, [isOpen, characters]);
 
+  // Characters in the local order
+  const localCharacters = useMemo(
+    () => order.filter((index) => index < characters.length).map((index) => characters[index]),
+    [order, characters]
+  );
+
   // Generate stable IDs for each character
   const characterIds = useMemo(
     () => localCharacters.map((_, index) => `char-${index}`),
@@ -154,20 +160,20 @@ export function ReorderModal({
       const oldIndex = parseInt((active.id as string).replace("char-", ""), 10);
       const newIndex = parseInt((over.id as string).replace("char-", ""), 10);
 
-      setLocalCharacters((chars) => arrayMove(chars, oldIndex, newIndex));
+      setOrder((prev) => arrayMove(prev, oldIndex, newIndex));
     }
   }, []);
 
   const handleApply = useCallback(() => {
-    onReorder(localCharacters);
+    onReorder(order);
     onClose();
-  }, [localCharacters, onReorder, onClose]);
+  }, [order, onReorder, onClose]);
 
   // Check if order has changed
   const hasChanges = useMemo(() => {
-    if (localCharacters.length !== characters.length) return true;
-    return localCharacters.some((char, index) => char !== characters[index]);
-  }, [localCharacters, characters]);
+    if (order.length !== characters.length) return true;
+    return order.some((previous, index) => previous !== index);
+  }, [order, characters]);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} onConfirm={handleApply} confirmOnEnter size="3xl" maxHeight="80vh">
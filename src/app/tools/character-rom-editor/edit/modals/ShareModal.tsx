@@ -3,7 +3,7 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { QRCodeSVG } from "qrcode.react";
 import { Button } from "@/components/ui/Button";
-import { Character, CharacterSetConfig } from "@/lib/character-editor/types";
+import { Character, CharacterBank, CharacterSetConfig } from "@/lib/character-editor/types";
 import {
   encodeCharacterSet,
   createShareUrl,
@@ -22,6 +22,8 @@ export interface ShareModalProps {
   description: string;
   characters: Character[];
   config: CharacterSetConfig;
+  /** Bank layout of the characters (undefined for a single bank) */
+  banks?: CharacterBank[];
 }
 
 /**
@@ -34,6 +36,7 @@ export function ShareModal({
   description,
   characters,
   config,
+  banks,
 }: ShareModalProps) {
   const [shareUrl, setShareUrl] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
@@ -52,7 +55,7 @@ export function ShareModal({
     }
 
     try {
-      const encoded = encodeCharacterSet(name, description, characters, config);
+      const encoded = encodeCharacterSet(name, description, characters, config, banks);
       const url = createShareUrl(encoded);
       setShareUrl(url);
       setError(null);
@@ -60,7 +63,7 @@ export function ShareModal({
       setError(e instanceof Error ? e.message : "Failed to generate share URL");
       setShareUrl(null);
     }
-  }, [isOpen, name, description, characters, config, shareStatus.canShare]);
+  }, [isOpen, name, description, characters, config, banks, shareStatus.canShare]);
 
   // Handle copy to clipboard
   const handleCopy = useCallback(async () => {
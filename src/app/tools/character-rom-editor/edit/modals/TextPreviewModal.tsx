@@ -8,6 +8,7 @@ import { Modal, ModalHeader, ModalContent, ModalFooter } from "@/components/ui/M
 import { CRTEffectsOverlay } from "@/components/character-editor/editor/CRTEffectsOverlay";
 import { CRTEffectsPanel } from "@/components/character-editor/editor/CRTEffectsPanel";
 import { CRTSettings, getCRTSettings, saveCRTSettings } from "@/lib/character-editor/data/crtSettings";
+import { createCodePointLookup, isPrintableCodePoint } from "@/lib/character-editor/data/codePages";
 
 export interface TextPreviewModalProps {
   /** Whether the modal is open */
@@ -20,6 +21,8 @@ export interface TextPreviewModalProps {
   config: CharacterSetConfig;
   /** Colors configuration */
   colors: CustomColors;
+  /** Unicode code point of each character index (defaults to direct char code mapping) */
+  unicodeMap?: (number | null)[];
 }
 
 /** Sample text presets - "All Characters" is added dynamically based on character count */
@@ -31,17 +34,28 @@ const SAMPLE_TEXTS = [
   { label: "ASCII Art", text: "+------------------+\n|  RETRO COMPUTER  |\n+------------------+" },
 ];
 
+/** Private use code point standing for character index 0 of a mapped set */
+const PRIVATE_USE_BASE = 0xe000;
+
 /**
  * Generates text containing all characters from index 0 to count-1
- * Uses character codes directly, displaying 16 characters per line
+ * Uses character codes directly, displaying 16 characters per line.
+ * With a Unicode mapping, unmapped and control characters are written
+ * as private use code points (PRIVATE_USE_BASE + index).
  */
-function generateAllCharactersText(count: number): string {
+function generateAllCharactersText(count: number, unicodeMap?: (number | null)[]): string {
   const lines: string[] = [];
   const charsPerLine = 16;
 
   for (let i = 0; i < count; i += charsPerLine) {
     let line = "";
     for (let j = i; j < Math.min(i + charsPerLine, count); j++) {
+      if (unicodeMap) {
+        const codePoint = unicodeMap[j] ?? null;
+        const printable = codePoint !== null && isPrintableCodePoint(codePoint);
+        line += String.fromCodePoint(printable ? codePoint : PRIVATE_USE_BASE + j);
+        continue;
+      }
       // Use character codes directly - the index shift will map these to the right characters
       line += String.fromCharCode(j);
     }
@@ -136,6 +150,7 @@ export function TextPreviewModal({
   characters,
   config,
   colors: initialColors,
+  unicodeMap,
 }: TextPreviewModalProps) {
   const [text, setText] = useState("");
   const [scale, setScale] = useState(2);
@@ -151,8 +166,8 @@ export function TextPreviewModal({
 
   // Generate "All Characters" text based on character count
   const allCharactersText = useMemo(() => {
-    return generateAllCharactersText(characters.length);
-  }, [characters.length]);
+    return generateAllCharactersText(characters.length, unicodeMap);
+  }, [characters.length, unicodeMap]);
 
   // Set default text to "All Characters" when modal opens
   useEffect(() => {
@@ -173,12 +188,24 @@ export function TextPreviewModal({
     }
   }, [isOpen]);
 
-  // Convert text to character indices (direct mapping by char code)
+  // Code point to character index lookup for mapped sets
+  const codePointLookup = useMemo(
+    () => (unicodeMap ? createCodePointLookup(characters.length, unicodeMap) : null),
+    [characters.length, unicodeMap]
+  );
+
+  // Convert text to character indices (through the Unicode mapping, or directly by char code)
   const renderedLines = useMemo(() => {
     const lines = text.split("\n");
     return lines.map((line) => {
       const chars: (Character | null)[] = [];
       for (const char of line) {
+        if (codePointLookup) {
+          const codePoint = char.codePointAt(0) ?? 0;
+          const index = codePointLookup.get(codePoint) ?? codePoint - PRIVATE_USE_BASE;
+          chars.push(index >= 0 && index < characters.length ? characters[index] : characters[0] || null);
+          continue;
+        }
         const code = char.charCodeAt(0);
         if (code >= 0 && code < characters.length) {
           chars.push(characters[code]);
@@ -189,7 +216,7 @@ export function TextPreviewModal({
       }
       return chars;
     });
-  }, [text, characters]);
+  }, [text, characters, codePointLookup]);
 
   return (
     <Modal isOpen={isOpen} onClose={onClose} size="4xl" maxHeight="90vh">
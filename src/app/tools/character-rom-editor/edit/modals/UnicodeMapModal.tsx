@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  CODE_PAGES,
+  findCodePage,
+  formatCodePoint,
+  getCodePage,
+  isPrintableCodePoint,
+} from "@/lib/character-editor/data/codePages";
+import { parseCodePageTable, parseCodePoint } from "@/lib/character-editor/import/codePageTable";
+import { Modal, ModalHeader, ModalContent, ModalActions } from "@/components/ui/Modal";
+
+export interface UnicodeMapModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Callback when modal is closed */
+  onClose: () => void;
+  /** Current mapping (undefined for ASCII) */
+  unicodeMap: (number | null)[] | undefined;
+  /** Total number of characters in the set */
+  totalCharacters: number;
+  /** Callback when the mapping is applied (undefined removes it) */
+  onApply: (unicodeMap: (number | null)[] | undefined) => void;
+}
+
+/**
+ * Turn a mapping into editable text, one entry per character
+ */
+function toDraft(unicodeMap: (number | null)[], totalCharacters: number): string[] {
+  return Array.from({ length: totalCharacters }, (_, index) => {
+    const codePoint = unicodeMap[index] ?? null;
+    return codePoint === null ? "" : formatCodePoint(codePoint);
+  });
+}
+
+/**
+ * Modal for editing the Unicode code point of each character
+ *
+ * The mapping tells the character map, text preview and reference sheet
+ * which real character each index shows. Start from a built-in code page
+ * or an uploaded CSV/JSON table, then adjust single entries.
+ */
+export function UnicodeMapModal({ isOpen, onClose, unicodeMap, totalCharacters, onApply }: UnicodeMapModalProps) {
+  const [draft, setDraft] = useState<string[]>([]);
+  const [tableError, setTableError] = useState<string | null>(null);
+  const tableInputRef = useRef<HTMLInputElement>(null);
+
+  // Reset draft when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect -- Resetting modal state on open is intentional
+      setDraft(toDraft(unicodeMap ?? [], totalCharacters));
+      setTableError(null);
+    }
+  }, [isOpen, unicodeMap, totalCharacters]);
+
+  const parsed = useMemo(() => draft.map((value) => parseCodePoint(value)), [draft]);
+  const invalidCount = parsed.filter((codePoint) => codePoint === undefined).length;
+  const isValid = invalidCount === 0;
+
+  // Built-in code page the draft matches, if any
+  const currentPageId = useMemo(() => {
+    if (!isValid) return "custom";
+    const codePoints = parsed as (number | null)[];
+    if (codePoints.every((codePoint) => codePoint === null)) return "";
+    return findCodePage(codePoints)?.id ?? "custom";
+  }, [parsed, isValid]);
+
+  const handlePresetChange = useCallback(
+    (id: string) => {
+      if (id === "custom") return;
+      setDraft(toDraft(getCodePage(id)?.codePoints ?? [], totalCharacters));
+    },
+    [totalCharacters]
+  );
+
+  const handleTableSelect = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (!file) return;
+
+      try {
+        setDraft(toDraft(parseCodePageTable(await file.text()), totalCharacters));
+        setTableError(null);
+      } catch (err) {
+        setTableError(err instanceof Error ? err.message : "Failed to read mapping table");
+      }
+    },
+    [totalCharacters]
+  );
+
+  const updateEntry = useCallback((index: number, value: string) => {
+    setDraft((prev) => prev.map((entry, i) => (i === index ? value : entry)));
+  }, []);
+
+  const handleApply = useCallback(() => {
+    if (!isValid) return;
+    const codePoints = parsed as (number | null)[];
+    onApply(codePoints.some((codePoint) => codePoint !== null) ? codePoints : undefined);
+    onClose();
+  }, [isValid, parsed, onApply, onClose]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} onConfirm={handleApply} confirmOnEnter size="lg" maxHeight="90vh">
+      <ModalHeader onClose={onClose} showCloseButton>
+        <h2 className="text-lg font-medium text-white">Unicode Mapping</h2>
+        <p className="text-xs text-gray-400">
+          The real character behind each index, used by the character map, text preview and reference sheet
+        </p>
+      </ModalHeader>
+
+      <ModalContent scrollable>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            value={currentPageId}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+            aria-label="Encoding preset"
+          >
+            <option value="">None (ASCII)</option>
+            {CODE_PAGES.map((page) => (
+              <option key={page.id} value={page.id}>
+                {page.name}
+              </option>
+            ))}
+            {currentPageId === "custom" && <option value="custom">Custom</option>}
+          </select>
+          <input
+            ref={tableInputRef}
+            type="file"
+            accept=".csv,.txt,.json"
+            onChange={handleTableSelect}
+            className="hidden"
+          />
+          <button
+            onClick={() => tableInputRef.current?.click()}
+            className="px-3 py-2 text-xs rounded border border-retro-grid/50 text-gray-300 hover:border-retro-cyan hover:text-retro-cyan transition-colors"
+          >
+            Upload CSV/JSON
+          </button>
+        </div>
+        {getCodePage(currentPageId) && (
+          <p className="text-xs text-gray-500 mb-4">{getCodePage(currentPageId)?.description}</p>
+        )}
+        {tableError && <p className="text-xs text-red-400 mb-4">{tableError}</p>}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-3 gap-y-1">
+          {draft.map((value, index) => {
+            const codePoint = parsed[index];
+            const invalid = codePoint === undefined;
+            return (
+              <label key={index} className="flex items-center gap-1.5 text-xs font-mono">
+                <span className="w-8 text-right text-gray-500">
+                  {index.toString(16).toUpperCase().padStart(2, "0")}
+                </span>
+                <input
+                  type="text"
+                  value={value}
+                  onChange={(e) => updateEntry(index, e.target.value)}
+                  placeholder="-"
+                  className={`w-20 px-1.5 py-0.5 bg-retro-dark border rounded text-white focus:outline-none ${
+                    invalid ? "border-red-400" : "border-retro-grid/50 focus:border-retro-cyan"
+                  }`}
+                  aria-label={`Code point of character ${index}`}
+                />
+                <span className="w-4 text-center text-retro-pink">
+                  {codePoint !== undefined && codePoint !== null && isPrintableCodePoint(codePoint)
+                    ? String.fromCodePoint(codePoint)
+                    : ""}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </ModalContent>
+
+      <div className="px-4 pt-2 text-xs text-gray-500">
+        {isValid
+          ? "Enter U+XXXX, 0x hex, decimal or the character itself. Leave empty for no equivalent."
+          : `${invalidCount} invalid code point${invalidCount === 1 ? "" : "s"}`}
+      </div>
+      <ModalActions onCancel={onClose} onConfirm={handleApply} confirmLabel="Apply" confirmDisabled={!isValid} />
+    </Modal>
+  );
+}
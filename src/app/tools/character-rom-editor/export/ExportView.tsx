@@ -15,26 +15,81 @@ import { PixelGrid } from "@/components/character-editor/editor/PixelGrid";
 import { ColorPresetSelector } from "@/components/character-editor/selectors/ColorPresetSelector";
 import { BinaryFormatSection } from "@/components/character-editor/selectors/BinaryFormatSection";
 import { BloomEffectPanel, BloomEffectSettings } from "@/components/character-editor/editor/BloomEffectPanel";
+import { CodeTemplateEditor } from "@/components/character-editor/export/CodeTemplateEditor";
+import {
+  EpromBuilderSection,
+  EpromImageSummary,
+  EpromPlacement,
+} from "@/components/character-editor/export/EpromBuilderSection";
+import { RomPatchPanel, RomPatchMode } from "@/components/character-editor/export/RomPatchPanel";
+import { RomPatchDiff } from "@/components/character-editor/export/RomPatchDiff";
 import { CustomColors, getActiveColors } from "@/lib/character-editor/data/colorPresets";
+import { getIndexCodePoint, isPrintableCodePoint } from "@/lib/character-editor/data/codePages";
+import {
+  BUILT_IN_CODE_TEMPLATES,
+  CodeTemplate,
+  CodeTemplateOptions,
+  getUserCodeTemplates,
+  renderCodeTemplate,
+  saveUserCodeTemplates,
+} from "@/lib/character-editor/codeTemplates";
 import { useCharacterLibrary } from "@/hooks/character-editor/useCharacterLibrary";
 import { useEditorReturn } from "@/hooks/character-editor/useEditorReturn";
-import { CharacterSet, PaddingDirection, BitDirection, ByteOrder, bytesPerCharacter } from "@/lib/character-editor/types";
-import { createDownloadBlob, downloadBlob } from "@/lib/character-editor/import/binary";
+import { CharacterSet, PaddingDirection, BitDirection, ByteOrder, ByteLayout, bytesPerCharacter, bytesPerLine } from "@/lib/character-editor/types";
+import {
+  createDownloadBlob,
+  deserializeCharacterSet,
+  downloadBlob,
+  serializeCharacterRom,
+} from "@/lib/character-editor/import/binary";
 import { getSuggestedFilename, formatFileSize } from "@/lib/character-editor/utils";
+import { getBankRange, hasMultipleBanks } from "@/lib/character-editor/banks";
+import { getPackedConfig, getRomSize, hasRomLayout, parseByteOffset } from "@/lib/character-editor/romLayout";
+import { getChipByPartNumber } from "@/lib/character-editor/data/systems";
+import { EpromSegment, buildEpromImage, getEpromTargets, getSmallestEprom } from "@/lib/character-editor/eprom";
+import { diffRoms, findCharacterSetInRom, patchRom } from "@/lib/character-editor/romPatch";
 import {
   EXPORT_FORMATS,
   ExportFormat,
   CodeOutputFormat,
+  CODE_OUTPUT_FORMATS,
+  MemoryInitOptions,
   CHeaderOptions,
   AssemblyOptions,
   PngOptions,
   ReferenceSheetOptions,
+  HexRecordOptions,
+  BdfOptions,
+  PsfOptions,
+  UnifontOptions,
+  FontExportOptions,
+  AtlasOptions,
+  AtlasDescriptorFormat,
   getDefaultCHeaderOptions,
   getDefaultAssemblyOptions,
+  getDefaultMemoryInitOptions,
+  getCodeExtension,
+  isMemoryInitFormat,
   getDefaultPngOptions,
   getDefaultReferenceSheetOptions,
+  getDefaultHexRecordOptions,
+  getDefaultBdfOptions,
+  getDefaultFontExportOptions,
+  getDefaultAtlasOptions,
+  getAtlasFileNames,
+  getAtlasLayout,
+  getHexRecordExtension,
+  getFontExtension,
+  exportToHexRecords,
+  exportToBdf,
+  exportToPsf2,
+  exportToUnifont,
+  exportToFont,
+  exportToAtlas,
+  exportToAtlasDescriptor,
   exportToCHeader,
   exportToAssembly,
+  exportToMemoryInit,
   exportToPng,
   exportToReferenceSheet,
   exportToReferenceSheetPdf,
@@ -90,6 +145,10 @@ const LIGHT_LABEL_COLORS = {
   nonPrintableAsciiColor: "#666666",
 };
 
+/** Chips an EPROM image can be built for */
+const EPROM_TARGETS = getEpromTargets();
+
+
 /**
  * Export view for the Character ROM Editor
  */
@@ -97,7 +156,7 @@ export function ExportView() {
   const searchParams = useSearchParams();
   const id = searchParams.get("id");
 
-  const { getById } = useCharacterLibrary();
+  const { getById, characterSets: librarySets } = useCharacterLibrary();
   const { backUrl, backLabel } = useEditorReturn();
 
   // Loading and error states
@@ -114,11 +173,41 @@ export function ExportView() {
   const [padding, setPadding] = useState<PaddingDirection>("right");
   const [bitDirection, setBitDirection] = useState<BitDirection>("msb");
   const [byteOrder, setByteOrder] = useState<ByteOrder>("big");
+  const [byteLayout, setByteLayout] = useState<ByteLayout>("row");
+  // Bank to export as binary (-1 exports all banks as one ROM)
+  const [exportBank, setExportBank] = useState(-1);
+  // Write characters back with the set's stride/skip/split ROM layout
+  const [keepRomLayout, setKeepRomLayout] = useState(true);
 
   // Code export options (C Header or Assembly)
   const [codeOutputFormat, setCodeOutputFormat] = useState<CodeOutputFormat>("c-header");
   const [cHeaderOptions, setCHeaderOptions] = useState<CHeaderOptions>(getDefaultCHeaderOptions(""));
   const [assemblyOptions, setAssemblyOptions] = useState<AssemblyOptions>(getDefaultAssemblyOptions(""));
+  const [memoryInitOptions, setMemoryInitOptions] = useState<MemoryInitOptions>(getDefaultMemoryInitOptions(""));
+
+  // Code template options (user templates are kept in localStorage)
+  const [userTemplates, setUserTemplates] = useState<CodeTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(BUILT_IN_CODE_TEMPLATES[0].id);
+  const [templateOptions, setTemplateOptions] = useState<CodeTemplateOptions>({ name: "charset", includeComments: true });
+
+  // Intel HEX / S-record options
+  const [hexRecordOptions, setHexRecordOptions] = useState<HexRecordOptions>(getDefaultHexRecordOptions());
+  const [baseAddressText, setBaseAddressText] = useState("0x0000");
+
+  // BDF font options
+  const [bdfOptions, setBdfOptions] = useState<BdfOptions>(getDefaultBdfOptions("", 8));
+
+  // PSF font options
+  const [psfOptions, setPsfOptions] = useState<PsfOptions>({ includeUnicodeTable: true });
+
+  // Unifont options
+  const [unifontOptions, setUnifontOptions] = useState<UnifontOptions>({ firstCodePoint: 0, useUnicodeMap: true });
+
+  // TTF/WOFF font options
+  const [fontOptions, setFontOptions] = useState<FontExportOptions>(getDefaultFontExportOptions("", 8));
+
+  // Game font atlas options
+  const [atlasOptions, setAtlasOptions] = useState<AtlasOptions>(getDefaultAtlasOptions(""));
 
   // PNG options
   const [pngOptions, setPngOptions] = useState<PngOptions>(getDefaultPngOptions());
@@ -128,6 +217,17 @@ export function ExportView() {
     getDefaultReferenceSheetOptions(""),
   );
 
+  // EPROM image options (the first placement is the exported set)
+  const [epromTargetId, setEpromTargetId] = useState("2716");
+  const [epromFillText, setEpromFillText] = useState("0xFF");
+  const [epromPlacements, setEpromPlacements] = useState<EpromPlacement[]>([]);
+
+  // System ROM patch options (find the font by its glyphs or use a given offset)
+  const [patchFile, setPatchFile] = useState<File | null>(null);
+  const [patchRomData, setPatchRomData] = useState<Uint8Array | null>(null);
+  const [patchMode, setPatchMode] = useState<RomPatchMode>("find");
+  const [patchOffsetText, setPatchOffsetText] = useState("0x0000");
+
   // Binary preview row index (navigates through rows, each row may have multiple bytes)
   const [previewRowIndex, setPreviewRowIndex] = useState(0);
 
@@ -150,8 +250,24 @@ export function ExportView() {
           setPadding(loaded.config.padding);
           setBitDirection(loaded.config.bitDirection);
           setByteOrder(loaded.config.byteOrder ?? "big");
+          setByteLayout(loaded.config.byteLayout ?? "row");
           setCHeaderOptions(getDefaultCHeaderOptions(loaded.metadata.name));
           setAssemblyOptions(getDefaultAssemblyOptions(loaded.metadata.name));
+          setMemoryInitOptions(getDefaultMemoryInitOptions(loaded.metadata.name));
+          setTemplateOptions((prev) => ({ ...prev, name: getDefaultAssemblyOptions(loaded.metadata.name).labelName }));
+          setUserTemplates(getUserCodeTemplates());
+          setBdfOptions(getDefaultBdfOptions(loaded.metadata.name, loaded.config.height));
+          setFontOptions(getDefaultFontExportOptions(loaded.metadata.name, loaded.config.height));
+          setAtlasOptions(getDefaultAtlasOptions(loaded.metadata.name));
+
+          // Target the set's own chip if its capacity is known, else the smallest EPROM it fits
+          const chip = loaded.metadata.chip ? getChipByPartNumber(loaded.metadata.chip) : undefined;
+          const chipTarget = chip && EPROM_TARGETS.find((target) => target.id === `chip-${chip.id}`);
+          const romSize = hasRomLayout(loaded.config)
+            ? getRomSize(loaded.characters.length, loaded.config)
+            : loaded.characters.length * bytesPerCharacter(loaded.config);
+          setEpromTargetId(chipTarget ? chipTarget.id : getSmallestEprom(romSize).id);
+          setEpromPlacements([{ setId: loaded.metadata.id, offsetText: "0x0000" }]);
 
           // Load saved color preset for export options
           const savedColors = getActiveColors();
@@ -176,28 +292,147 @@ export function ExportView() {
     loadCharacterSet();
   }, [id, getById]);
 
+  // Binary and hex record exports both write a ROM image
+  const isRomImage = format === "binary" || format === "hex" || format === "eprom";
+
+  // Target chip of the EPROM image
+  const epromTarget = EPROM_TARGETS.find((target) => target.id === epromTargetId) ?? EPROM_TARGETS[0];
+
+  // Characters written by the binary export (a single bank or the whole ROM)
+  const binaryCharacters = useMemo(() => {
+    if (!characterSet) return [];
+    const range =
+      isRomImage && exportBank >= 0 && characterSet.banks
+        ? getBankRange(characterSet.banks, exportBank)
+        : null;
+    return range ? characterSet.characters.slice(range.start, range.end) : characterSet.characters;
+  }, [characterSet, isRomImage, exportBank]);
+
   // Calculate export size
   const exportSize = useMemo(() => {
     if (!characterSet) return 0;
-    return characterSet.characters.length * bytesPerCharacter(characterSet.config);
-  }, [characterSet]);
+    if (format === "eprom") return epromTarget.size;
+    if (format === "patch" && patchRomData) return patchRomData.length;
+    const config = { ...characterSet.config, byteLayout };
+    if (isRomImage && keepRomLayout && hasRomLayout(config)) {
+      return getRomSize(binaryCharacters.length, config);
+    }
+    return binaryCharacters.length * bytesPerCharacter(config);
+  }, [characterSet, binaryCharacters, byteLayout, isRomImage, keepRomLayout, format, epromTarget.size, patchRomData]);
+
+  // Fill byte of unused EPROM space (invalid values fall back to 0xFF)
+  const epromFill = useMemo(() => {
+    const fill = parseByteOffset(epromFillText);
+    return fill !== null && fill <= 0xff ? fill : 0xff;
+  }, [epromFillText]);
+
+  // ROM data of the sets placed into the EPROM image
+  // The exported set uses the binary format options, other sets their own format.
+  // Gaps between ROM layout slots get the fill byte like the rest of the unused space.
+  const epromSegments = useMemo(() => {
+    if (!characterSet || format !== "eprom") return [];
+    const config = { ...characterSet.config, padding, bitDirection, byteOrder, byteLayout };
+    const segments: EpromSegment[] = [];
+
+    for (const placement of epromPlacements) {
+      const offset = parseByteOffset(placement.offsetText);
+      if (offset === null) continue;
+
+      if (placement.setId === characterSet.metadata.id) {
+        segments.push({
+          name: characterSet.metadata.name,
+          offset,
+          data: serializeCharacterRom(
+            binaryCharacters,
+            keepRomLayout ? config : getPackedConfig(config),
+            epromFill
+          ),
+        });
+      } else {
+        const serialized = librarySets.find((set) => set.metadata.id === placement.setId);
+        if (!serialized) continue;
+        const loaded = deserializeCharacterSet(serialized);
+        segments.push({
+          name: loaded.metadata.name,
+          offset,
+          data: serializeCharacterRom(loaded.characters, loaded.config, epromFill),
+        });
+      }
+    }
+    return segments;
+  }, [
+    characterSet,
+    format,
+    padding,
+    bitDirection,
+    byteOrder,
+    byteLayout,
+    epromPlacements,
+    binaryCharacters,
+    keepRomLayout,
+    librarySets,
+    epromFill,
+  ]);
+
+  // Build the EPROM image
+  const epromImage = useMemo(() => {
+    if (format !== "eprom") return null;
+    return buildEpromImage(epromSegments, epromTarget.size, epromFill);
+  }, [format, epromSegments, epromFill, epromTarget.size]);
+
+  // Set whose glyphs are searched in the ROM dump: the set this one was copied from, if it still exists
+  const patchReferenceSet = useMemo(() => {
+    if (!characterSet?.metadata.copiedFromId) return null;
+    const original = librarySets.find((set) => set.metadata.id === characterSet.metadata.copiedFromId);
+    if (!original) return null;
+    const loaded = deserializeCharacterSet(original);
+    const sameSize =
+      loaded.config.width === characterSet.config.width && loaded.config.height === characterSet.config.height;
+    return sameSize ? loaded : null;
+  }, [characterSet, librarySets]);
+
+  // Locate the font inside the uploaded ROM dump
+  const patchMatch = useMemo(() => {
+    if (!characterSet || format !== "patch" || !patchRomData || patchMode !== "find") return null;
+    const config = characterSet.config;
+    return (
+      (patchReferenceSet && findCharacterSetInRom(patchRomData, patchReferenceSet.characters, config)) ??
+      findCharacterSetInRom(patchRomData, characterSet.characters, config)
+    );
+  }, [characterSet, format, patchRomData, patchMode, patchReferenceSet]);
+
+  // Patch the ROM dump in the set's own binary format and diff the result
+  const patchResult = useMemo(() => {
+    if (!characterSet || format !== "patch" || !patchRomData) return null;
+    const offset = patchMode === "find" ? (patchMatch?.offset ?? null) : parseByteOffset(patchOffsetText);
+    if (offset === null) return null;
+    try {
+      const data = patchRom(patchRomData, characterSet.characters, characterSet.config, offset);
+      return { offset, data, diff: diffRoms(patchRomData, data), error: null };
+    } catch (e) {
+      return { offset, data: null, diff: null, error: e instanceof Error ? e.message : "Failed to patch ROM" };
+    }
+  }, [characterSet, format, patchRomData, patchMode, patchMatch, patchOffsetText]);
 
   // Get hex preview with raw bytes for both hex display and bit layout
   const hexPreviewData = useMemo(() => {
-    if (!characterSet || characterSet.characters.length === 0) {
+    if (!characterSet || binaryCharacters.length === 0) {
       return { hex: "", bytes: [] };
     }
-    const config = { ...characterSet.config, padding, bitDirection, byteOrder };
-    return getHexPreviewWithBytes(characterSet.characters, config, 512);
-  }, [characterSet, padding, bitDirection, byteOrder]);
+    const config = { ...characterSet.config, padding, bitDirection, byteOrder, byteLayout };
+    return getHexPreviewWithBytes(binaryCharacters, config, 512);
+  }, [characterSet, binaryCharacters, padding, bitDirection, byteOrder, byteLayout]);
 
   // Compute bit layout from the same bytes used in hex preview
   // Handles multi-byte rows (e.g., 12-pixel width = 2 bytes per row)
+  // Column-major layouts show one column per step instead of one row
   const bitLayout = useMemo(() => {
     if (!characterSet || characterSet.characters.length === 0) return null;
 
-    // Calculate bytes per line based on character width
-    const bpl = Math.ceil(characterSet.config.width / 8);
+    // Calculate bytes per line based on character width (height for columns)
+    const lineLength = byteLayout === "column" ? characterSet.config.height : characterSet.config.width;
+    const bpl = bytesPerLine(lineLength, characterSet.config.bitsPerPixel);
+    const dataBits = lineLength * (characterSet.config.bitsPerPixel ?? 1);
     const byteOffset = previewRowIndex * bpl;
 
     // Get all bytes for this row
@@ -212,30 +447,126 @@ export function ExportView() {
 
     // Calculate padding pattern
     const totalBits = bpl * 8;
-    const paddingBits = totalBits - characterSet.config.width;
+    const paddingBits = totalBits - dataBits;
     let paddingPattern = "";
     if (padding === "left") {
-      paddingPattern = "P".repeat(paddingBits) + "D".repeat(characterSet.config.width);
+      paddingPattern = "P".repeat(paddingBits) + "D".repeat(dataBits);
     } else {
-      paddingPattern = "D".repeat(characterSet.config.width) + "P".repeat(paddingBits);
+      paddingPattern = "D".repeat(dataBits) + "P".repeat(paddingBits);
     }
 
     return { bits, hex, padding: paddingPattern, rowIndex: previewRowIndex, bpl };
-  }, [characterSet, padding, previewRowIndex, hexPreviewData.bytes]);
+  }, [characterSet, padding, byteLayout, previewRowIndex, hexPreviewData.bytes]);
 
   // Get C header preview
   const cHeaderPreview = useMemo(() => {
     if (!characterSet || characterSet.characters.length === 0) return "";
-    const config = { ...characterSet.config, padding, bitDirection, byteOrder };
+    const config = { ...characterSet.config, padding, bitDirection, byteOrder, byteLayout };
     return exportToCHeader(characterSet.characters, config, cHeaderOptions);
-  }, [characterSet, padding, bitDirection, byteOrder, cHeaderOptions]);
+  }, [characterSet, padding, bitDirection, byteOrder, byteLayout, cHeaderOptions]);
+
+  // Get hex record preview (the first records are enough)
+  const hexRecordPreview = useMemo(() => {
+    if (!characterSet || binaryCharacters.length === 0) return "";
+    const config = { ...characterSet.config, padding, bitDirection, byteOrder, byteLayout };
+    return exportToHexRecords(
+      binaryCharacters.slice(0, 32),
+      getPackedConfig(config),
+      hexRecordOptions,
+      characterSet.metadata.name
+    );
+  }, [characterSet, binaryCharacters, padding, bitDirection, byteOrder, byteLayout, hexRecordOptions]);
+
+  // Get BDF preview
+  const bdfPreview = useMemo(() => {
+    if (!characterSet || characterSet.characters.length === 0) return "";
+    return exportToBdf(characterSet.characters.slice(0, 4), characterSet.config, bdfOptions);
+  }, [characterSet, bdfOptions]);
+
+  // Get Unifont preview
+  const unifontPreview = useMemo(() => {
+    if (!characterSet || characterSet.characters.length === 0) return "";
+    return exportToUnifont(
+      characterSet.characters.slice(0, 16),
+      characterSet.config,
+      unifontOptions,
+      characterSet.metadata.unicodeMap
+    );
+  }, [characterSet, unifontOptions]);
+
+  // Get atlas layout and descriptor preview
+  const atlasPreview = useMemo(() => {
+    if (!characterSet || characterSet.characters.length === 0) return null;
+    const layout = getAtlasLayout(
+      characterSet.characters,
+      characterSet.config,
+      atlasOptions,
+      characterSet.metadata.unicodeMap
+    );
+    return { layout, descriptor: exportToAtlasDescriptor(layout, atlasOptions) };
+  }, [characterSet, atlasOptions]);
 
   // Get assembly preview
   const assemblyPreview = useMemo(() => {
     if (!characterSet || characterSet.characters.length === 0) return "";
-    const config = { ...characterSet.config, padding, bitDirection, byteOrder };
+    const config = { ...characterSet.config, padding, bitDirection, byteOrder, byteLayout };
     return exportToAssembly(characterSet.characters, config, assemblyOptions);
-  }, [characterSet, padding, bitDirection, byteOrder, assemblyOptions]);
+  }, [characterSet, padding, bitDirection, byteOrder, byteLayout, assemblyOptions]);
+
+  // Get FPGA memory initialization preview
+  const memoryInitPreview = useMemo(() => {
+    if (!characterSet || characterSet.characters.length === 0 || !isMemoryInitFormat(codeOutputFormat)) return "";
+    const config = { ...characterSet.config, padding, bitDirection, byteOrder, byteLayout };
+    return exportToMemoryInit(characterSet.characters, config, codeOutputFormat, memoryInitOptions);
+  }, [characterSet, padding, bitDirection, byteOrder, byteLayout, codeOutputFormat, memoryInitOptions]);
+
+  // Selected code template
+  const codeTemplates = useMemo(() => [...BUILT_IN_CODE_TEMPLATES, ...userTemplates], [userTemplates]);
+  const codeTemplate = codeTemplates.find((template) => template.id === templateId) ?? codeTemplates[0];
+
+  // Extensions replaced when the output format changes: the built-in ones and those of the code templates
+  const filenameExtensionPattern = useMemo(() => {
+    const templateExtensions = codeTemplates
+      .map((template) => template.extension.replace(/^\./, ""))
+      .filter((extension) => extension.length > 0)
+      .map((extension) => extension.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const extensions = [
+      "bin|h|asm|inc|png|pdf|hex|srec|bdf|psf|ttf|woff|zip|mem|mif|coe|v|vhd|s|rs|py|js|txt",
+      ...templateExtensions,
+    ];
+    return new RegExp(`\\.(${extensions.join("|")})$`, "i");
+  }, [codeTemplates]);
+
+  // Update user templates and persist them
+  const updateUserTemplates = useCallback((update: (templates: CodeTemplate[]) => CodeTemplate[]) => {
+    setUserTemplates((prev) => {
+      const next = update(prev);
+      saveUserCodeTemplates(next);
+      return next;
+    });
+  }, []);
+
+  // Get code template preview (or the template error)
+  const templatePreview = useMemo(() => {
+    if (!characterSet || characterSet.characters.length === 0 || codeOutputFormat !== "template") {
+      return { content: "", error: null };
+    }
+    const config = { ...characterSet.config, padding, bitDirection, byteOrder, byteLayout };
+    try {
+      return {
+        content: renderCodeTemplate(
+          codeTemplate,
+          characterSet.characters,
+          config,
+          templateOptions,
+          characterSet.metadata.unicodeMap
+        ),
+        error: null,
+      };
+    } catch (e) {
+      return { content: "", error: e instanceof Error ? e.message : "Invalid template" };
+    }
+  }, [characterSet, padding, bitDirection, byteOrder, byteLayout, codeOutputFormat, codeTemplate, templateOptions]);
 
   // Get file extension based on format
   const getExtension = useCallback(() => {
@@ -243,11 +574,24 @@ export function ExportView() {
       return referenceSheetOptions.outputFormat === "pdf" ? ".pdf" : ".png";
     }
     if (format === "code") {
-      return codeOutputFormat === "c-header" ? ".h" : ".asm";
+      return codeOutputFormat === "template" ? codeTemplate.extension : getCodeExtension(codeOutputFormat);
+    }
+    if (format === "hex") {
+      return getHexRecordExtension(hexRecordOptions.outputFormat);
+    }
+    if (format === "font") {
+      return getFontExtension(fontOptions.outputFormat);
     }
     const formatInfo = EXPORT_FORMATS.find((f) => f.id === format);
     return formatInfo?.extension || ".bin";
-  }, [format, referenceSheetOptions.outputFormat, codeOutputFormat]);
+  }, [
+    format,
+    referenceSheetOptions.outputFormat,
+    codeOutputFormat,
+    codeTemplate.extension,
+    hexRecordOptions.outputFormat,
+    fontOptions.outputFormat,
+  ]);
 
   // Handle sheet background color change with automatic label color adjustment
   const handleSheetBackgroundChange = useCallback((newColor: string) => {
@@ -265,22 +609,34 @@ export function ExportView() {
   useEffect(() => {
     if (filename) {
       // Remove existing extension and add new one
-      const baseName = filename.replace(/\.(bin|h|asm|inc|png|pdf)$/i, "");
+      const baseName = filename.replace(filenameExtensionPattern, "");
       // For reference sheet format, use the outputFormat to determine extension
       if (format === "reference-sheet") {
         const cleanBase = baseName.replace(/-reference$/, "");
         const newExtension = referenceSheetOptions.outputFormat === "pdf" ? ".pdf" : ".png";
         setFilename(cleanBase + "-reference" + newExtension);
       } else if (format === "code") {
-        const newExtension = codeOutputFormat === "c-header" ? ".h" : ".asm";
-        setFilename(baseName + newExtension);
+        setFilename(
+          baseName + (codeOutputFormat === "template" ? codeTemplate.extension : getCodeExtension(codeOutputFormat))
+        );
+      } else if (format === "hex") {
+        setFilename(baseName + getHexRecordExtension(hexRecordOptions.outputFormat));
+      } else if (format === "font") {
+        setFilename(baseName + getFontExtension(fontOptions.outputFormat));
       } else {
         const newExtension = EXPORT_FORMATS.find((f) => f.id === format)?.extension || ".bin";
         setFilename(baseName + newExtension);
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- Intentionally excludes filename to prevent infinite loop when updating extension
-  }, [format, referenceSheetOptions.outputFormat, codeOutputFormat]);
+  }, [
+    format,
+    referenceSheetOptions.outputFormat,
+    codeOutputFormat,
+    codeTemplate.extension,
+    hexRecordOptions.outputFormat,
+    fontOptions.outputFormat,
+  ]);
 
   // Handle export
   const handleExport = useCallback(async () => {
@@ -294,6 +650,7 @@ export function ExportView() {
         padding,
         bitDirection,
         byteOrder,
+        byteLayout,
       };
 
       let blob: Blob;
@@ -301,13 +658,119 @@ export function ExportView() {
 
       switch (format) {
         case "binary": {
-          blob = createDownloadBlob(characterSet.characters, characterSet.config, exportConfig);
+          blob = createDownloadBlob(
+            binaryCharacters,
+            characterSet.config,
+            keepRomLayout ? exportConfig : getPackedConfig(exportConfig)
+          );
+          if (!exportFilename.endsWith(".bin")) {
+            exportFilename += ".bin";
+          }
+          break;
+        }
+
+        case "hex": {
+          const content = exportToHexRecords(
+            binaryCharacters,
+            keepRomLayout ? exportConfig : getPackedConfig(exportConfig),
+            hexRecordOptions,
+            characterSet.metadata.name
+          );
+          blob = new Blob([content], { type: "text/plain" });
+          const extension = getHexRecordExtension(hexRecordOptions.outputFormat);
+          if (!exportFilename.endsWith(extension)) {
+            exportFilename += extension;
+          }
+          break;
+        }
+
+        case "eprom": {
+          if (!epromImage) return;
+          blob = new Blob([epromImage.data.buffer as ArrayBuffer], { type: "application/octet-stream" });
           if (!exportFilename.endsWith(".bin")) {
             exportFilename += ".bin";
           }
           break;
         }
 
+        case "patch": {
+          if (!patchResult?.data) {
+            throw new Error("No ROM dump to patch");
+          }
+          blob = new Blob([patchResult.data.buffer as ArrayBuffer], { type: "application/octet-stream" });
+          if (!exportFilename.endsWith(".bin")) {
+            exportFilename += ".bin";
+          }
+          break;
+        }
+
+        case "bdf": {
+          const content = exportToBdf(characterSet.characters, characterSet.config, bdfOptions);
+          blob = new Blob([content], { type: "application/x-font-bdf" });
+          if (!exportFilename.endsWith(".bdf")) {
+            exportFilename += ".bdf";
+          }
+          break;
+        }
+
+        case "psf": {
+          const data = exportToPsf2(
+            characterSet.characters,
+            characterSet.config,
+            psfOptions,
+            characterSet.metadata.unicodeMap
+          );
+          blob = new Blob([data.buffer as ArrayBuffer], { type: "application/octet-stream" });
+          if (!exportFilename.endsWith(".psf")) {
+            exportFilename += ".psf";
+          }
+          break;
+        }
+
+        case "unifont": {
+          const content = exportToUnifont(
+            characterSet.characters,
+            characterSet.config,
+            unifontOptions,
+            characterSet.metadata.unicodeMap
+          );
+          blob = new Blob([content], { type: "text/plain" });
+          if (!exportFilename.endsWith(".hex")) {
+            exportFilename += ".hex";
+          }
+          break;
+        }
+
+        case "font": {
+          const data = await exportToFont(
+            characterSet.characters,
+            characterSet.config,
+            fontOptions,
+            characterSet.metadata.unicodeMap
+          );
+          const extension = getFontExtension(fontOptions.outputFormat);
+          blob = new Blob([data.buffer as ArrayBuffer], {
+            type: fontOptions.outputFormat === "woff" ? "font/woff" : "font/ttf",
+          });
+          if (!exportFilename.endsWith(extension)) {
+            exportFilename += extension;
+          }
+          break;
+        }
+
+        case "atlas": {
+          blob = await exportToAtlas(
+            characterSet.characters,
+            characterSet.config,
+            atlasOptions,
+            characterSet.metadata.unicodeMap
+          );
+          if (!exportFilename.endsWith(".zip")) {
+            exportFilename += ".zip";
+          }
+          break;
+        }
+
         case "code": {
           if (codeOutputFormat === "c-header") {
             const content = exportToCHeader(characterSet.characters, exportConfig, cHeaderOptions);
@@ -315,12 +778,36 @@ export function ExportView() {
             if (!exportFilename.endsWith(".h")) {
               exportFilename += ".h";
             }
-          } else {
+          } else if (codeOutputFormat === "assembly") {
             const content = exportToAssembly(characterSet.characters, exportConfig, assemblyOptions);
             blob = new Blob([content], { type: "text/plain" });
             if (!exportFilename.endsWith(".asm") && !exportFilename.endsWith(".inc")) {
               exportFilename += ".asm";
             }
+          } else if (codeOutputFormat === "template") {
+            const content = renderCodeTemplate(
+              codeTemplate,
+              characterSet.characters,
+              exportConfig,
+              templateOptions,
+              characterSet.metadata.unicodeMap
+            );
+            blob = new Blob([content], { type: "text/plain" });
+            if (codeTemplate.extension && !exportFilename.endsWith(codeTemplate.extension)) {
+              exportFilename += codeTemplate.extension;
+            }
+          } else {
+            const content = exportToMemoryInit(
+              characterSet.characters,
+              exportConfig,
+              codeOutputFormat,
+              memoryInitOptions
+            );
+            blob = new Blob([content], { type: "text/plain" });
+            const extension = getCodeExtension(codeOutputFormat);
+            if (!exportFilename.endsWith(extension)) {
+              exportFilename += extension;
+            }
           }
           break;
         }
@@ -335,12 +822,22 @@ export function ExportView() {
 
         case "reference-sheet": {
           if (referenceSheetOptions.outputFormat === "pdf") {
-            blob = await exportToReferenceSheetPdf(characterSet.characters, characterSet.config, referenceSheetOptions);
+            blob = await exportToReferenceSheetPdf(
+              characterSet.characters,
+              characterSet.config,
+              referenceSheetOptions,
+              characterSet.metadata.unicodeMap
+            );
             if (!exportFilename.endsWith(".pdf")) {
               exportFilename += ".pdf";
             }
           } else {
-            blob = await exportToReferenceSheet(characterSet.characters, characterSet.config, referenceSheetOptions);
+            blob = await exportToReferenceSheet(
+              characterSet.characters,
+              characterSet.config,
+              referenceSheetOptions,
+              characterSet.metadata.unicodeMap
+            );
             if (!exportFilename.endsWith(".png")) {
               exportFilename += ".png";
             }
@@ -360,14 +857,28 @@ export function ExportView() {
     }
   }, [
     characterSet,
+    binaryCharacters,
     format,
     filename,
     padding,
     bitDirection,
     byteOrder,
+    byteLayout,
+    keepRomLayout,
+    hexRecordOptions,
+    bdfOptions,
+    psfOptions,
+    unifontOptions,
+    fontOptions,
+    atlasOptions,
     codeOutputFormat,
     cHeaderOptions,
     assemblyOptions,
+    memoryInitOptions,
+    epromImage,
+    patchResult,
+    codeTemplate,
+    templateOptions,
     pngOptions,
     referenceSheetOptions,
   ]);
@@ -456,7 +967,13 @@ export function ExportView() {
                         {f.name}
                       </span>
                       <span className="text-xs text-gray-500">
-                        {f.id === "reference-sheet" ? ".png/.pdf" : f.id === "code" ? ".h/.asm" : f.extension}
+                        {f.id === "reference-sheet"
+                          ? ".png/.pdf"
+                          : f.id === "code"
+                            ? ".h/.asm"
+                            : f.id === "hex"
+                              ? ".hex/.srec"
+                              : f.extension}
                       </span>
                     </div>
                     <p className="text-xs text-gray-500 mt-1">{f.description}</p>
@@ -485,57 +1002,515 @@ export function ExportView() {
                 </div>
 
                 {/* Binary options */}
-                {format === "binary" && (
+                {isRomImage && characterSet?.banks && hasMultipleBanks(characterSet.banks) && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-400 mb-1">Bank</label>
+                    <SingleSelectDropdown
+                      options={[
+                        { value: -1, label: "All banks (whole ROM)" },
+                        ...characterSet.banks.map((bank, index) => ({
+                          value: index,
+                          label: `${bank.name} (${bank.characterCount} characters)`,
+                        })),
+                      ]}
+                      value={exportBank}
+                      onChange={setExportBank}
+                      ariaLabel="Bank"
+                      numericSort
+                    />
+                  </div>
+                )}
+
+                {isRomImage && (
                   <BinaryFormatSection
                     padding={padding}
                     bitDirection={bitDirection}
                     byteOrder={byteOrder}
                     onPaddingChange={setPadding}
                     onBitDirectionChange={setBitDirection}
+                    byteLayout={byteLayout}
                     onByteOrderChange={setByteOrder}
+                    onByteLayoutChange={setByteLayout}
                     characterWidth={characterSet?.config.width}
+                    characterHeight={characterSet?.config.height}
                     initialChipName={characterSet?.metadata.chip}
                     initialSystemName={characterSet?.metadata.system}
                   />
                 )}
 
-                {/* Code options (C Header or Assembly) */}
-                {format === "code" && (
+                {isRomImage && characterSet && hasRomLayout(characterSet.config) && (
+                  <div>
+                    <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                      <ToggleSwitch checked={keepRomLayout} onChange={setKeepRomLayout} />
+                      Keep original ROM layout (stride, skip and split)
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Turn off to export tightly packed characters
+                    </p>
+                  </div>
+                )}
+
+                {/* EPROM image options */}
+                {format === "eprom" && characterSet && (
+                  <EpromBuilderSection
+                    targets={EPROM_TARGETS}
+                    targetId={epromTarget.id}
+                    onTargetChange={setEpromTargetId}
+                    fillText={epromFillText}
+                    onFillTextChange={setEpromFillText}
+                    placements={epromPlacements}
+                    onPlacementsChange={setEpromPlacements}
+                    segments={epromSegments}
+                    characterSet={{ id: characterSet.metadata.id, name: characterSet.metadata.name }}
+                    librarySets={librarySets}
+                  />
+                )}
+
+                {/* System ROM patch options */}
+                {format === "patch" && characterSet && (
+                  <RomPatchPanel
+                    romFile={patchFile}
+                    romData={patchRomData}
+                    onRomLoad={(file, data) => {
+                      setPatchFile(file);
+                      setPatchRomData(data);
+                      setFilename(`${file.name.replace(/\.[^.]+$/, "")}-patched.bin`);
+                    }}
+                    mode={patchMode}
+                    onModeChange={setPatchMode}
+                    offsetText={patchOffsetText}
+                    onOffsetTextChange={setPatchOffsetText}
+                    referenceName={patchReferenceSet?.metadata.name ?? null}
+                    match={patchMatch}
+                    characterCount={characterSet.characters.length}
+                    error={patchResult?.error ?? null}
+                  />
+                )}
+
+                {/* Intel HEX / S-record options */}
+                {format === "hex" && (
                   <>
                     <div>
-                      <label className="block text-xs font-medium text-gray-400 mb-1">Output Format</label>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Record Format</label>
                       <div className="flex gap-2">
                         <button
-                          onClick={() => setCodeOutputFormat("c-header")}
+                          onClick={() => setHexRecordOptions({ ...hexRecordOptions, outputFormat: "intel-hex" })}
                           className={`flex-1 px-3 py-2 text-xs rounded border transition-colors ${
-                            codeOutputFormat === "c-header"
+                            hexRecordOptions.outputFormat === "intel-hex"
                               ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
                               : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
                           }`}
                         >
-                          C/C++ Header
+                          Intel HEX
                         </button>
                         <button
-                          onClick={() => setCodeOutputFormat("assembly")}
+                          onClick={() => setHexRecordOptions({ ...hexRecordOptions, outputFormat: "srec" })}
                           className={`flex-1 px-3 py-2 text-xs rounded border transition-colors ${
-                            codeOutputFormat === "assembly"
+                            hexRecordOptions.outputFormat === "srec"
                               ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
                               : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
                           }`}
                         >
-                          Assembly
+                          Motorola S-Record
                         </button>
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Base Address</label>
+                        <input
+                          type="text"
+                          value={baseAddressText}
+                          onChange={(e) => {
+                            setBaseAddressText(e.target.value);
+                            const address = parseByteOffset(e.target.value);
+                            if (address !== null) {
+                              setHexRecordOptions({ ...hexRecordOptions, baseAddress: address });
+                            }
+                          }}
+                          className={`w-full px-3 py-2 bg-retro-dark border rounded text-sm text-white font-mono focus:outline-none focus:border-retro-cyan ${
+                            parseByteOffset(baseAddressText) === null ? "border-red-500" : "border-retro-grid/50"
+                          }`}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Bytes per Record</label>
+                        <SingleSelectDropdown
+                          options={[
+                            { value: 8, label: "8" },
+                            { value: 16, label: "16" },
+                            { value: 32, label: "32" },
+                          ]}
+                          value={hexRecordOptions.recordSize}
+                          onChange={(value) => setHexRecordOptions({ ...hexRecordOptions, recordSize: value })}
+                          ariaLabel="Bytes per Record"
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                {/* BDF font options */}
+                {format === "bdf" && characterSet && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Font Name</label>
+                      <input
+                        type="text"
+                        value={bdfOptions.fontName}
+                        onChange={(e) => setBdfOptions({ ...bdfOptions, fontName: e.target.value })}
+                        className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">First Encoding</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={65535}
+                          value={bdfOptions.firstEncoding}
+                          onChange={(e) =>
+                            setBdfOptions({ ...bdfOptions, firstEncoding: Math.max(0, parseInt(e.target.value) || 0) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Descent (rows)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={characterSet.config.height}
+                          value={bdfOptions.descent}
+                          onChange={(e) =>
+                            setBdfOptions({ ...bdfOptions, descent: Math.max(0, parseInt(e.target.value) || 0) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Descent is the number of rows below the baseline. Character 0 gets the first encoding.
+                    </p>
+                  </>
+                )}
+
+                {/* PSF font options */}
+                {format === "psf" && characterSet && (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                        <ToggleSwitch
+                          checked={psfOptions.includeUnicodeTable}
+                          onChange={(checked) => setPsfOptions({ ...psfOptions, includeUnicodeTable: checked })}
+                        />
+                        Include Unicode table
+                      </label>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {characterSet.metadata.unicodeMap
+                          ? "Uses the Unicode mapping of this character set"
+                          : "Maps each character index to the same code point"}
+                      </p>
+                    </div>
+                    {characterSet.characters.length > 512 && (
+                      <p className="text-xs text-retro-amber">
+                        The Linux console can load at most 512 glyphs.
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Load the font with <code className="text-retro-cyan">setfont {filename || "charset.psf"}</code>
+                    </p>
+                  </div>
+                )}
+
+                {/* Unifont options */}
+                {format === "unifont" && characterSet && (
+                  <div className="space-y-3">
+                    {characterSet.metadata.unicodeMap && (
+                      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                        <ToggleSwitch
+                          checked={unifontOptions.useUnicodeMap}
+                          onChange={(checked) => setUnifontOptions({ ...unifontOptions, useUnicodeMap: checked })}
+                        />
+                        Use the Unicode mapping of this character set
+                      </label>
+                    )}
+                    {!(characterSet.metadata.unicodeMap && unifontOptions.useUnicodeMap) && (
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">First Code Point</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={0x10ffff}
+                          value={unifontOptions.firstCodePoint}
+                          onChange={(e) =>
+                            setUnifontOptions({
+                              ...unifontOptions,
+                              firstCodePoint: Math.min(0x10ffff, Math.max(0, parseInt(e.target.value) || 0)),
+                            })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Character 0 becomes U+
+                          {unifontOptions.firstCodePoint.toString(16).toUpperCase().padStart(4, "0")}
+                        </p>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Glyphs are written {characterSet.config.width <= 8 ? "8x16" : "16x16"}
+                      {characterSet.config.height < 16 && ", padded with blank rows at the bottom"}.
+                    </p>
+                  </div>
+                )}
+
+                {/* TTF/WOFF font options */}
+                {format === "font" && characterSet && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Output Format</label>
+                      <div className="flex gap-2">
+                        {(["ttf", "woff"] as const).map((outputFormat) => (
+                          <button
+                            key={outputFormat}
+                            onClick={() => setFontOptions({ ...fontOptions, outputFormat })}
+                            className={`flex-1 px-3 py-2 text-xs rounded border transition-colors ${
+                              fontOptions.outputFormat === outputFormat
+                                ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+                                : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+                            }`}
+                          >
+                            {outputFormat === "ttf" ? "TrueType (.ttf)" : "Web Font (.woff)"}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Font Name</label>
+                      <input
+                        type="text"
+                        value={fontOptions.fontName}
+                        onChange={(e) => setFontOptions({ ...fontOptions, fontName: e.target.value })}
+                        className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Em Size</label>
+                        <input
+                          type="number"
+                          min={16}
+                          max={16384}
+                          value={fontOptions.unitsPerEm}
+                          onChange={(e) =>
+                            setFontOptions({ ...fontOptions, unitsPerEm: Math.min(16384, Math.max(16, parseInt(e.target.value) || 0)) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Ascent</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={16384}
+                          value={fontOptions.ascent}
+                          onChange={(e) =>
+                            setFontOptions({ ...fontOptions, ascent: Math.min(16384, Math.max(0, parseInt(e.target.value) || 0)) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Descent</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={16384}
+                          value={fontOptions.descent}
+                          onChange={(e) =>
+                            setFontOptions({ ...fontOptions, descent: Math.min(16384, Math.max(0, parseInt(e.target.value) || 0)) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Sizes are in font units. Ascent and descent together span the{" "}
+                      {characterSet.config.height} rows, so each pixel is{" "}
+                      {+((fontOptions.ascent + fontOptions.descent) / characterSet.config.height).toFixed(2)} units.{" "}
+                      {characterSet.metadata.unicodeMap
+                        ? "Characters are mapped by the Unicode mapping of this character set."
+                        : "Characters 32-126 are mapped as ASCII."}
+                    </p>
+                  </>
+                )}
+
+                {/* Game font atlas options */}
+                {format === "atlas" && characterSet && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Descriptor Format</label>
+                      <div className="flex gap-2">
+                        {(
+                          [
+                            ["fnt-text", "BMFont Text"],
+                            ["fnt-xml", "BMFont XML"],
+                            ["json", "JSON"],
+                          ] as [AtlasDescriptorFormat, string][]
+                        ).map(([descriptorFormat, label]) => (
+                          <button
+                            key={descriptorFormat}
+                            onClick={() => setAtlasOptions({ ...atlasOptions, descriptorFormat })}
+                            className={`flex-1 px-3 py-2 text-xs rounded border transition-colors ${
+                              atlasOptions.descriptorFormat === descriptorFormat
+                                ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+                                : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Font Name</label>
+                      <input
+                        type="text"
+                        value={atlasOptions.fontName}
+                        onChange={(e) => setAtlasOptions({ ...atlasOptions, fontName: e.target.value })}
+                        className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Columns</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={256}
+                          value={atlasOptions.columns}
+                          onChange={(e) =>
+                            setAtlasOptions({ ...atlasOptions, columns: Math.min(256, Math.max(1, parseInt(e.target.value) || 0)) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Scale</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={16}
+                          value={atlasOptions.scale}
+                          onChange={(e) =>
+                            setAtlasOptions({ ...atlasOptions, scale: Math.min(16, Math.max(1, parseInt(e.target.value) || 0)) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Padding</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={16}
+                          value={atlasOptions.padding}
+                          onChange={(e) =>
+                            setAtlasOptions({ ...atlasOptions, padding: Math.min(16, Math.max(0, parseInt(e.target.value) || 0)) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-400 mb-1">Spacing</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={16}
+                          value={atlasOptions.spacing}
+                          onChange={(e) =>
+                            setAtlasOptions({ ...atlasOptions, spacing: Math.min(16, Math.max(0, parseInt(e.target.value) || 0)) })
+                          }
+                          className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                      <input
+                        type="color"
+                        value={atlasOptions.foregroundColor}
+                        onChange={(e) => setAtlasOptions({ ...atlasOptions, foregroundColor: e.target.value })}
+                        className="w-6 h-6 rounded border border-retro-grid/50 cursor-pointer"
+                        title="Glyph color"
+                      />
+                      Glyph color on a transparent background
+                    </div>
+
+                    <div>
+                      <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                        <ToggleSwitch
+                          checked={atlasOptions.useUnicodeIds}
+                          onChange={(checked) => setAtlasOptions({ ...atlasOptions, useUnicodeIds: checked })}
+                        />
+                        Use code points as character IDs
+                      </label>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {!atlasOptions.useUnicodeIds
+                          ? "Each character ID is its index in the set"
+                          : characterSet.metadata.unicodeMap
+                            ? "Uses the Unicode mapping of this character set"
+                            : "Characters 32-126 get their ASCII code"}
+                      </p>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Downloads a zip with {getAtlasFileNames(atlasOptions).image} and{" "}
+                      {getAtlasFileNames(atlasOptions).descriptor}.
+                    </p>
+                  </>
+                )}
+
+                {/* Code options (C Header, Assembly or FPGA memory) */}
+                {format === "code" && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-400 mb-1">Output Format</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {CODE_OUTPUT_FORMATS.map((outputFormat) => (
+                          <button
+                            key={outputFormat.id}
+                            onClick={() => setCodeOutputFormat(outputFormat.id)}
+                            className={`px-3 py-2 text-xs rounded border transition-colors ${
+                              codeOutputFormat === outputFormat.id
+                                ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+                                : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+                            }`}
+                          >
+                            {outputFormat.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
                     <BinaryFormatSection
                       padding={padding}
                       bitDirection={bitDirection}
                       byteOrder={byteOrder}
                       onPaddingChange={setPadding}
                       onBitDirectionChange={setBitDirection}
+                      byteLayout={byteLayout}
                       onByteOrderChange={setByteOrder}
+                      onByteLayoutChange={setByteLayout}
                       characterWidth={characterSet?.config.width}
+                      characterHeight={characterSet?.config.height}
                       initialChipName={characterSet?.metadata.chip}
                       initialSystemName={characterSet?.metadata.system}
                     />
@@ -638,6 +1613,123 @@ export function ExportView() {
                         </div>
                       </>
                     )}
+
+                    {/* Code template options */}
+                    {codeOutputFormat === "template" && (
+                      <>
+                        <CodeTemplateEditor
+                          templates={codeTemplates}
+                          selectedId={codeTemplate.id}
+                          onSelect={setTemplateId}
+                          onAdd={(template) => updateUserTemplates((prev) => [...prev, template])}
+                          onUpdate={(template) =>
+                            updateUserTemplates((prev) => prev.map((t) => (t.id === template.id ? template : t)))
+                          }
+                          onDelete={(id) => {
+                            updateUserTemplates((prev) => prev.filter((t) => t.id !== id));
+                            setTemplateId(BUILT_IN_CODE_TEMPLATES[0].id);
+                          }}
+                        />
+
+                        <div>
+                          <label className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+                          <input
+                            type="text"
+                            value={templateOptions.name}
+                            onChange={(e) => setTemplateOptions({ ...templateOptions, name: e.target.value })}
+                            className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan font-mono"
+                          />
+                        </div>
+
+                        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                          <ToggleSwitch
+                            checked={templateOptions.includeComments}
+                            onChange={(checked) => setTemplateOptions({ ...templateOptions, includeComments: checked })}
+                          />
+                          Include comments
+                        </label>
+                      </>
+                    )}
+
+                    {/* FPGA memory initialization options */}
+                    {isMemoryInitFormat(codeOutputFormat) && (
+                      <>
+                        {(codeOutputFormat === "verilog" || codeOutputFormat === "vhdl") && (
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-1">
+                              {codeOutputFormat === "vhdl" ? "Entity Name" : "Module Name"}
+                            </label>
+                            <input
+                              type="text"
+                              value={memoryInitOptions.moduleName}
+                              onChange={(e) => setMemoryInitOptions({ ...memoryInitOptions, moduleName: e.target.value })}
+                              className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan font-mono"
+                            />
+                          </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-xs font-medium text-gray-400 mb-1">Data Width</label>
+                            <SingleSelectDropdown
+                              options={[
+                                { value: 8, label: "8 bits" },
+                                { value: 16, label: "16 bits" },
+                                { value: 32, label: "32 bits" },
+                              ]}
+                              value={memoryInitOptions.dataWidth}
+                              onChange={(value) =>
+                                setMemoryInitOptions({
+                                  ...memoryInitOptions,
+                                  dataWidth: value as MemoryInitOptions["dataWidth"],
+                                })
+                              }
+                              ariaLabel="Data width"
+                            />
+                          </div>
+                          {codeOutputFormat === "mem" && (
+                            <div>
+                              <label className="block text-xs font-medium text-gray-400 mb-1">Radix</label>
+                              <SingleSelectDropdown
+                                options={[
+                                  { value: "hex", label: "Hex ($readmemh)" },
+                                  { value: "binary", label: "Binary ($readmemb)" },
+                                ]}
+                                value={memoryInitOptions.memRadix}
+                                onChange={(value) =>
+                                  setMemoryInitOptions({
+                                    ...memoryInitOptions,
+                                    memRadix: value as MemoryInitOptions["memRadix"],
+                                  })
+                                }
+                                ariaLabel="Radix"
+                              />
+                            </div>
+                          )}
+                        </div>
+
+                        <div className="space-y-2">
+                          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                            <ToggleSwitch
+                              checked={memoryInitOptions.padToPowerOfTwo}
+                              onChange={(checked) =>
+                                setMemoryInitOptions({ ...memoryInitOptions, padToPowerOfTwo: checked })
+                              }
+                            />
+                            Pad depth to a power of two
+                          </label>
+                          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+                            <ToggleSwitch
+                              checked={memoryInitOptions.includeComments}
+                              onChange={(checked) =>
+                                setMemoryInitOptions({ ...memoryInitOptions, includeComments: checked })
+                              }
+                            />
+                            Include comments
+                          </label>
+                        </div>
+                      </>
+                    )}
                   </>
                 )}
 
@@ -1104,7 +2196,18 @@ export function ExportView() {
 
                 {/* Download button */}
                 <div className="pt-4">
-                  <Button onClick={handleExport} variant="pink" className="w-full" disabled={exporting}>
+                  {format === "eprom" && epromImage && epromImage.warnings.length > 0 && (
+                    <p className="text-xs text-retro-amber mb-2">
+                      The image has {epromImage.warnings.length} placement warning
+                      {epromImage.warnings.length === 1 ? "" : "s"}, data may be cut off or overwritten
+                    </p>
+                  )}
+                  <Button
+                    onClick={handleExport}
+                    variant="pink"
+                    className="w-full"
+                    disabled={exporting || (format === "patch" && !patchResult?.data)}
+                  >
                     {exporting ? (
                       <>
                         <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2" />
@@ -1169,7 +2272,7 @@ export function ExportView() {
                                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
                                   </svg>
                                 </button>
-                                <span className="text-xs font-mono text-retro-cyan text-center min-w-[40px]" title={`Row ${previewRowIndex}`}>
+                                <span className="text-xs font-mono text-retro-cyan text-center min-w-[40px]" title={`${byteLayout === "column" ? "Column" : "Row"} ${previewRowIndex}`}>
                                   {bitLayout.hex}
                                 </span>
                                 <button
@@ -1232,7 +2335,131 @@ export function ExportView() {
                   </div>
                 )}
 
-                {/* Code preview (C Header or Assembly) */}
+                {/* EPROM image summary */}
+                {format === "eprom" && epromImage && (
+                  <EpromImageSummary target={epromTarget} segments={epromSegments} image={epromImage} />
+                )}
+
+                {/* System ROM patch diff */}
+                {format === "patch" && (
+                  <RomPatchDiff
+                    hasRom={patchRomData !== null}
+                    diff={patchResult?.diff ?? null}
+                    offset={patchResult?.offset ?? 0}
+                  />
+                )}
+
+                {/* Hex record preview */}
+                {format === "hex" && hexRecordPreview && (
+                  <div className="relative">
+                    <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
+                      {hexRecordPreview.split("\n").slice(0, 25).join("\n")}
+                    </div>
+                    {exportSize > 25 * hexRecordOptions.recordSize && (
+                      <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black/80 to-transparent rounded-b pointer-events-none flex items-end justify-center pb-2">
+                        <span className="text-[10px] text-gray-500 bg-black/60 px-2 py-0.5 rounded">
+                          {formatFileSize(exportSize)} ROM image
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* BDF preview */}
+                {format === "bdf" && bdfPreview && (
+                  <div className="relative">
+                    <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
+                      {bdfPreview.split("\n").slice(0, 25).join("\n")}
+                    </div>
+                    <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black/80 to-transparent rounded-b pointer-events-none flex items-end justify-center pb-2">
+                      <span className="text-[10px] text-gray-500 bg-black/60 px-2 py-0.5 rounded">
+                        {characterSet?.characters.length} glyphs
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Unifont preview */}
+                {format === "unifont" && unifontPreview && (
+                  <div className="relative">
+                    <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
+                      {unifontPreview.split("\n").slice(0, 16).join("\n")}
+                    </div>
+                    <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black/80 to-transparent rounded-b pointer-events-none flex items-end justify-center pb-2">
+                      <span className="text-[10px] text-gray-500 bg-black/60 px-2 py-0.5 rounded">
+                        {characterSet?.characters.length} glyphs
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {/* PSF preview */}
+                {format === "psf" && characterSet && (
+                  <div className="bg-black/50 rounded p-3 font-mono text-xs text-gray-300 space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Format:</span>
+                      <span>PSF2</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Glyphs:</span>
+                      <span>{characterSet.characters.length}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Glyph size:</span>
+                      <span>
+                        {characterSet.config.width}x{characterSet.config.height} (
+                        {Math.ceil(characterSet.config.width / 8) * characterSet.config.height} bytes)
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Unicode table:</span>
+                      <span>{psfOptions.includeUnicodeTable ? "Yes" : "No"}</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Game font atlas preview */}
+                {format === "atlas" && atlasPreview && (
+                  <div className="relative">
+                    <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
+                      {atlasPreview.descriptor.split("\n").slice(0, 25).join("\n")}
+                    </div>
+                    <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black/80 to-transparent rounded-b pointer-events-none flex items-end justify-center pb-2">
+                      <span className="text-[10px] text-gray-500 bg-black/60 px-2 py-0.5 rounded">
+                        {atlasPreview.layout.glyphs.length} glyphs, {atlasPreview.layout.width}x
+                        {atlasPreview.layout.height} atlas
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {/* TTF/WOFF font preview */}
+                {format === "font" && characterSet && (
+                  <div className="bg-black/50 rounded p-3 font-mono text-xs text-gray-300 space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Format:</span>
+                      <span>{fontOptions.outputFormat === "woff" ? "WOFF" : "TrueType"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Family:</span>
+                      <span>{fontOptions.fontName || "Character Set"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Glyph size:</span>
+                      <span>
+                        {characterSet.config.width}x{characterSet.config.height} pixels
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-500">Em box:</span>
+                      <span>
+                        {fontOptions.unitsPerEm} units (+{fontOptions.ascent} / -{fontOptions.descent})
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Code preview (C Header, Assembly or FPGA memory) */}
                 {format === "code" && (
                   <>
                     {codeOutputFormat === "c-header" && cHeaderPreview && (
@@ -1249,6 +2476,37 @@ export function ExportView() {
                         )}
                       </div>
                     )}
+                    {isMemoryInitFormat(codeOutputFormat) && memoryInitPreview && (
+                      <div className="relative">
+                        <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
+                          {memoryInitPreview.split("\n").slice(0, 25).join("\n")}
+                        </div>
+                        {memoryInitPreview.split("\n").length > 25 && (
+                          <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black/80 to-transparent rounded-b pointer-events-none flex items-end justify-center pb-2">
+                            <span className="text-[10px] text-gray-500 bg-black/60 px-2 py-0.5 rounded">
+                              {memoryInitPreview.split("\n").length - 25} more lines
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {codeOutputFormat === "template" && templatePreview.error && (
+                      <div className="bg-black/50 rounded p-3 font-mono text-xs text-red-400">{templatePreview.error}</div>
+                    )}
+                    {codeOutputFormat === "template" && templatePreview.content && (
+                      <div className="relative">
+                        <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
+                          {templatePreview.content.split("\n").slice(0, 25).join("\n")}
+                        </div>
+                        {templatePreview.content.split("\n").length > 25 && (
+                          <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black/80 to-transparent rounded-b pointer-events-none flex items-end justify-center pb-2">
+                            <span className="text-[10px] text-gray-500 bg-black/60 px-2 py-0.5 rounded">
+                              {templatePreview.content.split("\n").length - 25} more lines
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    )}
                     {codeOutputFormat === "assembly" && assemblyPreview && (
                       <div className="relative">
                         <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
@@ -1394,6 +2652,8 @@ export function ExportView() {
                                 const charIdx = rowIdx * referenceSheetOptions.columns + colIdx;
                                 const char = characterSet.characters[charIdx];
                                 if (!char) return null;
+                                const codePoint = getIndexCodePoint(charIdx, characterSet.metadata.unicodeMap);
+                                const isPrintable = codePoint !== null && isPrintableCodePoint(codePoint);
 
                                 return (
                                   <div
@@ -1449,16 +2709,16 @@ export function ExportView() {
                                           {charIdx.toString(2).padStart(8, "0")}
                                         </div>
                                       )}
-                                      {referenceSheetOptions.showAscii && charIdx >= 32 && charIdx <= 126 && (
+                                      {referenceSheetOptions.showAscii && isPrintable && (
                                         <div
                                           className="text-[7px] font-mono"
                                           style={{ color: referenceSheetOptions.asciiColor }}
                                         >
-                                          {String.fromCharCode(charIdx)}
+                                          {String.fromCodePoint(codePoint)}
                                         </div>
                                       )}
                                       {referenceSheetOptions.showNonPrintableAscii &&
-                                        (charIdx < 32 || charIdx === 127) && (
+                                        !isPrintable && (
                                           <div
                                             className="text-[5px] font-mono"
                                             style={{ color: referenceSheetOptions.nonPrintableAsciiColor }}
@@ -1496,7 +2756,7 @@ export function ExportView() {
                                               "GS",
                                               "RS",
                                               "US",
-                                            ][charIdx] || (charIdx === 127 ? "DEL" : "")}
+                                            ][codePoint ?? -1] || (codePoint === 127 ? "DEL" : "")}
                                           </div>
                                         )}
                                     </div>
@@ -1541,7 +2801,8 @@ export function ExportView() {
                           {Array.from({ length: Math.min(characterSet.characters.length, 8) }).map((_, charIdx) => {
                             const char = characterSet.characters[charIdx];
                             if (!char) return null;
-                            const isPrintable = charIdx >= 32 && charIdx <= 126;
+                            const codePoint = getIndexCodePoint(charIdx, characterSet.metadata.unicodeMap);
+                            const isPrintable = codePoint !== null && isPrintableCodePoint(codePoint);
 
                             return (
                               <div key={charIdx} className="flex gap-3 items-center text-[6px] font-mono py-0.5">
@@ -1594,7 +2855,7 @@ export function ExportView() {
                                     }}
                                   >
                                     {isPrintable && referenceSheetOptions.showAscii
-                                      ? String.fromCharCode(charIdx)
+                                      ? String.fromCodePoint(codePoint)
                                       : !isPrintable && referenceSheetOptions.showNonPrintableAscii
                                       ? [
                                           "NUL",
@@ -1629,7 +2890,7 @@ export function ExportView() {
                                           "GS",
                                           "RS",
                                           "US",
-                                        ][charIdx] || (charIdx === 127 ? "DEL" : "")
+                                        ][codePoint ?? -1] || (codePoint === 127 ? "DEL" : "")
                                       : ""}
                                   </div>
                                 )}
@@ -1667,7 +2928,7 @@ export function ExportView() {
                 <div className="mt-4 pt-4 border-t border-retro-grid/30 text-xs text-gray-500 space-y-1">
                   <div className="flex justify-between">
                     <span>Characters:</span>
-                    <span>{characterSet?.characters.length}</span>
+                    <span>{binaryCharacters.length}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Dimensions:</span>
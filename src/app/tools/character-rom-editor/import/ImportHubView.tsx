@@ -79,6 +79,48 @@ const IMPORT_OPTIONS: ImportOption[] = [
     href: "/tools/character-rom-editor/import/font",
     color: "amber",
   },
+  {
+    title: "Bitmap Font",
+    description: "Copy glyphs pixel for pixel from BDF, PSF and Unifont .hex bitmap fonts.",
+    icon: (
+      <svg
+        className="w-8 h-8"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={1.5}
+          d="M4 5h6v6H4zM14 5h6v6h-6zM4 15h6v4H4zM14 15h6v4h-6z"
+        />
+      </svg>
+    ),
+    href: "/tools/character-rom-editor/import/bitmap-font",
+    color: "cyan",
+  },
+  {
+    title: "Windows Raster Font",
+    description: "Import Terminal, Fixedsys and other .fon/.fnt fonts with exact pixels.",
+    icon: (
+      <svg
+        className="w-8 h-8"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={1.5}
+          d="M4 5h16v11H4zM8 20h8M12 16v4M7 9h2m2 0h2m2 0h2M7 12h4"
+        />
+      </svg>
+    ),
+    href: "/tools/character-rom-editor/import/bitmap-font",
+    color: "pink",
+  },
   {
     title: "Code / Text",
     description: "Paste byte arrays from C, JavaScript, or Assembly code.",
@@ -177,7 +219,7 @@ export function ImportHubView() {
               const colors = colorClasses[option.color];
               return (
                 <Link
-                  key={option.href}
+                  key={option.title}
                   href={
                     editorParams
                       ? `${option.href}?${editorParams}`
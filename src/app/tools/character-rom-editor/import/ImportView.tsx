@@ -21,6 +21,7 @@ import {
   Character,
   createDefaultConfig,
   generateId,
+  bytesPerCharacter,
 } from "@/lib/character-editor/types";
 import { parseCharacterRom } from "@/lib/character-editor/import/binary";
 import { calculateCharacterCount, formatFileSize } from "@/lib/character-editor/utils";
@@ -107,10 +108,7 @@ export function ImportView() {
     return calculateCharacterCount(file.size, config);
   }, [file?.size, config]);
 
-  const bytesPerChar = useMemo(() => {
-    const bytesPerLine = Math.ceil(config.width / 8);
-    return bytesPerLine * config.height;
-  }, [config.width, config.height]);
+  const bytesPerChar = useMemo(() => bytesPerCharacter(config), [config]);
 
   // Step validation
   const canProceedStep1 = file && fileData;
@@ -295,7 +293,11 @@ export function ImportView() {
                   <div className="text-center text-sm text-gray-400">
                     <span className="text-retro-cyan">{file.name}</span>
                     <span className="mx-2">-</span>
-                    <span>{formatFileSize(file.size)}</span>
+                    {/* Hex record files show the size of the decoded ROM image */}
+                    <span>{formatFileSize(fileData ? fileData.byteLength : file.size)}</span>
+                    {fileData && fileData.byteLength !== file.size && (
+                      <span className="text-gray-500"> ROM image ({formatFileSize(file.size)} file)</span>
+                    )}
                   </div>
                 )}
 
@@ -13,9 +13,14 @@ import { CharacterPreview } from "@/components/character-editor/character/Charac
 import { ImportStepIndicator } from "@/components/character-editor/import/ImportStepIndicator";
 import { DimensionPresetSelector } from "@/components/character-editor/selectors/DimensionPresetSelector";
 import { MetadataStep } from "@/components/character-editor/import/MetadataStep";
+import { FormatSuggestions } from "@/components/character-editor/import/FormatSuggestions";
+import { RomRegionSection } from "@/components/character-editor/import/RomRegionSection";
 import { PaddingDirectionSelector } from "@/components/character-editor/selectors/PaddingDirectionSelector";
 import { BitDirectionSelector } from "@/components/character-editor/selectors/BitDirectionSelector";
 import { ByteOrderSelector } from "@/components/character-editor/selectors/ByteOrderSelector";
+import { BitsPerPixelSelector } from "@/components/character-editor/selectors/BitsPerPixelSelector";
+import { ByteLayoutSelector } from "@/components/character-editor/selectors/ByteLayoutSelector";
+import { RomLayoutSection } from "@/components/character-editor/selectors/RomLayoutSection";
 import { useCharacterLibrary } from "@/hooks/character-editor/useCharacterLibrary";
 import { useEditorReturn } from "@/hooks/character-editor/useEditorReturn";
 import {
@@ -23,16 +28,25 @@ import {
   PaddingDirection,
   BitDirection,
   ByteOrder,
+  BitsPerPixel,
+  ByteLayout,
+  RomLayout,
   createDefaultConfig,
   generateId,
+  bytesPerCharacter,
 } from "@/lib/character-editor/types";
 import { parseCharacterRom } from "@/lib/character-editor/import/binary";
+import { detectBinaryFormats } from "@/lib/character-editor/import/formatDetection";
+import { extractRomRegion, getRomSlotLayout, hasRomLayout } from "@/lib/character-editor/romLayout";
 import { calculateCharacterCount, formatFileSize } from "@/lib/character-editor/utils";
 
 type WizardStep = 1 | 2 | 3;
 
 const STEP_LABELS = ["Upload", "Metadata", "Configure"];
 
+// Files larger than a typical character ROM open the region selector
+const LARGE_ROM_SIZE = 8192;
+
 // Example files available for quick import
 interface ExampleFile {
   name: string;
@@ -77,6 +91,9 @@ export function BinaryImportView() {
   const [file, setFile] = useState<File | null>(null);
   const [fileData, setFileData] = useState<ArrayBuffer | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  // Region of the file to import (undefined length extends to the end)
+  const [regionOffset, setRegionOffset] = useState(0);
+  const [regionLength, setRegionLength] = useState<number | undefined>(undefined);
 
   // Step 2: Metadata state
   const [name, setName] = useState("");
@@ -90,31 +107,47 @@ export function BinaryImportView() {
 
   // Step 3: Config state
   const [config, setConfig] = useState<CharacterSetConfig>(createDefaultConfig());
+  // Bumped when a detected format is applied to reset the ROM layout inputs
+  const [formatResetKey, setFormatResetKey] = useState(0);
 
   // Saving state
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
 
-  // Parse characters from file data
+  // Whole file and the selected region of it
+  const romData = useMemo(() => (fileData ? new Uint8Array(fileData) : null), [fileData]);
+  const regionData = useMemo(
+    () => (romData ? extractRomRegion(romData, regionOffset, regionLength) : null),
+    [romData, regionOffset, regionLength]
+  );
+
+  // Parse characters from the selected region
   const characters = useMemo(() => {
-    if (!fileData) return [];
+    if (!regionData) return [];
     try {
-      return parseCharacterRom(fileData, config);
+      return parseCharacterRom(regionData, config);
     } catch {
       return [];
     }
-  }, [fileData, config]);
+  }, [regionData, config]);
+
+  // Rank likely formats, favoring the system and chip from the metadata step
+  const detectedFormats = useMemo(
+    () => (regionData ? detectBinaryFormats(regionData, { system, chip }) : []),
+    [regionData, system, chip]
+  );
 
   // Calculate character count for preview info
   const characterCount = useMemo(() => {
-    if (!file?.size) return 0;
-    return calculateCharacterCount(file.size, config);
-  }, [file?.size, config]);
-
-  const bytesPerChar = useMemo(() => {
-    const bytesPerLine = Math.ceil(config.width / 8);
-    return bytesPerLine * config.height;
-  }, [config.width, config.height]);
+    if (!regionData) return 0;
+    return calculateCharacterCount(regionData.length, config);
+  }, [regionData, config]);
+
+  const bytesPerChar = useMemo(() => bytesPerCharacter(config), [config]);
+  const slotLayout = useMemo(
+    () => (hasRomLayout(config) ? getRomSlotLayout(config) : null),
+    [config]
+  );
 
   // Step validation
   const canProceedStep1 = file && fileData;
@@ -125,6 +158,8 @@ export function BinaryImportView() {
   const handleFileSelect = useCallback((selectedFile: File, data: ArrayBuffer) => {
     setFile(selectedFile);
     setFileData(data);
+    setRegionOffset(0);
+    setRegionLength(undefined);
     setUploadError(null);
 
     // Set default name from filename
@@ -176,6 +211,34 @@ export function BinaryImportView() {
     setConfig((prev) => ({ ...prev, byteOrder }));
   }, []);
 
+  const handleBitsPerPixelChange = useCallback((bitsPerPixel: BitsPerPixel) => {
+    setConfig((prev) => ({ ...prev, bitsPerPixel }));
+  }, []);
+
+  const handleByteLayoutChange = useCallback((byteLayout: ByteLayout) => {
+    setConfig((prev) => ({ ...prev, byteLayout }));
+  }, []);
+
+  const handleRomLayoutChange = useCallback((romLayout: RomLayout | undefined) => {
+    setConfig((prev) => ({ ...prev, romLayout }));
+  }, []);
+
+  const handleFormatSelect = useCallback((detected: CharacterSetConfig) => {
+    setConfig((prev) => ({
+      ...prev,
+      ...detected,
+      bitsPerPixel: 1,
+      byteLayout: "row",
+      romLayout: undefined,
+    }));
+    setFormatResetKey((prev) => prev + 1);
+  }, []);
+
+  const handleRegionChange = useCallback((offset: number, length: number | undefined) => {
+    setRegionOffset(offset);
+    setRegionLength(length);
+  }, []);
+
   const handlePresetClick = useCallback((width: number, height: number) => {
     setConfig((prev) => ({ ...prev, width, height }));
   }, []);
@@ -198,6 +261,8 @@ export function BinaryImportView() {
 
       setFile(exampleFile);
       setFileData(data);
+      setRegionOffset(0);
+      setRegionLength(undefined);
 
       // Pre-fill metadata
       setName(example.suggestedName);
@@ -328,7 +393,11 @@ export function BinaryImportView() {
                   <div className="text-center text-sm text-gray-400">
                     <span className="text-retro-cyan">{file.name}</span>
                     <span className="mx-2">-</span>
-                    <span>{formatFileSize(file.size)}</span>
+                    {/* Hex record files show the size of the decoded ROM image */}
+                    <span>{formatFileSize(fileData ? fileData.byteLength : file.size)}</span>
+                    {fileData && fileData.byteLength !== file.size && (
+                      <span className="text-gray-500"> ROM image ({formatFileSize(file.size)} file)</span>
+                    )}
                   </div>
                 )}
 
@@ -465,6 +534,28 @@ export function BinaryImportView() {
                   </p>
                 </div>
 
+                {/* Region of a larger ROM dump */}
+                {romData && (
+                  <RomRegionSection
+                    data={romData}
+                    config={config}
+                    offset={regionOffset}
+                    length={regionLength}
+                    onChange={handleRegionChange}
+                    defaultExpanded={romData.length > LARGE_ROM_SIZE}
+                  />
+                )}
+
+                {/* Detected formats */}
+                {regionData && (
+                  <FormatSuggestions
+                    data={regionData}
+                    candidates={detectedFormats}
+                    config={config}
+                    onSelect={handleFormatSelect}
+                  />
+                )}
+
                 {/* Configuration */}
                 <div className="card-retro p-4 space-y-5">
                   {/* Dimensions */}
@@ -544,8 +635,39 @@ export function BinaryImportView() {
                     </div>
                   </div>
 
-                  {/* Byte order - only for multi-byte rows (width > 8) */}
-                  {config.width > 8 && (
+                  {/* Bit depth and byte layout row */}
+                  <div className="grid grid-cols-2 gap-4">
+                    {/* Bit depth */}
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-300 mb-2">
+                        Bits per Pixel
+                      </h3>
+                      <BitsPerPixelSelector
+                        value={config.bitsPerPixel ?? 1}
+                        onChange={handleBitsPerPixelChange}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Multicolor: 4 colors, e.g. C64 multicolor
+                      </p>
+                    </div>
+
+                    {/* Byte layout */}
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-300 mb-2">
+                        Byte Layout
+                      </h3>
+                      <ByteLayoutSelector
+                        value={config.byteLayout ?? "row"}
+                        onChange={handleByteLayoutChange}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Columns: SSD1306/KS0108 LCD and printer fonts
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Byte order - only for multi-byte lines (more than 8 bits per row, or per column) */}
+                  {(config.byteLayout === "column" ? config.height : config.width) * (config.bitsPerPixel ?? 1) > 8 && (
                     <div>
                       <h3 className="text-sm font-medium text-gray-300 mb-2">
                         Byte Order
@@ -560,10 +682,24 @@ export function BinaryImportView() {
                     </div>
                   )}
 
+                  {/* ROM layout - stride, skip and split ROMs */}
+                  <RomLayoutSection
+                    key={formatResetKey}
+                    value={config.romLayout}
+                    onChange={handleRomLayoutChange}
+                    bytesPerCharacter={bytesPerChar}
+                    lineLabel={config.byteLayout === "column" ? "column" : "row"}
+                  />
+
                   {/* Stats */}
                   {file && (
                     <div className="text-xs text-gray-500 pt-2 border-t border-retro-grid/30">
-                      {bytesPerChar} bytes/char = {characterCount} characters
+                      {bytesPerChar} bytes/char
+                      {slotLayout && ` in ${slotLayout.stride}-byte slots`}
+                      {slotLayout && slotLayout.skip > 0 && ` after ${slotLayout.skip} bytes`}
+                      {slotLayout && slotLayout.secondBytes > 0 &&
+                        ` (${slotLayout.secondBytes} bytes at +0x${slotLayout.splitOffset.toString(16).toUpperCase()})`}
+                      {" "}= {characterCount} characters
                     </div>
                   )}
                 </div>
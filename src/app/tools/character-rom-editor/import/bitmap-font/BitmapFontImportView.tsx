@@ -0,0 +1,724 @@
+"use client";
+
+import { useState, useCallback, useRef, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Header } from "@/components/layout/Header";
+import { Footer } from "@/components/layout/Footer";
+import { Container } from "@/components/ui/Container";
+import { Button } from "@/components/ui/Button";
+import { NeonText } from "@/components/effects/NeonText";
+import { CharacterPreview } from "@/components/character-editor/character/CharacterPreview";
+import { ImportStepIndicator } from "@/components/character-editor/import/ImportStepIndicator";
+import { MetadataStep } from "@/components/character-editor/import/MetadataStep";
+import { useCharacterLibrary } from "@/hooks/character-editor/useCharacterLibrary";
+import { useEditorReturn } from "@/hooks/character-editor/useEditorReturn";
+import { useResizeObserver } from "@/hooks/useResizeObserver";
+import {
+  BitmapFont,
+  BitmapFontImportOptions,
+  bitmapFontToCharacters,
+  getBitmapFontEncodingRange,
+  getDefaultBitmapFontImportOptions,
+} from "@/lib/character-editor/import/bitmapFont";
+import { isBdfFile, parseBdf } from "@/lib/character-editor/import/bdf";
+import { isPsfFile, parsePsf } from "@/lib/character-editor/import/psf";
+import { isUnifontContent, isUnifontFile, parseUnifont } from "@/lib/character-editor/import/unifont";
+import { isWinFontContent, isWinFontFile, parseWinFont } from "@/lib/character-editor/import/winfnt";
+import { generateId } from "@/lib/character-editor/types";
+import { CHARACTER_RANGE_PRESETS } from "@/lib/character-editor/presets";
+
+type WizardStep = 1 | 2 | 3;
+
+const STEP_LABELS = ["Configure", "Metadata", "Save"];
+
+/** Bitmap font file extensions accepted by the file input */
+const BITMAP_FONT_ACCEPT = ".bdf,.psf,.psfu,.gz,.hex,.fnt,.fon";
+
+/**
+ * Decode a bitmap font file
+ * Windows .fon files can hold several sizes, so a list of fonts is returned.
+ */
+async function parseBitmapFontFile(file: File): Promise<BitmapFont[]> {
+  if (isBdfFile(file.name)) {
+    return [parseBdf(await file.text())];
+  }
+  if (isPsfFile(file.name)) {
+    return [parsePsf(new Uint8Array(await file.arrayBuffer()))];
+  }
+  if (isWinFontFile(file.name)) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (!isWinFontContent(data)) {
+      throw new Error("Not a Windows raster font. Raw .fnt ROM dumps can be loaded with the Binary importer.");
+    }
+    return parseWinFont(data);
+  }
+  if (isUnifontFile(file.name)) {
+    const text = await file.text();
+    if (!isUnifontContent(text)) {
+      throw new Error("Not a Unifont .hex file. Intel HEX ROM images can be loaded with the Binary importer.");
+    }
+    return [parseUnifont(text)];
+  }
+  throw new Error("Unsupported file type. Please select a BDF, PSF, Unifont .hex or Windows .fnt/.fon font file.");
+}
+
+/**
+ * Bitmap font import view - Import glyphs from BDF, PSF, Unifont and Windows raster fonts
+ */
+export function BitmapFontImportView() {
+  const router = useRouter();
+  const { save } = useCharacterLibrary();
+  const { buildEditorReturnParams } = useEditorReturn();
+  const editorParams = buildEditorReturnParams();
+  const importHubUrl = editorParams
+    ? `/tools/character-rom-editor/import?${editorParams}`
+    : "/tools/character-rom-editor/import";
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { ref: previewContainerRef, size: previewSize } = useResizeObserver<HTMLDivElement>();
+
+  // Current step
+  const [step, setStep] = useState<WizardStep>(1);
+
+  // Step 1: File state
+  const [file, setFile] = useState<File | null>(null);
+  const [fonts, setFonts] = useState<BitmapFont[]>([]);
+  const [fontIndex, setFontIndex] = useState(0);
+  const font = fonts[fontIndex] ?? null;
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Import options
+  const [options, setOptions] = useState<BitmapFontImportOptions>({ startCode: 0, endCode: 255 });
+
+  // Step 2: Metadata state
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [manufacturer, setManufacturer] = useState("");
+  const [system, setSystem] = useState("");
+  const [chip, setChip] = useState("");
+  const [locale, setLocale] = useState("");
+  const [source, setSource] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
+
+  // Saving state
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Encodings present in the font
+  const encodingRange = useMemo(() => (font ? getBitmapFontEncodingRange(font) : null), [font]);
+
+  // Convert the font to characters for the selected range
+  const conversion = useMemo(() => {
+    if (!font) return null;
+    try {
+      return { result: bitmapFontToCharacters(font, options), error: null };
+    } catch (e) {
+      return { result: null, error: e instanceof Error ? e.message : "Failed to convert font" };
+    }
+  }, [font, options]);
+
+  const importResult = conversion?.result ?? null;
+  const displayError = error || conversion?.error || null;
+  const characters = useMemo(() => importResult?.characters ?? [], [importResult]);
+  const config = importResult?.config ?? null;
+  const importedCount = characters.length - (importResult?.missing.length ?? 0);
+
+  // Calculate responsive preview dimensions
+  const previewDimensions = useMemo(() => {
+    const containerWidth = previewSize.width || 400;
+    const containerHeight = previewSize.height || 500;
+
+    if (!config || characters.length === 0) {
+      return { scale: 2, maxWidth: containerWidth - 16, maxHeight: containerHeight - 16 };
+    }
+
+    const cols = 16;
+    const rows = Math.ceil(characters.length / cols);
+    const gridWidth = cols * config.width;
+    const gridHeight = rows * config.height;
+
+    const availableWidth = containerWidth - 16;
+    const availableHeight = containerHeight - 16;
+
+    const scaleX = availableWidth / gridWidth;
+    const scaleY = availableHeight / gridHeight;
+
+    const optimalScale = Math.max(1, Math.min(4, Math.floor(Math.min(scaleX, scaleY))));
+
+    return {
+      scale: optimalScale,
+      maxWidth: availableWidth,
+      maxHeight: availableHeight,
+    };
+  }, [previewSize, config, characters.length]);
+
+  // Step validation
+  const canProceedStep1 = importedCount > 0 && !loading;
+  const canProceedStep2 = name.trim().length > 0;
+  const canSave = canProceedStep1 && canProceedStep2;
+
+  // Handle file selection
+  const handleFileSelect = useCallback(
+    async (selectedFile: File) => {
+      setError(null);
+      setFonts([]);
+
+      if (selectedFile.size > 5 * 1024 * 1024) {
+        setError("File too large. Maximum size is 5MB.");
+        return;
+      }
+
+      setFile(selectedFile);
+      setLoading(true);
+      try {
+        const parsed = await parseBitmapFontFile(selectedFile);
+        setFonts(parsed);
+        setFontIndex(0);
+        setOptions(getDefaultBitmapFontImportOptions(parsed[0]));
+        if (!name) {
+          setName(parsed[0].name || selectedFile.name.replace(/\.[^.]+(\.gz)?$/i, ""));
+        }
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to parse font");
+        setFile(null);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [name]
+  );
+
+  // Handle drag and drop
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault();
+      const files = e.dataTransfer.files;
+      if (files.length > 0) {
+        handleFileSelect(files[0]);
+      }
+    },
+    [handleFileSelect]
+  );
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+  }, []);
+
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (files && files.length > 0) {
+        handleFileSelect(files[0]);
+      }
+    },
+    [handleFileSelect]
+  );
+
+  // Update option handlers
+  const updateOption = useCallback(
+    <K extends keyof BitmapFontImportOptions>(key: K, value: BitmapFontImportOptions[K]) => {
+      setOptions((prev) => ({ ...prev, [key]: value }));
+    },
+    []
+  );
+
+  const handleNext = useCallback(() => {
+    if (step < 3) {
+      setStep((step + 1) as WizardStep);
+    }
+  }, [step]);
+
+  const handleBack = useCallback(() => {
+    if (step > 1) {
+      setStep((step - 1) as WizardStep);
+    }
+  }, [step]);
+
+  const handleSave = useCallback(
+    async (openEditor: boolean = false) => {
+      if (!importResult || !name.trim()) {
+        setSaveError("Please provide a name for the character set");
+        return;
+      }
+
+      try {
+        setSaving(true);
+        setSaveError(null);
+
+        const now = Date.now();
+        const id = generateId();
+
+        const characterSet = {
+          metadata: {
+            id,
+            name: name.trim(),
+            description: description.trim(),
+            source: source.trim() || "yourself",
+            manufacturer: manufacturer.trim(),
+            system: system.trim(),
+            chip: chip.trim(),
+            locale: locale.trim(),
+            tags,
+            createdAt: now,
+            updatedAt: now,
+            isBuiltIn: false,
+            origin: "font" as const,
+            ...(importResult.unicodeMap && { unicodeMap: importResult.unicodeMap }),
+          },
+          config: importResult.config,
+          characters: importResult.characters,
+        };
+
+        await save(characterSet);
+
+        if (openEditor) {
+          router.push(`/tools/character-rom-editor/edit?id=${id}`);
+        } else {
+          router.push("/tools/character-rom-editor");
+        }
+      } catch (e) {
+        setSaveError(e instanceof Error ? e.message : "Failed to save character set");
+      } finally {
+        setSaving(false);
+      }
+    },
+    [importResult, name, description, source, manufacturer, system, chip, locale, tags, save, router]
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col safe-top">
+      <Header />
+
+      <main className="flex-1 bg-retro-dark pt-24 pb-12">
+        <Container size="default">
+          {/* Page header */}
+          <div className="mb-6">
+            <Link
+              href={importHubUrl}
+              className="text-xs text-gray-500 hover:text-retro-cyan transition-colors mb-2 inline-flex items-center gap-1"
+            >
+              <svg
+                className="w-3 h-3"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 19l-7-7 7-7"
+                />
+              </svg>
+              Back to Import
+            </Link>
+            <h1 className="text-2xl sm:text-3xl font-display">
+              <NeonText color="cyan">Import from Bitmap Font</NeonText>
+            </h1>
+          </div>
+
+          {/* Step indicator */}
+          <ImportStepIndicator
+            currentStep={step}
+            totalSteps={3}
+            labels={STEP_LABELS}
+          />
+
+          {/* Step content */}
+          <div className="max-w-4xl mx-auto">
+            {/* Step 1: Configure */}
+            {step === 1 && (
+              <div className="space-y-6">
+                {!file || !font ? (
+                  /* File upload */
+                  <div className="space-y-4">
+                    <div className="text-center mb-6">
+                      <h2 className="text-lg font-medium text-gray-200 mb-2">
+                        Upload Bitmap Font
+                      </h2>
+                      <p className="text-sm text-gray-400">
+                        Select a BDF, PSF (Linux console), GNU Unifont .hex or Windows .fnt/.fon font file
+                      </p>
+                    </div>
+
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={BITMAP_FONT_ACCEPT}
+                      onChange={handleInputChange}
+                      className="hidden"
+                    />
+
+                    <div
+                      onClick={() => fileInputRef.current?.click()}
+                      onDrop={handleDrop}
+                      onDragOver={handleDragOver}
+                      className="flex flex-col items-center justify-center p-12 border-2 border-dashed rounded-lg cursor-pointer transition-colors border-retro-grid/50 hover:border-retro-cyan/50 bg-retro-navy/30"
+                    >
+                      <div className="w-16 h-16 rounded-full bg-retro-cyan/20 flex items-center justify-center mb-4">
+                        <svg className="w-8 h-8 text-retro-cyan" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 5h6v6H4zM14 5h6v6h-6zM4 15h6v4H4zM14 15h6v4h-6z" />
+                        </svg>
+                      </div>
+                      <p className="text-sm text-gray-300 mb-1">
+                        {loading ? "Reading font..." : "Drag and drop a bitmap font here"}
+                      </p>
+                      <p className="text-xs text-gray-500 mb-3">
+                        or click to browse
+                      </p>
+                      <p className="text-[10px] text-gray-600">
+                        Supports: .bdf, .psf, .psfu, .psf.gz, .hex, .fnt, .fon
+                      </p>
+                    </div>
+
+                    {displayError && (
+                      <div className="flex items-start gap-2 text-sm text-red-400">
+                        <svg className="w-4 h-4 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                        </svg>
+                        <span>{displayError}</span>
+                      </div>
+                    )}
+
+                    <div className="text-xs text-gray-500 space-y-1">
+                      <p><strong>Tip:</strong> BDF fonts are used by X11, u8g2 and many firmware projects. PSF fonts are Linux console fonts (see /usr/share/consolefonts). Unifont .hex files list one glyph per code point. Windows .fon files such as Terminal and Fixedsys contain one font per size.</p>
+                      <p>Glyphs are copied pixel for pixel and placed by their character code.</p>
+                    </div>
+                  </div>
+                ) : (
+                  /* Configuration and preview */
+                  <div className="flex flex-col lg:flex-row gap-6">
+                    {/* Left: Settings */}
+                    <div className="space-y-4 lg:w-80 lg:flex-shrink-0">
+                      {/* Font info */}
+                      <div className="card-retro p-3">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-xs font-medium text-gray-400">Font File</span>
+                          <button
+                            onClick={() => {
+                              setFile(null);
+                              setFonts([]);
+                            }}
+                            className="text-xs text-retro-cyan hover:text-retro-pink"
+                          >
+                            Change
+                          </button>
+                        </div>
+                        <div className="text-sm text-gray-200 truncate">
+                          {file.name}
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {font.name && <>{font.name} - </>}
+                          {font.width}x{font.height}, {font.glyphs.length} glyphs
+                          {encodingRange && ` (codes ${encodingRange.min}-${encodingRange.max})`}
+                        </div>
+                        {importResult?.unicodeMap && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Unicode mapping found - it is kept with the set
+                          </div>
+                        )}
+                        {fonts.length > 1 && (
+                          <div className="mt-3">
+                            <label className="block text-xs text-gray-500 mb-1">Size</label>
+                            <div className="flex flex-wrap gap-2">
+                              {fonts.map((entry, index) => (
+                                <button
+                                  key={index}
+                                  onClick={() => {
+                                    setFontIndex(index);
+                                    setOptions(getDefaultBitmapFontImportOptions(entry));
+                                  }}
+                                  className={`
+                                    px-3 py-1 text-xs rounded border transition-colors
+                                    ${
+                                      index === fontIndex
+                                        ? "border-retro-pink bg-retro-pink/10 text-retro-pink"
+                                        : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+                                    }
+                                  `}
+                                >
+                                  {entry.width}x{entry.height}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Character range */}
+                      <div className="card-retro p-4 space-y-4">
+                        <h3 className="text-sm font-medium text-gray-300">Character Range</h3>
+
+                        <div className="flex flex-wrap gap-2">
+                          {CHARACTER_RANGE_PRESETS.slice(0, 4).map((range) => (
+                            <button
+                              key={range.name}
+                              onClick={() => setOptions({ startCode: range.startCode, endCode: range.endCode })}
+                              title={range.description}
+                              className={`
+                                px-3 py-1 text-xs rounded border transition-colors
+                                ${
+                                  options.startCode === range.startCode && options.endCode === range.endCode
+                                    ? "border-retro-pink bg-retro-pink/10 text-retro-pink"
+                                    : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+                                }
+                              `}
+                            >
+                              {range.name}
+                            </button>
+                          ))}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-xs text-gray-500 mb-1">
+                              Start Code
+                            </label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={0x10ffff}
+                              value={options.startCode}
+                              onChange={(e) => updateOption("startCode", parseInt(e.target.value) || 0)}
+                              className="w-full px-3 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-xs text-gray-500 mb-1">
+                              End Code
+                            </label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={0x10ffff}
+                              value={options.endCode}
+                              onChange={(e) => updateOption("endCode", parseInt(e.target.value) || 0)}
+                              className="w-full px-3 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                            />
+                          </div>
+                        </div>
+
+                        <p className="text-xs text-gray-500">
+                          The glyph for the start code becomes character 0. Start at 0 to use codes as indices directly.
+                        </p>
+                      </div>
+                    </div>
+
+                    {/* Right: Character preview */}
+                    <div className="flex flex-col min-h-0 flex-1">
+                      <div className="card-retro p-3 flex flex-col flex-1 min-h-[300px] lg:min-h-[400px]">
+                        <div className="flex items-center justify-between mb-2 flex-shrink-0">
+                          <span className="text-xs font-medium text-gray-400">
+                            Preview
+                          </span>
+                          {importResult && (
+                            <span className="text-xs text-gray-500">
+                              {importedCount} glyphs, {importResult.missing.length} missing
+                              {previewDimensions.scale > 1 && ` - ${previewDimensions.scale}x`}
+                            </span>
+                          )}
+                        </div>
+
+                        {displayError ? (
+                          <div className="flex items-start gap-2 text-sm text-red-400 py-8">
+                            <svg className="w-4 h-4 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                            </svg>
+                            <span>{displayError}</span>
+                          </div>
+                        ) : config && characters.length > 0 ? (
+                          <div
+                            ref={previewContainerRef}
+                            className="bg-black/50 rounded p-2 flex-1 overflow-auto flex items-start justify-center"
+                          >
+                            <CharacterPreview
+                              characters={characters}
+                              config={config}
+                              maxCharacters={512}
+                              maxWidth={previewDimensions.maxWidth}
+                              maxHeight={previewDimensions.maxHeight}
+                              scale={previewDimensions.scale}
+                              showCharacterBorders
+                              characterBorderColor="rgba(0, 255, 255, 0.3)"
+                            />
+                          </div>
+                        ) : (
+                          <div
+                            ref={previewContainerRef}
+                            className="flex-1 flex items-center justify-center text-center text-gray-500"
+                          >
+                            <p className="text-sm">No characters in the selected range</p>
+                          </div>
+                        )}
+                      </div>
+
+                      {importResult && importedCount > 0 && (
+                        <div className="text-xs text-gray-500 space-y-1 mt-4 flex-shrink-0">
+                          <p>
+                            Characters will be imported at {font.width}x{font.height} pixels.
+                          </p>
+                          {importResult.missing.length > 0 && (
+                            <p>Codes without a glyph in the font are left blank.</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Navigation */}
+                <div className="flex justify-end pt-4">
+                  <Button
+                    onClick={handleNext}
+                    disabled={!canProceedStep1}
+                    variant="cyan"
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Step 2: Metadata */}
+            {step === 2 && (
+              <div className="space-y-6 max-w-2xl mx-auto">
+                <MetadataStep
+                  name={name}
+                  onNameChange={setName}
+                  description={description}
+                  onDescriptionChange={setDescription}
+                  manufacturer={manufacturer}
+                  onManufacturerChange={setManufacturer}
+                  system={system}
+                  onSystemChange={setSystem}
+                  chip={chip}
+                  onChipChange={setChip}
+                  locale={locale}
+                  onLocaleChange={setLocale}
+                  source={source}
+                  onSourceChange={setSource}
+                  tags={tags}
+                  onTagsChange={setTags}
+                />
+
+                {/* Navigation */}
+                <div className="flex justify-between pt-4">
+                  <Button onClick={handleBack} variant="ghost">
+                    Back
+                  </Button>
+                  <Button
+                    onClick={handleNext}
+                    disabled={!canProceedStep2}
+                    variant="cyan"
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Step 3: Preview and Save */}
+            {step === 3 && config && (
+              <div className="space-y-6 max-w-2xl mx-auto">
+                <div className="text-center mb-6">
+                  <h2 className="text-lg font-medium text-gray-200 mb-2">
+                    Review & Save
+                  </h2>
+                  <p className="text-sm text-gray-400">
+                    Review your character set and save to library
+                  </p>
+                </div>
+
+                {/* Summary */}
+                <div className="card-retro p-4 space-y-4">
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-gray-500">Name:</span>
+                      <span className="ml-2 text-gray-200">{name}</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Characters:</span>
+                      <span className="ml-2 text-gray-200">{characters.length}</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Dimensions:</span>
+                      <span className="ml-2 text-gray-200">{config.width}x{config.height}</span>
+                    </div>
+                    {font?.name && (
+                      <div>
+                        <span className="text-gray-500">Font:</span>
+                        <span className="ml-2 text-gray-200">{font.name}</span>
+                      </div>
+                    )}
+                    {description && (
+                      <div className="col-span-2">
+                        <span className="text-gray-500">Description:</span>
+                        <span className="ml-2 text-gray-200">{description}</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Preview */}
+                <div className="card-retro p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="text-sm font-medium text-gray-300">
+                      Preview
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {config.width}x{config.height} - {characters.length} characters
+                    </span>
+                  </div>
+
+                  <div className="bg-black/50 rounded-lg p-4">
+                    <CharacterPreview
+                      characters={characters}
+                      config={config}
+                      maxCharacters={256}
+                      maxWidth={600}
+                      maxHeight={400}
+                      scale={2}
+                    />
+                  </div>
+                </div>
+
+                {/* Error message */}
+                {saveError && (
+                  <div className="text-sm text-red-400 text-center">
+                    {saveError}
+                  </div>
+                )}
+
+                {/* Navigation */}
+                <div className="flex justify-between pt-4">
+                  <Button onClick={handleBack} variant="ghost">
+                    Back
+                  </Button>
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={() => handleSave(false)}
+                      disabled={!canSave || saving}
+                      variant="cyan"
+                    >
+                      {saving ? "Saving..." : "Save to Library"}
+                    </Button>
+                    <Button
+                      onClick={() => handleSave(true)}
+                      disabled={!canSave || saving}
+                      variant="pink"
+                    >
+                      {saving ? "Saving..." : "Save & Edit"}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </Container>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
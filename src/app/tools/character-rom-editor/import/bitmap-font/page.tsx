@@ -0,0 +1,16 @@
+import { Metadata } from "next";
+import { Suspense } from "react";
+import { BitmapFontImportView } from "./BitmapFontImportView";
+
+export const metadata: Metadata = {
+  title: "Import from Bitmap Font - RetroStack",
+  description: "Import character sets from BDF, PSF, Unifont and Windows raster font files.",
+};
+
+export default function BitmapFontImportPage() {
+  return (
+    <Suspense fallback={null}>
+      <BitmapFontImportView />
+    </Suspense>
+  );
+}
@@ -25,6 +25,9 @@ import {
   FontParseResult,
   FontParseController,
 } from "@/lib/character-editor/import/fontImport";
+import { BitmapStrike, getBitmapStrikes } from "@/lib/character-editor/import/bitmapStrikes";
+import { parseCodePageTable } from "@/lib/character-editor/import/codePageTable";
+import { CODE_PAGES, formatCodePoint, getCodePage } from "@/lib/character-editor/data/codePages";
 import { CharacterSetConfig, Character, generateId } from "@/lib/character-editor/types";
 import { CHARACTER_RANGE_PRESETS } from "@/lib/character-editor/presets";
 
@@ -33,6 +36,9 @@ type WizardStep = 1 | 2 | 3;
 const STEP_LABELS = ["Configure", "Metadata", "Save"];
 const DEBOUNCE_DELAY = 200;
 
+/** Code page selection value for an uploaded table */
+const CUSTOM_CODE_PAGE = "custom";
+
 /**
  * Font import view - Rasterize characters from TTF/OTF/WOFF font files
  */
@@ -45,6 +51,7 @@ export function FontImportView() {
     ? `/tools/character-rom-editor/import?${editorParams}`
     : "/tools/character-rom-editor/import";
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const tableInputRef = useRef<HTMLInputElement>(null);
   const { ref: previewContainerRef, size: previewSize } = useResizeObserver<HTMLDivElement>();
 
   // Font parse controller for cancellation support
@@ -60,12 +67,18 @@ export function FontImportView() {
   const [error, setError] = useState<string | null>(null);
   const [parseResult, setParseResult] = useState<FontParseResult | null>(null);
   const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [strikes, setStrikes] = useState<BitmapStrike[]>([]);
 
   // Import options
   const [options, setOptions] = useState<FontImportOptions>(
     getDefaultFontImportOptions()
   );
 
+  // Code page mapping ("" = use the character range)
+  const [codePageId, setCodePageId] = useState("");
+  const [customTable, setCustomTable] = useState<{ name: string; codePoints: (number | null)[] } | null>(null);
+  const [tableError, setTableError] = useState<string | null>(null);
+
   // Step 2: Metadata state
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
@@ -87,7 +100,13 @@ export function FontImportView() {
   );
 
   // Character count
-  const characterCount = options.endCode - options.startCode + 1;
+  const characterCount = options.codePoints?.length ?? options.endCode - options.startCode + 1;
+
+  // Code point imported for a character index
+  const getCodePointAt = useCallback(
+    (index: number) => (options.codePoints ? options.codePoints[index] : options.startCode + index),
+    [options.codePoints, options.startCode]
+  );
 
   // Characters from parse result
   const characters: Character[] = parseResult?.characters || [];
@@ -224,6 +243,10 @@ export function FontImportView() {
     }
 
     setFile(selectedFile);
+
+    // Look for embedded bitmap strikes; rasterize outlines until one is picked
+    setOptions((prev) => ({ ...prev, bitmapStrikePpem: null }));
+    setStrikes(getBitmapStrikes(await selectedFile.arrayBuffer()));
   }, []);
 
   // Handle drag and drop
@@ -260,6 +283,49 @@ export function FontImportView() {
     []
   );
 
+  // Copy glyphs from a bitmap strike and size the cells to it
+  const selectStrike = useCallback((strike: BitmapStrike | null) => {
+    if (!strike) {
+      setOptions((prev) => ({ ...prev, bitmapStrikePpem: null }));
+      return;
+    }
+    const clamp = (value: number) => Math.max(4, Math.min(32, value));
+    setOptions((prev) => ({
+      ...prev,
+      bitmapStrikePpem: strike.ppemY,
+      fontSize: strike.ppemY,
+      charWidth: clamp(strike.maxWidth || strike.ppemX),
+      charHeight: clamp(strike.ascender - strike.descender || strike.ppemY),
+    }));
+  }, []);
+
+  // Map character indices through a built-in or uploaded code page
+  const selectCodePage = useCallback(
+    (id: string) => {
+      setCodePageId(id);
+      const codePoints = id === CUSTOM_CODE_PAGE ? customTable?.codePoints : getCodePage(id)?.codePoints;
+      setOptions((prev) => ({ ...prev, codePoints: codePoints ?? null }));
+    },
+    [customTable]
+  );
+
+  // Load a custom CSV/JSON mapping table
+  const handleTableSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const tableFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!tableFile) return;
+
+    try {
+      const codePoints = parseCodePageTable(await tableFile.text());
+      setCustomTable({ name: tableFile.name, codePoints });
+      setTableError(null);
+      setCodePageId(CUSTOM_CODE_PAGE);
+      setOptions((prev) => ({ ...prev, codePoints }));
+    } catch (err) {
+      setTableError(err instanceof Error ? err.message : "Failed to read mapping table");
+    }
+  }, []);
+
   // Apply character range preset
   const applyRangePreset = useCallback(
     (startCode: number, endCode: number) => {
@@ -309,6 +375,7 @@ export function FontImportView() {
             updatedAt: now,
             isBuiltIn: false,
             origin: "font" as const,
+            ...(options.codePoints && { unicodeMap: options.codePoints }),
           },
           config,
           characters: parseResult.characters,
@@ -327,7 +394,7 @@ export function FontImportView() {
         setSaving(false);
       }
     },
-    [parseResult, name, description, source, manufacturer, system, chip, locale, tags, config, save, router]
+    [parseResult, name, description, source, manufacturer, system, chip, locale, tags, config, options.codePoints, save, router]
   );
 
   return (
@@ -427,7 +494,7 @@ export function FontImportView() {
 
                     <div className="text-xs text-gray-500 space-y-1">
                       <p><strong>Tip:</strong> TrueType (.ttf), OpenType (.otf), and Web Open Font Format (.woff) files are supported.</p>
-                      <p>The font will be rasterized at the specified size to create bitmap characters.</p>
+                      <p>The font will be rasterized at the specified size to create bitmap characters. Embedded bitmap strikes are copied pixel for pixel.</p>
                     </div>
                   </div>
                 ) : (
@@ -443,6 +510,7 @@ export function FontImportView() {
                             onClick={() => {
                               setFile(null);
                               setParseResult(null);
+                              setStrikes([]);
                             }}
                             className="text-xs text-retro-cyan hover:text-retro-pink"
                           >
@@ -459,6 +527,43 @@ export function FontImportView() {
                         )}
                       </div>
 
+                      {/* Embedded bitmap strikes */}
+                      {strikes.length > 0 && (
+                        <div className="card-retro p-4 space-y-3">
+                          <h3 className="text-sm font-medium text-gray-300">Embedded Bitmaps</h3>
+                          <p className="text-xs text-gray-500">
+                            This font contains hand-drawn bitmaps. Pick a size to copy its pixels exactly.
+                          </p>
+                          <div className="flex flex-wrap gap-2">
+                            {[null, ...strikes].map((strike) => {
+                              const selected = (strike?.ppemY ?? null) === options.bitmapStrikePpem;
+                              return (
+                                <button
+                                  key={strike ? `${strike.ppemY}-${strike.bitDepth}` : "outlines"}
+                                  onClick={() => selectStrike(strike)}
+                                  title={strike ? `${strike.ppemX}x${strike.ppemY} ppem, ${strike.bitDepth}-bit` : "Rasterize the outlines"}
+                                  className={`
+                                    px-3 py-1 text-xs rounded border transition-colors
+                                    ${
+                                      selected
+                                        ? "border-retro-pink bg-retro-pink/10 text-retro-pink"
+                                        : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+                                    }
+                                  `}
+                                >
+                                  {strike ? `${strike.ppemY} ppem` : "Outlines"}
+                                </button>
+                              );
+                            })}
+                          </div>
+                          {options.bitmapStrikePpem !== null && (
+                            <p className="text-xs text-gray-500">
+                              Glyphs without a bitmap at this size are rasterized from the outlines.
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       {/* Character dimensions */}
                       <div className="card-retro p-4 space-y-4">
                         <h3 className="text-sm font-medium text-gray-300">Character Size</h3>
@@ -522,64 +627,109 @@ export function FontImportView() {
                         </div>
                       </div>
 
-                      {/* Character range */}
-                      <div className="card-retro p-4 space-y-4">
-                        <h3 className="text-sm font-medium text-gray-300">Character Range</h3>
-
-                        <div className="flex flex-wrap gap-2">
-                          {CHARACTER_RANGE_PRESETS.slice(0, 4).map((range) => (
-                            <button
-                              key={range.name}
-                              onClick={() => applyRangePreset(range.startCode, range.endCode)}
-                              title={range.description}
-                              className={`
-                                px-3 py-1 text-xs rounded border transition-colors
-                                ${
-                                  options.startCode === range.startCode && options.endCode === range.endCode
-                                    ? "border-retro-pink bg-retro-pink/10 text-retro-pink"
-                                    : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
-                                }
-                              `}
-                            >
-                              {range.name}
-                            </button>
+                      {/* Code page */}
+                      <div className="card-retro p-4 space-y-3">
+                        <h3 className="text-sm font-medium text-gray-300">Code Page</h3>
+                        <p className="text-xs text-gray-500">
+                          Pick the glyph for each character index from a code page instead of a code range.
+                        </p>
+                        <select
+                          value={codePageId}
+                          onChange={(e) => selectCodePage(e.target.value)}
+                          title="Unicode code point used for each character index"
+                          className="w-full px-3 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                        >
+                          <option value="">None (use character range)</option>
+                          {CODE_PAGES.map((page) => (
+                            <option key={page.id} value={page.id}>
+                              {page.name}
+                            </option>
                           ))}
-                        </div>
+                          {customTable && <option value={CUSTOM_CODE_PAGE}>Custom: {customTable.name}</option>}
+                        </select>
+                        {options.codePoints && (
+                          <p className="text-xs text-gray-500">
+                            <span className="text-gray-400">{characterCount} characters</span>
+                            {getCodePage(codePageId) && ` - ${getCodePage(codePageId)?.description}`}
+                          </p>
+                        )}
 
-                        <div className="grid grid-cols-2 gap-3">
-                          <div>
-                            <label className="block text-xs text-gray-500 mb-1">
-                              Start Code
-                            </label>
-                            <input
-                              type="number"
-                              min={0}
-                              max={65535}
-                              value={options.startCode}
-                              onChange={(e) => updateOption("startCode", parseInt(e.target.value) || 0)}
-                              className="w-full px-3 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
-                            />
+                        <input
+                          ref={tableInputRef}
+                          type="file"
+                          accept=".csv,.txt,.json"
+                          onChange={handleTableSelect}
+                          className="hidden"
+                        />
+                        <button
+                          onClick={() => tableInputRef.current?.click()}
+                          className="text-xs text-retro-cyan hover:text-retro-pink"
+                        >
+                          Upload mapping table (CSV or JSON)...
+                        </button>
+                        {tableError && <p className="text-xs text-red-400">{tableError}</p>}
+                      </div>
+
+                      {/* Character range */}
+                      {!options.codePoints && (
+                        <div className="card-retro p-4 space-y-4">
+                          <h3 className="text-sm font-medium text-gray-300">Character Range</h3>
+
+                          <div className="flex flex-wrap gap-2">
+                            {CHARACTER_RANGE_PRESETS.slice(0, 4).map((range) => (
+                              <button
+                                key={range.name}
+                                onClick={() => applyRangePreset(range.startCode, range.endCode)}
+                                title={range.description}
+                                className={`
+                                  px-3 py-1 text-xs rounded border transition-colors
+                                  ${
+                                    options.startCode === range.startCode && options.endCode === range.endCode
+                                      ? "border-retro-pink bg-retro-pink/10 text-retro-pink"
+                                      : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+                                  }
+                                `}
+                              >
+                                {range.name}
+                              </button>
+                            ))}
                           </div>
-                          <div>
-                            <label className="block text-xs text-gray-500 mb-1">
-                              End Code
-                            </label>
-                            <input
-                              type="number"
-                              min={0}
-                              max={65535}
-                              value={options.endCode}
-                              onChange={(e) => updateOption("endCode", parseInt(e.target.value) || 255)}
-                              className="w-full px-3 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
-                            />
+
+                          <div className="grid grid-cols-2 gap-3">
+                            <div>
+                              <label className="block text-xs text-gray-500 mb-1">
+                                Start Code
+                              </label>
+                              <input
+                                type="number"
+                                min={0}
+                                max={65535}
+                                value={options.startCode}
+                                onChange={(e) => updateOption("startCode", parseInt(e.target.value) || 0)}
+                                className="w-full px-3 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-500 mb-1">
+                                End Code
+                              </label>
+                              <input
+                                type="number"
+                                min={0}
+                                max={65535}
+                                value={options.endCode}
+                                onChange={(e) => updateOption("endCode", parseInt(e.target.value) || 255)}
+                                className="w-full px-3 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+                              />
+                            </div>
                           </div>
-                        </div>
 
-                        <div className="text-xs text-gray-500">
-                          <span className="text-gray-400">{characterCount} characters:</span>{" "}
-                          <span className="font-mono">{rangePreview.join("")}</span>
+                          <div className="text-xs text-gray-500">
+                            <span className="text-gray-400">{characterCount} characters:</span>{" "}
+                            <span className="font-mono">{rangePreview.join("")}</span>
+                          </div>
                         </div>
-                      </div>
+                      )}
 
                       {/* Rendering options */}
                       <div className="card-retro p-4 space-y-4">
@@ -645,6 +795,7 @@ export function FontImportView() {
                           {parseResult && !loading && (
                             <span className="text-xs text-gray-500">
                               {parseResult.importedCount} glyphs, {parseResult.missingCount} missing
+                              {parseResult.bitmapCount > 0 && `, ${parseResult.bitmapCount} from bitmaps`}
                               {previewDimensions.scale > 1 && ` - ${previewDimensions.scale}x`}
                             </span>
                           )}
@@ -700,6 +851,28 @@ export function FontImportView() {
                         )}
                       </div>
 
+                      {parseResult && !loading && parseResult.missingIndices.length > 0 && (
+                        <div className="card-retro p-3 mt-4 flex-shrink-0">
+                          <div className="text-xs font-medium text-gray-400 mb-2">
+                            Missing Glyphs ({parseResult.missingIndices.length})
+                          </div>
+                          <div className="max-h-32 overflow-auto flex flex-wrap gap-1">
+                            {parseResult.missingIndices.map((index) => {
+                              const codePoint = getCodePointAt(index);
+                              return (
+                                <span
+                                  key={index}
+                                  className="px-1.5 py-0.5 text-[10px] font-mono rounded bg-retro-navy/50 text-gray-400"
+                                  title={codePoint !== null ? String.fromCodePoint(codePoint) : undefined}
+                                >
+                                  {index}: {codePoint !== null && formatCodePoint(codePoint)}
+                                </span>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+
                       {parseResult && !loading && (
                         <div className="text-xs text-gray-500 space-y-1 mt-4 flex-shrink-0">
                           <p>
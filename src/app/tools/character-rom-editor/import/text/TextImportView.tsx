@@ -15,6 +15,7 @@ import { DimensionPresetSelector } from "@/components/character-editor/selectors
 import { PaddingDirectionSelector } from "@/components/character-editor/selectors/PaddingDirectionSelector";
 import { BitDirectionSelector } from "@/components/character-editor/selectors/BitDirectionSelector";
 import { ByteOrderSelector } from "@/components/character-editor/selectors/ByteOrderSelector";
+import { ByteLayoutSelector } from "@/components/character-editor/selectors/ByteLayoutSelector";
 import { useCharacterLibrary } from "@/hooks/character-editor/useCharacterLibrary";
 import { useEditorReturn } from "@/hooks/character-editor/useEditorReturn";
 import { useResizeObserver } from "@/hooks/useResizeObserver";
@@ -82,6 +83,7 @@ export function TextImportView() {
     padding: options.padding,
     bitDirection: options.bitDirection,
     byteOrder: options.byteOrder,
+    byteLayout: options.byteLayout,
   };
 
   // Calculate responsive preview dimensions
@@ -328,8 +330,20 @@ Examples:
                         />
                       </div>
 
-                      {/* Byte order - only for multi-byte rows (width > 8) */}
-                      {options.charWidth > 8 && (
+                      {/* Byte layout */}
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-2">Byte Layout</label>
+                        <ByteLayoutSelector
+                          value={options.byteLayout ?? "row"}
+                          onChange={(byteLayout) => updateOption("byteLayout", byteLayout)}
+                        />
+                        <p className="text-xs text-gray-600 mt-1">
+                          Columns stores each pixel column as bytes (LCD and printer fonts)
+                        </p>
+                      </div>
+
+                      {/* Byte order - only for multi-byte lines (width > 8, or height > 8 for columns) */}
+                      {(options.byteLayout === "column" ? options.charHeight : options.charWidth) > 8 && (
                         <div>
                           <label className="block text-xs text-gray-500 mb-2">Byte Order</label>
                           <ByteOrderSelector
@@ -337,7 +351,7 @@ Examples:
                             onChange={(byteOrder) => updateOption("byteOrder", byteOrder)}
                           />
                           <p className="text-xs text-gray-600 mt-1">
-                            Controls byte arrangement in multi-byte rows
+                            Controls byte arrangement in multi-byte {options.byteLayout === "column" ? "columns" : "rows"}
                           </p>
                         </div>
                       )}
@@ -11,6 +11,7 @@ import {
 } from "@/lib/character-editor/storage/sharing";
 import {
   Character,
+  CharacterBank,
   CharacterSetConfig,
   CharacterSet,
   generateId,
@@ -22,6 +23,7 @@ interface DecodedSet {
   description: string;
   characters: Character[];
   config: CharacterSetConfig;
+  banks?: CharacterBank[];
 }
 
 function SharedPageContent() {
@@ -81,6 +83,7 @@ function SharedPageContent() {
         },
         config: decodedSet.config,
         characters: decodedSet.characters,
+        banks: decodedSet.banks,
       };
 
       const savedId = await save(newSet);
@@ -164,6 +167,7 @@ function SharedPageContent() {
                 <h2 className="text-lg text-white font-medium truncate">{decodedSet.name}</h2>
                 <p className="text-sm text-gray-400">
                   {decodedSet.characters.length} characters | {decodedSet.config.width}x{decodedSet.config.height} px
+                  {decodedSet.banks && ` | ${decodedSet.banks.length} banks`}
                 </p>
               </div>
             </div>
@@ -44,6 +44,8 @@ export interface CharacterDisplayProps {
   onPixelLeave?: () => void;
   /** Foreground color */
   foregroundColor?: string;
+  /** Colors for each color index of multicolor characters */
+  palette?: string[];
   /** Background color */
   backgroundColor?: string;
   /** Grid line color (large mode only) */
@@ -83,6 +85,7 @@ export function CharacterDisplay({
   onPixelHover,
   onPixelLeave,
   foregroundColor = "#ffffff",
+  palette,
   backgroundColor = "#000000",
   gridColor = "#4a4a4a",
   gridThickness = 1,
@@ -146,6 +149,8 @@ export function CharacterDisplay({
     >
       <PixelGrid
         pixels={character.pixels}
+        colors={palette ? character.colors : undefined}
+        palette={palette}
         scale={actualScale}
         showGrid={isLarge}
         gridColor={gridColor}
@@ -39,6 +39,8 @@ export interface CharacterGridItemProps {
   smallScale: number;
   /** Foreground color */
   foregroundColor: string;
+  /** Colors for each color index of multicolor characters */
+  palette?: string[];
   /** Background color */
   backgroundColor: string;
   /** Whether to show character indices */
@@ -59,6 +61,7 @@ export function CharacterGridItem({
   isSelectionMode,
   smallScale,
   foregroundColor,
+  palette,
   backgroundColor,
   showIndices,
 }: CharacterGridItemProps) {
@@ -143,6 +146,7 @@ export function CharacterGridItem({
         selected={selectedIndex === index}
         batchSelected={batchSelection?.has(index) && selectedIndex !== index}
         foregroundColor={foregroundColor}
+        palette={palette}
         backgroundColor={backgroundColor}
         interactive={false}
         index={index}
@@ -13,6 +13,7 @@
  * - Optional character borders overlay
  * - Remaining count badge when truncated
  * - Force column count option
+ * - Palette rendering for multicolor (2bpp) sets
  *
  * @module components/character-editor/character/CharacterPreview
  */
@@ -21,6 +22,7 @@
 import { useMemo } from "react";
 import { PixelGrid } from "../editor/PixelGrid";
 import { Character, CharacterSetConfig } from "@/lib/character-editor/types";
+import { getMulticolorPalette, getPixelColor, isMulticolorConfig } from "@/lib/character-editor/multicolor";
 
 export interface CharacterPreviewProps {
   /** Characters to display */
@@ -39,6 +41,8 @@ export interface CharacterPreviewProps {
   foregroundColor?: string;
   /** Background color */
   backgroundColor?: string;
+  /** Colors for each color index (defaults to the standard palette for multicolor sets) */
+  palette?: string[];
   /** Additional CSS classes */
   className?: string;
   /** Additional CSS classes for the canvas element */
@@ -70,6 +74,7 @@ export function CharacterPreview({
   scale = 1,
   foregroundColor = "#ffffff",
   backgroundColor = "#000000",
+  palette,
   className = "",
   forceColumns,
   showCharacterBorders = false,
@@ -163,6 +168,34 @@ export function CharacterPreview({
     return pixels;
   }, [displayChars, config, columns, rows]);
 
+  // Palette for multicolor sets - only needed when the set uses 2bpp
+  const activePalette = useMemo(() => {
+    if (palette) return palette;
+    return isMulticolorConfig(config) ? getMulticolorPalette(foregroundColor, backgroundColor) : undefined;
+  }, [palette, config, foregroundColor, backgroundColor]);
+
+  // Combine all color indices into a single grid (multicolor only)
+  const combinedColors = useMemo(() => {
+    if (!activePalette) return undefined;
+    const { width, height } = config;
+    const colors: number[][] = Array.from({ length: rows * height }, () =>
+      Array(columns * width).fill(0)
+    );
+
+    displayChars.forEach((char, index) => {
+      const offsetX = (index % columns) * width;
+      const offsetY = Math.floor(index / columns) * height;
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          colors[offsetY + y][offsetX + x] = getPixelColor(char, y, x);
+        }
+      }
+    });
+
+    return colors;
+  }, [activePalette, displayChars, config, columns, rows]);
+
   const remainingCount = characters.length - displayChars.length;
 
   // Calculate character cell dimensions in pixels for border overlay
@@ -173,6 +206,8 @@ export function CharacterPreview({
     <div className={`relative inline-block ${className}`}>
       <PixelGrid
         pixels={combinedPixels}
+        colors={combinedColors}
+        palette={activePalette}
         scale={scale}
         showGrid={false}
         foregroundColor={foregroundColor}
@@ -42,6 +42,8 @@ export interface InteractiveCharacterGridProps {
   onAdd?: () => void;
   /** Foreground color */
   foregroundColor?: string;
+  /** Colors for each color index of multicolor characters */
+  palette?: string[];
   /** Background color */
   backgroundColor?: string;
   /** Whether to show character indices */
@@ -82,6 +84,7 @@ export function InteractiveCharacterGrid({
   showAddButton = false,
   onAdd,
   foregroundColor = "#ffffff",
+  palette,
   backgroundColor = "#000000",
   showIndices = false,
   minColumns = 8,
@@ -202,6 +205,7 @@ export function InteractiveCharacterGrid({
             isSelectionMode={isSelectionMode}
             smallScale={smallScale}
             foregroundColor={foregroundColor}
+            palette={palette}
             backgroundColor={backgroundColor}
             showIndices={showIndices}
           />
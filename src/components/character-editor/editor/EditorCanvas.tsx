@@ -11,6 +11,14 @@
  * - Pinch-to-zoom on touch devices
  * - Batch editing mode with mixed-pixel visualization
  * - Overlay layer for tracing from another character set
+ * - Onion skin ghosting neighboring characters of the same set
+ * - Multicolor (2bpp) painting with a selectable draw color
+ * - Line, rectangle and ellipse tools with a live preview while dragging
+ * - Flood fill tool
+ * - Horizontal, vertical and four-way symmetry for all drawing tools
+ * - Asymmetry check overlay highlighting pixels that break the symmetry
+ * - Marquee selection that can be dragged to move the selected pixels
+ * - Character cell boundaries when editing a tile of several characters
  *
  * @module components/character-editor/editor/EditorCanvas
  */
@@ -19,26 +27,69 @@
 import { useMemo, useCallback, useRef, useState, useEffect } from "react";
 import { CharacterDisplay } from "../character/CharacterDisplay";
 import { Character, CharacterSetConfig } from "@/lib/character-editor/types";
+import { getPixelColor } from "@/lib/character-editor/multicolor";
+import {
+  DrawingTool,
+  PixelPoint,
+  getDrawingToolLabel,
+  getShapePoints,
+  isShapeTool,
+  setPixels,
+} from "@/lib/character-editor/drawing";
+import { SymmetrySettings, applySymmetry, getAsymmetricPixels, getSymmetryAxes } from "@/lib/character-editor/symmetry";
+import {
+  FloatingSelection,
+  PixelRect,
+  getSelectionRect,
+  isPointInRect,
+  placeFloatingSelection,
+} from "@/lib/character-editor/pixelSelection";
 
 export interface EditorCanvasProps {
   /** Character being edited */
   character: Character | null;
   /** Character set configuration */
   config: CharacterSetConfig;
-  /** Callback when a pixel is toggled */
-  onPixelToggle?: (row: number, col: number) => void;
-  /** Callback when a pixel is set (during drag) */
-  onPixelSet?: (row: number, col: number, value: boolean) => void;
+  /** Callback when a pixel is toggled (color is the draw color of multicolor sets) */
+  onPixelToggle?: (row: number, col: number, color?: number) => void;
+  /** Callback when a pixel is set during drag (color is the draw color of multicolor sets) */
+  onPixelSet?: (row: number, col: number, value: boolean, color?: number) => void;
+  /** Callback when a shape is drawn (color is the draw color of multicolor sets) */
+  onPixelsSet?: (points: PixelPoint[], value: boolean, color?: number) => void;
+  /** Callback when regions are flood filled from one or more pixels (color is the draw color of multicolor sets) */
+  onFloodFill?: (starts: PixelPoint[], value: boolean, color?: number) => void;
+  /** Active drawing tool */
+  tool?: DrawingTool;
+  /** Selected rectangle of the select tool */
+  pixelSelection?: PixelRect | null;
+  /** Floating selection shown on top of the character */
+  floatingSelection?: FloatingSelection | null;
+  /** Callback when a new selection is dragged out (null when it is cleared) */
+  onSelectionChange?: (rect: PixelRect | null) => void;
+  /** Callback when the user grabs the selection to move it */
+  onSelectionLift?: () => void;
+  /** Callback when the grabbed selection is moved (position of its top-left pixel) */
+  onSelectionMove?: (row: number, col: number) => void;
+  /** Size of the characters making up a tile, to mark the seams between them */
+  tileCellSize?: { width: number; height: number };
+  /** Symmetry applied to the drawing tools */
+  symmetry?: SymmetrySettings;
+  /** Whether to highlight pixels that break the symmetry */
+  showAsymmetry?: boolean;
+  /** Color index to draw with (multicolor sets only) */
+  drawColor?: number;
   /** Callback when drag starts */
   onDragStart?: () => void;
-  /** Callback when drag ends */
-  onDragEnd?: () => void;
+  /** Callback when drag ends (label describes the edit for the undo history) */
+  onDragEnd?: (label?: string) => void;
   /** Get pixel state for batch editing */
   getPixelState?: (row: number, col: number) => "same-on" | "same-off" | "mixed";
   /** Whether batch editing mode is active */
   batchMode?: boolean;
   /** Foreground color */
   foregroundColor?: string;
+  /** Colors for each color index of multicolor characters */
+  palette?: string[];
   /** Background color */
   backgroundColor?: string;
   /** Grid line color */
@@ -65,6 +116,12 @@ export interface EditorCanvasProps {
   overlayConfig?: CharacterSetConfig;
   /** Overlay rendering mode */
   overlayMode?: "stretch" | "pixel" | "side-by-side";
+  /** Neighboring characters ghosted under the edited character (onion skin) */
+  onionSkinCharacters?: Character[];
+  /** Onion skin ghost color */
+  onionSkinColor?: string;
+  /** Onion skin ghost opacity (0-1) */
+  onionSkinOpacity?: number;
   /** Whether keyboard cursor mode is enabled (for accessibility) */
   keyboardCursorEnabled?: boolean;
 }
@@ -78,11 +135,24 @@ export function EditorCanvas({
   config,
   onPixelToggle,
   onPixelSet,
+  onPixelsSet,
+  onFloodFill,
+  tool = "pencil",
+  pixelSelection,
+  floatingSelection,
+  onSelectionChange,
+  onSelectionLift,
+  onSelectionMove,
+  tileCellSize,
+  symmetry,
+  showAsymmetry = false,
+  drawColor,
   onDragStart,
   onDragEnd,
   getPixelState,
   batchMode = false,
   foregroundColor = "#ffffff",
+  palette,
   backgroundColor = "#000000",
   gridColor = "#4a4a4a",
   gridThickness = 1,
@@ -96,13 +166,25 @@ export function EditorCanvas({
   overlayCharacter,
   overlayConfig,
   overlayMode = "pixel",
+  onionSkinCharacters,
+  onionSkinColor = "#ff00ff",
+  onionSkinOpacity = 0.35,
   keyboardCursorEnabled = true,
 }: EditorCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const cursorCanvasRef = useRef<HTMLCanvasElement>(null);
+  const selectionCanvasRef = useRef<HTMLCanvasElement>(null);
+  const seamCanvasRef = useRef<HTMLCanvasElement>(null);
+  const symmetryCanvasRef = useRef<HTMLCanvasElement>(null);
+  const onionSkinCanvasRef = useRef<HTMLCanvasElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragValue, setDragValue] = useState<boolean | null>(null);
+  // Shape being dragged out with a shape tool
+  const [shape, setShape] = useState<{ start: PixelPoint; end: PixelPoint; value: boolean } | null>(null);
+  // Marquee being dragged out, or the selection being moved, with the select tool
+  const [marquee, setMarquee] = useState<{ start: PixelPoint; end: PixelPoint } | null>(null);
+  const [grab, setGrab] = useState<{ start: PixelPoint; origin: PixelPoint } | null>(null);
   const lastPinchDistanceRef = useRef<number | null>(null);
 
   // Keyboard cursor position for accessibility
@@ -195,44 +277,269 @@ export function EditorCanvas({
     }
   }, [overlayCharacter, overlayConfig, overlayMode, config.width, config.height, zoom, gridThickness]);
 
+  // Add the mirror images of drawn pixels
+  const isMirroring = !!symmetry && symmetry.mode !== "none";
+  const mirror = useCallback(
+    (points: PixelPoint[]) => (symmetry ? applySymmetry(points, symmetry, config.width, config.height) : points),
+    [symmetry, config.width, config.height],
+  );
+
   const handlePixelClick = useCallback(
     (row: number, col: number, isRightClick?: boolean) => {
-      if (!isDragging) {
-        // Start batch mode before any pixel changes
+      if (isDragging) return;
+
+      if (tool === "fill") {
+        // Flood fill is a single edit, so there is nothing to drag
         onDragStart?.();
-        if (isRightClick) {
-          // Right-click: paint background (turn pixel off)
-          onPixelSet?.(row, col, false);
-          setDragValue(false);
+        onFloodFill?.(mirror([{ row, col }]), !isRightClick, drawColor);
+        onDragEnd?.(getDrawingToolLabel(tool));
+        return;
+      }
+
+      if (tool === "select") {
+        if (pixelSelection && isPointInRect({ row, col }, pixelSelection)) {
+          onSelectionLift?.();
+          setGrab({ start: { row, col }, origin: { row: pixelSelection.row, col: pixelSelection.col } });
         } else {
-          // Left-click: toggle pixel
-          onPixelToggle?.(row, col);
-          // Set drag value based on the new state (opposite of current)
-          const currentValue = character?.pixels[row]?.[col] ?? false;
-          setDragValue(!currentValue);
+          onSelectionChange?.(getSelectionRect({ row, col }, { row, col }));
+          setMarquee({ start: { row, col }, end: { row, col } });
         }
         setIsDragging(true);
+        return;
       }
+
+      if (isShapeTool(tool)) {
+        // Shapes are only previewed while dragging and applied on release
+        setShape({ start: { row, col }, end: { row, col }, value: !isRightClick });
+        setIsDragging(true);
+        return;
+      }
+
+      // Start batch mode before any pixel changes
+      onDragStart?.();
+      if (isMirroring) {
+        // Mirrored pixels all get the clicked pixel's new value instead of toggling separately
+        const currentValue =
+          character && drawColor !== undefined
+            ? getPixelColor(character, row, col) === drawColor
+            : character?.pixels[row]?.[col] ?? false;
+        const value = !isRightClick && !currentValue;
+        onPixelsSet?.(mirror([{ row, col }]), value, drawColor);
+        setDragValue(value);
+      } else if (isRightClick) {
+        // Right-click: paint background (turn pixel off)
+        onPixelSet?.(row, col, false, drawColor);
+        setDragValue(false);
+      } else {
+        // Left-click: toggle pixel
+        onPixelToggle?.(row, col, drawColor);
+        // Set drag value based on the new state (opposite of current)
+        const currentValue =
+          character && drawColor !== undefined
+            ? getPixelColor(character, row, col) === drawColor
+            : character?.pixels[row]?.[col] ?? false;
+        setDragValue(!currentValue);
+      }
+      setIsDragging(true);
     },
-    [isDragging, onPixelToggle, onPixelSet, onDragStart, character],
+    [
+      isDragging,
+      tool,
+      pixelSelection,
+      onSelectionLift,
+      onSelectionChange,
+      onPixelToggle,
+      onPixelSet,
+      onPixelsSet,
+      onFloodFill,
+      onDragStart,
+      onDragEnd,
+      isMirroring,
+      mirror,
+      character,
+      drawColor,
+    ],
   );
 
   const handlePixelDrag = useCallback(
     (row: number, col: number) => {
-      if (isDragging && dragValue !== null && onPixelSet) {
-        onPixelSet(row, col, dragValue);
+      if (!isDragging) return;
+      if (marquee) {
+        setMarquee({ ...marquee, end: { row, col } });
+        onSelectionChange?.(getSelectionRect(marquee.start, { row, col }));
+      } else if (grab) {
+        onSelectionMove?.(grab.origin.row + row - grab.start.row, grab.origin.col + col - grab.start.col);
+      } else if (shape) {
+        setShape({ ...shape, end: { row, col } });
+      } else if (dragValue !== null && isMirroring) {
+        onPixelsSet?.(mirror([{ row, col }]), dragValue, drawColor);
+      } else if (dragValue !== null && onPixelSet) {
+        onPixelSet(row, col, dragValue, drawColor);
       }
     },
-    [isDragging, dragValue, onPixelSet],
+    [
+      isDragging,
+      marquee,
+      grab,
+      onSelectionChange,
+      onSelectionMove,
+      shape,
+      dragValue,
+      isMirroring,
+      mirror,
+      onPixelsSet,
+      onPixelSet,
+      drawColor,
+    ],
   );
 
   const handleDragEnd = useCallback(() => {
-    if (isDragging) {
-      setIsDragging(false);
-      setDragValue(null);
+    if (!isDragging) return;
+    setIsDragging(false);
+    setDragValue(null);
+
+    if (marquee || grab) {
+      // A click without dragging clears the selection
+      if (marquee && marquee.start.row === marquee.end.row && marquee.start.col === marquee.end.col) {
+        onSelectionChange?.(null);
+      }
+      setMarquee(null);
+      setGrab(null);
+    } else if (shape && isShapeTool(tool)) {
+      // Apply the previewed shape as a single edit
+      setShape(null);
+      onDragStart?.();
+      onPixelsSet?.(mirror(getShapePoints(tool, shape.start, shape.end)), shape.value, drawColor);
+      onDragEnd?.(getDrawingToolLabel(tool));
+    } else {
+      setShape(null);
       onDragEnd?.();
     }
-  }, [isDragging, onDragEnd]);
+  }, [isDragging, marquee, grab, onSelectionChange, shape, tool, onDragStart, onPixelsSet, onDragEnd, mirror, drawColor]);
+
+  // Character with the shape being dragged or the floating selection drawn in, for the live preview
+  const displayCharacter = useMemo(() => {
+    if (!character) return character;
+    if (floatingSelection) return placeFloatingSelection(character, floatingSelection);
+    if (!shape || !isShapeTool(tool)) return character;
+    return setPixels(character, mirror(getShapePoints(tool, shape.start, shape.end)), shape.value, drawColor);
+  }, [character, floatingSelection, shape, tool, mirror, drawColor]);
+
+  // Draw the onion skin ghosts on background pixels, so they appear under the character
+  useEffect(() => {
+    const canvas = onionSkinCanvasRef.current;
+    if (!canvas || !onionSkinCharacters || !displayCharacter) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const cellSize = zoom + gridThickness;
+    canvas.width = config.width * cellSize + gridThickness;
+    canvas.height = config.height * cellSize + gridThickness;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = onionSkinColor;
+    ctx.globalAlpha = onionSkinOpacity;
+    for (const ghost of onionSkinCharacters) {
+      for (let row = 0; row < config.height; row++) {
+        for (let col = 0; col < config.width; col++) {
+          if (getPixelColor(ghost, row, col) > 0 && getPixelColor(displayCharacter, row, col) === 0) {
+            ctx.fillRect(col * cellSize + gridThickness, row * cellSize + gridThickness, zoom, zoom);
+          }
+        }
+      }
+    }
+  }, [onionSkinCharacters, onionSkinColor, onionSkinOpacity, displayCharacter, zoom, gridThickness, config.width, config.height]);
+
+  // Pixels breaking the symmetry, for the asymmetry check
+  const asymmetricPixels = useMemo(
+    () => (showAsymmetry && symmetry && displayCharacter ? getAsymmetricPixels(displayCharacter, symmetry) : []),
+    [showAsymmetry, symmetry, displayCharacter],
+  );
+
+  // Draw the mirror axes and the pixels breaking the symmetry
+  useEffect(() => {
+    const canvas = symmetryCanvasRef.current;
+    if (!canvas || !symmetry || symmetry.mode === "none") return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const cellSize = zoom + gridThickness;
+    canvas.width = config.width * cellSize + gridThickness;
+    canvas.height = config.height * cellSize + gridThickness;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = "rgba(255, 64, 64, 0.45)";
+    for (const { row, col } of asymmetricPixels) {
+      ctx.fillRect(col * cellSize + gridThickness, row * cellSize + gridThickness, zoom, zoom);
+    }
+
+    // Axis positions: pixel centres, or grid lines for axes between pixels
+    const axes = getSymmetryAxes(symmetry, config.width, config.height);
+    ctx.strokeStyle = "#00f5ff"; // retro-cyan
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 4]);
+    ctx.beginPath();
+    if (symmetry.mode === "horizontal" || symmetry.mode === "four-way") {
+      const x = (axes.col + 0.5) * cellSize + gridThickness / 2;
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, canvas.height);
+    }
+    if (symmetry.mode === "vertical" || symmetry.mode === "four-way") {
+      const y = (axes.row + 0.5) * cellSize + gridThickness / 2;
+      ctx.moveTo(0, y);
+      ctx.lineTo(canvas.width, y);
+    }
+    ctx.stroke();
+  }, [symmetry, asymmetricPixels, zoom, gridThickness, config.width, config.height]);
+
+  // Draw the seams between the characters of a tile
+  useEffect(() => {
+    const canvas = seamCanvasRef.current;
+    if (!canvas || !tileCellSize) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const cellSize = zoom + gridThickness;
+    canvas.width = config.width * cellSize + gridThickness;
+    canvas.height = config.height * cellSize + gridThickness;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = "rgba(255, 0, 128, 0.6)"; // retro-pink
+    const lineWidth = Math.max(2, gridThickness);
+    for (let col = tileCellSize.width; col < config.width; col += tileCellSize.width) {
+      ctx.fillRect(col * cellSize + gridThickness / 2 - lineWidth / 2, 0, lineWidth, canvas.height);
+    }
+    for (let row = tileCellSize.height; row < config.height; row += tileCellSize.height) {
+      ctx.fillRect(0, row * cellSize + gridThickness / 2 - lineWidth / 2, canvas.width, lineWidth);
+    }
+  }, [tileCellSize, zoom, gridThickness, config.width, config.height]);
+
+  // Draw the selection outline
+  useEffect(() => {
+    const canvas = selectionCanvasRef.current;
+    if (!canvas || !pixelSelection) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const cellSize = zoom + gridThickness;
+    canvas.width = config.width * cellSize + gridThickness;
+    canvas.height = config.height * cellSize + gridThickness;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    ctx.strokeStyle = "#ffb800"; // retro-amber
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(
+      pixelSelection.col * cellSize + gridThickness / 2,
+      pixelSelection.row * cellSize + gridThickness / 2,
+      pixelSelection.width * cellSize,
+      pixelSelection.height * cellSize
+    );
+  }, [pixelSelection, zoom, gridThickness, config.width, config.height]);
 
   // Handle scroll wheel zoom
   const handleWheel = useCallback(
@@ -318,7 +625,7 @@ export function EditorCanvas({
 
         if (actionKeys.includes(e.key)) {
           // Toggle pixel at cursor position
-          onPixelToggle?.(currentRow, currentCol);
+          onPixelToggle?.(currentRow, currentCol, drawColor);
         } else {
           // Navigation
           let newRow = currentRow;
@@ -353,7 +660,7 @@ export function EditorCanvas({
         }
       }
     },
-    [keyboardCursorEnabled, character, isCursorActive, cursorPos, config.height, config.width, onPixelToggle, onPixelHover]
+    [keyboardCursorEnabled, character, isCursorActive, cursorPos, config.height, config.width, onPixelToggle, onPixelHover, drawColor]
   );
 
   // Handle focus/blur to show/hide cursor
@@ -483,10 +790,11 @@ export function EditorCanvas({
       <div className="inline-block" onMouseLeave={handleDragEnd} onMouseUp={handleDragEnd}>
         <div className="relative">
           <CharacterDisplay
-            character={character}
+            character={displayCharacter ?? character}
             mode="large"
             scale={zoom}
             foregroundColor={foregroundColor}
+            palette={palette}
             backgroundColor={backgroundColor}
             gridColor={gridColor}
             gridThickness={gridThickness}
@@ -498,6 +806,62 @@ export function EditorCanvas({
             interactive={true}
             mixedPixels={mixedPixels}
           />
+          {/* Onion skin overlay */}
+          {onionSkinCharacters && onionSkinCharacters.length > 0 && (
+            <canvas
+              ref={onionSkinCanvasRef}
+              className="absolute top-0 left-0 pointer-events-none"
+              style={{
+                imageRendering: "pixelated",
+                zIndex: 5,
+                width: cursorCanvasWidth,
+                height: cursorCanvasHeight,
+              }}
+              aria-hidden="true"
+            />
+          )}
+          {/* Tile seam overlay */}
+          {tileCellSize && (
+            <canvas
+              ref={seamCanvasRef}
+              className="absolute top-0 left-0 pointer-events-none"
+              style={{
+                imageRendering: "pixelated",
+                zIndex: 11,
+                width: cursorCanvasWidth,
+                height: cursorCanvasHeight,
+              }}
+              aria-hidden="true"
+            />
+          )}
+          {/* Symmetry axes and asymmetry check overlay */}
+          {isMirroring && (
+            <canvas
+              ref={symmetryCanvasRef}
+              className="absolute top-0 left-0 pointer-events-none"
+              style={{
+                imageRendering: "pixelated",
+                zIndex: 11,
+                width: cursorCanvasWidth,
+                height: cursorCanvasHeight,
+              }}
+              aria-hidden="true"
+            />
+          )}
+          {/* Selection outline overlay */}
+          {pixelSelection && (
+            <canvas
+              ref={selectionCanvasRef}
+              className="absolute top-0 left-0 pointer-events-none"
+              style={{
+                imageRendering: "pixelated",
+                zIndex: 12,
+                width: cursorCanvasWidth,
+                height: cursorCanvasHeight,
+              }}
+              aria-hidden="true"
+            />
+          )}
           {/* Keyboard cursor overlay */}
           {isCursorActive && cursorPos && (
             <canvas
@@ -11,15 +11,17 @@
  * - Add new character button
  * - Context menu support
  * - Batch selection with select all/none
+ * - Bank tabs for multi-bank character sets (shows one bank at a time)
  *
  * @module components/character-editor/editor/EditorSidebar
  */
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { InteractiveCharacterGrid } from "../character/CharacterGrid";
 import { CharacterSetOverview } from "../character/CharacterSetOverview";
-import { Character, CharacterSetConfig } from "@/lib/character-editor/types";
+import { Character, CharacterBank, CharacterSetConfig } from "@/lib/character-editor/types";
+import { getBankRange, hasMultipleBanks } from "@/lib/character-editor/banks";
 import { useSelectionMode } from "@/hooks/character-editor/useSelectionMode";
 import { SelectionModeBar } from "@/components/ui/SelectionModeBar";
 
@@ -48,8 +50,16 @@ export interface EditorSidebarProps {
   showAddButton?: boolean;
   /** Foreground color */
   foregroundColor?: string;
+  /** Colors for each color index of multicolor characters */
+  palette?: string[];
   /** Background color */
   backgroundColor?: string;
+  /** Bank layout of the character set (tabs are shown for more than one bank) */
+  banks?: CharacterBank[];
+  /** Index of the bank that is shown */
+  activeBank?: number;
+  /** Callback when another bank is chosen */
+  onActiveBankChange?: (bankIndex: number) => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -70,7 +80,11 @@ export function EditorSidebar({
   onContextMenu,
   showAddButton = true,
   foregroundColor = "#ffffff",
+  palette,
   backgroundColor = "#000000",
+  banks,
+  activeBank = 0,
+  onActiveBankChange,
   className = "",
 }: EditorSidebarProps) {
   // These props are part of the interface but not used in this component
@@ -81,32 +95,72 @@ export function EditorSidebar({
   const hasMultipleSelected = totalSelected > 1;
   const [gridCollapsed, setGridCollapsed] = useState(false);
 
+  // Only the active bank is shown; local indices are offset into the full set
+  const showBanks = hasMultipleBanks(banks);
+  const bankRange = useMemo(
+    () => (showBanks && banks ? getBankRange(banks, activeBank) : null),
+    [showBanks, banks, activeBank],
+  );
+  const offset = bankRange?.start ?? 0;
+
+  const visibleCharacters = useMemo(
+    () => (bankRange ? characters.slice(bankRange.start, bankRange.end) : characters),
+    [characters, bankRange],
+  );
+
+  const localSelectedIndex = selectedIndex - offset;
+
+  const localBatchSelection = useMemo(() => {
+    if (!bankRange) return batchSelection;
+    const local = new Set<number>();
+    batchSelection.forEach((index) => {
+      if (index >= bankRange.start && index < bankRange.end) {
+        local.add(index - bankRange.start);
+      }
+    });
+    return local;
+  }, [batchSelection, bankRange]);
+
+  const handleLocalSelect = useCallback(
+    (index: number, shiftKey: boolean, metaOrCtrlKey?: boolean) => {
+      onSelect(index + offset, shiftKey, metaOrCtrlKey);
+    },
+    [onSelect, offset],
+  );
+
+  const handleLocalContextMenu = useCallback(
+    (x: number, y: number, index: number) => {
+      onContextMenu?.(x, y, index + offset);
+    },
+    [onContextMenu, offset],
+  );
+
   // Selection mode hook for touch-friendly multi-select
   const selectionMode = useSelectionMode({
-    itemCount: characters.length,
-    selectedIndex,
-    batchSelection,
-    onSelect,
+    itemCount: visibleCharacters.length,
+    selectedIndex: localSelectedIndex,
+    batchSelection: localBatchSelection,
+    onSelect: handleLocalSelect,
   });
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
-      const charCount = characters.length;
+      const charCount = visibleCharacters.length;
       if (charCount === 0) return;
 
       switch (e.key) {
         case "ArrowUp":
         case "ArrowLeft": {
           e.preventDefault();
-          const newIndex = selectedIndex > 0 ? selectedIndex - 1 : charCount - 1;
-          onSelect(newIndex, e.shiftKey, e.metaKey || e.ctrlKey);
+          const newIndex = localSelectedIndex > 0 ? localSelectedIndex - 1 : charCount - 1;
+          handleLocalSelect(newIndex, e.shiftKey, e.metaKey || e.ctrlKey);
           break;
         }
         case "ArrowDown":
         case "ArrowRight": {
           e.preventDefault();
-          const newIndex = selectedIndex < charCount - 1 ? selectedIndex + 1 : 0;
-          onSelect(newIndex, e.shiftKey, e.metaKey || e.ctrlKey);
+          const newIndex = localSelectedIndex < charCount - 1 ? localSelectedIndex + 1 : 0;
+          handleLocalSelect(newIndex, e.shiftKey, e.metaKey || e.ctrlKey);
           break;
         }
         case "Delete":
@@ -125,7 +179,7 @@ export function EditorSidebar({
         }
       }
     },
-    [characters.length, selectedIndex, onSelect, onDeleteSelected],
+    [visibleCharacters.length, localSelectedIndex, handleLocalSelect, onDeleteSelected],
   );
 
   return (
@@ -135,7 +189,7 @@ export function EditorSidebar({
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-gray-300">Characters</span>
-            <span className="text-xs text-gray-500">({characters.length})</span>
+            <span className="text-xs text-gray-500">({visibleCharacters.length})</span>
           </div>
           {/* Selection mode toggle button */}
           <button
@@ -171,6 +225,26 @@ export function EditorSidebar({
         {hasMultipleSelected && !selectionMode.isSelectionMode && (
           <div className="mt-1 text-xs text-retro-pink">{totalSelected} characters selected</div>
         )}
+        {showBanks && banks && (
+          <div className="mt-2 flex flex-wrap gap-1" role="tablist" aria-label="Character banks">
+            {banks.map((bank, index) => (
+              <button
+                key={index}
+                role="tab"
+                aria-selected={index === activeBank}
+                onClick={() => onActiveBankChange?.(index)}
+                className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                  index === activeBank
+                    ? "bg-retro-cyan/20 text-retro-cyan border border-retro-cyan/50"
+                    : "text-gray-400 border border-retro-grid/50 hover:text-retro-cyan hover:border-retro-cyan/50"
+                }`}
+                title={`${bank.name} (${bank.characterCount} characters)`}
+              >
+                {bank.name}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Content area - scrolling handled by parent */}
@@ -178,10 +252,10 @@ export function EditorSidebar({
         {/* Character set overview - collapsible */}
         <div className="border-b border-retro-grid/30">
           <CharacterSetOverview
-            characters={characters}
+            characters={visibleCharacters}
             config={config}
-            selectedIndex={selectedIndex}
-            batchSelection={batchSelection}
+            selectedIndex={localSelectedIndex}
+            batchSelection={localBatchSelection}
             onSelect={(index) => selectionMode.handleItemInteraction(index, false, false)}
             foregroundColor={foregroundColor}
             backgroundColor={backgroundColor}
@@ -218,21 +292,22 @@ export function EditorSidebar({
           {!gridCollapsed && (
             <div className="p-2 pb-14">
               <InteractiveCharacterGrid
-                characters={characters}
+                characters={visibleCharacters}
                 config={config}
-                selectedIndex={selectedIndex}
-                batchSelection={batchSelection}
+                selectedIndex={localSelectedIndex}
+                batchSelection={localBatchSelection}
                 onSelect={selectionMode.handleItemInteraction}
                 showAddButton={showAddButton && !!onAddCharacter && !selectionMode.isSelectionMode}
                 onAdd={onAddCharacter}
                 foregroundColor={foregroundColor}
+                palette={palette}
                 backgroundColor={backgroundColor}
                 showIndices={false}
                 smallScale={2}
                 minColumns={8}
                 maxColumns={10}
                 gap={4}
-                onContextMenu={selectionMode.isSelectionMode ? undefined : onContextMenu}
+                onContextMenu={selectionMode.isSelectionMode || !onContextMenu ? undefined : handleLocalContextMenu}
                 isSelectionMode={selectionMode.isSelectionMode}
                 onLongPress={selectionMode.handleLongPress}
               />
@@ -245,7 +320,7 @@ export function EditorSidebar({
       <SelectionModeBar
         isVisible={selectionMode.isSelectionMode}
         selectionCount={selectionMode.selectionCount}
-        totalItems={characters.length}
+        totalItems={visibleCharacters.length}
         onSelectAll={selectionMode.selectAll}
         onClearSelection={selectionMode.clearSelection}
         onExitMode={selectionMode.exitSelectionMode}
@@ -10,6 +10,7 @@
  * - Optional grid lines between pixels
  * - Click/drag interaction with mouse and touch
  * - Mixed pixel pattern for batch editing visualization
+ * - Palette rendering for multicolor (2bpp) characters
  * - Coordinate tracking for hover display
  *
  * @module components/character-editor/editor/PixelGrid
@@ -21,6 +22,10 @@ import { useRef, useEffect, useCallback, useState } from "react";
 export interface PixelGridProps {
   /** Pixel data as 2D boolean array [row][col] */
   pixels: boolean[][];
+  /** Color indices for multicolor characters [row][col] */
+  colors?: number[][];
+  /** Colors for each color index (used together with colors) */
+  palette?: string[];
   /** Scale factor (pixels per grid cell) */
   scale?: number;
   /** Show grid lines between pixels */
@@ -69,6 +74,8 @@ export interface PixelGridProps {
  */
 export function PixelGrid({
   pixels,
+  colors,
+  palette,
   scale = 1,
   showGrid = false,
   gridColor = "#4a4a4a",
@@ -134,6 +141,13 @@ export function PixelGrid({
         const isMixed = mixedPixels?.has(pixelKey);
         const isDiff = diffPixels?.has(pixelKey);
         const isOn = pixels[row]?.[col] || false;
+        const colorIndex = colors?.[row]?.[col];
+        const pixelColor =
+          palette && colorIndex !== undefined
+            ? palette[colorIndex] ?? foregroundColor
+            : isOn
+              ? foregroundColor
+              : backgroundColor;
 
         if (isMixed) {
           // Draw checkered pattern for mixed pixels (disable bloom for this)
@@ -154,7 +168,7 @@ export function PixelGrid({
           if (hasBloom) ctx.shadowBlur = (bloomIntensity / 100) * scale * 2;
         } else {
           // Draw base pixel
-          ctx.fillStyle = isOn ? foregroundColor : backgroundColor;
+          ctx.fillStyle = pixelColor;
           // Only apply bloom to foreground pixels
           if (hasBloom && !isOn) ctx.shadowBlur = 0;
           ctx.fillRect(x, y, scale, scale);
@@ -213,6 +227,8 @@ export function PixelGrid({
     }
   }, [
     pixels,
+    colors,
+    palette,
     scale,
     showGrid,
     gridColor,
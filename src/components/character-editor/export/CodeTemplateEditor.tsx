@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback } from "react";
+import {
+  CodeTemplate,
+  TEMPLATE_BYTE_FORMATS,
+  TEMPLATE_PLACEHOLDERS,
+  TemplateByteFormat,
+  createCodeTemplate,
+} from "@/lib/character-editor/codeTemplates";
+
+export interface CodeTemplateEditorProps {
+  /** Built-in and user templates */
+  templates: CodeTemplate[];
+  /** ID of the selected template */
+  selectedId: string;
+  /** Callback when a template is selected */
+  onSelect: (id: string) => void;
+  /** Callback when a user template is added */
+  onAdd: (template: CodeTemplate) => void;
+  /** Callback when a user template is changed */
+  onUpdate: (template: CodeTemplate) => void;
+  /** Callback when a user template is deleted */
+  onDelete: (id: string) => void;
+}
+
+const inputClasses =
+  "w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan";
+
+const buttonClasses =
+  "px-3 py-1.5 text-xs rounded border border-retro-grid/50 text-gray-300 hover:border-retro-cyan hover:text-retro-cyan transition-colors";
+
+/**
+ * Picker and editor for code export templates
+ *
+ * Built-in templates are read-only; duplicating one creates an editable
+ * user template. Changes are passed up as they are typed, so the caller
+ * can persist them and refresh the live preview.
+ *
+ * Used in:
+ * - ExportView (source code export)
+ */
+export function CodeTemplateEditor({
+  templates,
+  selectedId,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: CodeTemplateEditorProps) {
+  const selected = templates.find((template) => template.id === selectedId) ?? templates[0];
+  const builtInTemplates = templates.filter((template) => template.builtIn);
+  const userTemplates = templates.filter((template) => !template.builtIn);
+
+  const handleAdd = useCallback(
+    (source?: CodeTemplate) => {
+      const template = createCodeTemplate(source);
+      onAdd(template);
+      onSelect(template.id);
+    },
+    [onAdd, onSelect]
+  );
+
+  const update = useCallback(
+    (changes: Partial<CodeTemplate>) => {
+      if (selected && !selected.builtIn) {
+        onUpdate({ ...selected, ...changes });
+      }
+    },
+    [selected, onUpdate]
+  );
+
+  if (!selected) return null;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">Template</label>
+        <select
+          value={selected.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className={inputClasses}
+          aria-label="Code template"
+        >
+          <optgroup label="Built-in">
+            {builtInTemplates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </optgroup>
+          {userTemplates.length > 0 && (
+            <optgroup label="My Templates">
+              {userTemplates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => handleAdd(selected)} className={buttonClasses}>
+          Duplicate
+        </button>
+        <button onClick={() => handleAdd()} className={buttonClasses}>
+          New
+        </button>
+        {!selected.builtIn && (
+          <button
+            onClick={() => onDelete(selected.id)}
+            className="px-3 py-1.5 text-xs rounded border border-red-500/50 text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {selected.builtIn ? (
+        <p className="text-xs text-gray-500">Built-in templates cannot be changed. Duplicate one to edit it.</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Name</label>
+            <input
+              type="text"
+              value={selected.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Extension</label>
+            <input
+              type="text"
+              value={selected.extension}
+              onChange={(e) => update({ extension: e.target.value })}
+              className={`${inputClasses} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Byte Format</label>
+            <select
+              value={selected.byteFormat}
+              onChange={(e) => update({ byteFormat: e.target.value as TemplateByteFormat })}
+              className={inputClasses}
+              aria-label="Byte format"
+            >
+              {TEMPLATE_BYTE_FORMATS.map((format) => (
+                <option key={format.id} value={format.id}>
+                  {format.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Byte Separator</label>
+            <input
+              type="text"
+              value={selected.byteSeparator}
+              onChange={(e) => update({ byteSeparator: e.target.value })}
+              className={`${inputClasses} font-mono`}
+            />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">Template Text</label>
+        <textarea
+          value={selected.body}
+          onChange={(e) => update({ body: e.target.value })}
+          readOnly={selected.builtIn}
+          rows={10}
+          spellCheck={false}
+          className={`${inputClasses} font-mono text-xs ${selected.builtIn ? "text-gray-400" : ""}`}
+          aria-label="Template text"
+        />
+      </div>
+
+      <details className="text-xs text-gray-500">
+        <summary className="cursor-pointer hover:text-gray-300">Placeholders</summary>
+        <ul className="mt-2 space-y-1">
+          {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+            <li key={placeholder.name}>
+              <code className="text-retro-cyan">{`{{${placeholder.name}}}`}</code> {placeholder.description}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
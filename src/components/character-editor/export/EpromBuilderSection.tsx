@@ -0,0 +1,238 @@
+"use client";
+
+import { useCallback } from "react";
+import { SerializedCharacterSet } from "@/lib/character-editor/types";
+import { parseByteOffset } from "@/lib/character-editor/romLayout";
+import {
+  EpromImage,
+  EpromSegment,
+  EpromTarget,
+  formatEpromOffset,
+  formatEpromSize,
+} from "@/lib/character-editor/eprom";
+
+/**
+ * Character set placed into an EPROM image
+ */
+export interface EpromPlacement {
+  /** ID of the library character set */
+  setId: string;
+  /** Offset as entered by the user */
+  offsetText: string;
+}
+
+export interface EpromBuilderSectionProps {
+  /** Chips the image can be built for */
+  targets: EpromTarget[];
+  /** ID of the selected chip */
+  targetId: string;
+  /** Callback when a chip is selected */
+  onTargetChange: (id: string) => void;
+  /** Fill byte as entered by the user */
+  fillText: string;
+  /** Callback when the fill byte is edited */
+  onFillTextChange: (text: string) => void;
+  /** Placed character sets */
+  placements: EpromPlacement[];
+  /** Callback when sets are placed, moved or removed */
+  onPlacementsChange: (placements: EpromPlacement[]) => void;
+  /** ROM data of the placed sets (used to place added sets after them) */
+  segments: EpromSegment[];
+  /** The exported character set */
+  characterSet: { id: string; name: string };
+  /** Library sets that can be placed */
+  librarySets: SerializedCharacterSet[];
+}
+
+export interface EpromImageSummaryProps {
+  /** Target chip */
+  target: EpromTarget;
+  /** ROM data of the placed sets */
+  segments: EpromSegment[];
+  /** Built image */
+  image: EpromImage;
+}
+
+/**
+ * Options for building an EPROM image from several character sets
+ *
+ * Picks the target chip and fill byte and places library sets at
+ * offsets. Added sets are placed directly after the data already placed.
+ *
+ * Used in:
+ * - ExportView (EPROM image export)
+ */
+export function EpromBuilderSection({
+  targets,
+  targetId,
+  onTargetChange,
+  fillText,
+  onFillTextChange,
+  placements,
+  onPlacementsChange,
+  segments,
+  characterSet,
+  librarySets,
+}: EpromBuilderSectionProps) {
+  const updatePlacement = useCallback(
+    (index: number, changes: Partial<EpromPlacement>) => {
+      onPlacementsChange(placements.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+    },
+    [placements, onPlacementsChange]
+  );
+
+  // Add another set directly after the placed data
+  const handleAdd = useCallback(() => {
+    const end = segments.reduce((max, segment) => Math.max(max, segment.offset + segment.data.length), 0);
+    const placedIds = new Set(placements.map((placement) => placement.setId));
+    const nextSet = librarySets.find((set) => !placedIds.has(set.metadata.id));
+    onPlacementsChange([
+      ...placements,
+      { setId: nextSet?.metadata.id ?? characterSet.id, offsetText: formatEpromOffset(end) },
+    ]);
+  }, [segments, placements, librarySets, characterSet.id, onPlacementsChange]);
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Target Chip</label>
+          <select
+            value={targetId}
+            onChange={(e) => onTargetChange(e.target.value)}
+            className="w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan"
+            aria-label="Target chip"
+          >
+            <optgroup label="EPROMs">
+              {targets.filter((target) => !target.id.startsWith("chip-")).map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.name}
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="Character ROMs">
+              {targets.filter((target) => target.id.startsWith("chip-")).map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.name}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">Fill Byte</label>
+          <input
+            type="text"
+            value={fillText}
+            onChange={(e) => onFillTextChange(e.target.value)}
+            className={`w-full px-3 py-2 bg-retro-dark border rounded text-sm text-white font-mono focus:outline-none focus:border-retro-cyan ${
+              (parseByteOffset(fillText) ?? 0x100) > 0xff ? "border-red-500" : "border-retro-grid/50"
+            }`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">Character Sets</label>
+        <div className="space-y-2">
+          {placements.map((placement, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={placement.setId}
+                onChange={(e) => updatePlacement(index, { setId: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1.5 bg-retro-dark border border-retro-grid/50 rounded text-xs text-white focus:outline-none focus:border-retro-cyan"
+                aria-label={`Character set ${index + 1}`}
+              >
+                <option value={characterSet.id}>{characterSet.name} (this set)</option>
+                {librarySets
+                  .filter((set) => set.metadata.id !== characterSet.id)
+                  .map((set) => (
+                    <option key={set.metadata.id} value={set.metadata.id}>
+                      {set.metadata.name}
+                    </option>
+                  ))}
+              </select>
+              <input
+                type="text"
+                value={placement.offsetText}
+                onChange={(e) => updatePlacement(index, { offsetText: e.target.value })}
+                className={`w-20 px-2 py-1.5 bg-retro-dark border rounded text-xs text-white font-mono focus:outline-none focus:border-retro-cyan ${
+                  parseByteOffset(placement.offsetText) === null ? "border-red-500" : "border-retro-grid/50"
+                }`}
+                aria-label={`Offset of character set ${index + 1}`}
+              />
+              {placements.length > 1 && (
+                <button
+                  onClick={() => onPlacementsChange(placements.filter((_, i) => i !== index))}
+                  className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                  title="Remove"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={handleAdd}
+          className="mt-2 px-3 py-1.5 text-xs rounded border border-retro-grid/50 text-gray-300 hover:border-retro-cyan hover:text-retro-cyan transition-colors"
+        >
+          Add Set
+        </button>
+        <p className="text-xs text-gray-500 mt-1">Offsets accept decimal or hex (0x800, $800, 800h)</p>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Summary of a built EPROM image: where each set lands, used space,
+ * checksums and placement warnings
+ *
+ * Used in:
+ * - ExportView (EPROM image preview)
+ */
+export function EpromImageSummary({ target, segments, image }: EpromImageSummaryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="bg-black/50 rounded p-3 font-mono text-xs text-gray-300 space-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-500">Chip:</span>
+          <span>{target.name}</span>
+        </div>
+        {segments.map((segment, index) => (
+          <div key={index} className="flex justify-between gap-2">
+            <span className="text-gray-500 truncate">{segment.name}:</span>
+            <span className="flex-shrink-0">
+              {formatEpromOffset(segment.offset)}-
+              {formatEpromOffset(segment.offset + Math.max(segment.data.length, 1) - 1)}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between">
+          <span className="text-gray-500">Used:</span>
+          <span>
+            {formatEpromSize(image.usedBytes)} of {formatEpromSize(target.size)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">CRC32:</span>
+          <span className="text-retro-cyan">{image.crc32.toString(16).toUpperCase().padStart(8, "0")}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">SUM16:</span>
+          <span className="text-retro-cyan">{image.sum16.toString(16).toUpperCase().padStart(4, "0")}</span>
+        </div>
+      </div>
+      {image.warnings.length > 0 && (
+        <div className="p-3 rounded border border-retro-amber/50 bg-retro-amber/10 text-xs text-retro-amber space-y-1">
+          {image.warnings.map((warning, index) => (
+            <p key={index}>{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { formatEpromOffset } from "@/lib/character-editor/eprom";
+import { RomDiff } from "@/lib/character-editor/romPatch";
+
+/** Changed rows shown before the rest is summarized */
+const MAX_DIFF_ROWS = 12;
+
+export interface RomPatchDiffProps {
+  /** Whether a ROM dump has been uploaded */
+  hasRom: boolean;
+  /** Differences made by the patch, null until the font is located */
+  diff: RomDiff | null;
+  /** Offset the font was written at */
+  offset: number;
+}
+
+/**
+ * Format a byte as two hex digits
+ */
+function formatByte(byte: number): string {
+  return byte.toString(16).toUpperCase().padStart(2, "0");
+}
+
+/**
+ * Byte diff of a patched system ROM
+ *
+ * Shows the changed rows of the ROM dump before (-) and after (+)
+ * patching, with the changed bytes highlighted.
+ *
+ * Used in:
+ * - ExportView (system ROM patch preview)
+ */
+export function RomPatchDiff({ hasRom, diff, offset }: RomPatchDiffProps) {
+  if (!diff) {
+    return (
+      <div className="bg-black/50 rounded p-3 text-xs text-gray-500">
+        {hasRom ? "Choose where the font is located" : "Upload a ROM dump to see what changes"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="bg-black/50 rounded p-3 font-mono text-[10px] text-gray-300 max-h-[300px] overflow-hidden whitespace-pre leading-relaxed">
+        <div className="text-gray-500 mb-1">
+          {diff.changedBytes} bytes changed at {formatEpromOffset(offset)}
+        </div>
+        {diff.rows.slice(0, MAX_DIFF_ROWS).map((row) => (
+          <div key={row.offset}>
+            <div>
+              <span className="text-gray-500">{formatEpromOffset(row.offset)} - </span>
+              {row.before.map((byte, i) => (
+                <span key={i} className={byte !== row.after[i] ? "text-red-400" : ""}>
+                  {formatByte(byte)}{" "}
+                </span>
+              ))}
+            </div>
+            <div>
+              <span className="text-gray-500">{" ".repeat(6)} + </span>
+              {row.after.map((byte, i) => (
+                <span key={i} className={byte !== row.before[i] ? "text-green-400" : ""}>
+                  {formatByte(byte)}{" "}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      {diff.rows.length > MAX_DIFF_ROWS && (
+        <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black/80 to-transparent rounded-b pointer-events-none flex items-end justify-center pb-2">
+          <span className="text-[10px] text-gray-500 bg-black/60 px-2 py-0.5 rounded">
+            {diff.rows.length - MAX_DIFF_ROWS} more changed rows
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { ImportDropZone } from "@/components/character-editor/import/ImportDropZone";
+import { parseByteOffset } from "@/lib/character-editor/romLayout";
+import { formatEpromOffset } from "@/lib/character-editor/eprom";
+import { RomMatch } from "@/lib/character-editor/romPatch";
+import { formatFileSize } from "@/lib/character-editor/utils";
+
+/**
+ * How the font is located in the ROM dump
+ */
+export type RomPatchMode = "find" | "offset";
+
+export interface RomPatchPanelProps {
+  /** Uploaded ROM dump file */
+  romFile: File | null;
+  /** Contents of the ROM dump */
+  romData: Uint8Array | null;
+  /** Callback when a ROM dump is uploaded */
+  onRomLoad: (file: File, data: Uint8Array) => void;
+  /** How the font is located */
+  mode: RomPatchMode;
+  /** Callback when the location mode changes */
+  onModeChange: (mode: RomPatchMode) => void;
+  /** Offset as entered by the user (offset mode) */
+  offsetText: string;
+  /** Callback when the offset is edited */
+  onOffsetTextChange: (text: string) => void;
+  /** Name of the set whose glyphs are searched, null for the exported set */
+  referenceName: string | null;
+  /** Where the font was found (find mode) */
+  match: RomMatch | null;
+  /** Number of characters in the exported set */
+  characterCount: number;
+  /** Error from patching the ROM dump */
+  error: string | null;
+}
+
+/**
+ * Get classes for a location mode button
+ */
+function modeButtonClasses(active: boolean): string {
+  return `flex-1 px-3 py-2 text-xs rounded border transition-colors ${
+    active
+      ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+      : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+  }`;
+}
+
+/**
+ * Options for patching a character set into a system ROM dump
+ *
+ * Uploads the ROM dump and locates the font, either by matching its
+ * glyphs or at an offset entered by the user.
+ *
+ * Used in:
+ * - ExportView (system ROM patch export)
+ */
+export function RomPatchPanel({
+  romFile,
+  romData,
+  onRomLoad,
+  mode,
+  onModeChange,
+  offsetText,
+  onOffsetTextChange,
+  referenceName,
+  match,
+  characterCount,
+  error,
+}: RomPatchPanelProps) {
+  return (
+    <>
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">System ROM</label>
+        <ImportDropZone onFileSelect={(file, data) => onRomLoad(file, new Uint8Array(data))} selectedFile={romFile} />
+        {romFile && romData && (
+          <p className="text-xs text-gray-500 mt-1">
+            {romFile.name} ({formatFileSize(romData.length)})
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-400 mb-1">Font Location</label>
+        <div className="flex gap-2">
+          <button onClick={() => onModeChange("find")} className={modeButtonClasses(mode === "find")}>
+            Find Font
+          </button>
+          <button onClick={() => onModeChange("offset")} className={modeButtonClasses(mode === "offset")}>
+            Offset
+          </button>
+        </div>
+        {mode === "find" ? (
+          <p className="text-xs text-gray-500 mt-1">
+            Matches the glyphs of {referenceName ? `"${referenceName}"` : "this set"} against the ROM dump
+          </p>
+        ) : (
+          <input
+            type="text"
+            value={offsetText}
+            onChange={(e) => onOffsetTextChange(e.target.value)}
+            className={`mt-2 w-full px-3 py-2 bg-retro-dark border rounded text-sm text-white font-mono focus:outline-none focus:border-retro-cyan ${
+              parseByteOffset(offsetText) === null ? "border-red-500" : "border-retro-grid/50"
+            }`}
+            aria-label="Font offset"
+          />
+        )}
+      </div>
+
+      {romData && mode === "find" && (
+        <p className={`text-xs ${match ? "text-retro-cyan" : "text-red-400"}`}>
+          {match
+            ? `Found at ${formatEpromOffset(match.offset)} (${match.matchedCharacters} of ${characterCount} characters match)`
+            : "Font not found in this ROM. Enter its offset instead."}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Format Suggestions Component
+ *
+ * Ranked list of detected binary formats for the binary import wizard.
+ * Each suggestion shows:
+ * - Dimensions, bit settings and character count
+ * - Confidence score and the reasons behind it
+ * - A glyph strip preview of the first characters
+ *
+ * Clicking a suggestion applies its configuration.
+ *
+ * @module components/character-editor/import/FormatSuggestions
+ */
+"use client";
+
+import { useMemo } from "react";
+import { CharacterPreview } from "@/components/character-editor/character/CharacterPreview";
+import { CharacterSetConfig, bytesPerCharacter } from "@/lib/character-editor/types";
+import { FormatCandidate } from "@/lib/character-editor/import/formatDetection";
+import { parseCharacterRom } from "@/lib/character-editor/import/binary";
+
+export interface FormatSuggestionsProps {
+  /** Raw ROM data */
+  data: Uint8Array;
+  /** Ranked candidates from detectBinaryFormats */
+  candidates: FormatCandidate[];
+  /** Current configuration (to highlight the active suggestion) */
+  config: CharacterSetConfig;
+  /** Callback when a suggestion is picked */
+  onSelect: (config: CharacterSetConfig) => void;
+}
+
+/** Number of characters shown in each glyph strip */
+const STRIP_CHARACTERS = 48;
+
+/**
+ * Check whether a candidate matches the current configuration
+ */
+function isActive(candidate: FormatCandidate, config: CharacterSetConfig): boolean {
+  const c = candidate.config;
+  return (
+    c.width === config.width &&
+    c.height === config.height &&
+    c.padding === config.padding &&
+    c.bitDirection === config.bitDirection &&
+    (c.width <= 8 || (c.byteOrder ?? "big") === (config.byteOrder ?? "big")) &&
+    (config.bitsPerPixel ?? 1) === 1 &&
+    (config.byteLayout ?? "row") === "row"
+  );
+}
+
+/**
+ * Ranked list of detected binary formats with previews
+ */
+export function FormatSuggestions({ data, candidates, config, onSelect }: FormatSuggestionsProps) {
+  // Parse only the characters shown in each strip
+  const previews = useMemo(
+    () =>
+      candidates.map((candidate) =>
+        parseCharacterRom(
+          data.subarray(0, STRIP_CHARACTERS * bytesPerCharacter(candidate.config)),
+          candidate.config
+        )
+      ),
+    [data, candidates]
+  );
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="card-retro p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm font-medium text-gray-300">Detected Formats</span>
+        <span className="text-xs text-gray-500">Click a suggestion to apply it</span>
+      </div>
+
+      <div className="space-y-2">
+        {candidates.map((candidate, index) => {
+          const active = isActive(candidate, config);
+          const { width, height, padding, bitDirection, byteOrder } = candidate.config;
+
+          return (
+            <button
+              key={`${width}x${height}-${padding}-${bitDirection}-${byteOrder}`}
+              onClick={() => onSelect(candidate.config)}
+              className={`w-full text-left p-3 rounded border transition-colors ${
+                active
+                  ? "border-retro-cyan bg-retro-cyan/10"
+                  : "border-retro-grid/50 hover:border-retro-grid"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <div className="flex items-baseline gap-2 min-w-0">
+                  <span className={`text-sm font-medium ${active ? "text-retro-cyan" : "text-gray-200"}`}>
+                    {width}x{height}
+                  </span>
+                  <span className="text-xs text-gray-500 truncate">
+                    {bitDirection.toUpperCase()}
+                    {width % 8 !== 0 && `, pad ${padding}`}
+                    {width > 8 && `, ${byteOrder ?? "big"}-endian`}
+                    {` - ${candidate.characterCount} characters`}
+                  </span>
+                </div>
+                <span
+                  className={`flex-shrink-0 text-xs font-mono ${
+                    index === 0 ? "text-retro-amber" : "text-gray-500"
+                  }`}
+                >
+                  {candidate.score}%
+                </span>
+              </div>
+
+              <div className="bg-black/50 rounded p-1 overflow-hidden">
+                <CharacterPreview
+                  characters={previews[index]}
+                  config={candidate.config}
+                  maxCharacters={STRIP_CHARACTERS}
+                  maxWidth={560}
+                  maxHeight={height * 2}
+                  scale={2}
+                />
+              </div>
+
+              {(candidate.reasons.length > 0 || candidate.matches.length > 0) && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {candidate.reasons.join(" · ")}
+                  {candidate.matches.length > 0 &&
+                    `${candidate.reasons.length > 0 ? " · " : ""}Used by ${candidate.matches.join(", ")}`}
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+/**
+ * Glyph Strip Component
+ *
+ * A canvas-based view of raw ROM data rendered as characters.
+ * Used to visually find where a font begins inside a larger ROM dump.
+ * Features:
+ * - Renders the data with the current character configuration
+ * - Glyphs aligned to the selected start offset
+ * - Highlighted selection range
+ * - Click to set the start, shift+click to set the end
+ * - Byte offset labels for each row
+ *
+ * @module components/character-editor/import/GlyphStrip
+ */
+"use client";
+
+import { useRef, useEffect, useMemo, useCallback, useState } from "react";
+import { CharacterSetConfig, bytesPerCharacter } from "@/lib/character-editor/types";
+import { parseCharacterRom } from "@/lib/character-editor/import/binary";
+import { getPackedConfig } from "@/lib/character-editor/romLayout";
+
+/** Maximum number of glyphs rendered at once */
+const MAX_GLYPHS = 4096;
+/** Glyphs shown before the selection when the data is larger than the window */
+const LEAD_GLYPHS = 256;
+
+export interface GlyphStripProps {
+  /** Raw ROM data */
+  data: Uint8Array;
+  /** Character configuration used to render the data */
+  config: CharacterSetConfig;
+  /** Start of the selected range in bytes */
+  selectionStart: number;
+  /** Length of the selected range in bytes */
+  selectionLength: number;
+  /** Callback when the start of the range is clicked */
+  onSelectStart?: (offset: number) => void;
+  /** Callback when the end of the range is shift+clicked (exclusive byte offset) */
+  onSelectEnd?: (offset: number) => void;
+  /** Foreground color for pixels */
+  foregroundColor?: string;
+  /** Background color for pixels */
+  backgroundColor?: string;
+  /** Selection highlight color */
+  selectionColor?: string;
+  /** Maximum width of the strip */
+  maxWidth?: number;
+  /** Scale factor for each pixel */
+  pixelScale?: number;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Format a byte offset for row labels
+ */
+function formatOffset(offset: number): string {
+  return `$${offset.toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+/**
+ * Canvas-based strip of all glyphs in a ROM dump
+ */
+export function GlyphStrip({
+  data,
+  config,
+  selectionStart,
+  selectionLength,
+  onSelectStart,
+  onSelectEnd,
+  foregroundColor = "#ffffff",
+  backgroundColor = "#000000",
+  selectionColor = "#00ffff",
+  maxWidth = 512,
+  pixelScale = 2,
+  className = "",
+}: GlyphStripProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  const packedConfig = useMemo(() => getPackedConfig(config), [config]);
+  const charSize = Math.max(1, bytesPerCharacter(packedConfig));
+
+  // Align glyphs to the selected start and render a window around it
+  const phase = selectionStart % charSize;
+  const totalGlyphs = Math.floor(Math.max(0, data.length - phase) / charSize);
+  const selectedGlyph = Math.floor((selectionStart - phase) / charSize);
+  const firstGlyph =
+    totalGlyphs > MAX_GLYPHS
+      ? Math.max(0, Math.min(selectedGlyph - LEAD_GLYPHS, totalGlyphs - MAX_GLYPHS))
+      : 0;
+  const windowStart = phase + firstGlyph * charSize;
+
+  const glyphs = useMemo(
+    () =>
+      parseCharacterRom(
+        data.subarray(windowStart, windowStart + MAX_GLYPHS * charSize),
+        packedConfig
+      ),
+    [data, windowStart, charSize, packedConfig]
+  );
+
+  // Calculate layout
+  const gap = 1;
+  const charWidth = config.width * pixelScale;
+  const charHeight = config.height * pixelScale;
+  const cellWidth = charWidth + gap;
+  const cellHeight = charHeight + gap;
+  const columns = Math.max(1, Math.floor(maxWidth / cellWidth));
+  const rows = Math.ceil(glyphs.length / columns);
+  const canvasWidth = Math.max(1, columns * cellWidth - gap);
+  const canvasHeight = Math.max(1, rows * cellHeight - gap);
+
+  const selectionFirst = selectedGlyph - firstGlyph;
+  const selectionCount = Math.ceil(selectionLength / charSize);
+
+  // Draw the canvas
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+
+    // Gaps use a dim color so glyph boundaries stay visible
+    ctx.fillStyle = "#1a1a2e";
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+
+    glyphs.forEach((glyph, index) => {
+      const x = (index % columns) * cellWidth;
+      const y = Math.floor(index / columns) * cellHeight;
+      const selected = index >= selectionFirst && index < selectionFirst + selectionCount;
+
+      ctx.fillStyle = backgroundColor;
+      ctx.fillRect(x, y, charWidth, charHeight);
+
+      ctx.fillStyle = selected ? foregroundColor : "#666666";
+      glyph.pixels.forEach((pixelRow, py) => {
+        pixelRow.forEach((pixel, px) => {
+          if (pixel) {
+            ctx.fillRect(x + px * pixelScale, y + py * pixelScale, pixelScale, pixelScale);
+          }
+        });
+      });
+
+      if (selected) {
+        ctx.fillStyle = selectionColor;
+        ctx.globalAlpha = 0.15;
+        ctx.fillRect(x, y, charWidth, charHeight);
+        ctx.globalAlpha = 1;
+      }
+
+      if (index === selectionFirst) {
+        ctx.strokeStyle = selectionColor;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x + 1, y + 1, charWidth - 2, charHeight - 2);
+      } else if (index === hoveredIndex) {
+        ctx.strokeStyle = selectionColor;
+        ctx.lineWidth = 1;
+        ctx.globalAlpha = 0.5;
+        ctx.strokeRect(x + 0.5, y + 0.5, charWidth - 1, charHeight - 1);
+        ctx.globalAlpha = 1;
+      }
+    });
+  }, [
+    glyphs,
+    columns,
+    cellWidth,
+    cellHeight,
+    charWidth,
+    charHeight,
+    canvasWidth,
+    canvasHeight,
+    pixelScale,
+    selectionFirst,
+    selectionCount,
+    hoveredIndex,
+    foregroundColor,
+    backgroundColor,
+    selectionColor,
+  ]);
+
+  // Get glyph index from mouse position
+  const getIndexFromEvent = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>): number | null => {
+      const canvas = canvasRef.current;
+      if (!canvas) return null;
+
+      const rect = canvas.getBoundingClientRect();
+      const x = (e.clientX - rect.left) * (canvas.width / rect.width);
+      const y = (e.clientY - rect.top) * (canvas.height / rect.height);
+      const col = Math.floor(x / cellWidth);
+      const row = Math.floor(y / cellHeight);
+      const index = row * columns + col;
+
+      if (col < 0 || col >= columns || index < 0 || index >= glyphs.length) return null;
+      return index;
+    },
+    [cellWidth, cellHeight, columns, glyphs.length]
+  );
+
+  const handleClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      const index = getIndexFromEvent(e);
+      if (index === null) return;
+      const offset = windowStart + index * charSize;
+
+      if (e.shiftKey && onSelectEnd) {
+        onSelectEnd(offset + charSize);
+      } else {
+        onSelectStart?.(offset);
+      }
+    },
+    [getIndexFromEvent, windowStart, charSize, onSelectStart, onSelectEnd]
+  );
+
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      setHoveredIndex(getIndexFromEvent(e));
+    },
+    [getIndexFromEvent]
+  );
+
+  const hoveredOffset = hoveredIndex !== null ? windowStart + hoveredIndex * charSize : null;
+
+  return (
+    <div className={className}>
+      <div className="flex max-h-80 overflow-auto bg-black/50 rounded p-2">
+        {/* Row offsets */}
+        <div className="flex-shrink-0 pr-2 text-right">
+          {Array.from({ length: rows }, (_, row) => (
+            <div
+              key={row}
+              className="text-[10px] leading-none font-mono text-gray-600 flex items-center justify-end"
+              style={{ height: cellHeight }}
+            >
+              {formatOffset(windowStart + row * columns * charSize)}
+            </div>
+          ))}
+        </div>
+        <canvas
+          ref={canvasRef}
+          onClick={handleClick}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoveredIndex(null)}
+          className="cursor-pointer flex-shrink-0"
+          style={{ imageRendering: "pixelated" }}
+        />
+      </div>
+      <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+        <span>Click to set the start, shift+click to set the end</span>
+        <span className="font-mono">
+          {hoveredOffset !== null
+            ? formatOffset(hoveredOffset)
+            : totalGlyphs > MAX_GLYPHS
+              ? `Showing ${formatOffset(windowStart)}-${formatOffset(windowStart + glyphs.length * charSize)}`
+              : ""}
+        </span>
+      </div>
+    </div>
+  );
+}
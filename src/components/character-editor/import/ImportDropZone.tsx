@@ -2,6 +2,8 @@
 
 import { useState, useCallback, useRef } from "react";
 import { isValidBinaryFile, formatFileSize } from "@/lib/character-editor/utils";
+import { getHexRecordFormatForFile, parseHexRecords } from "@/lib/character-editor/import/hexRecords";
+import { isUnifontContent } from "@/lib/character-editor/import/unifont";
 
 export interface ImportDropZoneProps {
   /** Callback when a file is selected */
@@ -18,6 +20,7 @@ export interface ImportDropZoneProps {
 
 /**
  * Drag-and-drop file upload zone for binary ROM files
+ * Intel HEX and S-record files are converted to their binary image.
  */
 export function ImportDropZone({
   onFileSelect,
@@ -39,7 +42,7 @@ export function ImportDropZone({
       // Validate file type
       if (!isValidBinaryFile(file)) {
         setLocalError(
-          "Invalid file type. Please select a binary ROM file (.bin, .rom, .chr, .fnt, .dat)"
+          "Invalid file type. Please select a binary ROM file (.bin, .rom, .chr, .fnt, .dat) or an Intel HEX / S-record file"
         );
         return;
       }
@@ -51,12 +54,31 @@ export function ImportDropZone({
       }
 
       // Read file
+      let data: ArrayBuffer;
       try {
-        const data = await file.arrayBuffer();
-        onFileSelect(file, data);
+        data = await file.arrayBuffer();
       } catch {
         setLocalError("Failed to read file. Please try again.");
+        return;
+      }
+
+      // Convert Intel HEX / S-record files to the ROM image they describe
+      if (getHexRecordFormatForFile(file.name)) {
+        const text = new TextDecoder().decode(data);
+        if (isUnifontContent(text)) {
+          setLocalError("This is a GNU Unifont .hex font. Use the Bitmap Font importer instead.");
+          return;
+        }
+        try {
+          const image = parseHexRecords(text);
+          data = image.data.slice().buffer;
+        } catch (e) {
+          setLocalError(e instanceof Error ? e.message : "Failed to parse hex record file.");
+          return;
+        }
       }
+
+      onFileSelect(file, data);
     },
     [onFileSelect]
   );
@@ -117,7 +139,7 @@ export function ImportDropZone({
       <input
         ref={fileInputRef}
         type="file"
-        accept=".bin,.rom,.chr,.fnt,.dat"
+        accept=".bin,.rom,.chr,.fnt,.dat,.hex,.ihx,.s19,.s28,.s37,.srec,.mot"
         onChange={handleInputChange}
         className="hidden"
         aria-hidden="true"
@@ -223,7 +245,7 @@ export function ImportDropZone({
 
             {/* Accepted formats */}
             <div className="text-[10px] text-gray-500">
-              Accepts: .bin, .rom, .chr, .fnt, .dat
+              Accepts: .bin, .rom, .chr, .fnt, .dat, .hex, .s19, .srec
             </div>
           </div>
         )}
@@ -0,0 +1,193 @@
+/**
+ * ROM Region Section Component
+ *
+ * Collapsible section for importing a character set from a region of a
+ * larger ROM dump (e.g. a font inside a 16K system ROM).
+ * Features:
+ * - Start offset, length and character count inputs (hex allowed)
+ * - Glyph strip of the whole file to find where the font begins
+ * - Reset to the whole file
+ *
+ * @module components/character-editor/import/RomRegionSection
+ */
+"use client";
+
+import { useState, useCallback } from "react";
+import { CharacterSetConfig } from "@/lib/character-editor/types";
+import { getRomCharacterCount, getRomSize, parseByteOffset } from "@/lib/character-editor/romLayout";
+import { GlyphStrip } from "./GlyphStrip";
+
+export interface RomRegionSectionProps {
+  /** Raw data of the whole file */
+  data: Uint8Array;
+  /** Character configuration used for counts and the glyph strip */
+  config: CharacterSetConfig;
+  /** Start of the region in bytes */
+  offset: number;
+  /** Length of the region in bytes (undefined extends to the end of the file) */
+  length: number | undefined;
+  /** Callback when the region changes */
+  onChange: (offset: number, length: number | undefined) => void;
+  /** Whether the section starts expanded */
+  defaultExpanded?: boolean;
+}
+
+type RegionField = "offset" | "length" | "count";
+
+const inputClasses =
+  "w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white font-mono focus:outline-none focus:border-retro-cyan";
+
+/**
+ * Format a byte value as hex for the inputs
+ */
+function formatHex(value: number): string {
+  return `0x${value.toString(16).toUpperCase()}`;
+}
+
+/**
+ * Region selection for importing part of a larger ROM dump
+ */
+export function RomRegionSection({
+  data,
+  config,
+  offset,
+  length,
+  onChange,
+  defaultExpanded = false,
+}: RomRegionSectionProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  // Text of the input being edited (other inputs show the current region)
+  const [editing, setEditing] = useState<{ field: RegionField; text: string } | null>(null);
+
+  const regionLength = length ?? Math.max(0, data.length - offset);
+  const characterCount = getRomCharacterCount(regionLength, config);
+  const isWholeFile = offset === 0 && length === undefined;
+
+  const values: Record<RegionField, string> = {
+    offset: formatHex(offset),
+    length: formatHex(regionLength),
+    count: String(characterCount),
+  };
+
+  // Keep the region inside the file
+  const setRegion = useCallback(
+    (start: number, size: number | undefined) => {
+      const clampedStart = Math.min(start, data.length);
+      onChange(
+        clampedStart,
+        size === undefined ? undefined : Math.min(size, data.length - clampedStart)
+      );
+    },
+    [data.length, onChange]
+  );
+
+  const handleFieldChange = useCallback(
+    (field: RegionField, text: string) => {
+      setEditing({ field, text });
+      const value = parseByteOffset(text);
+      if (value === null) return;
+
+      if (field === "offset") {
+        setRegion(value, length);
+      } else if (field === "length") {
+        setRegion(offset, value);
+      } else {
+        setRegion(offset, getRomSize(value, config));
+      }
+    },
+    [offset, length, config, setRegion]
+  );
+
+  const handleSelectEnd = useCallback(
+    (end: number) => {
+      if (end > offset) onChange(offset, end - offset);
+    },
+    [offset, onChange]
+  );
+
+  const fields: { field: RegionField; label: string }[] = [
+    { field: "offset", label: "Start offset" },
+    { field: "length", label: "Length (bytes)" },
+    { field: "count", label: "Characters" },
+  ];
+
+  return (
+    <div className="card-retro">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-center justify-between p-4 text-sm text-gray-300 hover:text-retro-cyan transition-colors"
+        aria-expanded={expanded}
+      >
+        <span className="font-medium">
+          ROM Region
+          {!isWholeFile && (
+            <span className="ml-2 text-xs text-retro-amber font-mono">
+              {formatHex(offset)}-{formatHex(offset + regionLength)}
+            </span>
+          )}
+        </span>
+        <svg
+          className={`w-4 h-4 transition-transform ${expanded ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            Import part of a larger ROM dump. Find where the font begins in the strip below.
+          </p>
+
+          <div className="grid grid-cols-3 gap-3">
+            {fields.map(({ field, label }) => {
+              const text = editing?.field === field ? editing.text : values[field];
+              const invalid = editing?.field === field && parseByteOffset(editing.text) === null;
+              return (
+                <div key={field}>
+                  <label htmlFor={`rom-region-${field}`} className="block text-xs text-gray-500 mb-1">
+                    {label}
+                  </label>
+                  <input
+                    id={`rom-region-${field}`}
+                    type="text"
+                    value={text}
+                    onChange={(e) => handleFieldChange(field, e.target.value)}
+                    onBlur={() => setEditing(null)}
+                    className={`${inputClasses} ${invalid ? "border-red-500" : ""}`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>File size: {formatHex(data.length)} ({data.length} bytes)</span>
+            {!isWholeFile && (
+              <button
+                type="button"
+                onClick={() => onChange(0, undefined)}
+                className="text-gray-400 hover:text-retro-cyan transition-colors"
+              >
+                Use whole file
+              </button>
+            )}
+          </div>
+
+          <GlyphStrip
+            data={data}
+            config={config}
+            selectionStart={offset}
+            selectionLength={regionLength}
+            onSelectStart={(start) => setRegion(start, length)}
+            onSelectEnd={handleSelectEnd}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useMemo, useCallback, useEffect, useRef } from "react";
-import type { PaddingDirection, BitDirection, ByteOrder } from "@/lib/character-editor/types";
+import type { PaddingDirection, BitDirection, ByteOrder, ByteLayout } from "@/lib/character-editor/types";
 import {
   BINARY_EXPORT_SYSTEM_PRESETS,
   CHIP_BINARY_EXPORT_PRESETS,
@@ -24,22 +24,29 @@ import {
 import { PaddingDirectionSelector } from "./PaddingDirectionSelector";
 import { BitDirectionSelector } from "./BitDirectionSelector";
 import { ByteOrderSelector } from "./ByteOrderSelector";
+import { ByteLayoutSelector } from "./ByteLayoutSelector";
 
 export interface BinaryFormatSectionProps {
   /** Current padding direction */
   padding: PaddingDirection;
   /** Current bit direction */
   bitDirection: BitDirection;
-  /** Current byte order (only relevant for width > 8) */
+  /** Current byte order (only relevant for multi-byte rows or columns) */
   byteOrder?: ByteOrder;
+  /** Current byte layout (row-major or column-major) */
+  byteLayout?: ByteLayout;
   /** Callback when padding changes */
   onPaddingChange: (padding: PaddingDirection) => void;
   /** Callback when bit direction changes */
   onBitDirectionChange: (bitDirection: BitDirection) => void;
   /** Callback when byte order changes */
   onByteOrderChange?: (byteOrder: ByteOrder) => void;
+  /** Callback when byte layout changes (the layout selector is hidden without it) */
+  onByteLayoutChange?: (byteLayout: ByteLayout) => void;
   /** Current character width (to determine if byte order is relevant) */
   characterWidth?: number;
+  /** Current character height (to determine if byte order is relevant for column layouts) */
+  characterHeight?: number;
   /** Initial chip/character generator name to pre-select (higher priority than system) */
   initialChipName?: string;
   /** Initial system name to pre-select (from character set metadata) */
@@ -54,8 +61,8 @@ export interface BinaryFormatSectionProps {
  * Combined binary format section with system/chip preset selector and collapsible custom options.
  *
  * - Primary UI: System/chip preset dropdown to select a target system or character generator
- * - Secondary UI: Collapsible "Bit Settings" section for manual padding/bit direction
- * - When a preset is selected, both padding and bit direction are set automatically
+ * - Secondary UI: Collapsible "Bit Settings" section for manual padding/bit direction/byte layout
+ * - When a preset is selected, padding and bit direction are set automatically (system presets are row-major)
  * - When custom values differ from selected preset, shows "Custom" in the input
  *
  * Used in:
@@ -225,10 +232,13 @@ export function BinaryFormatSection({
   padding,
   bitDirection,
   byteOrder = "big",
+  byteLayout = "row",
   onPaddingChange,
   onBitDirectionChange,
   onByteOrderChange,
+  onByteLayoutChange,
   characterWidth,
+  characterHeight,
   initialChipName,
   initialSystemName,
   disabled = false,
@@ -369,18 +379,18 @@ export function BinaryFormatSection({
 
     if (selection.type === "system") {
       const preset = BINARY_EXPORT_SYSTEM_PRESETS.find((p) => p.id === selection.id);
-      if (preset && preset.padding === padding && preset.bitDirection === bitDirection) {
+      if (preset && preset.padding === padding && preset.bitDirection === bitDirection && byteLayout === "row") {
         return { type: "system", preset };
       }
     } else {
       const preset = CHIP_BINARY_EXPORT_PRESETS.find((p) => p.id === selection.id);
-      if (preset && preset.padding === padding && preset.bitDirection === bitDirection) {
+      if (preset && preset.padding === padding && preset.bitDirection === bitDirection && byteLayout === "row") {
         return { type: "chip", preset };
       }
     }
 
     return null;
-  }, [selection, padding, bitDirection]);
+  }, [selection, padding, bitDirection, byteLayout]);
 
   // Display text for the input
   // Shows the preset name if selected, even if settings don't match exactly
@@ -428,9 +438,10 @@ export function BinaryFormatSection({
       if (onByteOrderChange && preset.byteOrder) {
         onByteOrderChange(preset.byteOrder);
       }
+      onByteLayoutChange?.("row");
       closeDropdown();
     },
-    [onPaddingChange, onBitDirectionChange, onByteOrderChange, closeDropdown]
+    [onPaddingChange, onBitDirectionChange, onByteOrderChange, onByteLayoutChange, closeDropdown]
   );
 
   const handleChipPresetClick = useCallback(
@@ -442,9 +453,10 @@ export function BinaryFormatSection({
       if (onByteOrderChange && preset.byteOrder) {
         onByteOrderChange(preset.byteOrder);
       }
+      onByteLayoutChange?.("row");
       closeDropdown();
     },
-    [onPaddingChange, onBitDirectionChange, onByteOrderChange, closeDropdown]
+    [onPaddingChange, onBitDirectionChange, onByteOrderChange, onByteLayoutChange, closeDropdown]
   );
 
   const handleClear = useCallback(() => {
@@ -456,8 +468,9 @@ export function BinaryFormatSection({
     if (onByteOrderChange) {
       onByteOrderChange("big");
     }
+    onByteLayoutChange?.("row");
     closeDropdown();
-  }, [onPaddingChange, onBitDirectionChange, onByteOrderChange, closeDropdown]);
+  }, [onPaddingChange, onBitDirectionChange, onByteOrderChange, onByteLayoutChange, closeDropdown]);
 
   const toggleCustomSection = useCallback(() => {
     setCustomExpanded((prev) => !prev);
@@ -465,6 +478,9 @@ export function BinaryFormatSection({
 
   const hasNoResults = filteredSystemGroups.length === 0 && filteredChipGroups.length === 0;
 
+  // Pixels per stored line - rows for row-major data, columns for column-major data
+  const lineLength = byteLayout === "column" ? characterHeight : characterWidth;
+
   return (
     <div className={`space-y-3 ${className}`}>
       {/* System/chip preset selector */}
@@ -598,13 +614,23 @@ export function BinaryFormatSection({
               <BitDirectionSelector value={bitDirection} onChange={onBitDirectionChange} disabled={disabled} />
             </div>
 
-            {/* Only show byte order for multi-byte rows (width > 8) */}
-            {characterWidth !== undefined && characterWidth > 8 && onByteOrderChange && (
+            {onByteLayoutChange && (
+              <div>
+                <label className="block text-xs text-gray-400 mb-1.5">Byte Layout</label>
+                <ByteLayoutSelector value={byteLayout} onChange={onByteLayoutChange} disabled={disabled} />
+                <p className="text-xs text-gray-500 mt-1">
+                  Columns stores each pixel column as bytes (LCD and printer fonts)
+                </p>
+              </div>
+            )}
+
+            {/* Only show byte order for multi-byte lines (width > 8, or height > 8 for columns) */}
+            {lineLength !== undefined && lineLength > 8 && onByteOrderChange && (
               <div>
                 <label className="block text-xs text-gray-400 mb-1.5">Byte Order</label>
                 <ByteOrderSelector value={byteOrder} onChange={onByteOrderChange} disabled={disabled} />
                 <p className="text-xs text-gray-500 mt-1">
-                  Controls byte arrangement in multi-byte rows
+                  Controls byte arrangement in multi-byte {byteLayout === "column" ? "columns" : "rows"}
                 </p>
               </div>
             )}
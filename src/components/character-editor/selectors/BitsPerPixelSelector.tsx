@@ -0,0 +1,66 @@
+"use client";
+
+import type { BitsPerPixel } from "@/lib/character-editor/types";
+
+export interface BitsPerPixelSelectorProps {
+  /** Current bits per pixel */
+  value: BitsPerPixel;
+  /** Callback when bits per pixel changes */
+  onChange: (bitsPerPixel: BitsPerPixel) => void;
+  /** Whether the selector is disabled */
+  disabled?: boolean;
+  /** Additional CSS classes for the container */
+  className?: string;
+}
+
+/**
+ * Reusable component for selecting the pixel bit depth (Mono/Multicolor)
+ *
+ * Used in:
+ * - BinaryImportView (binary ROM import)
+ */
+export function BitsPerPixelSelector({
+  value,
+  onChange,
+  disabled = false,
+  className = "",
+}: BitsPerPixelSelectorProps) {
+  return (
+    <div className={`flex gap-2 ${className}`}>
+      <button
+        type="button"
+        onClick={() => onChange(1)}
+        disabled={disabled}
+        className={`
+          flex-1 px-3 py-2 text-xs rounded border transition-colors
+          ${
+            value === 1
+              ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+              : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+          }
+          disabled:opacity-50
+        `}
+      >
+        Mono (1bpp)
+      </button>
+      <button
+        type="button"
+        onClick={() => onChange(2)}
+        disabled={disabled}
+        className={`
+          flex-1 px-3 py-2 text-xs rounded border transition-colors
+          ${
+            value === 2
+              ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+              : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+          }
+          disabled:opacity-50
+        `}
+      >
+        Multicolor (2bpp)
+      </button>
+    </div>
+  );
+}
+
+BitsPerPixelSelector.displayName = "BitsPerPixelSelector";
@@ -0,0 +1,69 @@
+"use client";
+
+import type { ByteLayout } from "@/lib/character-editor/types";
+
+export interface ByteLayoutSelectorProps {
+  /** Current byte layout */
+  value: ByteLayout;
+  /** Callback when byte layout changes */
+  onChange: (byteLayout: ByteLayout) => void;
+  /** Whether the selector is disabled */
+  disabled?: boolean;
+  /** Additional CSS classes for the container */
+  className?: string;
+}
+
+/**
+ * Reusable component for selecting byte layout (Rows/Columns)
+ * Column-major data is used by LCD controller fonts (SSD1306, KS0108) and printer ROMs
+ *
+ * Used in:
+ * - BinaryImportView (binary ROM import)
+ * - TextImportView (text/code import)
+ * - BinaryFormatSection (binary and code export)
+ */
+export function ByteLayoutSelector({
+  value,
+  onChange,
+  disabled = false,
+  className = "",
+}: ByteLayoutSelectorProps) {
+  return (
+    <div className={`flex gap-2 ${className}`}>
+      <button
+        type="button"
+        onClick={() => onChange("row")}
+        disabled={disabled}
+        className={`
+          flex-1 px-3 py-2 text-xs rounded border transition-colors
+          ${
+            value === "row"
+              ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+              : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+          }
+          disabled:opacity-50
+        `}
+      >
+        Rows
+      </button>
+      <button
+        type="button"
+        onClick={() => onChange("column")}
+        disabled={disabled}
+        className={`
+          flex-1 px-3 py-2 text-xs rounded border transition-colors
+          ${
+            value === "column"
+              ? "border-retro-cyan bg-retro-cyan/10 text-retro-cyan"
+              : "border-retro-grid/50 text-gray-400 hover:border-retro-grid"
+          }
+          disabled:opacity-50
+        `}
+      >
+        Columns
+      </button>
+    </div>
+  );
+}
+
+ByteLayoutSelector.displayName = "ByteLayoutSelector";
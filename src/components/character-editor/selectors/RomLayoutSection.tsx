@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { RomLayout } from "@/lib/character-editor/types";
+import { parseByteOffset } from "@/lib/character-editor/romLayout";
+
+export interface RomLayoutSectionProps {
+  /** Current ROM layout (undefined for tightly packed characters) */
+  value: RomLayout | undefined;
+  /** Callback when the layout changes (undefined resets to packed) */
+  onChange: (layout: RomLayout | undefined) => void;
+  /** Bytes per character when packed (shown as the default stride) */
+  bytesPerCharacter: number;
+  /** Label for the split unit ("row" or "column") */
+  lineLabel?: string;
+  /** Whether the section is disabled */
+  disabled?: boolean;
+  /** Additional CSS classes for the container */
+  className?: string;
+}
+
+type LayoutField = "skip" | "stride" | "splitRow" | "splitOffset";
+
+const inputClasses =
+  "w-full px-3 py-2 bg-retro-dark border border-retro-grid/50 rounded text-sm text-white focus:outline-none focus:border-retro-cyan disabled:opacity-50";
+
+/**
+ * Format a layout value for its text input
+ */
+function formatField(field: LayoutField, layout: RomLayout | undefined): string {
+  const value = layout?.[field];
+  if (value === undefined) return "";
+  // Offsets read best in hex
+  return field === "splitOffset" || field === "skip"
+    ? `0x${value.toString(16).toUpperCase()}`
+    : String(value);
+}
+
+/**
+ * Collapsible section for editing how characters are placed in a ROM image
+ *
+ * - Skip: bytes before the first character
+ * - Stride: bytes from one character slot to the next (e.g. 16 for 8x14 glyphs)
+ * - Split: rows from N onward are stored at another offset (e.g. IBM MDA)
+ *
+ * Offsets accept decimal and hex ("0x800", "$800", "800h") notation.
+ *
+ * Used in:
+ * - BinaryImportView (binary ROM import)
+ */
+export function RomLayoutSection({
+  value,
+  onChange,
+  bytesPerCharacter,
+  lineLabel = "row",
+  disabled = false,
+  className = "",
+}: RomLayoutSectionProps) {
+  const [expanded, setExpanded] = useState(!!value);
+  const [fields, setFields] = useState<Record<LayoutField, string>>(() => ({
+    skip: formatField("skip", value),
+    stride: formatField("stride", value),
+    splitRow: formatField("splitRow", value),
+    splitOffset: formatField("splitOffset", value),
+  }));
+
+  const handleFieldChange = useCallback(
+    (field: LayoutField, text: string) => {
+      const next = { ...fields, [field]: text };
+      setFields(next);
+
+      // Build the layout from all fields that parse
+      const layout: RomLayout = {};
+      (Object.keys(next) as LayoutField[]).forEach((key) => {
+        const parsed = parseByteOffset(next[key]);
+        if (parsed !== null) layout[key] = parsed;
+      });
+      onChange(Object.keys(layout).length > 0 ? layout : undefined);
+    },
+    [fields, onChange]
+  );
+
+  const handleReset = useCallback(() => {
+    setFields({ skip: "", stride: "", splitRow: "", splitOffset: "" });
+    onChange(undefined);
+  }, [onChange]);
+
+  const isInvalid = (field: LayoutField) =>
+    fields[field].trim() !== "" && parseByteOffset(fields[field]) === null;
+
+  return (
+    <div className={`border border-retro-grid/30 rounded bg-retro-dark/50 ${className}`}>
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        disabled={disabled}
+        className="w-full flex items-center justify-between p-2 text-sm text-gray-300 hover:text-retro-cyan transition-colors disabled:opacity-50 disabled:hover:text-gray-300"
+        aria-expanded={expanded}
+      >
+        <span className="font-medium">
+          ROM Layout
+          {value && <span className="ml-2 text-xs text-retro-amber">Custom</span>}
+        </span>
+        <svg
+          className={`w-4 h-4 transition-transform ${expanded ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="p-3 pt-2 space-y-3 border-t border-retro-grid/30">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="rom-layout-skip" className="block text-xs text-gray-500 mb-1">
+                Skip (bytes)
+              </label>
+              <input
+                id="rom-layout-skip"
+                type="text"
+                value={fields.skip}
+                onChange={(e) => handleFieldChange("skip", e.target.value)}
+                placeholder="0"
+                disabled={disabled}
+                className={`${inputClasses} ${isInvalid("skip") ? "border-red-500" : ""}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="rom-layout-stride" className="block text-xs text-gray-500 mb-1">
+                Stride (bytes per slot)
+              </label>
+              <input
+                id="rom-layout-stride"
+                type="text"
+                value={fields.stride}
+                onChange={(e) => handleFieldChange("stride", e.target.value)}
+                placeholder={String(bytesPerCharacter)}
+                disabled={disabled}
+                className={`${inputClasses} ${isInvalid("stride") ? "border-red-500" : ""}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="rom-layout-split-row" className="block text-xs text-gray-500 mb-1">
+                Split at {lineLabel}
+              </label>
+              <input
+                id="rom-layout-split-row"
+                type="text"
+                value={fields.splitRow}
+                onChange={(e) => handleFieldChange("splitRow", e.target.value)}
+                placeholder="None"
+                disabled={disabled}
+                className={`${inputClasses} ${isInvalid("splitRow") ? "border-red-500" : ""}`}
+              />
+            </div>
+            <div>
+              <label htmlFor="rom-layout-split-offset" className="block text-xs text-gray-500 mb-1">
+                Split offset (bytes)
+              </label>
+              <input
+                id="rom-layout-split-offset"
+                type="text"
+                value={fields.splitOffset}
+                onChange={(e) => handleFieldChange("splitOffset", e.target.value)}
+                placeholder="e.g. 0x800"
+                disabled={disabled}
+                className={`${inputClasses} ${isInvalid("splitOffset") ? "border-red-500" : ""}`}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-xs text-gray-500">
+              E.g. 8x14 glyphs in 16-byte slots: stride 16. IBM MDA: stride 8, split at {lineLabel} 8,
+              offset 0x800.
+            </p>
+            {value && (
+              <button
+                type="button"
+                onClick={handleReset}
+                disabled={disabled}
+                className="flex-shrink-0 text-xs text-gray-400 hover:text-retro-cyan transition-colors"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+RomLayoutSection.displayName = "RomLayoutSection";
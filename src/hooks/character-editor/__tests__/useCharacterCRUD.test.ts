@@ -0,0 +1,126 @@
+/**
+ * Character ROM Editor - Character CRUD Hook Tests
+ *
+ * Tests for keeping the Unicode mapping in sync with the characters:
+ * - Inserting and duplicating characters
+ * - Deleting characters
+ * - Reordering characters
+ */
+
+import { renderHook, act } from "@testing-library/react";
+import { useCharacterEditor } from "@/hooks/character-editor/useCharacterEditor";
+import { createMockCharacterSet } from "@/lib/character-editor/__tests__/testUtils";
+import { getIndexCodePoint } from "@/lib/character-editor/data/codePages";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/** Mapping of the 4-character test set (A-D) */
+const ABCD = [0x41, 0x42, 0x43, 0x44];
+
+/**
+ * Render the editor with a 4-character set and the given mapping
+ */
+function renderEditor(unicodeMap: (number | null)[] | undefined) {
+  const characterSet = createMockCharacterSet({ characterCount: 4, metadata: { unicodeMap } });
+  return renderHook(() => useCharacterEditor(characterSet));
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("useCharacterCRUD unicode mapping", () => {
+  it("loads the mapping of the character set", () => {
+    const { result } = renderEditor(ABCD);
+
+    expect(result.current.unicodeMap).toEqual([0x41, 0x42, 0x43, 0x44]);
+  });
+
+  it("leaves inserted characters unmapped", () => {
+    const { result } = renderEditor(ABCD);
+
+    act(() => result.current.setSelectedIndex(0));
+    act(() => result.current.insertCharacterAfter());
+
+    expect(result.current.unicodeMap).toEqual([0x41, null, 0x42, 0x43, 0x44]);
+
+    act(() => result.current.insertCharacterAt(0));
+
+    expect(result.current.unicodeMap).toEqual([null, 0x41, null, 0x42, 0x43, 0x44]);
+  });
+
+  it("does not map duplicated characters", () => {
+    const { result } = renderEditor(ABCD);
+
+    act(() => result.current.setSelectedIndex(1));
+    act(() => result.current.duplicateSelected());
+
+    expect(result.current.characters).toHaveLength(5);
+    expect(result.current.unicodeMap).toEqual([0x41, 0x42, null, 0x43, 0x44]);
+  });
+
+  it("keeps the mapping of later characters when deleting", () => {
+    const { result } = renderEditor(ABCD);
+
+    act(() => result.current.setSelectedIndex(0));
+    act(() => result.current.deleteSelected());
+
+    expect(result.current.characters).toHaveLength(3);
+    expect(result.current.unicodeMap).toEqual([0x42, 0x43, 0x44]);
+    expect(getIndexCodePoint(0, result.current.unicodeMap)).toBe(0x42);
+  });
+
+  it("removes all batch-selected characters from the mapping", () => {
+    const { result } = renderEditor(ABCD);
+
+    act(() => result.current.setSelectedIndex(1));
+    act(() => result.current.toggleBatchSelection(3, false, true));
+    act(() => result.current.deleteSelected());
+
+    expect(result.current.unicodeMap).toEqual([0x41, 0x43]);
+  });
+
+  it("moves the mapping with reordered characters", () => {
+    const { result } = renderEditor(ABCD);
+    const characters = result.current.characters;
+
+    act(() => result.current.reorderCharacters([3, 0, 1, 2]));
+
+    expect(result.current.characters[0]).toEqual(characters[3]);
+    expect(result.current.unicodeMap).toEqual([0x44, 0x41, 0x42, 0x43]);
+  });
+
+  it("restores the mapping on undo", () => {
+    const { result } = renderEditor(ABCD);
+
+    act(() => result.current.setSelectedIndex(0));
+    act(() => result.current.deleteSelected());
+    act(() => result.current.undo());
+
+    expect(result.current.unicodeMap).toEqual([0x41, 0x42, 0x43, 0x44]);
+  });
+
+  it("keeps sets without a mapping unmapped", () => {
+    const { result } = renderEditor(undefined);
+
+    act(() => result.current.insertCharacterAt(0));
+    act(() => result.current.reorderCharacters([1, 0, 2, 3, 4]));
+
+    expect(result.current.unicodeMap).toBeUndefined();
+  });
+
+  it("replaces the mapping as an undoable edit", () => {
+    const { result } = renderEditor(ABCD);
+
+    act(() => result.current.setUnicodeMap([0x61, 0x62]));
+
+    expect(result.current.unicodeMap).toEqual([0x61, 0x62]);
+    expect(result.current.isDirty).toBe(true);
+
+    act(() => result.current.undo());
+
+    expect(result.current.unicodeMap).toEqual([0x41, 0x42, 0x43, 0x44]);
+  });
+});
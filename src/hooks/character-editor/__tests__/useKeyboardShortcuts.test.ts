@@ -0,0 +1,83 @@
+/**
+ * Character ROM Editor - Keyboard Shortcut Hook Tests
+ *
+ * Tests for shortcut dispatch:
+ * - Matching shortcuts and preventing the default action
+ * - Leaving text field keys (including clipboard keys) to the browser
+ */
+
+import { renderHook } from "@testing-library/react";
+import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/character-editor/useKeyboardShortcuts";
+
+/**
+ * Dispatch a keydown event on an element and return it
+ */
+function pressKey(target: EventTarget, key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  const event = new KeyboardEvent("keydown", { key, bubbles: true, cancelable: true, ...init });
+  target.dispatchEvent(event);
+  return event;
+}
+
+describe("useKeyboardShortcuts", () => {
+  let input: HTMLInputElement;
+
+  beforeEach(() => {
+    input = document.createElement("input");
+    document.body.appendChild(input);
+  });
+
+  afterEach(() => {
+    input.remove();
+  });
+
+  it("runs matching shortcuts and prevents the default action", () => {
+    const action = jest.fn();
+    renderHook(() => useKeyboardShortcuts([{ key: "c", ctrl: true, action, description: "Copy" }]));
+
+    const event = pressKey(document.body, "c", { ctrlKey: true });
+
+    expect(action).toHaveBeenCalledTimes(1);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it("ignores unmodified keys in inputs", () => {
+    const action = jest.fn();
+    renderHook(() => useKeyboardShortcuts([{ key: "h", action, description: "Flip" }]));
+
+    const event = pressKey(input, "h");
+
+    expect(action).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it("still runs modified shortcuts in inputs by default", () => {
+    const action = jest.fn();
+    renderHook(() => useKeyboardShortcuts([{ key: "s", ctrl: true, action, description: "Save" }]));
+
+    pressKey(input, "s", { ctrlKey: true });
+
+    expect(action).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves Ctrl+C in an input to the browser for shortcuts not allowed in inputs", () => {
+    const action = jest.fn();
+    const shortcuts: KeyboardShortcut[] = [
+      { key: "c", ctrl: true, action, description: "Copy selected pixels", allowInInputs: false },
+    ];
+    renderHook(() => useKeyboardShortcuts(shortcuts));
+
+    const event = pressKey(input, "c", { ctrlKey: true });
+
+    expect(action).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it("does nothing when disabled", () => {
+    const action = jest.fn();
+    renderHook(() => useKeyboardShortcuts([{ key: "c", ctrl: true, action, description: "Copy" }], { enabled: false }));
+
+    pressKey(document.body, "c", { ctrlKey: true });
+
+    expect(action).not.toHaveBeenCalled();
+  });
+});
@@ -4,14 +4,18 @@
  * Provides create, read, update, and delete operations for characters:
  * - addCharacter: Add empty character at the end
  * - insertCharacterAfter: Insert empty character after current selection
+ * - insertCharacterAt: Insert empty character at a specific index
  * - addCharacters: Add multiple characters (from import)
  * - deleteSelected: Delete selected character(s)
  * - copyCharacter: Copy character from one position to another
  * - resizeCharacters: Resize all characters with anchor positioning
  * - updateCharacter: Update a single character
  * - setCharacters: Replace all characters
+ * - reorderCharacters: Move characters to a new order
  *
  * Works with the undo/redo system via the updateState callback.
+ * Bank sizes and the Unicode mapping are kept in sync with insertions,
+ * deletions and reordering.
  *
  * @module hooks/character-editor/useCharacterCRUD
  */
@@ -21,15 +25,26 @@ import { useCallback } from "react";
 import {
   Character,
   CharacterSetConfig,
+  CharacterBank,
   AnchorPoint,
   cloneCharacter,
   createEmptyCharacter,
 } from "@/lib/character-editor/types";
 import { resizeCharacter } from "@/lib/character-editor/transforms";
+import { adjustBanksForInsert, adjustBanksForDelete, normalizeBanks } from "@/lib/character-editor/banks";
+import {
+  adjustUnicodeMapForDelete,
+  adjustUnicodeMapForInsert,
+  reorderUnicodeMap,
+} from "@/lib/character-editor/data/codePages";
 
 export interface EditorState {
   characters: Character[];
   config: CharacterSetConfig;
+  /** Bank layout of the characters (undefined for single-bank sets) */
+  banks?: CharacterBank[];
+  /** Unicode code point of each character index (undefined for sets without a mapping) */
+  unicodeMap?: (number | null)[];
 }
 
 export interface UseCharacterCRUDOptions {
@@ -52,6 +67,8 @@ export interface UseCharacterCRUDResult {
   addCharacter: () => void;
   /** Insert a new character after the currently selected index */
   insertCharacterAfter: () => void;
+  /** Insert a new character at a specific index (e.g. the end of a bank) */
+  insertCharacterAt: (index: number) => void;
   /** Add multiple characters at the end */
   addCharacters: (characters: Character[]) => void;
   /** Duplicate all selected characters after the primary selection */
@@ -66,6 +83,8 @@ export interface UseCharacterCRUDResult {
   updateCharacter: (index: number, character: Character) => void;
   /** Replace all characters */
   setCharacters: (characters: Character[]) => void;
+  /** Move characters to a new order (previous index of each character) */
+  reorderCharacters: (order: number[]) => void;
   /** Replace characters at specific indices (for partial restore) */
   replaceCharactersAtIndices: (
     sourceCharacters: Character[],
@@ -90,6 +109,8 @@ export function useCharacterCRUD({
   const addCharacter = useCallback(() => {
     updateState((state) => {
       const { width, height } = state.config;
+      state.banks = adjustBanksForInsert(state.banks, state.characters.length, 1);
+      state.unicodeMap = adjustUnicodeMapForInsert(state.unicodeMap, state.characters.length, 1);
       state.characters = [...state.characters, createEmptyCharacter(width, height)];
       return state;
     });
@@ -104,6 +125,8 @@ export function useCharacterCRUD({
       const newCharacter = createEmptyCharacter(width, height);
       // Insert after the currently selected index
       const insertIndex = selectedIndex + 1;
+      state.banks = adjustBanksForInsert(state.banks, insertIndex, 1);
+      state.unicodeMap = adjustUnicodeMapForInsert(state.unicodeMap, insertIndex, 1);
       state.characters = [
         ...state.characters.slice(0, insertIndex),
         newCharacter,
@@ -116,11 +139,33 @@ export function useCharacterCRUD({
     onClearBatchSelection();
   }, [updateState, selectedIndex, onSelectionChange, onClearBatchSelection]);
 
+  const insertCharacterAt = useCallback(
+    (index: number) => {
+      const insertIndex = Math.max(0, Math.min(index, characterCount));
+      updateState((state) => {
+        const { width, height } = state.config;
+        state.banks = adjustBanksForInsert(state.banks, insertIndex, 1);
+        state.unicodeMap = adjustUnicodeMapForInsert(state.unicodeMap, insertIndex, 1);
+        state.characters = [
+          ...state.characters.slice(0, insertIndex),
+          createEmptyCharacter(width, height),
+          ...state.characters.slice(insertIndex),
+        ];
+        return state;
+      });
+      onSelectionChange(insertIndex);
+      onClearBatchSelection();
+    },
+    [updateState, characterCount, onSelectionChange, onClearBatchSelection],
+  );
+
   const addCharacters = useCallback(
     (newCharacters: Character[]) => {
       if (newCharacters.length === 0) return;
 
       updateState((state) => {
+        state.banks = adjustBanksForInsert(state.banks, state.characters.length, newCharacters.length);
+        state.unicodeMap = adjustUnicodeMapForInsert(state.unicodeMap, state.characters.length, newCharacters.length);
         state.characters = [...state.characters, ...newCharacters.map((c) => cloneCharacter(c))];
         return state;
       });
@@ -141,6 +186,8 @@ export function useCharacterCRUD({
       const duplicates = allSelected.map((idx) => cloneCharacter(state.characters[idx]));
       // Insert after the primary selection index
       const insertIndex = selectedIndex + 1;
+      state.banks = adjustBanksForInsert(state.banks, insertIndex, duplicates.length);
+      state.unicodeMap = adjustUnicodeMapForInsert(state.unicodeMap, insertIndex, duplicates.length);
       state.characters = [
         ...state.characters.slice(0, insertIndex),
         ...duplicates,
@@ -158,6 +205,8 @@ export function useCharacterCRUD({
     if (characterCount <= 1) return; // Keep at least one character
 
     updateState((state) => {
+      state.banks = adjustBanksForDelete(state.banks, Array.from(selectedIndices));
+      state.unicodeMap = adjustUnicodeMapForDelete(state.unicodeMap, Array.from(selectedIndices));
       state.characters = state.characters.filter((_, i) => !selectedIndices.has(i));
       return state;
     });
@@ -208,12 +257,27 @@ export function useCharacterCRUD({
     (characters: Character[]) => {
       updateState((state) => {
         state.characters = characters.map(cloneCharacter);
+        if (state.banks) {
+          state.banks = normalizeBanks(state.banks, characters.length);
+        }
         return state;
       });
     },
     [updateState],
   );
 
+  const reorderCharacters = useCallback(
+    (order: number[]) => {
+      updateState((state) => {
+        // Bank sizes stay the same, characters move between banks
+        state.characters = order.map((index) => cloneCharacter(state.characters[index]));
+        state.unicodeMap = reorderUnicodeMap(state.unicodeMap, order);
+        return state;
+      }, "Reorder characters");
+    },
+    [updateState],
+  );
+
   const replaceCharactersAtIndices = useCallback(
     (sourceCharacters: Character[], indices: Set<number>, label?: string) => {
       if (indices.size === 0) return;
@@ -238,6 +302,7 @@ export function useCharacterCRUD({
   return {
     addCharacter,
     insertCharacterAfter,
+    insertCharacterAt,
     addCharacters,
     duplicateSelected,
     deleteSelected,
@@ -245,6 +310,7 @@ export function useCharacterCRUD({
     resizeCharacters,
     updateCharacter,
     setCharacters,
+    reorderCharacters,
     replaceCharactersAtIndices,
   };
 }
@@ -6,6 +6,8 @@
  * - Pixel/transform operations via useCharacterTransforms
  * - CRUD operations (add/delete/copy) via useCharacterCRUD
  * - Undo/redo history with timeline slider via useUndoRedo
+ * - Bank layout of multi-bank character sets
+ * - Unicode mapping of the character indices
  * - Dirty state tracking for unsaved changes detection
  *
  * This is the primary hook used by EditView to manage the entire
@@ -16,7 +18,14 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { Character, CharacterSet, CharacterSetConfig, cloneCharacter } from "@/lib/character-editor/types";
+import {
+  Character,
+  CharacterBank,
+  CharacterSet,
+  CharacterSetConfig,
+  cloneCharacter,
+} from "@/lib/character-editor/types";
+import { normalizeBanks } from "@/lib/character-editor/banks";
 import { useUndoRedo, deepClone, HistoryEntry } from "./useUndoRedo";
 import { useCharacterSelection, UseCharacterSelectionResult } from "./useCharacterSelection";
 import { useCharacterTransforms, UseCharacterTransformsResult, EditorState } from "./useCharacterTransforms";
@@ -33,6 +42,14 @@ export interface UseCharacterEditorResult
   characters: Character[];
   /** Character set configuration */
   config: CharacterSetConfig;
+  /** Bank layout (undefined for single-bank sets) */
+  banks: CharacterBank[] | undefined;
+  /** Replace the bank layout (normalized against the character count) */
+  setBanks: (banks: CharacterBank[] | undefined, label?: string) => void;
+  /** Unicode mapping (undefined for sets without one) */
+  unicodeMap: (number | null)[] | undefined;
+  /** Replace the Unicode mapping */
+  setUnicodeMap: (unicodeMap: (number | null)[] | undefined, label?: string) => void;
   /** Undo */
   undo: () => void;
   /** Redo */
@@ -79,6 +96,8 @@ export function useCharacterEditor(initialCharacterSet: CharacterSet | null): Us
     ? {
         characters: initialCharacterSet.characters.map(cloneCharacter),
         config: { ...initialCharacterSet.config },
+        banks: initialCharacterSet.banks?.map((bank) => ({ ...bank })),
+        unicodeMap: initialCharacterSet.metadata.unicodeMap && [...initialCharacterSet.metadata.unicodeMap],
       }
     : {
         characters: [],
@@ -141,6 +160,26 @@ export function useCharacterEditor(initialCharacterSet: CharacterSet | null): Us
     onClearBatchSelection: selection.clearBatchSelection,
   });
 
+  const setBanks = useCallback(
+    (banks: CharacterBank[] | undefined, label?: string) => {
+      updateState((state) => {
+        state.banks = banks ? normalizeBanks(banks, state.characters.length) : undefined;
+        return state;
+      }, label ?? "Edit banks");
+    },
+    [updateState],
+  );
+
+  const setUnicodeMap = useCallback(
+    (unicodeMap: (number | null)[] | undefined, label?: string) => {
+      updateState((state) => {
+        state.unicodeMap = unicodeMap && [...unicodeMap];
+        return state;
+      }, label ?? "Edit Unicode mapping");
+    },
+    [updateState],
+  );
+
   const markSaved = useCallback(() => {
     setIsDirty(false);
     setLastSavedState(deepClone(editorState));
@@ -151,6 +190,8 @@ export function useCharacterEditor(initialCharacterSet: CharacterSet | null): Us
       resetEditorState({
         characters: characterSet.characters.map(cloneCharacter),
         config: { ...characterSet.config },
+        banks: characterSet.banks?.map((bank) => ({ ...bank })),
+        unicodeMap: characterSet.metadata.unicodeMap && [...characterSet.metadata.unicodeMap],
       });
       selection.resetSelection(0);
       setIsDirty(false);
@@ -163,6 +204,10 @@ export function useCharacterEditor(initialCharacterSet: CharacterSet | null): Us
     // State
     characters: editorState.characters,
     config: editorState.config,
+    banks: editorState.banks,
+    setBanks,
+    unicodeMap: editorState.unicodeMap,
+    setUnicodeMap,
 
     // Selection (from useCharacterSelection)
     selectedIndex: selection.selectedIndex,
@@ -176,6 +221,11 @@ export function useCharacterEditor(initialCharacterSet: CharacterSet | null): Us
     // Transforms (from useCharacterTransforms)
     toggleSelectedPixel: transforms.toggleSelectedPixel,
     setSelectedPixel: transforms.setSelectedPixel,
+    setSelectedPixels: transforms.setSelectedPixels,
+    floodFillSelected: transforms.floodFillSelected,
+    placePixelSelection: transforms.placePixelSelection,
+    clearPixelRegion: transforms.clearPixelRegion,
+    updateTile: transforms.updateTile,
     getSelectedPixelState: transforms.getSelectedPixelState,
     rotateSelected: transforms.rotateSelected,
     shiftSelected: transforms.shiftSelected,
@@ -190,6 +240,7 @@ export function useCharacterEditor(initialCharacterSet: CharacterSet | null): Us
     // CRUD (from useCharacterCRUD)
     addCharacter: crud.addCharacter,
     insertCharacterAfter: crud.insertCharacterAfter,
+    insertCharacterAt: crud.insertCharacterAt,
     addCharacters: crud.addCharacters,
     duplicateSelected: crud.duplicateSelected,
     deleteSelected: crud.deleteSelected,
@@ -197,6 +248,7 @@ export function useCharacterEditor(initialCharacterSet: CharacterSet | null): Us
     resizeCharacters: crud.resizeCharacters,
     updateCharacter: crud.updateCharacter,
     setCharacters: crud.setCharacters,
+    reorderCharacters: crud.reorderCharacters,
     replaceCharactersAtIndices: crud.replaceCharactersAtIndices,
 
     // Undo/redo
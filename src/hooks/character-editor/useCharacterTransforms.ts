@@ -3,6 +3,9 @@
  *
  * Provides all pixel-level and character-level transformations:
  * - Pixel operations: toggle, set, get state (for batch editing)
+ * - Drawing tools: set many pixels at once (shapes) and flood fill
+ * - Pixel selections: place moved/pasted regions, clear regions
+ * - Tiles: edit a block of characters as one large character
  * - Rotate: 90° left or right
  * - Shift: up/down/left/right with optional wrap
  * - Flip: horizontal or vertical mirroring
@@ -22,6 +25,7 @@ import { useCallback } from "react";
 import {
   Character,
   CharacterSetConfig,
+  CharacterBank,
   AnchorPoint,
   createEmptyCharacter,
 } from "@/lib/character-editor/types";
@@ -40,10 +44,22 @@ import {
   scaleCharacter,
   ScaleAlgorithm,
 } from "@/lib/character-editor/transforms";
+import { PixelPoint, floodFill, setPixels } from "@/lib/character-editor/drawing";
+import {
+  FloatingSelection,
+  PixelRect,
+  clearRegion,
+  placeFloatingSelection,
+} from "@/lib/character-editor/pixelSelection";
+import { TileLayout, combineTile, writeTile } from "@/lib/character-editor/tiles";
 
 export interface EditorState {
   characters: Character[];
   config: CharacterSetConfig;
+  /** Bank layout of the characters (undefined for single-bank sets) */
+  banks?: CharacterBank[];
+  /** Unicode code point of each character index (undefined for sets without a mapping) */
+  unicodeMap?: (number | null)[];
 }
 
 export interface UseCharacterTransformsOptions {
@@ -58,10 +74,20 @@ export interface UseCharacterTransformsOptions {
 }
 
 export interface UseCharacterTransformsResult {
-  /** Toggle a pixel in the selected character(s) */
-  toggleSelectedPixel: (row: number, col: number) => void;
-  /** Set a pixel value in the selected character(s) */
-  setSelectedPixel: (row: number, col: number, value: boolean) => void;
+  /** Toggle a pixel in the selected character(s), using the given color for multicolor sets */
+  toggleSelectedPixel: (row: number, col: number, color?: number) => void;
+  /** Set a pixel value in the selected character(s), using the given color for multicolor sets */
+  setSelectedPixel: (row: number, col: number, value: boolean, color?: number) => void;
+  /** Set many pixels in the selected character(s) at once (drawing tool shapes) */
+  setSelectedPixels: (points: PixelPoint[], value: boolean, color?: number) => void;
+  /** Flood fill the selected character(s) from one or more pixels, each filling its own regions */
+  floodFillSelected: (starts: PixelPoint[], value: boolean, color?: number) => void;
+  /** Place a floating pixel selection into the given characters (default: the selected ones) */
+  placePixelSelection: (floating: FloatingSelection, indices?: Iterable<number>) => void;
+  /** Clear a pixel region of the given characters (default: the selected ones) */
+  clearPixelRegion: (rect: PixelRect, indices?: Iterable<number>, label?: string) => void;
+  /** Edit the characters of a tile as one combined character */
+  updateTile: (layout: TileLayout, update: (tile: Character) => Character) => void;
   /** Get pixel state for batch editing */
   getSelectedPixelState: (row: number, col: number) => "same-on" | "same-off" | "mixed";
   /** Rotate selected character(s) */
@@ -97,16 +123,16 @@ export function useCharacterTransforms({
   characters,
 }: UseCharacterTransformsOptions): UseCharacterTransformsResult {
   const toggleSelectedPixel = useCallback(
-    (row: number, col: number) => {
+    (row: number, col: number, color?: number) => {
       updateState((state) => {
         if (selectedIndices.size > 1) {
           // Batch toggle
-          state.characters = batchTogglePixel(state.characters, selectedIndices, row, col);
+          state.characters = batchTogglePixel(state.characters, selectedIndices, row, col, color);
         } else {
           // Single toggle
           const char = state.characters[selectedIndex];
           if (char) {
-            state.characters[selectedIndex] = togglePixel(char, row, col);
+            state.characters[selectedIndex] = togglePixel(char, row, col, color);
           }
         }
         return state;
@@ -116,12 +142,12 @@ export function useCharacterTransforms({
   );
 
   const setSelectedPixel = useCallback(
-    (row: number, col: number, value: boolean) => {
+    (row: number, col: number, value: boolean, color?: number) => {
       updateState((state) => {
         for (const index of selectedIndices) {
           const char = state.characters[index];
           if (char) {
-            state.characters[index] = setPixel(char, row, col, value);
+            state.characters[index] = setPixel(char, row, col, value, color);
           }
         }
         return state;
@@ -130,6 +156,71 @@ export function useCharacterTransforms({
     [updateState, selectedIndices]
   );
 
+  const setSelectedPixels = useCallback(
+    (points: PixelPoint[], value: boolean, color?: number) => {
+      updateState((state) => {
+        state.characters = batchTransform(state.characters, selectedIndices, (char) =>
+          setPixels(char, points, value, color)
+        );
+        return state;
+      });
+    },
+    [updateState, selectedIndices]
+  );
+
+  const floodFillSelected = useCallback(
+    (starts: PixelPoint[], value: boolean, color?: number) => {
+      updateState((state) => {
+        state.characters = batchTransform(state.characters, selectedIndices, (char) =>
+          floodFill(char, starts, value, color)
+        );
+        return state;
+      });
+    },
+    [updateState, selectedIndices]
+  );
+
+  const placePixelSelection = useCallback(
+    (floating: FloatingSelection, indices?: Iterable<number>) => {
+      updateState(
+        (state) => {
+          state.characters = batchTransform(state.characters, new Set(indices ?? selectedIndices), (char) =>
+            placeFloatingSelection(char, floating)
+          );
+          return state;
+        },
+        floating.source ? "Move selection" : "Paste"
+      );
+    },
+    [updateState, selectedIndices]
+  );
+
+  const clearPixelRegion = useCallback(
+    (rect: PixelRect, indices?: Iterable<number>, label?: string) => {
+      updateState(
+        (state) => {
+          state.characters = batchTransform(state.characters, new Set(indices ?? selectedIndices), (char) =>
+            clearRegion(char, rect)
+          );
+          return state;
+        },
+        label ?? "Delete selection"
+      );
+    },
+    [updateState, selectedIndices]
+  );
+
+  const updateTile = useCallback(
+    (layout: TileLayout, update: (tile: Character) => Character) => {
+      updateState((state) => {
+        const tile = combineTile(state.characters, state.config, layout);
+        state.characters = writeTile(state.characters, state.config, layout, update(tile));
+        return state;
+      });
+    },
+    [updateState]
+  );
+
   const getSelectedPixelState = useCallback(
     (row: number, col: number): "same-on" | "same-off" | "mixed" => {
       return getPixelState(characters, selectedIndices, row, col);
@@ -224,6 +315,11 @@ export function useCharacterTransforms({
   return {
     toggleSelectedPixel,
     setSelectedPixel,
+    setSelectedPixels,
+    floodFillSelected,
+    placePixelSelection,
+    clearPixelRegion,
+    updateTile,
     getSelectedPixelState,
     rotateSelected,
     shiftSelected,
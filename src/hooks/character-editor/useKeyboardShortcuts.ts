@@ -7,8 +7,9 @@
  * - Formatting shortcuts for display (cross-platform: ⌘ on Mac, Ctrl on others)
  * - Creating predefined editor shortcuts (undo, transforms, navigation)
  *
- * Ignores shortcuts when typing in input/textarea/select elements
- * (except when modifier keys are held).
+ * Ignores shortcuts when typing in input/textarea/select/contentEditable
+ * elements (except when modifier keys are held, unless the shortcut opts
+ * out with allowInInputs: false).
  *
  * @module hooks/character-editor/useKeyboardShortcuts
  */
@@ -25,6 +26,8 @@ export interface KeyboardShortcut {
   action: () => void;
   description: string;
   context?: string;
+  /** Whether the shortcut fires while typing in a text field when modifier keys are held (default: true) */
+  allowInInputs?: boolean;
 }
 
 export interface UseKeyboardShortcutsOptions {
@@ -48,14 +51,20 @@ export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[], options: Use
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     // Ignore if typing in an input
-    const tagName = (e.target as HTMLElement)?.tagName?.toLowerCase();
-    if (tagName === "input" || tagName === "textarea" || tagName === "select") {
+    const target = e.target as HTMLElement | null;
+    const tagName = target?.tagName?.toLowerCase();
+    const isEditable =
+      tagName === "input" || tagName === "textarea" || tagName === "select" || !!target?.isContentEditable;
+    if (isEditable) {
       // Allow certain shortcuts even in inputs
       const isModified = e.ctrlKey || e.metaKey;
       if (!isModified) return;
     }
 
     for (const shortcut of shortcutsRef.current) {
+      // Leave e.g. clipboard keys to the text field
+      if (isEditable && shortcut.allowInInputs === false) continue;
+
       const keyMatch = e.key.toLowerCase() === shortcut.key.toLowerCase();
       const ctrlMatch = !!shortcut.ctrl === (e.ctrlKey || e.metaKey);
       const shiftMatch = !!shortcut.shift === e.shiftKey;
@@ -136,6 +145,11 @@ export function createEditorShortcuts(actions: {
   addCharacter: () => void;
   duplicateSelected?: () => void;
   showHelp: () => void;
+  // Pixel selection
+  copySelection?: () => void;
+  cutSelection?: () => void;
+  pasteSelection?: () => void;
+  clearSelection?: () => void;
   // Navigation
   navigatePrev?: () => void;
   navigateNext?: () => void;
@@ -292,6 +306,54 @@ export function createEditorShortcuts(actions: {
         ]
       : []),
 
+    // Pixel selection (optional)
+    ...(actions.copySelection
+      ? [
+          {
+            key: "c",
+            ctrl: true,
+            action: actions.copySelection,
+            description: "Copy selected pixels",
+            context: "Editor",
+            allowInInputs: false,
+          },
+        ]
+      : []),
+    ...(actions.cutSelection
+      ? [
+          {
+            key: "x",
+            ctrl: true,
+            action: actions.cutSelection,
+            description: "Cut selected pixels",
+            context: "Editor",
+            allowInInputs: false,
+          },
+        ]
+      : []),
+    ...(actions.pasteSelection
+      ? [
+          {
+            key: "v",
+            ctrl: true,
+            action: actions.pasteSelection,
+            description: "Paste pixels",
+            context: "Editor",
+            allowInInputs: false,
+          },
+        ]
+      : []),
+    ...(actions.clearSelection
+      ? [
+          {
+            key: "Escape",
+            action: actions.clearSelection,
+            description: "Place and clear the pixel selection",
+            context: "Editor",
+          },
+        ]
+      : []),
+
     // Help
     {
       key: "?",
@@ -0,0 +1,204 @@
+/**
+ * Pixel Selection Hook
+ *
+ * Manages the marquee selection inside the edited character:
+ * - Selecting a rectangle and lifting it into a floating selection
+ * - Moving, flipping and rotating the floating selection
+ * - Cut/copy/paste through a clipboard shared by all character sets
+ *
+ * Floating selections are only previewed until they are placed, which
+ * happens when a new selection starts, the selection is cleared or the
+ * selected characters change. Placing them is a single undo entry.
+ *
+ * @module hooks/character-editor/usePixelSelection
+ */
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Character } from "@/lib/character-editor/types";
+import {
+  FloatingSelection,
+  PixelRect,
+  SelectionTransform,
+  copyRegion,
+  getFloatingRect,
+  liftSelection,
+  transformFloatingSelection,
+} from "@/lib/character-editor/pixelSelection";
+
+/**
+ * Copied pixels, kept at module level so they can be pasted into other sets
+ */
+let pixelClipboard: Character | null = null;
+
+export interface UsePixelSelectionOptions {
+  /** Primary selected character (source of copied and lifted pixels) */
+  character: Character | null;
+  /** Indices of the characters the selection applies to */
+  selectedIndices: Set<number>;
+  /** Place a floating selection into characters */
+  placePixelSelection: (floating: FloatingSelection, indices?: Iterable<number>) => void;
+  /** Clear a region of characters */
+  clearPixelRegion: (rect: PixelRect, indices?: Iterable<number>, label?: string) => void;
+}
+
+export interface UsePixelSelectionResult {
+  /** Selected rectangle (follows the floating selection while it moves) */
+  selection: PixelRect | null;
+  /** Floating selection being moved, if any */
+  floating: FloatingSelection | null;
+  /** Whether there are copied pixels to paste */
+  hasClipboard: boolean;
+  /** Start a new selection (places the floating selection first) */
+  select: (rect: PixelRect | null) => void;
+  /** Lift the selected pixels so they can be moved */
+  lift: () => void;
+  /** Move the floating selection's top-left pixel to a position */
+  moveTo: (row: number, col: number) => void;
+  /** Place the floating selection and clear the selection */
+  deselect: () => void;
+  /** Copy the selected pixels */
+  copy: () => void;
+  /** Copy the selected pixels and clear them */
+  cut: () => void;
+  /** Paste copied pixels as a floating selection */
+  paste: () => void;
+  /** Clear the selected pixels */
+  deleteSelection: () => void;
+  /** Flip or rotate the selected pixels */
+  transform: (transform: SelectionTransform) => void;
+}
+
+/**
+ * Hook for selecting, moving and copying pixels inside a character
+ */
+export function usePixelSelection({
+  character,
+  selectedIndices,
+  placePixelSelection,
+  clearPixelRegion,
+}: UsePixelSelectionOptions): UsePixelSelectionResult {
+  const [marquee, setMarquee] = useState<PixelRect | null>(null);
+  const [floating, setFloating] = useState<FloatingSelection | null>(null);
+  const [hasClipboard, setHasClipboard] = useState(() => pixelClipboard !== null);
+
+  // Characters the floating selection was lifted from or pasted into
+  const floatingIndicesRef = useRef<number[]>([]);
+
+  const selection = useMemo(() => (floating ? getFloatingRect(floating) : marquee), [floating, marquee]);
+
+  const startFloating = useCallback(
+    (next: FloatingSelection) => {
+      floatingIndicesRef.current = [...selectedIndices];
+      setFloating(next);
+    },
+    [selectedIndices]
+  );
+
+  const place = useCallback(() => {
+    if (floating) {
+      placePixelSelection(floating, floatingIndicesRef.current);
+      setFloating(null);
+    }
+  }, [floating, placePixelSelection]);
+
+  const select = useCallback(
+    (rect: PixelRect | null) => {
+      place();
+      setMarquee(rect);
+    },
+    [place]
+  );
+
+  const deselect = useCallback(() => select(null), [select]);
+
+  const lift = useCallback(() => {
+    if (!floating && marquee && character) {
+      startFloating(liftSelection(character, marquee));
+    }
+  }, [floating, marquee, character, startFloating]);
+
+  const moveTo = useCallback((row: number, col: number) => {
+    setFloating((current) => (current ? { ...current, row, col } : current));
+  }, []);
+
+  const copy = useCallback(() => {
+    const clip = floating ? floating.clip : marquee && character ? copyRegion(character, marquee) : null;
+    if (clip) {
+      pixelClipboard = clip;
+      setHasClipboard(true);
+    }
+  }, [floating, marquee, character]);
+
+  const clear = useCallback(
+    (label: string) => {
+      if (floating) {
+        // Pasted pixels were never placed, so there is nothing to clear
+        if (floating.source) {
+          clearPixelRegion(floating.source, floatingIndicesRef.current, label);
+        }
+        setMarquee(getFloatingRect(floating));
+        setFloating(null);
+      } else if (marquee) {
+        clearPixelRegion(marquee, undefined, label);
+      }
+    },
+    [floating, marquee, clearPixelRegion]
+  );
+
+  const cut = useCallback(() => {
+    copy();
+    clear("Cut");
+  }, [copy, clear]);
+
+  const deleteSelection = useCallback(() => clear("Delete selection"), [clear]);
+
+  const paste = useCallback(() => {
+    if (!pixelClipboard) return;
+    place();
+    startFloating({
+      clip: pixelClipboard,
+      source: null,
+      transforms: [],
+      row: selection?.row ?? 0,
+      col: selection?.col ?? 0,
+    });
+  }, [place, startFloating, selection]);
+
+  const transform = useCallback(
+    (selectionTransform: SelectionTransform) => {
+      if (floating) {
+        setFloating(transformFloatingSelection(floating, selectionTransform));
+      } else if (marquee && character) {
+        startFloating(transformFloatingSelection(liftSelection(character, marquee), selectionTransform));
+      }
+    },
+    [floating, marquee, character, startFloating]
+  );
+
+  // Place the floating selection into the characters it belongs to
+  // before another character is selected
+  const selectedKey = [...selectedIndices].join(",");
+  const deselectRef = useRef(deselect);
+  useEffect(() => {
+    deselectRef.current = deselect;
+  }, [deselect]);
+  useEffect(() => {
+    deselectRef.current();
+  }, [selectedKey]);
+
+  return {
+    selection,
+    floating,
+    hasClipboard,
+    select,
+    lift,
+    moveTo,
+    deselect,
+    copy,
+    cut,
+    paste,
+    deleteSelection,
+    transform,
+  };
+}
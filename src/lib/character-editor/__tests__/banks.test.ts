@@ -0,0 +1,200 @@
+/**
+ * Character ROM Editor - Character Bank Tests
+ *
+ * Tests for multi-bank character set helpers:
+ * - Bank normalization
+ * - Bank ranges and index lookup
+ * - Bank bookkeeping on insert/delete
+ * - Even bank splitting
+ */
+
+import {
+  createDefaultBanks,
+  normalizeBanks,
+  hasMultipleBanks,
+  getBankRanges,
+  getBankRange,
+  getBankIndexForCharacter,
+  adjustBanksForInsert,
+  adjustBanksForDelete,
+  splitBanksEvenly,
+} from "@/lib/character-editor/banks";
+import type { CharacterBank } from "@/lib/character-editor/types";
+
+const twoBanks: CharacterBank[] = [
+  { name: "Upper", characterCount: 256 },
+  { name: "Lower", characterCount: 256 },
+];
+
+// ============================================================================
+// normalizeBanks Tests
+// ============================================================================
+
+describe("normalizeBanks", () => {
+  it("creates a single bank when no banks are given", () => {
+    expect(normalizeBanks(undefined, 128)).toEqual(createDefaultBanks(128));
+    expect(normalizeBanks([], 64)).toEqual([
+      { name: "Bank 1", characterCount: 64 },
+    ]);
+  });
+
+  it("keeps a layout that matches the character count", () => {
+    expect(normalizeBanks(twoBanks, 512)).toEqual(twoBanks);
+  });
+
+  it("reconciles a mismatch on the last bank", () => {
+    expect(normalizeBanks(twoBanks, 300)).toEqual([
+      { name: "Upper", characterCount: 256 },
+      { name: "Lower", characterCount: 44 },
+    ]);
+    expect(normalizeBanks(twoBanks, 600)[1].characterCount).toBe(344);
+  });
+
+  it("truncates earlier banks that exceed the character count", () => {
+    expect(normalizeBanks(twoBanks, 100)).toEqual([
+      { name: "Upper", characterCount: 100 },
+      { name: "Lower", characterCount: 0 },
+    ]);
+  });
+
+  it("fills in missing names and clamps invalid counts", () => {
+    const result = normalizeBanks(
+      [
+        { name: "", characterCount: -5 },
+        { name: "B", characterCount: 10 },
+      ],
+      10
+    );
+    expect(result).toEqual([
+      { name: "Bank 1", characterCount: 0 },
+      { name: "B", characterCount: 10 },
+    ]);
+  });
+});
+
+// ============================================================================
+// Range Tests
+// ============================================================================
+
+describe("hasMultipleBanks", () => {
+  it("detects multi-bank layouts", () => {
+    expect(hasMultipleBanks(undefined)).toBe(false);
+    expect(hasMultipleBanks(createDefaultBanks(256))).toBe(false);
+    expect(hasMultipleBanks(twoBanks)).toBe(true);
+  });
+});
+
+describe("getBankRanges", () => {
+  it("returns contiguous ranges", () => {
+    expect(getBankRanges(twoBanks)).toEqual([
+      { bankIndex: 0, start: 0, end: 256 },
+      { bankIndex: 1, start: 256, end: 512 },
+    ]);
+  });
+
+  it("returns a single range by index", () => {
+    expect(getBankRange(twoBanks, 1)).toEqual({
+      bankIndex: 1,
+      start: 256,
+      end: 512,
+    });
+    expect(getBankRange(twoBanks, 2)).toBeNull();
+  });
+});
+
+describe("getBankIndexForCharacter", () => {
+  it("finds the bank containing an index", () => {
+    expect(getBankIndexForCharacter(twoBanks, 0)).toBe(0);
+    expect(getBankIndexForCharacter(twoBanks, 255)).toBe(0);
+    expect(getBankIndexForCharacter(twoBanks, 256)).toBe(1);
+  });
+
+  it("assigns out-of-range indices to the last bank", () => {
+    expect(getBankIndexForCharacter(twoBanks, 1000)).toBe(1);
+  });
+
+  it("skips empty banks", () => {
+    const banks = [
+      { name: "A", characterCount: 0 },
+      { name: "B", characterCount: 4 },
+    ];
+    expect(getBankIndexForCharacter(banks, 0)).toBe(1);
+  });
+});
+
+// ============================================================================
+// Insert / Delete Tests
+// ============================================================================
+
+describe("adjustBanksForInsert", () => {
+  it("returns undefined layouts unchanged", () => {
+    expect(adjustBanksForInsert(undefined, 0, 1)).toBeUndefined();
+  });
+
+  it("grows the bank containing the insertion point", () => {
+    const result = adjustBanksForInsert(twoBanks, 300, 2);
+    expect(result?.map((b) => b.characterCount)).toEqual([256, 258]);
+  });
+
+  it("grows the earlier bank when inserting at a boundary", () => {
+    const result = adjustBanksForInsert(twoBanks, 256, 1);
+    expect(result?.map((b) => b.characterCount)).toEqual([257, 256]);
+  });
+
+  it("grows the last bank when appending", () => {
+    const result = adjustBanksForInsert(twoBanks, 512, 3);
+    expect(result?.map((b) => b.characterCount)).toEqual([256, 259]);
+  });
+
+  it("does not mutate the input", () => {
+    adjustBanksForInsert(twoBanks, 0, 1);
+    expect(twoBanks[0].characterCount).toBe(256);
+  });
+});
+
+describe("adjustBanksForDelete", () => {
+  it("shrinks the banks containing the deleted indices", () => {
+    const result = adjustBanksForDelete(twoBanks, [0, 1, 300]);
+    expect(result?.map((b) => b.characterCount)).toEqual([254, 255]);
+  });
+
+  it("ignores duplicate indices", () => {
+    const result = adjustBanksForDelete(twoBanks, [5, 5]);
+    expect(result?.map((b) => b.characterCount)).toEqual([255, 256]);
+  });
+
+  it("keeps banks that become empty", () => {
+    const banks = [
+      { name: "A", characterCount: 1 },
+      { name: "B", characterCount: 1 },
+    ];
+    const result = adjustBanksForDelete(banks, [0]);
+    expect(result).toEqual([
+      { name: "A", characterCount: 0 },
+      { name: "B", characterCount: 1 },
+    ]);
+  });
+});
+
+// ============================================================================
+// splitBanksEvenly Tests
+// ============================================================================
+
+describe("splitBanksEvenly", () => {
+  it("splits into equal banks", () => {
+    expect(splitBanksEvenly(512, 2)).toEqual([
+      { name: "Bank 1", characterCount: 256 },
+      { name: "Bank 2", characterCount: 256 },
+    ]);
+  });
+
+  it("gives the remainder to the last bank", () => {
+    expect(splitBanksEvenly(10, 3).map((b) => b.characterCount)).toEqual([
+      3, 3, 4,
+    ]);
+  });
+
+  it("creates at least one bank", () => {
+    expect(splitBanksEvenly(8, 0)).toEqual(createDefaultBanks(8));
+  });
+});
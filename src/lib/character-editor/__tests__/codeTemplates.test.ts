@@ -0,0 +1,164 @@
+/**
+ * Character ROM Editor - Code Template Tests
+ *
+ * Tests for template-based code export:
+ * - Placeholders, sections and loops
+ * - Byte formats
+ * - Template errors
+ * - Built-in templates
+ * - User template persistence
+ */
+
+import {
+  BUILT_IN_CODE_TEMPLATES,
+  CodeTemplate,
+  createCodeTemplate,
+  formatTemplateByte,
+  getUserCodeTemplates,
+  renderCodeTemplate,
+  saveUserCodeTemplates,
+} from "@/lib/character-editor/codeTemplates";
+import { createMockCharacters, createMockConfig } from "@/lib/character-editor/__tests__/testUtils";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const config = createMockConfig({ width: 8, height: 2 });
+const characters = createMockCharacters(2, 8, 2, ["filled", "empty"]);
+const options = { name: "font", includeComments: true };
+
+function createTemplate(body: string, overrides: Partial<CodeTemplate> = {}): CodeTemplate {
+  return { id: "test", name: "Test", extension: ".txt", byteFormat: "hex-0x", byteSeparator: ", ", body, ...overrides };
+}
+
+function render(body: string, overrides: Partial<CodeTemplate> = {}, renderOptions = options): string {
+  return renderCodeTemplate(createTemplate(body, overrides), characters, config, renderOptions);
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("renderCodeTemplate", () => {
+  it("fills in set placeholders", () => {
+    expect(render("{{name}} {{NAME}} {{width}}x{{height}} {{count}} {{bytesPerCharacter}} {{totalBytes}}")).toBe(
+      "font FONT 8x2 2 2 4"
+    );
+    expect(render("{{bytes}}")).toBe("0xFF, 0xFF, 0x00, 0x00");
+  });
+
+  it("loops over characters and rows", () => {
+    expect(render("{{#characters}}{{index}}:{{bytes}}{{^last}}; {{/last}}{{/characters}}")).toBe(
+      "0:0xFF, 0xFF; 1:0x00, 0x00"
+    );
+    expect(render("{{#characters}}[{{#rows}}{{row}}={{bytes}}{{^last}} {{/last}}{{/rows}}]{{/characters}}")).toBe(
+      "[0=0xFF 1=0xFF][0=0x00 1=0x00]"
+    );
+  });
+
+  it("writes comment sections only when comments are enabled", () => {
+    const body = "{{#comments}}// {{name}}\n{{/comments}}data";
+
+    expect(render(body)).toBe("// font\ndata");
+    expect(render(body, {}, { ...options, includeComments: false })).toBe("data");
+  });
+
+  it("drops lines that hold only a section tag", () => {
+    expect(render("start\n{{#characters}}\n  {{index}}\n{{/characters}}\nend\n")).toBe("start\n  0\n  1\nend\n");
+  });
+
+  it("uses the byte format and separator of the template", () => {
+    expect(render("{{bytes}}", { byteFormat: "hex-dollar", byteSeparator: "," })).toBe("$FF,$FF,$00,$00");
+  });
+
+  it("labels characters with their ASCII or mapped character", () => {
+    const template = createTemplate("{{#characters}}[{{label}}]{{/characters}}");
+    const ascii = createMockCharacters(0x43, 8, 2, ["empty"]);
+
+    expect(renderCodeTemplate(template, ascii, config, options).slice(-6)).toBe("[A][B]");
+    expect(renderCodeTemplate(template, characters, config, options, [0x2588, null])).toBe("[█][]");
+  });
+
+  it("reports template errors", () => {
+    expect(() => render("{{missing}}")).toThrow("Unknown placeholder {{missing}}");
+    expect(() => render("{{#characters}}")).toThrow("Unclosed section {{#characters}}");
+    expect(() => render("{{/characters}}")).toThrow("Unexpected {{/characters}}");
+    expect(() => render("{{characters}}")).toThrow("is a list");
+  });
+});
+
+describe("formatTemplateByte", () => {
+  it("formats bytes", () => {
+    expect(formatTemplateByte(10, "hex-0x")).toBe("0x0A");
+    expect(formatTemplateByte(10, "decimal")).toBe("10");
+    expect(formatTemplateByte(10, "binary-0b")).toBe("0b00001010");
+    expect(formatTemplateByte(10, "binary-percent")).toBe("%00001010");
+  });
+});
+
+describe("built-in templates", () => {
+  it("render without errors", () => {
+    for (const template of BUILT_IN_CODE_TEMPLATES) {
+      expect(() => renderCodeTemplate(template, characters, config, options)).not.toThrow();
+      expect(() => renderCodeTemplate(template, characters, config, { ...options, includeComments: false })).not.toThrow();
+    }
+  });
+
+  it("write compilable arrays", () => {
+    const arduino = BUILT_IN_CODE_TEMPLATES.find((template) => template.id === "arduino-progmem")!;
+    expect(renderCodeTemplate(arduino, characters, config, { ...options, includeComments: false })).toBe(
+      "#include <avr/pgmspace.h>\n\nconst uint8_t font[4] PROGMEM = {\n  0xFF, 0xFF,\n  0x00, 0x00\n};\n"
+    );
+
+    const rust = BUILT_IN_CODE_TEMPLATES.find((template) => template.id === "rust")!;
+    expect(renderCodeTemplate(rust, characters, config, options)).toContain(
+      "pub const FONT: [[u8; 2]; 2] = [\n    [0xFF, 0xFF], // 0\n"
+    );
+  });
+});
+
+describe("user templates", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("copies a template as a new user template", () => {
+    const copy = createCodeTemplate(BUILT_IN_CODE_TEMPLATES[0]);
+
+    expect(copy.id).not.toBe(BUILT_IN_CODE_TEMPLATES[0].id);
+    expect(copy.name).toBe(`${BUILT_IN_CODE_TEMPLATES[0].name} (copy)`);
+    expect(copy.body).toBe(BUILT_IN_CODE_TEMPLATES[0].body);
+    expect(copy.builtIn).toBeUndefined();
+  });
+
+  it("saves and loads user templates", () => {
+    const template = createTemplate("{{bytes}}", { id: "mine" });
+    saveUserCodeTemplates([template]);
+
+    expect(getUserCodeTemplates()).toEqual([{ ...template, builtIn: false }]);
+  });
+
+  it("returns no templates for missing or corrupt data", () => {
+    expect(getUserCodeTemplates()).toEqual([]);
+    localStorage.setItem("retrostack-character-editor-code-templates", "{not json");
+    expect(getUserCodeTemplates()).toEqual([]);
+  });
+
+  it("drops stored entries with missing or invalid fields", () => {
+    const template = createTemplate("{{bytes}}", { id: "mine" });
+    localStorage.setItem(
+      "retrostack-character-editor-code-templates",
+      JSON.stringify([
+        template,
+        null,
+        "template",
+        { ...template, id: "no-body", body: undefined },
+        { ...template, id: "bad-format", byteFormat: "octal" },
+        { ...template, id: "bad-extension", extension: 42 },
+      ])
+    );
+
+    expect(getUserCodeTemplates()).toEqual([{ ...template, builtIn: false }]);
+  });
+});
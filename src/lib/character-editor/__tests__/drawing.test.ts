@@ -0,0 +1,162 @@
+/**
+ * Character ROM Editor - Drawing Tool Tests
+ *
+ * Tests for the pixel shapes of the drawing tools:
+ * - Lines, rectangles and ellipses
+ * - Flood fill regions
+ * - Applying shapes to monochrome and multicolor characters
+ */
+
+import {
+  floodFill,
+  getEllipsePoints,
+  getFloodFillPoints,
+  getLinePoints,
+  getRectanglePoints,
+  getShapePoints,
+  isShapeTool,
+  setPixels,
+  PixelPoint,
+} from "@/lib/character-editor/drawing";
+import { createMockCharacter } from "@/lib/character-editor/__tests__/testUtils";
+import { createMulticolorCharacter, getColorIndices } from "@/lib/character-editor/multicolor";
+import { Character } from "@/lib/character-editor/types";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Render points as rows of "#" and "." for readable expectations
+ */
+function render(points: PixelPoint[], width: number, height: number): string[] {
+  const rows = Array.from({ length: height }, () => Array(width).fill("."));
+  for (const { row, col } of points) {
+    rows[row][col] = "#";
+  }
+  return rows.map((row) => row.join(""));
+}
+
+function fromRows(rows: string[]): Character {
+  return { pixels: rows.map((row) => row.split("").map((c) => c === "#")) };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("getLinePoints", () => {
+  it("draws horizontal, vertical and diagonal lines in both directions", () => {
+    expect(getLinePoints({ row: 1, col: 0 }, { row: 1, col: 3 })).toHaveLength(4);
+    expect(getLinePoints({ row: 3, col: 2 }, { row: 0, col: 2 })).toHaveLength(4);
+    expect(render(getLinePoints({ row: 3, col: 3 }, { row: 0, col: 0 }), 4, 4)).toEqual(["#...", ".#..", "..#.", "...#"]);
+  });
+
+  it("draws shallow lines without gaps", () => {
+    expect(render(getLinePoints({ row: 0, col: 0 }, { row: 1, col: 5 }), 6, 2)).toEqual(["###...", "...###"]);
+  });
+
+  it("draws a single pixel for equal points", () => {
+    expect(getLinePoints({ row: 2, col: 2 }, { row: 2, col: 2 })).toEqual([{ row: 2, col: 2 }]);
+  });
+});
+
+describe("getRectanglePoints", () => {
+  it("draws outlines and filled rectangles from any corner", () => {
+    expect(render(getRectanglePoints({ row: 2, col: 3 }, { row: 0, col: 0 }, false), 4, 3)).toEqual([
+      "####",
+      "#..#",
+      "####",
+    ]);
+    expect(getRectanglePoints({ row: 0, col: 0 }, { row: 2, col: 3 }, true)).toHaveLength(12);
+  });
+});
+
+describe("getEllipsePoints", () => {
+  it("draws a circle inside the box", () => {
+    expect(render(getEllipsePoints({ row: 0, col: 0 }, { row: 4, col: 4 }), 5, 5)).toEqual([
+      ".###.",
+      "#...#",
+      "#...#",
+      "#...#",
+      ".###.",
+    ]);
+  });
+
+  it("handles boxes with even sizes and thin boxes", () => {
+    expect(render(getEllipsePoints({ row: 3, col: 5 }, { row: 0, col: 0 }), 6, 4)).toEqual([
+      ".####.",
+      "#....#",
+      "#....#",
+      ".####.",
+    ]);
+    expect(render(getEllipsePoints({ row: 0, col: 1 }, { row: 3, col: 1 }), 3, 4)).toEqual([".#.", ".#.", ".#.", ".#."]);
+    expect(getEllipsePoints({ row: 1, col: 1 }, { row: 1, col: 1 })).toEqual([{ row: 1, col: 1 }]);
+  });
+});
+
+describe("getShapePoints and isShapeTool", () => {
+  it("dispatches by tool", () => {
+    const from = { row: 0, col: 0 };
+    const to = { row: 2, col: 2 };
+    expect(getShapePoints("line", from, to)).toEqual(getLinePoints(from, to));
+    expect(getShapePoints("filled-rectangle", from, to)).toHaveLength(9);
+    expect(isShapeTool("ellipse")).toBe(true);
+    expect(isShapeTool("fill")).toBe(false);
+    expect(isShapeTool("pencil")).toBe(false);
+  });
+});
+
+describe("flood fill", () => {
+  const ring = fromRows(["#####", "#...#", "#.#.#", "#...#", "#####"]);
+
+  it("fills the connected region of the start pixel's color", () => {
+    expect(getFloodFillPoints(ring, { row: 1, col: 1 })).toHaveLength(8);
+    expect(getFloodFillPoints(ring, { row: 0, col: 0 })).toHaveLength(16);
+    expect(getFloodFillPoints(ring, { row: 9, col: 9 })).toEqual([]);
+  });
+
+  it("does not leak through diagonal gaps", () => {
+    const diagonal = fromRows(["#.", ".#"]);
+    expect(getFloodFillPoints(diagonal, { row: 0, col: 1 })).toHaveLength(1);
+  });
+
+  it("sets the region to the value", () => {
+    const filled = floodFill(ring, { row: 1, col: 1 }, true);
+    expect(filled.pixels.flat().every(Boolean)).toBe(true);
+    expect(floodFill(ring, { row: 0, col: 0 }, false).pixels[2][2]).toBe(true);
+  });
+
+  it("fills the regions of several start pixels in the unchanged character", () => {
+    const halves = fromRows(["..#..", "..#..", "..#.."]);
+    const filled = floodFill(halves, [{ row: 0, col: 0 }, { row: 2, col: 4 }], true);
+    expect(filled.pixels.flat().every(Boolean)).toBe(true);
+  });
+});
+
+describe("setPixels", () => {
+  it("sets monochrome pixels and ignores points outside the character", () => {
+    const result = setPixels(createMockCharacter(2, 2, "empty"), [{ row: 0, col: 1 }, { row: 5, col: 5 }], true);
+    expect(result.pixels).toEqual([
+      [false, true],
+      [false, false],
+    ]);
+    expect(result.colors).toBeUndefined();
+  });
+
+  it("sets multicolor pixels to the draw color", () => {
+    const character = createMulticolorCharacter([
+      [1, 1],
+      [2, 2],
+    ]);
+    const result = setPixels(character, [{ row: 0, col: 0 }, { row: 1, col: 1 }], true, 3);
+    expect(getColorIndices(result)).toEqual([
+      [3, 1],
+      [2, 3],
+    ]);
+    expect(getColorIndices(setPixels(result, [{ row: 0, col: 1 }], false, 3))).toEqual([
+      [3, 0],
+      [2, 3],
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Character ROM Editor - EPROM Image Tests
+ *
+ * Tests for building EPROM images:
+ * - Chip targets and capacities
+ * - Segment placement and fill bytes
+ * - Overflow and overlap warnings
+ * - CRC32 and SUM16 checksums
+ */
+
+import {
+  GENERIC_EPROMS,
+  buildEpromImage,
+  crc32,
+  getChipCapacityBytes,
+  getEpromTargets,
+  getSmallestEprom,
+  sum16,
+} from "@/lib/character-editor/eprom";
+import type { ChipInfo } from "@/lib/character-editor/data/systems";
+
+function createChip(capacity: ChipInfo["capacity"]): ChipInfo {
+  return { id: "test", partNumber: "TEST", type: "Mask ROM", capacity, glyph: { width: 8, height: 8 }, glyphCount: 256 };
+}
+
+describe("EPROM targets", () => {
+  it("reads chip capacities in bytes", () => {
+    expect(getChipCapacityBytes(createChip({ bytes: 640, bits: 5120 }))).toBe(640);
+    expect(getChipCapacityBytes(createChip({ kb: 4 }))).toBe(4096);
+    expect(getChipCapacityBytes(createChip({ bits: 2048 }))).toBe(256);
+    expect(getChipCapacityBytes(createChip({ bits: 2561 }))).toBeUndefined();
+    expect(getChipCapacityBytes(createChip(undefined))).toBeUndefined();
+  });
+
+  it("lists generic EPROMs before library chips", () => {
+    const targets = getEpromTargets();
+    expect(targets.slice(0, GENERIC_EPROMS.length)).toEqual(GENERIC_EPROMS);
+    expect(targets.length).toBeGreaterThan(GENERIC_EPROMS.length);
+    expect(new Set(targets.map((target) => target.id)).size).toBe(targets.length);
+  });
+
+  it("picks the smallest EPROM that fits", () => {
+    expect(getSmallestEprom(2048).id).toBe("2716");
+    expect(getSmallestEprom(2049).id).toBe("2732");
+    expect(getSmallestEprom(1 << 20).id).toBe("27512");
+  });
+});
+
+describe("buildEpromImage", () => {
+  it("places segments at their offsets and fills the rest", () => {
+    const image = buildEpromImage(
+      [
+        { name: "A", offset: 0, data: new Uint8Array([1, 2]) },
+        { name: "B", offset: 4, data: new Uint8Array([3]) },
+      ],
+      8,
+      0xff
+    );
+
+    expect(Array.from(image.data)).toEqual([1, 2, 0xff, 0xff, 3, 0xff, 0xff, 0xff]);
+    expect(image.usedBytes).toBe(3);
+    expect(image.warnings).toEqual([]);
+  });
+
+  it("warns about and cuts off data past the end of the chip", () => {
+    const image = buildEpromImage(
+      [
+        { name: "A", offset: 6, data: new Uint8Array([1, 2, 3, 4]) },
+        { name: "B", offset: 8, data: new Uint8Array([5]) },
+      ],
+      8,
+      0
+    );
+
+    expect(Array.from(image.data)).toEqual([0, 0, 0, 0, 0, 0, 1, 2]);
+    expect(image.warnings).toEqual([
+      '"A" overflows the chip by 2 bytes',
+      '"B" starts at 0x0008, past the end of the chip',
+    ]);
+  });
+
+  it("warns about overlapping segments", () => {
+    const image = buildEpromImage(
+      [
+        { name: "A", offset: 0, data: new Uint8Array([1, 1, 1, 1]) },
+        { name: "B", offset: 2, data: new Uint8Array([2, 2]) },
+      ],
+      4,
+      0
+    );
+
+    expect(Array.from(image.data)).toEqual([1, 1, 2, 2]);
+    expect(image.usedBytes).toBe(4);
+    expect(image.warnings).toEqual(['"B" overlaps "A" at 0x0002']);
+  });
+});
+
+describe("checksums", () => {
+  it("calculates CRC32", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it("calculates SUM16 with wrap-around", () => {
+    expect(sum16(new Uint8Array([1, 2, 3]))).toBe(6);
+    expect(sum16(new Uint8Array(300).fill(0xff))).toBe((300 * 0xff) & 0xffff);
+  });
+});
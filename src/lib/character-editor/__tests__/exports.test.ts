@@ -17,6 +17,27 @@ import {
   getBitLayoutVisualization,
   getDefaultCHeaderOptions,
   getDefaultAssemblyOptions,
+  getDefaultHexRecordOptions,
+  getHexRecordExtension,
+  exportToHexRecords,
+  getDefaultBdfOptions,
+  exportToBdf,
+  getDefaultFontExportOptions,
+  getFontExtension,
+  pixelsToRectangles,
+  exportToFont,
+  getDefaultAtlasOptions,
+  getAtlasLayout,
+  getAtlasFileNames,
+  exportToAtlasDescriptor,
+  getCodeExtension,
+  getDefaultMemoryInitOptions,
+  getMemoryWords,
+  exportToMem,
+  exportToMif,
+  exportToCoe,
+  exportToVerilogRom,
+  exportToVhdlRom,
   type CHeaderOptions,
   type AssemblyOptions,
 } from "@/lib/character-editor/exports";
@@ -26,6 +47,7 @@ import {
   createMockConfig,
 } from "@/lib/character-editor/__tests__/testUtils";
 import type { Character, CharacterSetConfig } from "@/lib/character-editor/types";
+import { unzlibSync } from "fflate";
 
 describe("getDefaultCHeaderOptions", () => {
   it("returns valid default options", () => {
@@ -109,6 +131,326 @@ describe("getDefaultAssemblyOptions", () => {
   });
 });
 
+describe("exportToHexRecords", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  const characters = createMockCharacters(2, 8, 8, ["filled"]);
+
+  it("writes the binary ROM image as Intel HEX", () => {
+    const content = exportToHexRecords(characters, config, getDefaultHexRecordOptions());
+
+    expect(content).toBe(":10000000FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF00\n:00000001FF\n");
+  });
+
+  it("writes S-records with the set name as header", () => {
+    const content = exportToHexRecords(
+      characters,
+      config,
+      { outputFormat: "srec", baseAddress: 0x1000, recordSize: 8 },
+      "AB"
+    );
+    const lines = content.trim().split("\n");
+
+    expect(lines[0]).toBe("S0050000414277");
+    expect(lines[1].startsWith("S10B1000")).toBe(true);
+    expect(lines[2].startsWith("S10B1008")).toBe(true);
+    expect(lines).toHaveLength(5);
+  });
+
+  it("uses matching file extensions", () => {
+    expect(getHexRecordExtension("intel-hex")).toBe(".hex");
+    expect(getHexRecordExtension("srec")).toBe(".srec");
+  });
+});
+
+describe("getDefaultBdfOptions", () => {
+  it("sanitizes the font name", () => {
+    expect(getDefaultBdfOptions("C64 Upper/Lower", 8).fontName).toBe("C64-Upper-Lower");
+    expect(getDefaultBdfOptions("", 8).fontName).toBe("charset");
+  });
+
+  it("puts one descent row below the baseline for every 8 rows", () => {
+    expect(getDefaultBdfOptions("Test", 8).descent).toBe(1);
+    expect(getDefaultBdfOptions("Test", 16).descent).toBe(2);
+    expect(getDefaultBdfOptions("Test", 7).descent).toBe(0);
+  });
+});
+
+describe("exportToBdf", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  const characters = createMockCharacters(2, 8, 8, ["filled", "empty"]);
+
+  it("writes the font header and metrics", () => {
+    const content = exportToBdf(characters, config, { fontName: "Test", firstEncoding: 65, descent: 1 });
+
+    expect(content.startsWith("STARTFONT 2.1\nFONT Test\n")).toBe(true);
+    expect(content).toContain("FONTBOUNDINGBOX 8 8 0 -1");
+    expect(content).toContain("FONT_ASCENT 7");
+    expect(content).toContain("FONT_DESCENT 1");
+    expect(content).toContain("CHARS 2");
+    expect(content.endsWith("ENDFONT\n")).toBe(true);
+  });
+
+  it("writes a glyph per character from the first encoding", () => {
+    const content = exportToBdf(characters, config, { fontName: "Test", firstEncoding: 65, descent: 1 });
+
+    expect(content).toContain("STARTCHAR char65\nENCODING 65\n");
+    expect(content).toContain("ENCODING 66");
+    expect(content).toContain("BBX 8 8 0 -1\nBITMAP\nFF\nFF\n");
+  });
+
+  it("pads rows to whole bytes", () => {
+    const narrow = exportToBdf(createMockCharacters(1, 5, 7, ["filled"]), createMockConfig({ width: 5, height: 7 }), {
+      fontName: "Test",
+      firstEncoding: 0,
+      descent: 0,
+    });
+    const wide = exportToBdf(createMockCharacters(1, 12, 8, ["filled"]), createMockConfig({ width: 12, height: 8 }), {
+      fontName: "Test",
+      firstEncoding: 0,
+      descent: 0,
+    });
+
+    expect(narrow).toContain("BITMAP\nF8\n");
+    expect(wide).toContain("BITMAP\nFFF0\n");
+  });
+});
+
+describe("getDefaultFontExportOptions", () => {
+  it("uses 128 units per pixel with the descent below the baseline", () => {
+    expect(getDefaultFontExportOptions("Test", 8)).toEqual({
+      outputFormat: "ttf",
+      fontName: "Test",
+      unitsPerEm: 1024,
+      ascent: 896,
+      descent: 128,
+    });
+    expect(getDefaultFontExportOptions("", 16).fontName).toBe("Character Set");
+  });
+
+  it("gets the extension of each output format", () => {
+    expect(getFontExtension("ttf")).toBe(".ttf");
+    expect(getFontExtension("woff")).toBe(".woff");
+  });
+});
+
+describe("pixelsToRectangles", () => {
+  const parse = (rows: string[]) => rows.map((row) => Array.from(row, (c) => c === "#"));
+
+  it("merges runs in a row and identical runs below each other", () => {
+    expect(pixelsToRectangles(parse(["###.", "###.", "..#."]))).toEqual([
+      { x: 0, y: 0, width: 3, height: 2 },
+      { x: 2, y: 2, width: 1, height: 1 },
+    ]);
+  });
+
+  it("keeps separate runs apart", () => {
+    expect(pixelsToRectangles(parse(["#.#", "#.#"]))).toEqual([
+      { x: 0, y: 0, width: 1, height: 2 },
+      { x: 2, y: 0, width: 1, height: 2 },
+    ]);
+    expect(pixelsToRectangles(parse(["...", "..."]))).toEqual([]);
+  });
+
+  it("does not join runs separated by a blank row", () => {
+    expect(pixelsToRectangles(parse(["##", "..", "##"]))).toHaveLength(2);
+  });
+});
+
+describe("exportToFont", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  const options = getDefaultFontExportOptions("Test Font", 8);
+
+  // Read a generated font back with opentype.js
+  const parseFont = async (data: Uint8Array) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const opentype = await import("opentype.js" as any);
+    return opentype.parse(data.buffer);
+  };
+
+  it("writes a glyph per mapped character", async () => {
+    const characters = createMockCharacters(0x42, 8, 8, ["filled"]);
+    const data = await exportToFont(characters, config, options);
+    const font = await parseFont(data);
+
+    // TrueType outlines, not CFF ("OTTO")
+    expect(new DataView(data.buffer).getUint32(0)).toBe(0x00010000);
+    expect(font.outlinesFormat).toBe("truetype");
+    expect(font.names.fontFamily.en).toBe("Test Font");
+    expect(font.unitsPerEm).toBe(1024);
+    expect(font.ascender).toBe(896);
+    expect(font.descender).toBe(-128);
+    // .notdef and A-B plus 0x20-0x40; control codes are left out
+    expect(font.glyphs.length).toBe(1 + 0x42 - 0x20);
+
+    const glyph = font.charToGlyph("A");
+    expect(glyph.advanceWidth).toBe(1024);
+    expect(glyph.getBoundingBox()).toMatchObject({ x1: 0, y1: -128, x2: 1024, y2: 896 });
+  });
+
+  it("writes one clockwise contour per pixel rectangle", async () => {
+    const characters = createMockCharacters(0x22, 8, 8, ["checkerboard"]);
+    const font = await parseFont(await exportToFont(characters, config, options));
+    const glyph = font.charToGlyph("!");
+    glyph.getPath(); // Loads the outline
+    const rects = pixelsToRectangles(characters[0x21].pixels);
+
+    expect(glyph.numberOfContours).toBe(rects.length);
+    expect(glyph.points).toHaveLength(rects.length * 4);
+    // Up the left edge first: clockwise in y-up font coordinates
+    const [first, second] = glyph.points;
+    expect(second.x).toBe(first.x);
+    expect(second.y).toBeGreaterThan(first.y);
+    expect(glyph.points.every((point: { onCurve: boolean }) => point.onCurve)).toBe(true);
+  });
+
+  it("writes valid table and font checksums", async () => {
+    const characters = createMockCharacters(0x80, 8, 8, ["diagonal"]);
+    const data = await exportToFont(characters, config, options);
+    const view = new DataView(data.buffer);
+    const checksum = (bytes: Uint8Array) => {
+      const padded = new Uint8Array((bytes.length + 3) & ~3);
+      padded.set(bytes);
+      const words = new DataView(padded.buffer);
+      let sum = 0;
+      for (let i = 0; i < padded.length; i += 4) sum = (sum + words.getUint32(i)) >>> 0;
+      return sum;
+    };
+
+    for (let i = 0; i < view.getUint16(4); i++) {
+      const entry = 12 + i * 16;
+      const offset = view.getUint32(entry + 8);
+      const table = data.slice(offset, offset + view.getUint32(entry + 12));
+      const tag = String.fromCharCode(...data.subarray(entry, entry + 4));
+      if (tag === "head") table.fill(0, 8, 12);
+      expect(checksum(table)).toBe(view.getUint32(entry + 4));
+    }
+    expect(checksum(data)).toBe(0xb1b0afba);
+  });
+
+  it("maps characters with the set's Unicode mapping", async () => {
+    const characters = createMockCharacters(3, 8, 8, ["filled"]);
+    const font = await parseFont(await exportToFont(characters, config, options, [0x2588, null, 0x2588]));
+
+    expect(font.glyphs.length).toBe(2);
+    expect(font.charToGlyph("\u2588").name).toBe("uni2588");
+  });
+
+  it("wraps the font tables in a WOFF container", async () => {
+    // The head table holds the creation time, so keep it the same for both builds
+    const getTime = jest.spyOn(Date.prototype, "getTime").mockReturnValue(0);
+    const characters = createMockCharacters(0x80, 8, 8, ["checkerboard"]);
+    const sfnt = await exportToFont(characters, config, options);
+    const woff = await exportToFont(characters, config, { ...options, outputFormat: "woff" });
+    getTime.mockRestore();
+    const sfntView = new DataView(sfnt.buffer);
+    const woffView = new DataView(woff.buffer);
+
+    expect(woffView.getUint32(0)).toBe(0x774f4646);
+    expect(woffView.getUint32(4)).toBe(sfntView.getUint32(0));
+    expect(woffView.getUint32(8)).toBe(woff.length);
+    expect(woffView.getUint16(12)).toBe(sfntView.getUint16(4));
+
+    // Every table decompresses to the original data
+    for (let i = 0; i < woffView.getUint16(12); i++) {
+      const entry = 44 + i * 20;
+      const offset = woffView.getUint32(entry + 4);
+      const compLength = woffView.getUint32(entry + 8);
+      const origLength = woffView.getUint32(entry + 12);
+      const data = woff.subarray(offset, offset + compLength);
+      const table = compLength < origLength ? unzlibSync(data) : data;
+      const sfntOffset = sfntView.getUint32(12 + i * 16 + 8);
+
+      expect(woffView.getUint32(entry)).toBe(sfntView.getUint32(12 + i * 16));
+      expect(Array.from(table)).toEqual(Array.from(sfnt.subarray(sfntOffset, sfntOffset + origLength)));
+    }
+  });
+
+  it("rejects an empty em box", async () => {
+    await expect(exportToFont([], config, { ...options, ascent: 0, descent: 0 })).rejects.toThrow(
+      "ascent and descent"
+    );
+  });
+});
+
+describe("getAtlasLayout", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  const characters = createMockCharacters(0x42, 8, 8, ["filled"]);
+
+  it("places glyphs in rows with spacing between them", () => {
+    const layout = getAtlasLayout(characters, config, { ...getDefaultAtlasOptions("Test"), useUnicodeIds: false });
+
+    expect(layout.glyphs).toHaveLength(0x42);
+    expect(layout.glyphs[1]).toMatchObject({ id: 1, index: 1, x: 9, y: 0, width: 8, height: 8, xadvance: 8 });
+    expect(layout.glyphs[16]).toMatchObject({ x: 0, y: 9 });
+    expect(layout.width).toBe(16 * 9 - 1);
+    expect(layout.height).toBe(5 * 9 - 1);
+    expect(layout.lineHeight).toBe(8);
+    expect(layout.base).toBe(7);
+  });
+
+  it("includes padding in the glyph rectangles and scales glyphs", () => {
+    const options = { ...getDefaultAtlasOptions("Test"), useUnicodeIds: false, scale: 2, padding: 1, spacing: 0 };
+    const layout = getAtlasLayout(characters.slice(0, 2), config, options);
+
+    expect(layout.glyphs[1]).toMatchObject({ x: 18, width: 18, height: 18, xoffset: -1, yoffset: -1, xadvance: 16 });
+    expect(layout.width).toBe(36);
+    expect(layout.height).toBe(18);
+  });
+
+  it("uses code points as IDs and leaves out control codes and repeats", () => {
+    const ascii = getAtlasLayout(characters, config, getDefaultAtlasOptions("Test"));
+    expect(ascii.glyphs[0]).toMatchObject({ id: 0x20, index: 0x20 });
+    expect(ascii.glyphs).toHaveLength(0x42 - 0x20);
+
+    const mapped = getAtlasLayout(characters.slice(0, 3), config, getDefaultAtlasOptions("Test"), [0x2588, null, 0x2588]);
+    expect(mapped.glyphs.map((glyph) => glyph.id)).toEqual([0x2588]);
+  });
+});
+
+describe("exportToAtlasDescriptor", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  const characters = createMockCharacters(0x42, 8, 8, ["filled"]);
+  const options = getDefaultAtlasOptions("My Font");
+  const layout = getAtlasLayout(characters, config, options);
+
+  it("names the files after the font", () => {
+    expect(getAtlasFileNames(options)).toEqual({ image: "my-font.png", descriptor: "my-font.fnt" });
+    expect(getAtlasFileNames({ ...options, descriptorFormat: "json" }).descriptor).toBe("my-font.json");
+  });
+
+  it("writes BMFont text", () => {
+    const content = exportToAtlasDescriptor(layout, options);
+
+    expect(content).toContain('info face="My Font" size=8 bold=0 italic=0 charset="" unicode=1');
+    expect(content).toContain("padding=0,0,0,0 spacing=1,1");
+    expect(content).toContain("common lineHeight=8 base=7 scaleW=143 scaleH=26 pages=1 packed=0");
+    expect(content).toContain('page id=0 file="my-font.png"');
+    expect(content).toContain("chars count=34");
+    expect(content).toContain(
+      "char id=65 x=9 y=18 width=8 height=8 xoffset=0 yoffset=0 xadvance=8 page=0 chnl=15"
+    );
+  });
+
+  it("writes BMFont XML", () => {
+    const content = exportToAtlasDescriptor(layout, { ...options, fontName: "A & B", descriptorFormat: "fnt-xml" });
+
+    expect(content.startsWith('<?xml version="1.0"?>\n<font>\n')).toBe(true);
+    expect(content).toContain('<info face="A &amp; B" size="8"');
+    expect(content).toContain('<page id="0" file="a-b.png"/>');
+    expect(content).toContain('<chars count="34">');
+    expect(content).toContain('<char id="65" x="9" y="18" width="8" height="8"');
+  });
+
+  it("writes JSON", () => {
+    const data = JSON.parse(exportToAtlasDescriptor(layout, { ...options, descriptorFormat: "json" }));
+
+    expect(data.pages).toEqual(["my-font.png"]);
+    expect(data.common).toMatchObject({ lineHeight: 8, base: 7, scaleW: 143, scaleH: 26 });
+    expect(data.chars).toHaveLength(34);
+    expect(data.chars[0]).toMatchObject({ id: 32, x: 0, y: 0, xadvance: 8 });
+  });
+});
+
 describe("exportToCHeader", () => {
   let characters: Character[];
   let config: CharacterSetConfig;
@@ -168,6 +510,24 @@ describe("exportToCHeader", () => {
     expect(output).toContain(" */");
   });
 
+  it("exports column-major characters one column per byte", () => {
+    const lcdConfig = createMockConfig({ width: 5, height: 8, byteLayout: "column" });
+    const output = exportToCHeader([createMockCharacter(5, 8, "filled")], lcdConfig, defaultOptions);
+
+    expect(output).toContain(" * Byte layout: column-major (one column per byte group)");
+    expect(output).toContain("const unsigned char TESTCHARSET[5] = {");
+  });
+
+  it("exports multicolor characters at 2 bits per pixel", () => {
+    const mcConfig = createMockConfig({ width: 4, height: 8, bitsPerPixel: 2 });
+    const mcCharacters = [createMockCharacter(4, 8, "filled")];
+    const output = exportToCHeader(mcCharacters, mcConfig, defaultOptions);
+
+    expect(output).toContain(" * Bits per pixel: 2 (multicolor)");
+    expect(output).toContain("const unsigned char TESTCHARSET[8] = {");
+    expect(output).toContain("0xFF");
+  });
+
   it("excludes comments when disabled", () => {
     const options: CHeaderOptions = {
       ...defaultOptions,
@@ -412,6 +772,112 @@ describe("exportToAssembly", () => {
   });
 });
 
+describe("getDefaultMemoryInitOptions", () => {
+  it("derives an HDL identifier from the name", () => {
+    expect(getDefaultMemoryInitOptions("C64 Upper/Lower").moduleName).toBe("c64_upper_lower_rom");
+    expect(getDefaultMemoryInitOptions("8-bit").moduleName).toBe("rom_8_bit_rom");
+    expect(getDefaultMemoryInitOptions("").moduleName).toBe("char_rom");
+  });
+
+  it("gets the extension of each code output format", () => {
+    expect(getCodeExtension("c-header")).toBe(".h");
+    expect(getCodeExtension("mif")).toBe(".mif");
+    expect(getCodeExtension("vhdl")).toBe(".vhd");
+  });
+});
+
+describe("FPGA memory initialization export", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  // 3 characters = 24 bytes, padded to 32
+  const characters = createMockCharacters(3, 8, 8, ["filled", "empty", "checkerboard"]);
+  const options = { ...getDefaultMemoryInitOptions("Test"), includeComments: false };
+
+  describe("getMemoryWords", () => {
+    it("pads the depth to a power of two", () => {
+      const memory = getMemoryWords(characters, config, options);
+
+      expect(memory.words).toHaveLength(24);
+      expect(memory.depth).toBe(32);
+      expect(memory.addressBits).toBe(5);
+      expect(memory.wordsPerCharacter).toBe(8);
+      expect(getMemoryWords(characters, config, { ...options, padToPowerOfTwo: false }).depth).toBe(24);
+    });
+
+    it("packs bytes into wider words, first byte most significant", () => {
+      const memory = getMemoryWords(characters, config, { ...options, dataWidth: 32 });
+
+      expect(memory.words).toHaveLength(6);
+      expect(memory.words[0]).toBe(0xffffffff);
+      expect(memory.words[2]).toBe(0);
+      expect(memory.wordsPerCharacter).toBe(2);
+    });
+
+    it("fills a partial last word with zeros", () => {
+      const odd = createMockCharacters(1, 8, 7, ["filled"]);
+      const memory = getMemoryWords(odd, createMockConfig({ width: 8, height: 7 }), { ...options, dataWidth: 16 });
+
+      expect(memory.words).toEqual([0xffff, 0xffff, 0xffff, 0xff00]);
+      expect(memory.wordsPerCharacter).toBeNull();
+    });
+  });
+
+  it("writes .mem files for $readmemh and $readmemb", () => {
+    const hex = exportToMem(characters, config, options).split("\n");
+    expect(hex).toHaveLength(33);
+    expect(hex[0]).toBe("FF");
+    expect(hex[8]).toBe("00");
+    expect(hex[31]).toBe("00");
+
+    const binary = exportToMem(characters, config, { ...options, memRadix: "binary", includeComments: true });
+    expect(binary).toContain("// Load with $readmemb");
+    expect(binary).toContain("11111111  // Char 0\n");
+    expect(binary).toContain("00000000  // Char 1\n");
+  });
+
+  it("writes Intel .mif files with the padding as a range", () => {
+    const content = exportToMif(characters, config, { ...options, dataWidth: 16 });
+
+    expect(content).toContain("WIDTH=16;\nDEPTH=16;");
+    expect(content).toContain("ADDRESS_RADIX=HEX;\nDATA_RADIX=HEX;");
+    expect(content).toContain("CONTENT BEGIN\n\t0 : FFFF;\n");
+    expect(content).toContain("\t[C..F] : 0000;\nEND;\n");
+  });
+
+  it("writes Xilinx .coe files", () => {
+    const content = exportToCoe(characters, config, options);
+    const lines = content.trim().split("\n");
+
+    expect(lines[0]).toBe("memory_initialization_radix=16;");
+    expect(lines[1]).toBe("memory_initialization_vector=");
+    expect(lines[2]).toBe("FF,");
+    expect(lines).toHaveLength(2 + 32);
+    expect(lines[33]).toBe("00;");
+  });
+
+  it("writes a Verilog ROM module", () => {
+    const content = exportToVerilogRom(characters, config, { ...options, includeComments: true });
+
+    expect(content).toContain("module test_rom (");
+    expect(content).toContain("input  wire [4:0] addr,");
+    expect(content).toContain("output reg  [7:0] data");
+    expect(content).toContain("5'h00: data <= 8'hFF;  // Char 0");
+    expect(content).toContain("5'h17: data <= 8'h");
+    expect(content).toContain("default: data <= 8'h00;");
+    expect(content).toContain("endmodule");
+  });
+
+  it("writes a VHDL ROM entity", () => {
+    const content = exportToVhdlRom(characters, config, options);
+
+    expect(content).toContain("entity test_rom is");
+    expect(content).toContain("addr : in  std_logic_vector(4 downto 0);");
+    expect(content).toContain("type rom_t is array (0 to 31) of std_logic_vector(7 downto 0);");
+    expect(content).toContain('        x"FF",\n');
+    expect(content).toContain("        others => (others => '0')\n    );");
+    expect(content).toContain("end architecture rtl;");
+  });
+});
+
 describe("getHexPreview", () => {
   let config: CharacterSetConfig;
 
@@ -0,0 +1,144 @@
+/**
+ * Character ROM Editor - Multicolor Character Tests
+ *
+ * Tests for 2 bits per pixel helpers:
+ * - Bit depth detection
+ * - Reading and writing color indices
+ * - Bit plane splitting and recombination
+ * - Palette construction
+ */
+
+import {
+  getBitsPerPixel,
+  isMulticolorConfig,
+  getPixelColor,
+  getColorIndices,
+  createMulticolorCharacter,
+  setPixelColor,
+  splitColorPlanes,
+  combineColorPlanes,
+  applyToColorPlanes,
+  getMulticolorPalette,
+  DEFAULT_MULTICOLOR_COLORS,
+} from "@/lib/character-editor/multicolor";
+import { flipHorizontal } from "@/lib/character-editor/transforms";
+import { createMockConfig } from "./testUtils";
+
+const sample = createMulticolorCharacter([
+  [0, 1, 2, 3],
+  [3, 2, 1, 0],
+]);
+
+// ============================================================================
+// Bit Depth Tests
+// ============================================================================
+
+describe("getBitsPerPixel", () => {
+  it("defaults to 1 bit per pixel", () => {
+    expect(getBitsPerPixel(createMockConfig())).toBe(1);
+    expect(isMulticolorConfig(createMockConfig())).toBe(false);
+  });
+
+  it("detects multicolor configurations", () => {
+    const config = createMockConfig({ bitsPerPixel: 2 });
+    expect(getBitsPerPixel(config)).toBe(2);
+    expect(isMulticolorConfig(config)).toBe(true);
+  });
+});
+
+// ============================================================================
+// Color Index Tests
+// ============================================================================
+
+describe("getPixelColor", () => {
+  it("reads color indices from the color plane", () => {
+    expect(getPixelColor(sample, 0, 2)).toBe(2);
+    expect(getPixelColor(sample, 1, 3)).toBe(0);
+  });
+
+  it("treats monochrome on pixels as the highest color", () => {
+    const mono = { pixels: [[true, false]] };
+    expect(getColorIndices(mono)).toEqual([[3, 0]]);
+  });
+});
+
+describe("createMulticolorCharacter", () => {
+  it("derives on pixels from non-zero colors", () => {
+    expect(sample.pixels).toEqual([
+      [false, true, true, true],
+      [true, true, true, false],
+    ]);
+  });
+});
+
+describe("setPixelColor", () => {
+  it("sets a single color index", () => {
+    const result = setPixelColor(sample, 0, 0, 2);
+    expect(result.colors?.[0]).toEqual([2, 1, 2, 3]);
+    expect(result.pixels[0][0]).toBe(true);
+  });
+
+  it("clamps out-of-range colors", () => {
+    expect(setPixelColor(sample, 0, 0, 9).colors?.[0][0]).toBe(3);
+    expect(setPixelColor(sample, 0, 1, -1).colors?.[0][1]).toBe(0);
+  });
+
+  it("adds a color plane to monochrome characters", () => {
+    const result = setPixelColor({ pixels: [[true, false]] }, 0, 1, 1);
+    expect(result.colors).toEqual([[3, 1]]);
+  });
+
+  it("does not mutate the input", () => {
+    setPixelColor(sample, 0, 0, 3);
+    expect(sample.colors?.[0][0]).toBe(0);
+  });
+});
+
+// ============================================================================
+// Bit Plane Tests
+// ============================================================================
+
+describe("splitColorPlanes / combineColorPlanes", () => {
+  it("splits colors into low and high bit planes", () => {
+    const [low, high] = splitColorPlanes(sample);
+    expect(low.pixels[0]).toEqual([false, true, false, true]);
+    expect(high.pixels[0]).toEqual([false, false, true, true]);
+  });
+
+  it("recombines bit planes into the original colors", () => {
+    const [low, high] = splitColorPlanes(sample);
+    expect(combineColorPlanes(low, high)).toEqual(sample);
+  });
+
+  it("applies a transform to both planes", () => {
+    const result = applyToColorPlanes(sample, flipHorizontal);
+    expect(result.colors).toEqual([
+      [3, 2, 1, 0],
+      [0, 1, 2, 3],
+    ]);
+  });
+});
+
+// ============================================================================
+// Palette Tests
+// ============================================================================
+
+describe("getMulticolorPalette", () => {
+  it("places background and foreground at indices 0 and 3", () => {
+    expect(getMulticolorPalette("#fff", "#000")).toEqual([
+      "#000",
+      DEFAULT_MULTICOLOR_COLORS[0],
+      DEFAULT_MULTICOLOR_COLORS[1],
+      "#fff",
+    ]);
+  });
+
+  it("accepts custom colors for indices 1 and 2", () => {
+    expect(getMulticolorPalette("#fff", "#000", ["#f00", "#0f0"])).toEqual([
+      "#000",
+      "#f00",
+      "#0f0",
+      "#fff",
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Character ROM Editor - Onion Skin Tests
+ *
+ * Tests for the onion skin settings:
+ * - Parsing and formatting index offsets
+ * - Resolving ghosted character indices
+ */
+
+import {
+  ONION_SKIN_PRESETS,
+  formatOnionSkinOffsets,
+  getOnionSkinIndices,
+  parseOnionSkinOffsets,
+} from "@/lib/character-editor/onionSkin";
+
+describe("parseOnionSkinOffsets", () => {
+  it("parses signed offsets separated by commas or spaces", () => {
+    expect(parseOnionSkinOffsets("-1, +1")).toEqual([-1, 1]);
+    expect(parseOnionSkinOffsets("128 -128;2")).toEqual([128, -128, 2]);
+  });
+
+  it("skips invalid entries, zero and duplicates", () => {
+    expect(parseOnionSkinOffsets("a, 0, 1.5, 1, +1, ")).toEqual([1]);
+    expect(parseOnionSkinOffsets("")).toEqual([]);
+  });
+
+  it("round-trips formatted offsets", () => {
+    for (const preset of ONION_SKIN_PRESETS) {
+      expect(parseOnionSkinOffsets(formatOnionSkinOffsets(preset.offsets))).toEqual(preset.offsets);
+    }
+    expect(formatOnionSkinOffsets([-1, 1])).toBe("-1, +1");
+  });
+});
+
+describe("getOnionSkinIndices", () => {
+  it("resolves offsets relative to the edited character", () => {
+    expect(getOnionSkinIndices(10, [-1, 1], 256)).toEqual([9, 11]);
+    expect(getOnionSkinIndices(10, [128], 256)).toEqual([138]);
+  });
+
+  it("drops indices outside the set", () => {
+    expect(getOnionSkinIndices(0, [-1, 1], 256)).toEqual([1]);
+    expect(getOnionSkinIndices(200, [-128, 128], 256)).toEqual([72]);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Character ROM Editor - Pixel Selection Tests
+ *
+ * Tests for rectangular selections inside a character:
+ * - Copying, clearing and pasting regions with clipping
+ * - Moving, flipping and rotating floating selections
+ * - Multicolor pixels
+ */
+
+import {
+  clearRegion,
+  copyRegion,
+  getFloatingRect,
+  getSelectionRect,
+  isPointInRect,
+  liftSelection,
+  pasteRegion,
+  placeFloatingSelection,
+  transformFloatingSelection,
+} from "@/lib/character-editor/pixelSelection";
+import { createMulticolorCharacter, getColorIndices } from "@/lib/character-editor/multicolor";
+import { Character } from "@/lib/character-editor/types";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function fromRows(rows: string[]): Character {
+  return { pixels: rows.map((row) => row.split("").map((c) => c === "#")) };
+}
+
+function toRows(character: Character): string[] {
+  return character.pixels.map((row) => row.map((p) => (p ? "#" : ".")).join(""));
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("getSelectionRect", () => {
+  it("normalizes corners dragged in any direction", () => {
+    expect(getSelectionRect({ row: 3, col: 4 }, { row: 1, col: 2 })).toEqual({ row: 1, col: 2, width: 3, height: 3 });
+    expect(getSelectionRect({ row: 2, col: 2 }, { row: 2, col: 2 })).toEqual({ row: 2, col: 2, width: 1, height: 1 });
+  });
+
+  it("checks whether pixels are inside", () => {
+    const rect = { row: 1, col: 1, width: 2, height: 2 };
+    expect(isPointInRect({ row: 1, col: 1 }, rect)).toBe(true);
+    expect(isPointInRect({ row: 2, col: 2 }, rect)).toBe(true);
+    expect(isPointInRect({ row: 3, col: 2 }, rect)).toBe(false);
+    expect(isPointInRect({ row: 0, col: 1 }, rect)).toBe(false);
+  });
+});
+
+describe("copyRegion and clearRegion", () => {
+  const character = fromRows(["#...", ".##.", ".##.", "...#"]);
+
+  it("copies the pixels inside the rectangle", () => {
+    expect(toRows(copyRegion(character, { row: 1, col: 1, width: 2, height: 3 }))).toEqual(["##", "##", ".."]);
+  });
+
+  it("drops the part of the rectangle outside the character", () => {
+    expect(toRows(copyRegion(character, { row: 2, col: 2, width: 5, height: 5 }))).toEqual(["#.", ".#"]);
+  });
+
+  it("clears only the pixels inside the rectangle", () => {
+    expect(toRows(clearRegion(character, { row: 0, col: 0, width: 2, height: 2 }))).toEqual([
+      "....",
+      "..#.",
+      ".##.",
+      "...#",
+    ]);
+  });
+});
+
+describe("pasteRegion", () => {
+  it("replaces the covered pixels", () => {
+    const result = pasteRegion(fromRows(["####", "####"]), fromRows(["#.", ".#"]), 0, 1);
+    expect(toRows(result)).toEqual(["##.#", "#.##"]);
+  });
+
+  it("clips pixels that fall outside the character", () => {
+    const result = pasteRegion(fromRows(["...", "..."]), fromRows(["###", "###", "###"]), 1, -1);
+    expect(toRows(result)).toEqual(["...", "##."]);
+  });
+
+  it("pastes across characters of different sizes", () => {
+    const tall = fromRows(["#", "#", "#", "#"]);
+    const result = pasteRegion(fromRows(["..", ".."]), tall, 0, 1);
+    expect(toRows(result)).toEqual([".#", ".#"]);
+  });
+
+  it("keeps colors in multicolor characters", () => {
+    const target = createMulticolorCharacter([
+      [0, 0],
+      [0, 0],
+    ]);
+    const clip = createMulticolorCharacter([[1, 2]]);
+    expect(getColorIndices(pasteRegion(target, clip, 1, 0))).toEqual([
+      [0, 0],
+      [1, 2],
+    ]);
+    expect(toRows(pasteRegion(fromRows(["..", ".."]), clip, 0, 0))).toEqual(["##", ".."]);
+  });
+});
+
+describe("floating selections", () => {
+  const character = fromRows(["##..", "#...", "....", "...."]);
+  const rect = { row: 0, col: 0, width: 2, height: 2 };
+
+  it("moves lifted pixels and clears their source", () => {
+    const floating = { ...liftSelection(character, rect), row: 2, col: 2 };
+    expect(toRows(placeFloatingSelection(character, floating))).toEqual(["....", "....", "..##", "..#."]);
+  });
+
+  it("places the selection back unchanged when it wasn't moved", () => {
+    expect(placeFloatingSelection(character, liftSelection(character, rect))).toEqual(character);
+  });
+
+  it("flips and rotates just the selection", () => {
+    const flipped = transformFloatingSelection(liftSelection(character, rect), "flip-horizontal");
+    expect(toRows(flipped.clip)).toEqual(["##", ".#"]);
+    expect(toRows(placeFloatingSelection(character, flipped))).toEqual(["##..", ".#..", "....", "...."]);
+  });
+
+  it("swaps width and height when rotating", () => {
+    const bar = fromRows(["###.", "....", "....", "...."]);
+    const rotated = transformFloatingSelection(
+      liftSelection(bar, { row: 0, col: 0, width: 3, height: 1 }),
+      "rotate-right"
+    );
+    expect(getFloatingRect(rotated)).toEqual({ row: 0, col: 0, width: 1, height: 3 });
+    expect(toRows(placeFloatingSelection(bar, rotated))).toEqual(["#...", "#...", "#...", "...."]);
+  });
+
+  it("takes the pixels of each character it is placed into", () => {
+    const floating = { ...liftSelection(character, rect), row: 2, col: 0 };
+    const other = fromRows(["#...", "....", "....", "...."]);
+    expect(toRows(placeFloatingSelection(other, floating))).toEqual(["....", "....", "#...", "...."]);
+  });
+
+  it("pastes clipboard pixels without clearing a source", () => {
+    const floating = { clip: fromRows(["#"]), source: null, transforms: [], row: 3, col: 3 };
+    expect(toRows(placeFloatingSelection(character, floating))).toEqual(["##..", "#...", "....", "...#"]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Character ROM Editor - ROM Layout Tests
+ *
+ * Tests for stride, skip and split ROM layout helpers:
+ * - Slot layout resolution
+ * - Character counts and ROM sizes
+ * - Reading and writing character bytes
+ * - Extracting regions of larger ROM dumps
+ * - Byte offset parsing
+ */
+
+import {
+  hasRomLayout,
+  getPackedConfig,
+  getRomSlotLayout,
+  getRomCharacterCount,
+  getRomSize,
+  readCharacterBytes,
+  writeCharacterBytes,
+  extractRomRegion,
+  parseByteOffset,
+} from "@/lib/character-editor/romLayout";
+import { createMockConfig } from "@/lib/character-editor/__tests__/testUtils";
+
+// IBM MDA: 8x14 glyphs, rows 0-7 in the first 2K, rows 8-13 in the second
+const mdaConfig = createMockConfig({
+  width: 8,
+  height: 14,
+  romLayout: { stride: 8, splitRow: 8, splitOffset: 0x800 },
+});
+
+// ============================================================================
+// Layout Resolution Tests
+// ============================================================================
+
+describe("hasRomLayout", () => {
+  it("is false for packed configurations", () => {
+    expect(hasRomLayout(createMockConfig())).toBe(false);
+    expect(hasRomLayout(createMockConfig({ romLayout: {} }))).toBe(false);
+    expect(hasRomLayout(createMockConfig({ romLayout: { stride: 8 } }))).toBe(false);
+  });
+
+  it("is true for stride, skip or split layouts", () => {
+    expect(hasRomLayout(createMockConfig({ romLayout: { stride: 16 } }))).toBe(true);
+    expect(hasRomLayout(createMockConfig({ romLayout: { skip: 2 } }))).toBe(true);
+    expect(hasRomLayout(mdaConfig)).toBe(true);
+  });
+});
+
+describe("getPackedConfig", () => {
+  it("removes the ROM layout without mutating the input", () => {
+    const packed = getPackedConfig(mdaConfig);
+
+    expect(packed.romLayout).toBeUndefined();
+    expect(packed.height).toBe(14);
+    expect(mdaConfig.romLayout).toBeDefined();
+  });
+});
+
+describe("getRomSlotLayout", () => {
+  it("defaults to tightly packed characters", () => {
+    expect(getRomSlotLayout(createMockConfig({ width: 8, height: 14 }))).toEqual({
+      skip: 0,
+      stride: 14,
+      firstBytes: 14,
+      secondBytes: 0,
+      splitOffset: 0,
+    });
+  });
+
+  it("resolves split layouts", () => {
+    expect(getRomSlotLayout(mdaConfig)).toEqual({
+      skip: 0,
+      stride: 8,
+      firstBytes: 8,
+      secondBytes: 6,
+      splitOffset: 0x800,
+    });
+  });
+
+  it("splits column-major characters by column", () => {
+    const config = createMockConfig({
+      width: 8,
+      height: 16,
+      byteLayout: "column",
+      romLayout: { splitRow: 4, splitOffset: 0x100 },
+    });
+    const slot = getRomSlotLayout(config);
+
+    expect(slot.firstBytes).toBe(8);
+    expect(slot.secondBytes).toBe(8);
+  });
+
+  it("ignores split rows outside the character", () => {
+    const config = createMockConfig({ height: 8, romLayout: { splitRow: 8, splitOffset: 0x800 } });
+
+    expect(getRomSlotLayout(config).secondBytes).toBe(0);
+    expect(getRomSlotLayout(config).splitOffset).toBe(0);
+  });
+
+  it("never uses a stride smaller than the character", () => {
+    const config = createMockConfig({ height: 8, romLayout: { stride: 4 } });
+
+    expect(getRomSlotLayout(config).stride).toBe(8);
+  });
+});
+
+// ============================================================================
+// Count and Size Tests
+// ============================================================================
+
+describe("getRomCharacterCount", () => {
+  it("counts packed characters", () => {
+    expect(getRomCharacterCount(2048, createMockConfig())).toBe(256);
+  });
+
+  it("counts characters in padded slots", () => {
+    const config = createMockConfig({ width: 8, height: 14, romLayout: { stride: 16 } });
+
+    // The last slot does not need its padding bytes
+    expect(getRomCharacterCount(4096, config)).toBe(256);
+    expect(getRomCharacterCount(4094, config)).toBe(256);
+    expect(getRomCharacterCount(4093, config)).toBe(255);
+  });
+
+  it("subtracts the skipped bytes", () => {
+    const config = createMockConfig({ romLayout: { skip: 16 } });
+
+    expect(getRomCharacterCount(2048, config)).toBe(254);
+    expect(getRomCharacterCount(8, config)).toBe(0);
+  });
+
+  it("counts split ROMs", () => {
+    expect(getRomCharacterCount(0x2000, mdaConfig)).toBe(256);
+    expect(getRomCharacterCount(0x1000, mdaConfig)).toBe(256);
+    expect(getRomCharacterCount(0x800, mdaConfig)).toBe(0);
+  });
+});
+
+describe("getRomSize", () => {
+  it("returns packed sizes", () => {
+    expect(getRomSize(256, createMockConfig())).toBe(2048);
+    expect(getRomSize(0, createMockConfig())).toBe(0);
+  });
+
+  it("includes the skip and full slots", () => {
+    const config = createMockConfig({ width: 8, height: 14, romLayout: { stride: 16, skip: 4 } });
+
+    expect(getRomSize(256, config)).toBe(4 + 4096);
+  });
+
+  it("includes the split region", () => {
+    expect(getRomSize(256, mdaConfig)).toBe(0x1000);
+  });
+});
+
+// ============================================================================
+// Read / Write Tests
+// ============================================================================
+
+describe("readCharacterBytes and writeCharacterBytes", () => {
+  it("round-trips split characters", () => {
+    const rom = new Uint8Array(0x1000);
+    const bytes = Uint8Array.from({ length: 14 }, (_, i) => i + 1);
+
+    writeCharacterBytes(rom, 3, bytes, mdaConfig);
+
+    expect(rom[24]).toBe(1);
+    expect(rom[31]).toBe(8);
+    expect(rom[0x800 + 24]).toBe(9);
+    expect(rom[0x800 + 29]).toBe(14);
+    expect(Array.from(readCharacterBytes(rom, 3, mdaConfig))).toEqual(Array.from(bytes));
+  });
+
+  it("zero-fills bytes beyond the end of the data", () => {
+    const config = createMockConfig({ height: 4 });
+
+    expect(Array.from(readCharacterBytes(new Uint8Array([1, 2]), 0, config))).toEqual([1, 2, 0, 0]);
+  });
+});
+
+// ============================================================================
+// extractRomRegion Tests
+// ============================================================================
+
+describe("extractRomRegion", () => {
+  const data = Uint8Array.from({ length: 16 }, (_, i) => i);
+
+  it("extracts a region by offset and length", () => {
+    expect(Array.from(extractRomRegion(data, 4, 3))).toEqual([4, 5, 6]);
+  });
+
+  it("extends to the end without a length", () => {
+    expect(Array.from(extractRomRegion(data, 13))).toEqual([13, 14, 15]);
+  });
+
+  it("clamps the region to the data", () => {
+    expect(Array.from(extractRomRegion(data, 14, 10))).toEqual([14, 15]);
+    expect(extractRomRegion(data, 20)).toHaveLength(0);
+    expect(extractRomRegion(data, -4, 2)).toEqual(Uint8Array.from([0, 1]));
+  });
+
+  it("returns a copy of the data", () => {
+    const region = extractRomRegion(data, 0, 2);
+    region[0] = 99;
+
+    expect(data[0]).toBe(0);
+  });
+});
+
+// ============================================================================
+// parseByteOffset Tests
+// ============================================================================
+
+describe("parseByteOffset", () => {
+  it("parses decimal and hex notations", () => {
+    expect(parseByteOffset("2048")).toBe(2048);
+    expect(parseByteOffset("0x800")).toBe(0x800);
+    expect(parseByteOffset("$800")).toBe(0x800);
+    expect(parseByteOffset("800h")).toBe(0x800);
+    expect(parseByteOffset(" 0X1F ")).toBe(0x1f);
+  });
+
+  it("returns null for invalid input", () => {
+    expect(parseByteOffset("")).toBeNull();
+    expect(parseByteOffset("abc")).toBeNull();
+    expect(parseByteOffset("0x")).toBeNull();
+    expect(parseByteOffset("-5")).toBeNull();
+    expect(parseByteOffset("1.5")).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Character ROM Editor - System ROM Patch Tests
+ *
+ * Tests for writing character sets into larger ROM dumps:
+ * - Finding a font by its glyphs
+ * - Patching with packed and strided ROM layouts
+ * - Byte-level diffs
+ */
+
+import { diffRoms, findCharacterSetInRom, patchRom } from "@/lib/character-editor/romPatch";
+import { parseCharacterRom } from "@/lib/character-editor/import/binary";
+import { createMockConfig } from "@/lib/character-editor/__tests__/testUtils";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const config = createMockConfig({ width: 8, height: 2 });
+
+// Four 2-byte characters: a blank one and three distinctive ones
+const font = new Uint8Array([0x00, 0x00, 0x18, 0x24, 0x3c, 0x42, 0x7e, 0x81]);
+
+/**
+ * Create a ROM dump with the font at the given offset, surrounded by other code
+ */
+function createRom(offset: number, size: number = 32): Uint8Array {
+  const rom = new Uint8Array(size).map((_, i) => (i * 37 + 11) & 0xff);
+  rom.set(font, offset);
+  return rom;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("findCharacterSetInRom", () => {
+  it("finds an unchanged font", () => {
+    const characters = parseCharacterRom(font, config);
+    expect(findCharacterSetInRom(createRom(12), characters, config)).toEqual({ offset: 12, matchedCharacters: 3 });
+  });
+
+  it("finds a font when some characters were edited", () => {
+    const characters = parseCharacterRom(font, config);
+    characters[1] = parseCharacterRom(new Uint8Array([0xff, 0x01]), config)[0];
+
+    expect(findCharacterSetInRom(createRom(6), characters, config)).toEqual({ offset: 6, matchedCharacters: 2 });
+  });
+
+  it("accounts for the ROM layout stride", () => {
+    const strided = createMockConfig({ width: 8, height: 2, romLayout: { stride: 4 } });
+    const rom = new Uint8Array(24);
+    font.forEach((byte, i) => {
+      rom[4 + Math.floor(i / 2) * 4 + (i % 2)] = byte;
+    });
+
+    const characters = parseCharacterRom(font, config);
+    expect(findCharacterSetInRom(rom, characters, strided)?.offset).toBe(4);
+  });
+
+  it("returns null when the font is not in the ROM", () => {
+    const characters = parseCharacterRom(font, config);
+    expect(findCharacterSetInRom(new Uint8Array(32).fill(0x55), characters, config)).toBeNull();
+    expect(findCharacterSetInRom(new Uint8Array(4), characters, config)).toBeNull();
+  });
+});
+
+describe("patchRom", () => {
+  it("writes characters at the offset without changing the input", () => {
+    const rom = createRom(4);
+    const characters = parseCharacterRom(new Uint8Array([1, 2, 3, 4]), config);
+    const patched = patchRom(rom, characters, config, 4);
+
+    expect(Array.from(patched.subarray(4, 8))).toEqual([1, 2, 3, 4]);
+    expect(Array.from(patched.subarray(8))).toEqual(Array.from(rom.subarray(8)));
+    expect(rom[4]).toBe(0x00);
+  });
+
+  it("keeps the gaps of strided layouts", () => {
+    const strided = createMockConfig({ width: 8, height: 2, romLayout: { stride: 4 } });
+    const rom = new Uint8Array(8).fill(0xee);
+    const characters = parseCharacterRom(new Uint8Array([1, 2, 3, 4]), config);
+
+    expect(Array.from(patchRom(rom, characters, strided, 0))).toEqual([1, 2, 0xee, 0xee, 3, 4, 0xee, 0xee]);
+  });
+
+  it("rejects offsets where the set doesn't fit", () => {
+    const characters = parseCharacterRom(font, config);
+    expect(() => patchRom(new Uint8Array(10), characters, config, 4)).toThrow("does not fit");
+  });
+});
+
+describe("diffRoms", () => {
+  it("lists rows with changed bytes", () => {
+    const before = new Uint8Array(40);
+    const after = before.slice();
+    after[3] = 1;
+    after[33] = 2;
+    after[34] = 3;
+
+    const diff = diffRoms(before, after);
+    expect(diff.changedBytes).toBe(3);
+    expect(diff.rows.map((row) => row.offset)).toEqual([0, 32]);
+    expect(diff.rows[1].before).toHaveLength(8);
+    expect(diff.rows[1].after.slice(0, 3)).toEqual([0, 2, 3]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Character ROM Editor - Symmetry Tests
+ *
+ * Tests for mirror drawing:
+ * - Axes through pixels and between pixels
+ * - Horizontal, vertical and four-way mirror images
+ * - Finding pixels that break the symmetry
+ */
+
+import {
+  applySymmetry,
+  getAsymmetricPixels,
+  getCenterAxis,
+  getMirroredPoints,
+  getSymmetryAxes,
+  parseSymmetryAxis,
+} from "@/lib/character-editor/symmetry";
+import { createMulticolorCharacter } from "@/lib/character-editor/multicolor";
+import { Character } from "@/lib/character-editor/types";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function fromRows(rows: string[]): Character {
+  return { pixels: rows.map((row) => row.split("").map((c) => c === "#")) };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("getSymmetryAxes", () => {
+  it("defaults to the centre, between pixels for even sizes", () => {
+    expect(getCenterAxis(8)).toBe(3.5);
+    expect(getCenterAxis(7)).toBe(3);
+    expect(getSymmetryAxes({ mode: "four-way" }, 8, 7)).toEqual({ col: 3.5, row: 3 });
+  });
+
+  it("uses configured axes", () => {
+    expect(getSymmetryAxes({ mode: "four-way", axisCol: 2, axisRow: 1.5 }, 8, 8)).toEqual({ col: 2, row: 1.5 });
+  });
+});
+
+describe("parseSymmetryAxis", () => {
+  it("rounds to the nearest half pixel", () => {
+    expect(parseSymmetryAxis("3", 8)).toBe(3);
+    expect(parseSymmetryAxis("3.3", 8)).toBe(3.5);
+    expect(parseSymmetryAxis("3.2", 8)).toBe(3);
+  });
+
+  it("clamps to the character", () => {
+    expect(parseSymmetryAxis("-2", 8)).toBe(0);
+    expect(parseSymmetryAxis("12", 8)).toBe(7);
+  });
+
+  it("ignores empty and non-numeric input", () => {
+    expect(parseSymmetryAxis("", 8)).toBeNull();
+    expect(parseSymmetryAxis("  ", 8)).toBeNull();
+    expect(parseSymmetryAxis("abc", 8)).toBeNull();
+  });
+});
+
+describe("getMirroredPoints", () => {
+  it("mirrors left/right across an axis between pixels", () => {
+    expect(getMirroredPoints({ row: 2, col: 0 }, { mode: "horizontal" }, 8, 8)).toEqual([
+      { row: 2, col: 0 },
+      { row: 2, col: 7 },
+    ]);
+  });
+
+  it("mirrors top/bottom across an axis through a pixel row", () => {
+    expect(getMirroredPoints({ row: 1, col: 4 }, { mode: "vertical" }, 8, 7)).toEqual([
+      { row: 1, col: 4 },
+      { row: 5, col: 4 },
+    ]);
+  });
+
+  it("does not duplicate pixels on the axis", () => {
+    expect(getMirroredPoints({ row: 0, col: 3 }, { mode: "horizontal" }, 7, 8)).toEqual([{ row: 0, col: 3 }]);
+  });
+
+  it("returns four points in four-way mode", () => {
+    expect(getMirroredPoints({ row: 0, col: 0 }, { mode: "four-way" }, 4, 4)).toHaveLength(4);
+  });
+
+  it("drops mirror images outside the character", () => {
+    expect(getMirroredPoints({ row: 0, col: 0 }, { mode: "horizontal", axisCol: 6 }, 8, 8)).toEqual([
+      { row: 0, col: 0 },
+    ]);
+  });
+});
+
+describe("applySymmetry", () => {
+  it("returns the points unchanged without symmetry", () => {
+    const points = [{ row: 0, col: 0 }];
+    expect(applySymmetry(points, { mode: "none" }, 8, 8)).toBe(points);
+  });
+
+  it("adds mirror images without duplicates", () => {
+    const points = [
+      { row: 0, col: 0 },
+      { row: 0, col: 3 },
+    ];
+    expect(applySymmetry(points, { mode: "horizontal" }, 4, 4)).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 3 },
+    ]);
+  });
+});
+
+describe("getAsymmetricPixels", () => {
+  it("finds nothing in symmetric characters", () => {
+    const character = fromRows(["#..#", ".##.", ".##.", "#..#"]);
+    expect(getAsymmetricPixels(character, { mode: "four-way" })).toEqual([]);
+  });
+
+  it("reports both pixels of a broken pair", () => {
+    const character = fromRows(["#...", "...."]);
+    expect(getAsymmetricPixels(character, { mode: "horizontal" })).toEqual([
+      { row: 0, col: 0 },
+      { row: 0, col: 3 },
+    ]);
+    expect(getAsymmetricPixels(character, { mode: "none" })).toEqual([]);
+  });
+
+  it("reports set pixels whose mirror image is outside the character", () => {
+    const character = fromRows(["...#"]);
+    expect(getAsymmetricPixels(character, { mode: "horizontal", axisCol: 1 })).toEqual([{ row: 0, col: 3 }]);
+  });
+
+  it("compares multicolor pixels by color", () => {
+    const character = createMulticolorCharacter([[1, 2]]);
+    expect(getAsymmetricPixels(character, { mode: "horizontal" })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Character ROM Editor - Tile Tests
+ *
+ * Tests for editing blocks of characters as one tile:
+ * - Tile cell indices with and without a custom stride
+ * - Combining characters into a tile and writing it back
+ * - Cells past the end of the set and multicolor sets
+ */
+
+import {
+  combineTile,
+  createTileLayout,
+  getTileConfig,
+  getTileIndices,
+  writeTile,
+} from "@/lib/character-editor/tiles";
+import { createMockCharacters, createMockConfig } from "@/lib/character-editor/__tests__/testUtils";
+import { createMulticolorCharacter, getColorIndices } from "@/lib/character-editor/multicolor";
+import { Character } from "@/lib/character-editor/types";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function fromRows(rows: string[]): Character {
+  return { pixels: rows.map((row) => row.split("").map((c) => c === "#")) };
+}
+
+function toRows(character: Character): string[] {
+  return character.pixels.map((row) => row.map((p) => (p ? "#" : ".")).join(""));
+}
+
+const config = createMockConfig({ width: 2, height: 2 });
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("getTileIndices", () => {
+  it("uses consecutive indices for each tile row by default", () => {
+    expect(getTileIndices(createTileLayout(64, 2, 2))).toEqual([64, 65, 66, 67]);
+    expect(getTileIndices(createTileLayout(0, 3, 2))).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("steps rows by the stride", () => {
+    expect(getTileIndices({ start: 10, columns: 2, rows: 2, stride: 16 })).toEqual([10, 11, 26, 27]);
+  });
+});
+
+describe("getTileConfig", () => {
+  it("multiplies the character size by the tile size", () => {
+    const tileConfig = getTileConfig(createMockConfig(), createTileLayout(0, 3, 2));
+    expect(tileConfig.width).toBe(24);
+    expect(tileConfig.height).toBe(16);
+  });
+});
+
+describe("combineTile", () => {
+  const characters = [fromRows(["#.", ".."]), fromRows([".#", ".."]), fromRows(["..", "#."]), fromRows(["..", ".#"])];
+
+  it("places every character in its cell", () => {
+    expect(toRows(combineTile(characters, config, createTileLayout(0, 2, 2)))).toEqual(["#..#", "....", "....", "#..#"]);
+  });
+
+  it("leaves cells past the end of the set empty", () => {
+    expect(toRows(combineTile(characters, config, createTileLayout(3, 2, 1)))).toEqual(["....", ".#.."]);
+  });
+});
+
+describe("writeTile", () => {
+  it("splits a tile back into its characters", () => {
+    const characters = createMockCharacters(6, 2, 2);
+    const tile = fromRows(["####", "#..#"]);
+    const result = writeTile(characters, config, createTileLayout(2, 2, 1), tile);
+
+    expect(toRows(result[2])).toEqual(["##", "#."]);
+    expect(toRows(result[3])).toEqual(["##", ".#"]);
+    expect(result[0]).toBe(characters[0]);
+    expect(result[4]).toBe(characters[4]);
+  });
+
+  it("round-trips with combineTile", () => {
+    const characters = createMockCharacters(9, 2, 2, ["checkerboard", "filled", "diagonal", "empty"]);
+    const layout = { start: 1, columns: 2, rows: 2, stride: 4 };
+    expect(writeTile(characters, config, layout, combineTile(characters, config, layout))).toEqual(characters);
+  });
+
+  it("ignores cells past the end of the set", () => {
+    const characters = createMockCharacters(1, 2, 2);
+    const result = writeTile(characters, config, createTileLayout(0, 2, 1), fromRows(["####", "####"]));
+    expect(result).toHaveLength(1);
+    expect(toRows(result[0])).toEqual(["##", "##"]);
+  });
+
+  it("keeps colors in multicolor sets", () => {
+    const multicolorConfig = createMockConfig({ width: 2, height: 1, bitsPerPixel: 2 });
+    const characters = [createMulticolorCharacter([[1, 2]]), createMulticolorCharacter([[3, 0]])];
+    const layout = createTileLayout(0, 2, 1);
+    const tile = combineTile(characters, multicolorConfig, layout);
+
+    expect(getColorIndices(tile)).toEqual([[1, 2, 3, 0]]);
+    expect(getColorIndices(writeTile(characters, multicolorConfig, layout, tile)[1])).toEqual([[3, 0]]);
+  });
+});
@@ -1577,3 +1577,71 @@ describe("combined operations", () => {
     expect(charactersEqual(result, input)).toBe(true);
   });
 });
+
+// ============================================================================
+// Multicolor Tests
+// ============================================================================
+
+describe("multicolor characters", () => {
+  const multicolor: Character = {
+    pixels: [
+      [true, true, false],
+      [false, false, true],
+    ],
+    colors: [
+      [1, 2, 0],
+      [0, 0, 3],
+    ],
+  };
+
+  it("keeps colors when rotating", () => {
+    const result = rotateCharacter(
+      { pixels: [[true, true], [false, false]], colors: [[1, 2], [0, 0]] },
+      "right"
+    );
+    expect(result.colors).toEqual([
+      [0, 1],
+      [0, 2],
+    ]);
+  });
+
+  it("keeps colors when shifting with wrap", () => {
+    const result = shiftCharacter(multicolor, "right", true);
+    expect(result.colors).toEqual([
+      [0, 1, 2],
+      [3, 0, 0],
+    ]);
+  });
+
+  it("keeps colors when flipping vertically", () => {
+    const result = flipVertical(multicolor);
+    expect(result.colors).toEqual([
+      [0, 0, 3],
+      [1, 2, 0],
+    ]);
+  });
+
+  it("toggles between the draw color and color 0", () => {
+    const painted = togglePixel(multicolor, 0, 2, 2);
+    expect(painted.colors?.[0]).toEqual([1, 2, 2]);
+
+    const erased = togglePixel(painted, 0, 2, 2);
+    expect(erased.colors?.[0]).toEqual([1, 2, 0]);
+  });
+
+  it("replaces a different color when toggling", () => {
+    const result = togglePixel(multicolor, 0, 0, 3);
+    expect(result.colors?.[0][0]).toBe(3);
+  });
+
+  it("sets pixels with a color", () => {
+    expect(setPixel(multicolor, 1, 0, true, 1).colors?.[1]).toEqual([1, 0, 3]);
+    expect(setPixel(multicolor, 0, 1, false).colors?.[0]).toEqual([1, 0, 0]);
+  });
+
+  it("leaves monochrome characters without a color plane", () => {
+    const mono = createMockCharacter(4, 4, "checkerboard");
+    expect(flipHorizontal(mono).colors).toBeUndefined();
+    expect(togglePixel(mono, 0, 0).colors).toBeUndefined();
+  });
+});
@@ -188,6 +188,41 @@ describe("bytesPerCharacter", () => {
     });
   });
 
+  describe("bit depth and byte layout", () => {
+    it("returns 2 bytes per line for 8 pixel wide multicolor characters", () => {
+      const config: CharacterSetConfig = {
+        width: 8,
+        height: 8,
+        padding: "right",
+        bitDirection: "msb",
+        bitsPerPixel: 2,
+      };
+      expect(bytesPerCharacter(config)).toBe(16);
+    });
+
+    it("returns one byte per column for 5x8 column-major characters", () => {
+      const config: CharacterSetConfig = {
+        width: 5,
+        height: 8,
+        padding: "right",
+        bitDirection: "lsb",
+        byteLayout: "column",
+      };
+      expect(bytesPerCharacter(config)).toBe(5);
+    });
+
+    it("returns two bytes per column for 8x16 column-major characters", () => {
+      const config: CharacterSetConfig = {
+        width: 8,
+        height: 16,
+        padding: "right",
+        bitDirection: "msb",
+        byteLayout: "column",
+      };
+      expect(bytesPerCharacter(config)).toBe(16);
+    });
+  });
+
   describe("edge cases", () => {
     it("returns 1 byte for 1x1 character", () => {
       const config: CharacterSetConfig = {
@@ -223,6 +223,44 @@ describe("validateConfig", () => {
     expect(errors).toContain("Bit direction must be 'msb' or 'lsb'");
   });
 
+  it("returns error for invalid byteLayout", () => {
+    const config = {
+      width: 8,
+      height: 8,
+      padding: "right" as const,
+      bitDirection: "msb" as const,
+      byteLayout: "diagonal" as "row" | "column",
+    };
+    const errors = validateConfig(config);
+    expect(errors).toContain("Byte layout must be 'row' or 'column'");
+  });
+
+  it("accepts a valid ROM layout", () => {
+    const config: CharacterSetConfig = {
+      width: 8,
+      height: 14,
+      padding: "right",
+      bitDirection: "msb",
+      romLayout: { stride: 8, skip: 0, splitRow: 8, splitOffset: 0x800 },
+    };
+    expect(validateConfig(config)).toEqual([]);
+  });
+
+  it("returns errors for an invalid ROM layout", () => {
+    const config: CharacterSetConfig = {
+      width: 8,
+      height: 14,
+      padding: "right",
+      bitDirection: "msb",
+      romLayout: { stride: 0, skip: -1, splitRow: 14, splitOffset: 0 },
+    };
+    const errors = validateConfig(config);
+    expect(errors).toContain("Stride must be a positive number of bytes");
+    expect(errors).toContain("Skip must be zero or a positive number of bytes");
+    expect(errors).toContain("Split row must be between 1 and 13");
+    expect(errors).toContain("Split offset must be a positive number of bytes");
+  });
+
   it("returns multiple errors for multiple invalid fields", () => {
     const config = {
       width: 0,
@@ -381,6 +419,18 @@ describe("calculateCharacterCount", () => {
     };
     expect(calculateCharacterCount(0, config)).toBe(0);
   });
+
+  it("honors the ROM layout stride and skip", () => {
+    const config: CharacterSetConfig = {
+      width: 8,
+      height: 14,
+      padding: "right",
+      bitDirection: "msb",
+      romLayout: { stride: 16, skip: 16 },
+    };
+    // 14-byte glyphs in 16-byte slots after one skipped slot
+    expect(calculateCharacterCount(4096, config)).toBe(255);
+  });
 });
 
 describe("debounce", () => {
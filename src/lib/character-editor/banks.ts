@@ -0,0 +1,196 @@
+/**
+ * Character ROM Editor - Character Banks
+ *
+ * Helpers for character sets that contain multiple banks:
+ * - Normalizing bank layouts against the character count
+ * - Resolving character indices to banks and ranges
+ * - Keeping bank sizes in sync when characters are inserted or deleted
+ * - Splitting a set into evenly sized banks
+ */
+
+import { CharacterBank } from "./types";
+
+/**
+ * Range of character indices covered by a bank
+ */
+export interface BankRange {
+  /** Index of the bank */
+  bankIndex: number;
+  /** First character index (inclusive) */
+  start: number;
+  /** Last character index (exclusive) */
+  end: number;
+}
+
+/**
+ * Default name for a bank at the given position
+ */
+export function getDefaultBankName(bankIndex: number): string {
+  return `Bank ${bankIndex + 1}`;
+}
+
+/**
+ * Create the single default bank covering all characters
+ */
+export function createDefaultBanks(characterCount: number): CharacterBank[] {
+  return [{ name: getDefaultBankName(0), characterCount }];
+}
+
+/**
+ * Normalize a bank layout so that it exactly covers the given character count
+ *
+ * - Missing or empty layouts become a single bank
+ * - Negative or fractional counts are clamped
+ * - Any difference to the character count is reconciled on the last bank
+ */
+export function normalizeBanks(
+  banks: CharacterBank[] | undefined,
+  characterCount: number
+): CharacterBank[] {
+  if (!banks || banks.length === 0) {
+    return createDefaultBanks(characterCount);
+  }
+
+  const normalized: CharacterBank[] = [];
+  let remaining = characterCount;
+
+  banks.forEach((bank, index) => {
+    const isLast = index === banks.length - 1;
+    const requested = Math.max(0, Math.floor(bank.characterCount || 0));
+    const count = isLast ? remaining : Math.min(requested, remaining);
+    normalized.push({
+      name: bank.name || getDefaultBankName(index),
+      characterCount: count,
+    });
+    remaining -= count;
+  });
+
+  return normalized;
+}
+
+/**
+ * Check whether a layout has more than one bank
+ */
+export function hasMultipleBanks(banks: CharacterBank[] | undefined): boolean {
+  return !!banks && banks.length > 1;
+}
+
+/**
+ * Get the character index ranges of all banks
+ */
+export function getBankRanges(banks: CharacterBank[]): BankRange[] {
+  const ranges: BankRange[] = [];
+  let start = 0;
+
+  banks.forEach((bank, bankIndex) => {
+    const end = start + bank.characterCount;
+    ranges.push({ bankIndex, start, end });
+    start = end;
+  });
+
+  return ranges;
+}
+
+/**
+ * Get the character index range of a single bank
+ * Returns null if the bank does not exist
+ */
+export function getBankRange(
+  banks: CharacterBank[],
+  bankIndex: number
+): BankRange | null {
+  return getBankRanges(banks)[bankIndex] ?? null;
+}
+
+/**
+ * Find the bank that contains a character index
+ * Indices past the end belong to the last bank
+ */
+export function getBankIndexForCharacter(
+  banks: CharacterBank[],
+  characterIndex: number
+): number {
+  const ranges = getBankRanges(banks);
+  for (const range of ranges) {
+    if (characterIndex >= range.start && characterIndex < range.end) {
+      return range.bankIndex;
+    }
+  }
+  return Math.max(0, ranges.length - 1);
+}
+
+/**
+ * Update bank sizes after characters were inserted
+ *
+ * Characters inserted at a bank boundary belong to the bank before it,
+ * so appending to the end of a bank grows that bank.
+ *
+ * @param banks - Bank layout before the insertion
+ * @param index - Character index the characters were inserted at
+ * @param count - Number of inserted characters
+ */
+export function adjustBanksForInsert(
+  banks: CharacterBank[] | undefined,
+  index: number,
+  count: number
+): CharacterBank[] | undefined {
+  if (!banks || banks.length === 0 || count <= 0) return banks;
+
+  const ranges = getBankRanges(banks);
+  let target = ranges.length - 1;
+  for (const range of ranges) {
+    if (index >= range.start && index <= range.end) {
+      target = range.bankIndex;
+      break;
+    }
+  }
+
+  return banks.map((bank, i) =>
+    i === target
+      ? { ...bank, characterCount: bank.characterCount + count }
+      : bank
+  );
+}
+
+/**
+ * Update bank sizes after characters were deleted
+ * Banks keep existing even when all of their characters are removed.
+ *
+ * @param banks - Bank layout before the deletion
+ * @param indices - Character indices that were deleted
+ */
+export function adjustBanksForDelete(
+  banks: CharacterBank[] | undefined,
+  indices: number[]
+): CharacterBank[] | undefined {
+  if (!banks || banks.length === 0 || indices.length === 0) return banks;
+
+  const removed = new Array<number>(banks.length).fill(0);
+  const unique = new Set(indices);
+  unique.forEach((index) => {
+    removed[getBankIndexForCharacter(banks, index)]++;
+  });
+
+  return banks.map((bank, i) => ({
+    ...bank,
+    characterCount: Math.max(0, bank.characterCount - removed[i]),
+  }));
+}
+
+/**
+ * Split a character count into evenly sized banks
+ * The last bank receives any remainder.
+ */
+export function splitBanksEvenly(
+  characterCount: number,
+  bankCount: number
+): CharacterBank[] {
+  const count = Math.max(1, Math.floor(bankCount));
+  const size = Math.floor(characterCount / count);
+
+  return Array.from({ length: count }, (_, i) => ({
+    name: getDefaultBankName(i),
+    characterCount:
+      i === count - 1 ? characterCount - size * (count - 1) : size,
+  }));
+}
@@ -0,0 +1,437 @@
+/**
+ * Character ROM Editor - Code Export Templates
+ *
+ * Template-based source code export:
+ * - A small Mustache-style renderer ({{value}}, {{#section}}, {{^inverted}})
+ * - Built-in templates for common languages and toolchains
+ * - Persistence of user-defined templates in localStorage
+ *
+ * Section tags on a line of their own do not leave an empty line behind,
+ * so templates can be written one statement per line.
+ */
+
+import { Character, CharacterSetConfig, bytesPerCharacter, bytesPerLine, generateId } from "./types";
+import { characterToBytes } from "./import/binary";
+import { getIndexCodePoint, isPrintableCodePoint } from "./data/codePages";
+import { CHARACTER_EDITOR_STORAGE_KEY_CODE_TEMPLATES } from "./storage/keys";
+
+/**
+ * How bytes are written in a template
+ */
+export type TemplateByteFormat = "hex-0x" | "hex-dollar" | "decimal" | "binary-0b" | "binary-percent";
+
+/**
+ * Byte format metadata
+ */
+export const TEMPLATE_BYTE_FORMATS: { id: TemplateByteFormat; name: string }[] = [
+  { id: "hex-0x", name: "Hex (0xFF)" },
+  { id: "hex-dollar", name: "Hex ($FF)" },
+  { id: "decimal", name: "Decimal (255)" },
+  { id: "binary-0b", name: "Binary (0b11111111)" },
+  { id: "binary-percent", name: "Binary (%11111111)" },
+];
+
+/**
+ * A code export template
+ */
+export interface CodeTemplate {
+  id: string;
+  name: string;
+  /** File extension of the output, including the dot */
+  extension: string;
+  byteFormat: TemplateByteFormat;
+  /** Text written between bytes */
+  byteSeparator: string;
+  /** Template text with {{placeholders}} */
+  body: string;
+  /** Whether the template ships with the editor (built-in templates cannot be changed) */
+  builtIn?: boolean;
+}
+
+/**
+ * Options for rendering a template
+ */
+export interface CodeTemplateOptions {
+  /** Identifier written for {{name}} */
+  name: string;
+  /** Whether {{#comments}} sections are written */
+  includeComments: boolean;
+}
+
+/**
+ * Placeholders available in templates, for the editor help
+ */
+export const TEMPLATE_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: "name", description: "Identifier (NAME for upper case)" },
+  { name: "width", description: "Character width in pixels" },
+  { name: "height", description: "Character height in pixels" },
+  { name: "count", description: "Number of characters" },
+  { name: "bytesPerCharacter", description: "Bytes per character" },
+  { name: "totalBytes", description: "Total number of bytes" },
+  { name: "bitsPerPixel", description: "Bits per pixel" },
+  { name: "bytes", description: "All bytes, or the bytes of the current character or row" },
+  { name: "#comments", description: "Section written when comments are enabled" },
+  { name: "#characters", description: "Loop over characters: index, indexHex, label, bytes, rows" },
+  { name: "#rows", description: "Loop over the rows of a character: row, bytes" },
+  { name: "#first / #last", description: "Sections for the first or last item of a loop" },
+];
+
+/**
+ * Built-in templates
+ */
+export const BUILT_IN_CODE_TEMPLATES: CodeTemplate[] = [
+  {
+    id: "arduino-progmem",
+    name: "Arduino PROGMEM",
+    extension: ".h",
+    byteFormat: "hex-0x",
+    byteSeparator: ", ",
+    builtIn: true,
+    body: `{{#comments}}
+// {{name}} - {{count}} characters, {{width}}x{{height}}
+{{/comments}}
+#include <avr/pgmspace.h>
+
+const uint8_t {{name}}[{{totalBytes}}] PROGMEM = {
+{{#characters}}
+  {{bytes}}{{^last}},{{/last}}{{#comments}} // {{index}}{{/comments}}
+{{/characters}}
+};
+`,
+  },
+  {
+    id: "sdcc-code",
+    name: "SDCC __code",
+    extension: ".h",
+    byteFormat: "hex-0x",
+    byteSeparator: ", ",
+    builtIn: true,
+    body: `{{#comments}}
+/* {{name}} - {{count}} characters, {{width}}x{{height}} */
+{{/comments}}
+__code const unsigned char {{name}}[{{totalBytes}}] = {
+{{#characters}}
+  {{bytes}}{{^last}},{{/last}}{{#comments}} /* {{index}} */{{/comments}}
+{{/characters}}
+};
+`,
+  },
+  {
+    id: "ca65",
+    name: "cc65 / ca65",
+    extension: ".s",
+    byteFormat: "hex-dollar",
+    byteSeparator: ", ",
+    builtIn: true,
+    body: `{{#comments}}
+; {{name}} - {{count}} characters, {{width}}x{{height}}
+{{/comments}}
+.export _{{name}}
+.segment "RODATA"
+_{{name}}:
+{{#characters}}
+  .byte {{bytes}}{{#comments}} ; \${{indexHex}}{{/comments}}
+{{/characters}}
+`,
+  },
+  {
+    id: "rust",
+    name: "Rust const",
+    extension: ".rs",
+    byteFormat: "hex-0x",
+    byteSeparator: ", ",
+    builtIn: true,
+    body: `{{#comments}}
+/// {{name}} - {{count}} characters, {{width}}x{{height}}
+{{/comments}}
+pub const {{NAME}}: [[u8; {{bytesPerCharacter}}]; {{count}}] = [
+{{#characters}}
+    [{{bytes}}],{{#comments}} // {{index}}{{/comments}}
+{{/characters}}
+];
+`,
+  },
+  {
+    id: "python",
+    name: "Python list",
+    extension: ".py",
+    byteFormat: "hex-0x",
+    byteSeparator: ", ",
+    builtIn: true,
+    body: `{{#comments}}
+# {{name}} - {{count}} characters, {{width}}x{{height}}
+{{/comments}}
+{{NAME}} = [
+{{#characters}}
+    [{{bytes}}],{{#comments}}  # {{index}}{{/comments}}
+{{/characters}}
+]
+`,
+  },
+  {
+    id: "javascript",
+    name: "JavaScript Uint8Array",
+    extension: ".js",
+    byteFormat: "hex-0x",
+    byteSeparator: ", ",
+    builtIn: true,
+    body: `{{#comments}}
+// {{name}} - {{count}} characters, {{width}}x{{height}}
+{{/comments}}
+export const {{name}} = new Uint8Array([
+{{#characters}}
+  {{bytes}},{{#comments}} // {{index}}{{/comments}}
+{{/characters}}
+]);
+`,
+  },
+];
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+type TemplateValue = string | number | boolean | TemplateContext[];
+interface TemplateContext {
+  [key: string]: TemplateValue;
+}
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "value"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+/**
+ * Parse a template into a tree of text, values and sections
+ */
+function parseTemplate(body: string): TemplateNode[] {
+  // Section tags alone on a line take the line with them
+  const text = body.replace(/^[ \t]*(\{\{\s*[#^/]\s*[A-Za-z_]\w*\s*\}\})[ \t]*\r?\n/gm, "$1");
+
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [{ name: "", children: root }];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const current = stack[stack.length - 1];
+    if (match.index > lastIndex) {
+      current.children.push({ type: "text", text: text.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    const [, kind, name] = match;
+    if (kind === "#" || kind === "^") {
+      const section: TemplateNode = { type: "section", name, inverted: kind === "^", children: [] };
+      current.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (kind === "/") {
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected {{/${name}}}`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: "value", name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed section {{#${stack[stack.length - 1].name}}}`);
+  }
+  if (lastIndex < text.length) {
+    root.push({ type: "text", text: text.slice(lastIndex) });
+  }
+  return root;
+}
+
+/**
+ * Look up a placeholder, innermost context first
+ */
+function lookup(contexts: TemplateContext[], name: string): TemplateValue {
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    if (name in contexts[i]) return contexts[i][name];
+  }
+  throw new Error(`Unknown placeholder {{${name}}}`);
+}
+
+/**
+ * Render parsed nodes against a stack of contexts
+ */
+function renderNodes(nodes: TemplateNode[], contexts: TemplateContext[]): string {
+  let output = "";
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.text;
+    } else if (node.type === "value") {
+      const value = lookup(contexts, node.name);
+      if (Array.isArray(value)) {
+        throw new Error(`{{${node.name}}} is a list, use {{#${node.name}}}...{{/${node.name}}}`);
+      }
+      output += typeof value === "boolean" ? "" : String(value);
+    } else {
+      const value = lookup(contexts, node.name);
+      const empty = Array.isArray(value) ? value.length === 0 : !value;
+      if (node.inverted) {
+        if (empty) output += renderNodes(node.children, contexts);
+      } else if (Array.isArray(value)) {
+        for (const item of value) {
+          output += renderNodes(node.children, [...contexts, item]);
+        }
+      } else if (!empty) {
+        output += renderNodes(node.children, contexts);
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Format a byte in a template byte format
+ */
+export function formatTemplateByte(value: number, format: TemplateByteFormat): string {
+  switch (format) {
+    case "hex-0x":
+      return `0x${value.toString(16).padStart(2, "0").toUpperCase()}`;
+    case "hex-dollar":
+      return `$${value.toString(16).padStart(2, "0").toUpperCase()}`;
+    case "decimal":
+      return value.toString();
+    case "binary-0b":
+      return `0b${value.toString(2).padStart(8, "0")}`;
+    case "binary-percent":
+      return `%${value.toString(2).padStart(8, "0")}`;
+  }
+}
+
+/**
+ * Render a code template for a character set
+ * Bytes are the same as the binary export for the configuration.
+ *
+ * @throws Error if the template has unbalanced sections or unknown placeholders
+ */
+export function renderCodeTemplate(
+  template: CodeTemplate,
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: CodeTemplateOptions,
+  unicodeMap?: (number | null)[]
+): string {
+  const formatBytes = (bytes: ArrayLike<number>) =>
+    Array.from(bytes, (value) => formatTemplateByte(value, template.byteFormat)).join(template.byteSeparator);
+  const lineLength = config.byteLayout === "column" ? config.height : config.width;
+  const rowSize = bytesPerLine(lineLength, config.bitsPerPixel);
+  const charSize = bytesPerCharacter(config);
+
+  const allBytes: number[] = [];
+  const characterContexts: TemplateContext[] = characters.map((character, index) => {
+    const bytes = characterToBytes(character, config);
+    allBytes.push(...bytes);
+
+    const rows: TemplateContext[] = [];
+    for (let offset = 0; offset < bytes.length; offset += rowSize) {
+      rows.push({
+        row: rows.length,
+        bytes: formatBytes(bytes.subarray(offset, offset + rowSize)),
+        first: offset === 0,
+        last: offset + rowSize >= bytes.length,
+      });
+    }
+
+    const codePoint = getIndexCodePoint(index, unicodeMap);
+    return {
+      index,
+      indexHex: index.toString(16).toUpperCase().padStart(2, "0"),
+      label: codePoint !== null && isPrintableCodePoint(codePoint) ? String.fromCodePoint(codePoint) : "",
+      bytes: formatBytes(bytes),
+      rows,
+      first: index === 0,
+      last: index === characters.length - 1,
+    };
+  });
+
+  const root: TemplateContext = {
+    name: options.name,
+    NAME: options.name.toUpperCase(),
+    width: config.width,
+    height: config.height,
+    count: characters.length,
+    bytesPerCharacter: charSize,
+    totalBytes: characters.length * charSize,
+    bitsPerPixel: config.bitsPerPixel ?? 1,
+    bytes: formatBytes(allBytes),
+    comments: options.includeComments,
+    characters: characterContexts,
+    first: true,
+    last: true,
+  };
+
+  return renderNodes(parseTemplate(template.body), [root]);
+}
+
+// ============================================================================
+// User Templates
+// ============================================================================
+
+/**
+ * Create an empty user template, optionally copied from another template
+ */
+export function createCodeTemplate(source?: CodeTemplate): CodeTemplate {
+  return {
+    id: generateId(),
+    name: source ? `${source.name} (copy)` : "New Template",
+    extension: source?.extension ?? ".txt",
+    byteFormat: source?.byteFormat ?? "hex-0x",
+    byteSeparator: source?.byteSeparator ?? ", ",
+    body: source?.body ?? "{{#characters}}\n{{bytes}}\n{{/characters}}\n",
+  };
+}
+
+/**
+ * Check that a stored entry has all template fields
+ */
+function isStoredCodeTemplate(item: unknown): item is CodeTemplate {
+  if (typeof item !== "object" || item === null) return false;
+  const template = item as Record<string, unknown>;
+  return (
+    typeof template.id === "string" &&
+    typeof template.name === "string" &&
+    typeof template.extension === "string" &&
+    TEMPLATE_BYTE_FORMATS.some((format) => format.id === template.byteFormat) &&
+    typeof template.byteSeparator === "string" &&
+    typeof template.body === "string"
+  );
+}
+
+/**
+ * Get the user-defined templates from localStorage
+ * Entries with missing or invalid fields are dropped.
+ */
+export function getUserCodeTemplates(): CodeTemplate[] {
+  try {
+    const saved = localStorage.getItem(CHARACTER_EDITOR_STORAGE_KEY_CODE_TEMPLATES);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed.filter(isStoredCodeTemplate).map((template) => ({ ...template, builtIn: false }));
+      }
+    }
+  } catch {
+    // Ignore errors
+  }
+  return [];
+}
+
+/**
+ * Save the user-defined templates to localStorage
+ */
+export function saveUserCodeTemplates(templates: CodeTemplate[]): void {
+  try {
+    localStorage.setItem(
+      CHARACTER_EDITOR_STORAGE_KEY_CODE_TEMPLATES,
+      JSON.stringify(templates.map((template) => ({ ...template, builtIn: undefined })))
+    );
+  } catch {
+    // Ignore storage errors
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Character ROM Editor - Code Page Tables
+ *
+ * Maps character indices of retro character sets to Unicode code points.
+ * Used to pick the right glyphs when building a set from a Unicode font,
+ * and kept with the set as its Unicode mapping. Sets without a mapping
+ * are treated as ASCII (index == code point for indices 0-127).
+ *
+ * Indices without a Unicode equivalent (for example reverse-video
+ * characters) map to null.
+ */
+
+/**
+ * A built-in code page table
+ */
+export interface CodePage {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Short description of the character order */
+  description: string;
+  /** Unicode code point for each character index (null = no equivalent) */
+  codePoints: (number | null)[];
+}
+
+/**
+ * Code points for a run of consecutive characters
+ */
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+}
+
+/**
+ * IBM PC code page 437, including the graphic characters shown for control codes
+ */
+const CP437: (number | null)[] = [
+  null, 0x263a, 0x263b, 0x2665, 0x2666, 0x2663, 0x2660, 0x2022, 0x25d8, 0x25cb, 0x25d9, 0x2642, 0x2640, 0x266a, 0x266b, 0x263c,
+  0x25ba, 0x25c4, 0x2195, 0x203c, 0x00b6, 0x00a7, 0x25ac, 0x21a8, 0x2191, 0x2193, 0x2192, 0x2190, 0x221f, 0x2194, 0x25b2, 0x25bc,
+  ...range(0x20, 0x7e),
+  0x2302,
+  0x00c7, 0x00fc, 0x00e9, 0x00e2, 0x00e4, 0x00e0, 0x00e5, 0x00e7, 0x00ea, 0x00eb, 0x00e8, 0x00ef, 0x00ee, 0x00ec, 0x00c4, 0x00c5,
+  0x00c9, 0x00e6, 0x00c6, 0x00f4, 0x00f6, 0x00f2, 0x00fb, 0x00f9, 0x00ff, 0x00d6, 0x00dc, 0x00a2, 0x00a3, 0x00a5, 0x20a7, 0x0192,
+  0x00e1, 0x00ed, 0x00f3, 0x00fa, 0x00f1, 0x00d1, 0x00aa, 0x00ba, 0x00bf, 0x2310, 0x00ac, 0x00bd, 0x00bc, 0x00a1, 0x00ab, 0x00bb,
+  0x2591, 0x2592, 0x2593, 0x2502, 0x2524, 0x2561, 0x2562, 0x2556, 0x2555, 0x2563, 0x2551, 0x2557, 0x255d, 0x255c, 0x255b, 0x2510,
+  0x2514, 0x2534, 0x252c, 0x251c, 0x2500, 0x253c, 0x255e, 0x255f, 0x255a, 0x2554, 0x2569, 0x2566, 0x2560, 0x2550, 0x256c, 0x2567,
+  0x2568, 0x2564, 0x2565, 0x2559, 0x2558, 0x2552, 0x2553, 0x256b, 0x256a, 0x2518, 0x250c, 0x2588, 0x2584, 0x258c, 0x2590, 0x2580,
+  0x03b1, 0x00df, 0x0393, 0x03c0, 0x03a3, 0x03c3, 0x00b5, 0x03c4, 0x03a6, 0x0398, 0x03a9, 0x03b4, 0x221e, 0x03c6, 0x03b5, 0x2229,
+  0x2261, 0x00b1, 0x2265, 0x2264, 0x2320, 0x2321, 0x00f7, 0x2248, 0x00b0, 0x2219, 0x00b7, 0x221a, 0x207f, 0x00b2, 0x25a0, 0x00a0,
+];
+
+/**
+ * Commodore 64 character ROM (uppercase/graphics) in screen code order
+ * Graphics use the Symbols for Legacy Computing block where needed.
+ * The upper 128 characters are reverse video and have no equivalent.
+ */
+const PETSCII: (number | null)[] = [
+  0x40, ...range(0x41, 0x5a), 0x5b, 0x00a3, 0x5d, 0x2191, 0x2190,
+  ...range(0x20, 0x3f),
+  0x2500, 0x2660, 0x1fb72, 0x1fb78, 0x1fb77, 0x1fb76, 0x1fb7a, 0x1fb71, 0x1fb74, 0x256e, 0x2570, 0x256f, 0x1fb7c, 0x2572, 0x2571, 0x1fb7d,
+  0x1fb7e, 0x25cf, 0x1fb7b, 0x2665, 0x1fb70, 0x256d, 0x2573, 0x25cb, 0x2663, 0x1fb75, 0x2666, 0x253c, 0x1fb8c, 0x2502, 0x03c0, 0x25e5,
+  0x00a0, 0x258c, 0x2584, 0x2594, 0x2581, 0x258f, 0x2592, 0x2595, 0x1fb8f, 0x25e4, 0x1fb87, 0x251c, 0x2597, 0x2514, 0x2510, 0x2582,
+  0x250c, 0x2534, 0x252c, 0x2524, 0x258e, 0x258d, 0x1fb88, 0x1fb82, 0x1fb83, 0x2583, 0x1fb7f, 0x2596, 0x259d, 0x2518, 0x2598, 0x259a,
+  ...Array<null>(128).fill(null),
+];
+
+/**
+ * Atari 8-bit character ROM in internal code order
+ * The ROM holds ATASCII 32-95 first, then the graphics at ATASCII 0-31, then 96-127.
+ */
+const ATASCII: (number | null)[] = [
+  ...range(0x20, 0x5f),
+  0x2665, 0x251c, 0x1fb87, 0x2518, 0x2524, 0x2510, 0x2571, 0x2572, 0x25e2, 0x2597, 0x25e3, 0x259d, 0x2598, 0x1fb82, 0x2582, 0x2596,
+  0x2663, 0x250c, 0x2500, 0x253c, 0x25cf, 0x2584, 0x258e, 0x252c, 0x2534, 0x258c, 0x2514, 0x241b, 0x2191, 0x2193, 0x2190, 0x2192,
+  0x2666, ...range(0x61, 0x7a), 0x2660, 0x7c, 0x21b0, 0x25c0, 0x25b6,
+];
+
+/**
+ * ZX Spectrum ROM font: 96 characters starting at space
+ */
+const ZX_SPECTRUM: (number | null)[] = range(0x20, 0x7f).map((code) => {
+  if (code === 0x5e) return 0x2191;
+  if (code === 0x60) return 0x00a3;
+  if (code === 0x7f) return 0x00a9;
+  return code;
+});
+
+/**
+ * Mullard SAA5050 teletext ROM (UK): 96 characters starting at space
+ */
+const TELETEXT_NATIONAL: Record<number, number> = {
+  0x23: 0x00a3, 0x5b: 0x2190, 0x5c: 0x00bd, 0x5d: 0x2192, 0x5e: 0x2191, 0x5f: 0x23,
+  0x60: 0x2015, 0x7b: 0x00bc, 0x7c: 0x2016, 0x7d: 0x00be, 0x7e: 0x00f7, 0x7f: 0x25a0,
+};
+const TELETEXT: (number | null)[] = range(0x20, 0x7f).map((code) => TELETEXT_NATIONAL[code] ?? code);
+
+/**
+ * 7-bit ASCII with control codes unmapped
+ */
+const ASCII: (number | null)[] = range(0, 0x7f).map((code) => (code < 0x20 || code === 0x7f ? null : code));
+
+/**
+ * ISO 8859-1 with control codes unmapped
+ */
+const LATIN1: (number | null)[] = range(0, 0xff).map((code) =>
+  code < 0x20 || (code >= 0x7f && code < 0xa0) ? null : code
+);
+
+/**
+ * Built-in code page tables
+ */
+export const CODE_PAGES: CodePage[] = [
+  {
+    id: "ascii",
+    name: "ASCII",
+    description: "128 characters, control codes unmapped",
+    codePoints: ASCII,
+  },
+  {
+    id: "cp437",
+    name: "IBM PC (CP437)",
+    description: "256 characters, including the graphic control codes",
+    codePoints: CP437,
+  },
+  {
+    id: "petscii",
+    name: "Commodore PETSCII",
+    description: "C64 uppercase/graphics ROM in screen code order",
+    codePoints: PETSCII,
+  },
+  {
+    id: "atascii",
+    name: "Atari ATASCII",
+    description: "Atari 8-bit ROM in internal code order",
+    codePoints: ATASCII,
+  },
+  {
+    id: "zx-spectrum",
+    name: "ZX Spectrum",
+    description: "96 characters from space, with ↑ £ ©",
+    codePoints: ZX_SPECTRUM,
+  },
+  {
+    id: "teletext",
+    name: "Teletext (SAA5050)",
+    description: "96 characters from space, UK national set",
+    codePoints: TELETEXT,
+  },
+  {
+    id: "latin1",
+    name: "ISO 8859-1 (Latin-1)",
+    description: "256 characters, control codes unmapped",
+    codePoints: LATIN1,
+  },
+];
+
+/**
+ * Get a built-in code page by ID
+ * @param id - Code page identifier
+ * @returns Code page or undefined if not found
+ */
+export function getCodePage(id: string): CodePage | undefined {
+  return CODE_PAGES.find((page) => page.id === id);
+}
+
+/**
+ * Format a code point in U+XXXX notation
+ * @param codePoint - Unicode code point
+ * @returns Formatted code point, at least 4 hex digits
+ */
+export function formatCodePoint(codePoint: number): string {
+  return `U+${codePoint.toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+/**
+ * Check if a code point is a printable character (not a C0/C1 control code)
+ * @param codePoint - Unicode code point
+ * @returns true if printable
+ */
+export function isPrintableCodePoint(codePoint: number): boolean {
+  return codePoint >= 0x20 && codePoint !== 0x7f && !(codePoint >= 0x80 && codePoint < 0xa0);
+}
+
+/**
+ * Get the code point of a character index
+ * @param index - Character index
+ * @param unicodeMap - The set's Unicode mapping; without one indices 0-127 are ASCII
+ * @returns Code point, or null if the index is unmapped
+ */
+export function getIndexCodePoint(index: number, unicodeMap?: (number | null)[]): number | null {
+  if (!unicodeMap) return index < 0x80 ? index : null;
+  return unicodeMap[index] ?? null;
+}
+
+/**
+ * Build a lookup from code point to character index
+ * When a code point is mapped more than once, the first index wins.
+ *
+ * @param count - Number of characters in the set
+ * @param unicodeMap - The set's Unicode mapping
+ * @returns Map of code point to character index
+ */
+export function createCodePointLookup(count: number, unicodeMap: (number | null)[]): Map<number, number> {
+  const lookup = new Map<number, number>();
+  for (let index = 0; index < count; index++) {
+    const codePoint = unicodeMap[index] ?? null;
+    if (codePoint !== null && !lookup.has(codePoint)) {
+      lookup.set(codePoint, index);
+    }
+  }
+  return lookup;
+}
+
+/**
+ * Update a Unicode mapping after characters were inserted
+ * The inserted characters are unmapped; sets without a mapping keep none.
+ */
+export function adjustUnicodeMapForInsert(
+  unicodeMap: (number | null)[] | undefined,
+  index: number,
+  count: number
+): (number | null)[] | undefined {
+  // Indices beyond the mapping are unmapped already
+  if (!unicodeMap || count <= 0 || index >= unicodeMap.length) return unicodeMap;
+  return [...unicodeMap.slice(0, index), ...new Array<null>(count).fill(null), ...unicodeMap.slice(index)];
+}
+
+/**
+ * Update a Unicode mapping after characters were deleted
+ */
+export function adjustUnicodeMapForDelete(
+  unicodeMap: (number | null)[] | undefined,
+  indices: number[]
+): (number | null)[] | undefined {
+  if (!unicodeMap || indices.length === 0) return unicodeMap;
+  const removed = new Set(indices);
+  return unicodeMap.filter((_, index) => !removed.has(index));
+}
+
+/**
+ * Reorder a Unicode mapping along with its characters
+ * @param order - Previous index of each character in the new order
+ */
+export function reorderUnicodeMap(
+  unicodeMap: (number | null)[] | undefined,
+  order: number[]
+): (number | null)[] | undefined {
+  if (!unicodeMap) return unicodeMap;
+  return order.map((index) => unicodeMap[index] ?? null);
+}
+
+/**
+ * Find the built-in code page a mapping was created from
+ * Only the indices the mapping covers are compared, so sets with fewer
+ * or more characters than the code page still match.
+ *
+ * @param unicodeMap - The set's Unicode mapping
+ * @returns Matching code page or undefined for custom mappings
+ */
+export function findCodePage(unicodeMap: (number | null)[]): CodePage | undefined {
+  return CODE_PAGES.find((page) =>
+    unicodeMap.every((codePoint, index) => codePoint === (page.codePoints[index] ?? null))
+  );
+}
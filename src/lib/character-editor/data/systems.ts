@@ -158,6 +158,14 @@ export function getChipById(id: string): ChipInfo | undefined {
   return chipById.get(id);
 }
 
+/**
+ * Get chip by part number (e.g., "901225-01", as stored in character set metadata)
+ */
+export function getChipByPartNumber(partNumber: string): ChipInfo | undefined {
+  if (!partNumber) return undefined;
+  return CHIPS.find((chip) => chip.partNumber === partNumber);
+}
+
 /**
  * Get computer manufacturer by ID
  */
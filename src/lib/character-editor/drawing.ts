@@ -0,0 +1,282 @@
+/**
+ * Character ROM Editor - Drawing Tools
+ *
+ * Pixel shapes for the editor's drawing tools:
+ * - Lines (Bresenham)
+ * - Rectangle outlines and filled rectangles
+ * - Ellipses inside a bounding box
+ * - Flood fill regions
+ *
+ * Shapes are returned as pixel coordinates and applied to characters with
+ * setPixels(), so they work the same for monochrome and multicolor sets.
+ */
+
+import { Character } from "./types";
+import {
+  MAX_MULTICOLOR_INDEX,
+  createMulticolorCharacter,
+  getColorIndices,
+  getPixelColor,
+} from "./multicolor";
+
+/**
+ * Drawing tool of the pixel editor
+ */
+export type DrawingTool = "pencil" | "line" | "rectangle" | "filled-rectangle" | "ellipse" | "fill" | "select";
+
+/**
+ * Tools that draw a shape between the drag start and end pixel
+ */
+export type ShapeTool = "line" | "rectangle" | "filled-rectangle" | "ellipse";
+
+/**
+ * Position of a pixel in a character
+ */
+export interface PixelPoint {
+  row: number;
+  col: number;
+}
+
+/**
+ * Drawing tool display info
+ */
+export interface DrawingToolInfo {
+  id: DrawingTool;
+  name: string;
+  /** Undo history label */
+  label: string;
+}
+
+/**
+ * Available drawing tools in toolbar order
+ */
+export const DRAWING_TOOLS: DrawingToolInfo[] = [
+  { id: "pencil", name: "Pencil", label: "Paint pixels" },
+  { id: "line", name: "Line", label: "Draw line" },
+  { id: "rectangle", name: "Rectangle", label: "Draw rectangle" },
+  { id: "filled-rectangle", name: "Filled Rectangle", label: "Draw filled rectangle" },
+  { id: "ellipse", name: "Ellipse", label: "Draw ellipse" },
+  { id: "fill", name: "Flood Fill", label: "Flood fill" },
+  { id: "select", name: "Select", label: "Move selection" },
+];
+
+/**
+ * Check whether a tool draws a shape by dragging
+ */
+export function isShapeTool(tool: DrawingTool): tool is ShapeTool {
+  return tool === "line" || tool === "rectangle" || tool === "filled-rectangle" || tool === "ellipse";
+}
+
+/**
+ * Get the undo history label of a tool
+ */
+export function getDrawingToolLabel(tool: DrawingTool): string {
+  return DRAWING_TOOLS.find((info) => info.id === tool)?.label ?? "Paint pixels";
+}
+
+/**
+ * Remove duplicate points, keeping the first occurrence
+ */
+function uniquePoints(points: PixelPoint[]): PixelPoint[] {
+  const seen = new Set<string>();
+  return points.filter((point) => {
+    const key = `${point.row},${point.col}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Get the pixels of a line (Bresenham's algorithm)
+ */
+export function getLinePoints(from: PixelPoint, to: PixelPoint): PixelPoint[] {
+  const points: PixelPoint[] = [];
+  const dx = Math.abs(to.col - from.col);
+  const dy = -Math.abs(to.row - from.row);
+  const stepX = from.col < to.col ? 1 : -1;
+  const stepY = from.row < to.row ? 1 : -1;
+  let err = dx + dy;
+  let { row, col } = from;
+
+  for (;;) {
+    points.push({ row, col });
+    if (row === to.row && col === to.col) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      col += stepX;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      row += stepY;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Get the pixels of a rectangle spanned by two corners
+ */
+export function getRectanglePoints(from: PixelPoint, to: PixelPoint, filled: boolean): PixelPoint[] {
+  const top = Math.min(from.row, to.row);
+  const bottom = Math.max(from.row, to.row);
+  const left = Math.min(from.col, to.col);
+  const right = Math.max(from.col, to.col);
+  const points: PixelPoint[] = [];
+
+  for (let row = top; row <= bottom; row++) {
+    for (let col = left; col <= right; col++) {
+      if (filled || row === top || row === bottom || col === left || col === right) {
+        points.push({ row, col });
+      }
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Get the pixels of an ellipse inside the box spanned by two corners
+ *
+ * Uses Zingl's integer ellipse algorithm, which also handles boxes with
+ * an even width or height.
+ */
+export function getEllipsePoints(from: PixelPoint, to: PixelPoint): PixelPoint[] {
+  let x0 = Math.min(from.col, to.col);
+  let x1 = Math.max(from.col, to.col);
+  let y0 = Math.min(from.row, to.row);
+  let y1: number;
+
+  const a = x1 - x0;
+  const b = Math.max(from.row, to.row) - y0;
+
+  // The algorithm stops early for boxes that are a single pixel wide
+  if (a === 0) return getLinePoints(from, to);
+
+  let b1 = b & 1;
+  let dx = 4 * (1 - a) * b * b;
+  let dy = 4 * (b1 + 1) * a * a;
+  let err = dx + dy + b1 * a * a;
+
+  y0 += (b + 1) >> 1;
+  y1 = y0 - b1;
+  const a8 = 8 * a * a;
+  b1 = 8 * b * b;
+
+  const points: PixelPoint[] = [];
+  const plot = (col: number, row: number) => points.push({ row, col });
+
+  do {
+    plot(x1, y0);
+    plot(x0, y0);
+    plot(x0, y1);
+    plot(x1, y1);
+    const e2 = 2 * err;
+    if (e2 <= dy) {
+      y0++;
+      y1--;
+      dy += a8;
+      err += dy;
+    }
+    if (e2 >= dx || 2 * err > dy) {
+      x0++;
+      x1--;
+      dx += b1;
+      err += dx;
+    }
+  } while (x0 <= x1);
+
+  // Finish the tips of flat ellipses
+  while (y0 - y1 < b) {
+    plot(x0 - 1, y0);
+    plot(x1 + 1, y0++);
+    plot(x0 - 1, y1);
+    plot(x1 + 1, y1--);
+  }
+
+  return uniquePoints(points);
+}
+
+/**
+ * Get the pixels of a shape drawn from one pixel to another
+ */
+export function getShapePoints(tool: ShapeTool, from: PixelPoint, to: PixelPoint): PixelPoint[] {
+  switch (tool) {
+    case "line":
+      return getLinePoints(from, to);
+    case "rectangle":
+      return getRectanglePoints(from, to, false);
+    case "filled-rectangle":
+      return getRectanglePoints(from, to, true);
+    case "ellipse":
+      return getEllipsePoints(from, to);
+  }
+}
+
+/**
+ * Get the region a flood fill starting at a pixel covers
+ * The region holds all pixels of the start pixel's color connected to it horizontally or vertically.
+ */
+export function getFloodFillPoints(character: Character, start: PixelPoint): PixelPoint[] {
+  const height = character.pixels.length;
+  const width = character.pixels[0]?.length ?? 0;
+  if (start.row < 0 || start.row >= height || start.col < 0 || start.col >= width) return [];
+
+  const color = getPixelColor(character, start.row, start.col);
+  const visited = new Set<string>([`${start.row},${start.col}`]);
+  const stack: PixelPoint[] = [start];
+  const points: PixelPoint[] = [];
+
+  while (stack.length > 0) {
+    const point = stack.pop()!;
+    points.push(point);
+
+    for (const [dr, dc] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      const row = point.row + dr;
+      const col = point.col + dc;
+      const key = `${row},${col}`;
+      if (row < 0 || row >= height || col < 0 || col >= width || visited.has(key)) continue;
+      if (getPixelColor(character, row, col) !== color) continue;
+      visited.add(key);
+      stack.push({ row, col });
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Set several pixels to a value (points outside the character are ignored)
+ *
+ * When a color is given (multicolor sets), "on" pixels are set to that color.
+ */
+export function setPixels(character: Character, points: PixelPoint[], value: boolean, color?: number): Character {
+  const targets = new Set(points.map(({ row, col }) => `${row},${col}`));
+  const isTarget = (row: number, col: number) => targets.has(`${row},${col}`);
+
+  if (color !== undefined || character.colors) {
+    const fill = value ? (color ?? MAX_MULTICOLOR_INDEX) : 0;
+    return createMulticolorCharacter(
+      getColorIndices(character).map((r, ri) => r.map((c, ci) => (isTarget(ri, ci) ? fill : c)))
+    );
+  }
+
+  return { pixels: character.pixels.map((r, ri) => r.map((p, ci) => (isTarget(ri, ci) ? value : p))) };
+}
+
+/**
+ * Flood fill the region around a pixel with a value
+ * Several start pixels (e.g. mirrored ones) fill their regions of the unchanged character.
+ */
+export function floodFill(
+  character: Character,
+  start: PixelPoint | PixelPoint[],
+  value: boolean,
+  color?: number
+): Character {
+  const starts = Array.isArray(start) ? start : [start];
+  const points = starts.flatMap((point) => getFloodFillPoints(character, point));
+  return setPixels(character, points, value, color);
+}
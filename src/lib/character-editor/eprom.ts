@@ -0,0 +1,191 @@
+/**
+ * Character ROM Editor - EPROM Images
+ *
+ * Helpers for building images that are burned into an EPROM:
+ * - Target chip sizes (generic 27xx EPROMs and chips with a known capacity)
+ * - Placing one or more ROM images at bank offsets
+ * - Filling unused space with a fill byte
+ * - CRC32 and SUM16 checksums
+ * - Overflow and overlap warnings
+ */
+
+import { CHIPS, type ChipInfo } from "./data/systems";
+
+/**
+ * Chip an EPROM image can be built for
+ */
+export interface EpromTarget {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Capacity in bytes */
+  size: number;
+}
+
+/**
+ * ROM data placed into an EPROM image
+ */
+export interface EpromSegment {
+  /** Name shown in warnings (usually the character set name) */
+  name: string;
+  /** Byte offset of the data inside the image */
+  offset: number;
+  /** ROM data */
+  data: Uint8Array;
+}
+
+/**
+ * Built EPROM image
+ */
+export interface EpromImage {
+  /** Image data, always exactly the chip size */
+  data: Uint8Array;
+  /** Bytes covered by segments */
+  usedBytes: number;
+  /** CRC32 of the whole image */
+  crc32: number;
+  /** 16-bit sum of all bytes of the image */
+  sum16: number;
+  /** Problems with the segment placement */
+  warnings: string[];
+}
+
+/**
+ * Generic UV EPROMs used for character ROMs and their replacements
+ */
+export const GENERIC_EPROMS: EpromTarget[] = [
+  { id: "2708", name: "2708 (1 KB)", size: 1024 },
+  { id: "2716", name: "2716 (2 KB)", size: 2048 },
+  { id: "2732", name: "2732 (4 KB)", size: 4096 },
+  { id: "2764", name: "2764 (8 KB)", size: 8192 },
+  { id: "27128", name: "27128 (16 KB)", size: 16384 },
+  { id: "27256", name: "27256 (32 KB)", size: 32768 },
+  { id: "27512", name: "27512 (64 KB)", size: 65536 },
+];
+
+/**
+ * Get the capacity of a chip in bytes
+ * Returns undefined when the chip has no capacity or it isn't a whole number of bytes.
+ */
+export function getChipCapacityBytes(chip: ChipInfo): number | undefined {
+  const capacity = chip.capacity;
+  if (!capacity) return undefined;
+  if (capacity.bytes) return capacity.bytes;
+  if (capacity.kb) return capacity.kb * 1024;
+  if (capacity.bits && capacity.bits % 8 === 0) return capacity.bits / 8;
+  return undefined;
+}
+
+/**
+ * Get all EPROM targets: generic EPROMs followed by library chips with a known capacity
+ */
+export function getEpromTargets(): EpromTarget[] {
+  const chipTargets = CHIPS.flatMap((chip) => {
+    const size = getChipCapacityBytes(chip);
+    return size ? [{ id: `chip-${chip.id}`, name: `${chip.partNumber} (${formatEpromSize(size)})`, size }] : [];
+  });
+  return [...GENERIC_EPROMS, ...chipTargets];
+}
+
+/**
+ * Get the smallest generic EPROM that holds the given number of bytes
+ * Falls back to the largest EPROM for data that doesn't fit any of them.
+ */
+export function getSmallestEprom(bytes: number): EpromTarget {
+  return GENERIC_EPROMS.find((target) => target.size >= bytes) ?? GENERIC_EPROMS[GENERIC_EPROMS.length - 1];
+}
+
+/**
+ * Format a chip size (e.g. "2 KB" or "640 bytes")
+ */
+export function formatEpromSize(bytes: number): string {
+  return bytes % 1024 === 0 ? `${bytes / 1024} KB` : `${bytes} bytes`;
+}
+
+/**
+ * Format an offset as hex (e.g. "0x0800")
+ */
+export function formatEpromOffset(offset: number): string {
+  return `0x${offset.toString(16).toUpperCase().padStart(4, "0")}`;
+}
+
+/**
+ * Build an EPROM image from segments
+ *
+ * Unused bytes are set to the fill byte (0xFF matches an erased EPROM).
+ * Data past the end of the chip is cut off and later segments overwrite
+ * earlier ones; both are reported as warnings.
+ */
+export function buildEpromImage(segments: EpromSegment[], size: number, fillByte: number): EpromImage {
+  const data = new Uint8Array(size).fill(fillByte & 0xff);
+  const used = new Uint8Array(size);
+  const warnings: string[] = [];
+
+  segments.forEach((segment, index) => {
+    const end = segment.offset + segment.data.length;
+    if (segment.offset >= size) {
+      warnings.push(`"${segment.name}" starts at ${formatEpromOffset(segment.offset)}, past the end of the chip`);
+      return;
+    }
+    if (end > size) {
+      warnings.push(`"${segment.name}" overflows the chip by ${end - size} bytes`);
+    }
+
+    for (let other = 0; other < index; other++) {
+      const previous = segments[other];
+      const start = Math.max(segment.offset, previous.offset);
+      if (start < Math.min(end, previous.offset + previous.data.length, size)) {
+        warnings.push(`"${segment.name}" overlaps "${previous.name}" at ${formatEpromOffset(start)}`);
+      }
+    }
+
+    const length = Math.min(segment.data.length, size - segment.offset);
+    data.set(segment.data.subarray(0, length), segment.offset);
+    used.fill(1, segment.offset, segment.offset + length);
+  });
+
+  return {
+    data,
+    usedBytes: used.reduce((sum, value) => sum + value, 0),
+    crc32: crc32(data),
+    sum16: sum16(data),
+    warnings,
+  };
+}
+
+/** CRC32 lookup table (IEEE polynomial, as used by zip and most EPROM programmers) */
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Calculate the CRC32 checksum of data
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Calculate the 16-bit sum of all bytes (the checksum shown by EPROM programmers)
+ */
+export function sum16(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum = (sum + data[i]) & 0xffff;
+  }
+  return sum;
+}
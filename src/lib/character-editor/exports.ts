@@ -3,8 +3,15 @@
  *
  * Provides export to various formats:
  * - Binary ROM (existing)
+ * - Intel HEX / Motorola S-record
+ * - BDF bitmap font
+ * - PSF2 Linux console font
+ * - GNU Unifont .hex
+ * - OpenType font (TTF/WOFF)
+ * - Game font atlas (PNG + BMFont/JSON, zipped)
  * - C/C++ Header
  * - Assembly Include
+ * - FPGA memory initialization (.mem, .mif, .coe, Verilog/VHDL ROM)
  * - PNG Image
  */
 
@@ -14,24 +21,74 @@ import {
   bytesPerLine,
   bytesPerCharacter,
 } from "./types";
-import { characterToBytes } from "./import/binary";
+import { characterToBytes, serializeCharacterRom } from "./import/binary";
+import { HexRecordFormat, exportToIntelHex, exportToSRecord } from "./import/hexRecords";
+import {
+  PSF2_MAGIC,
+  PSF2_HEADER_SIZE,
+  PSF2_HAS_UNICODE_TABLE,
+  PSF2_SEPARATOR,
+} from "./import/psf";
+import { UNIFONT_HEIGHT } from "./import/unifont";
+import { getIndexCodePoint, isPrintableCodePoint } from "./data/codePages";
+import { getMulticolorPalette, getPixelColor } from "./multicolor";
+import { getSuggestedFilename } from "./utils";
 import { jsPDF } from "jspdf";
+import { zipSync, zlibSync } from "fflate";
 
 /**
  * Export format types
  */
-export type ExportFormat = "binary" | "code" | "png" | "reference-sheet";
+export type ExportFormat = "binary" | "hex" | "eprom" | "patch" | "code" | "bdf" | "psf" | "unifont" | "font" | "atlas" | "png" | "reference-sheet";
+
+/**
+ * Code export output format (C Header, Assembly, FPGA memory initialization or a code template)
+ */
+export type CodeOutputFormat = "c-header" | "assembly" | MemoryInitFormat | "template";
+
+/**
+ * FPGA memory initialization format
+ */
+export type MemoryInitFormat = "mem" | "mif" | "coe" | "verilog" | "vhdl";
+
+/**
+ * Code output format metadata
+ */
+export interface CodeOutputFormatInfo {
+  id: CodeOutputFormat;
+  name: string;
+  extension: string;
+}
 
 /**
- * Code export output format (C Header or Assembly)
+ * Available code output formats
  */
-export type CodeOutputFormat = "c-header" | "assembly";
+export const CODE_OUTPUT_FORMATS: CodeOutputFormatInfo[] = [
+  { id: "c-header", name: "C/C++ Header", extension: ".h" },
+  { id: "assembly", name: "Assembly", extension: ".asm" },
+  { id: "mem", name: "Verilog .mem", extension: ".mem" },
+  { id: "mif", name: "Intel .mif", extension: ".mif" },
+  { id: "coe", name: "Xilinx .coe", extension: ".coe" },
+  { id: "verilog", name: "Verilog ROM", extension: ".v" },
+  { id: "vhdl", name: "VHDL ROM", extension: ".vhd" },
+  { id: "template", name: "Template", extension: ".txt" },
+];
 
 /**
  * Reference sheet output format (PNG or PDF)
  */
 export type ReferenceSheetOutputFormat = "png" | "pdf";
 
+/**
+ * Font export output format (TTF or WOFF)
+ */
+export type FontOutputFormat = "ttf" | "woff";
+
+/**
+ * Font atlas descriptor format (BMFont text, BMFont XML or JSON)
+ */
+export type AtlasDescriptorFormat = "fnt-text" | "fnt-xml" | "json";
+
 /**
  * Export format metadata
  */
@@ -54,13 +111,69 @@ export const EXPORT_FORMATS: ExportFormatInfo[] = [
     extension: ".bin",
     mimeType: "application/octet-stream",
   },
+  {
+    id: "hex",
+    name: "Intel HEX / S-Record",
+    description: "Text ROM image for EPROM programmers",
+    extension: ".hex",
+    mimeType: "text/plain",
+  },
+  {
+    id: "eprom",
+    name: "EPROM Image",
+    description: "Chip-sized image with fill bytes, banks and checksums",
+    extension: ".bin",
+    mimeType: "application/octet-stream",
+  },
+  {
+    id: "patch",
+    name: "Patch System ROM",
+    description: "Write the set into the font area of an existing ROM dump",
+    extension: ".bin",
+    mimeType: "application/octet-stream",
+  },
   {
     id: "code",
     name: "Source Code",
-    description: "C/C++ header or assembly include file",
+    description: "C/C++ header, assembly include or FPGA memory file",
     extension: ".h",
     mimeType: "text/x-c",
   },
+  {
+    id: "bdf",
+    name: "BDF Font",
+    description: "Bitmap font for X11, u8g2 and firmware projects",
+    extension: ".bdf",
+    mimeType: "application/x-font-bdf",
+  },
+  {
+    id: "psf",
+    name: "PSF Console Font",
+    description: "Linux console font for setfont",
+    extension: ".psf",
+    mimeType: "application/octet-stream",
+  },
+  {
+    id: "unifont",
+    name: "Unifont HEX",
+    description: "GNU Unifont glyphs, one per line",
+    extension: ".hex",
+    mimeType: "text/plain",
+  },
+  {
+    id: "font",
+    name: "TrueType / WOFF Font",
+    description: "Scalable pixel font for the web and terminals",
+    extension: ".ttf",
+    mimeType: "font/ttf",
+  },
+  {
+    id: "atlas",
+    name: "Game Font Atlas",
+    description: "PNG atlas with a BMFont or JSON descriptor for game engines",
+    extension: ".zip",
+    mimeType: "application/zip",
+  },
   {
     id: "png",
     name: "PNG Image",
@@ -98,6 +211,95 @@ export interface AssemblyOptions {
   bytesPerLine: number;
 }
 
+/**
+ * FPGA memory initialization export options
+ */
+export interface MemoryInitOptions {
+  /** Module or entity name of the Verilog/VHDL ROM */
+  moduleName: string;
+  /** Bits per memory word; bytes are packed with the first byte most significant */
+  dataWidth: 8 | 16 | 32;
+  /** Fill the memory with zero words up to a power-of-two depth */
+  padToPowerOfTwo: boolean;
+  /** Number base of .mem files, for $readmemh or $readmemb */
+  memRadix: "hex" | "binary";
+  includeComments: boolean;
+}
+
+/**
+ * Intel HEX / S-record export options
+ */
+export interface HexRecordOptions {
+  outputFormat: HexRecordFormat;
+  /** Address of the first byte of the ROM */
+  baseAddress: number;
+  /** Data bytes per record */
+  recordSize: number;
+}
+
+/**
+ * BDF font export options
+ */
+export interface BdfOptions {
+  fontName: string;
+  /** Encoding of the first character */
+  firstEncoding: number;
+  /** Rows below the baseline */
+  descent: number;
+}
+
+/**
+ * PSF2 font export options
+ */
+export interface PsfOptions {
+  /** Write a Unicode table so the console can map text to glyphs */
+  includeUnicodeTable: boolean;
+}
+
+/**
+ * GNU Unifont .hex export options
+ */
+export interface UnifontOptions {
+  /** Code point of the first character */
+  firstCodePoint: number;
+  /** Use the set's Unicode mapping instead of consecutive code points */
+  useUnicodeMap: boolean;
+}
+
+/**
+ * TTF/WOFF font export options
+ */
+export interface FontExportOptions {
+  outputFormat: FontOutputFormat;
+  /** Family name written to the font */
+  fontName: string;
+  /** Font units per em */
+  unitsPerEm: number;
+  /** Font units above the baseline */
+  ascent: number;
+  /** Font units below the baseline */
+  descent: number;
+}
+
+/**
+ * Game font atlas export options
+ */
+export interface AtlasOptions {
+  descriptorFormat: AtlasDescriptorFormat;
+  /** Font face name, also used for the file names in the zip */
+  fontName: string;
+  /** Glyphs per atlas row */
+  columns: number;
+  scale: number;
+  /** Empty pixels around each glyph, included in its rectangle */
+  padding: number;
+  /** Empty pixels between glyph rectangles */
+  spacing: number;
+  /** Use code points (the set's Unicode mapping or ASCII) as character IDs instead of indices */
+  useUnicodeIds: boolean;
+  foregroundColor: string;
+}
+
 /**
  * PNG export options
  */
@@ -117,6 +319,8 @@ export interface PngOptions {
   bloom: boolean;
   /** Bloom intensity (0-100) */
   bloomIntensity: number;
+  /** Colors for each color index of multicolor characters (defaults to the standard palette) */
+  palette?: string[];
 }
 
 /**
@@ -195,6 +399,118 @@ export function getDefaultAssemblyOptions(name: string): AssemblyOptions {
   };
 }
 
+/**
+ * Get the file extension of a code output format
+ */
+export function getCodeExtension(format: CodeOutputFormat): string {
+  return CODE_OUTPUT_FORMATS.find((f) => f.id === format)?.extension ?? ".h";
+}
+
+/**
+ * Check if a code output format is an FPGA memory initialization format
+ */
+export function isMemoryInitFormat(format: CodeOutputFormat): format is MemoryInitFormat {
+  return format !== "c-header" && format !== "assembly" && format !== "template";
+}
+
+/**
+ * Default FPGA memory initialization options
+ */
+export function getDefaultMemoryInitOptions(name: string): MemoryInitOptions {
+  const sanitized = name
+    .replace(/[^a-zA-Z0-9_]/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "")
+    .replace(/^[0-9]/, "rom_$&")
+    .toLowerCase();
+
+  return {
+    moduleName: sanitized ? `${sanitized}_rom` : "char_rom",
+    dataWidth: 8,
+    padToPowerOfTwo: true,
+    memRadix: "hex",
+    includeComments: true,
+  };
+}
+
+/**
+ * Default Intel HEX / S-record options
+ */
+export function getDefaultHexRecordOptions(): HexRecordOptions {
+  return {
+    outputFormat: "intel-hex",
+    baseAddress: 0,
+    recordSize: 16,
+  };
+}
+
+/**
+ * Get the file extension of a hex record format
+ */
+export function getHexRecordExtension(format: HexRecordFormat): string {
+  return format === "srec" ? ".srec" : ".hex";
+}
+
+/**
+ * Default BDF options
+ * The baseline defaults to one row above the bottom for every 8 rows.
+ */
+export function getDefaultBdfOptions(name: string, height: number): BdfOptions {
+  return {
+    fontName: name.trim().replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "") || "charset",
+    firstEncoding: 0,
+    descent: Math.floor(height / 8),
+  };
+}
+
+/** Default font units per pixel */
+const FONT_PIXEL_UNITS = 128;
+
+/**
+ * Default TTF/WOFF font options
+ * Each pixel is 128 font units, with one row below the baseline for every 8 rows.
+ */
+export function getDefaultFontExportOptions(name: string, height: number): FontExportOptions {
+  const descentRows = Math.floor(height / 8);
+  return {
+    outputFormat: "ttf",
+    fontName: name.trim() || "Character Set",
+    unitsPerEm: height * FONT_PIXEL_UNITS,
+    ascent: (height - descentRows) * FONT_PIXEL_UNITS,
+    descent: descentRows * FONT_PIXEL_UNITS,
+  };
+}
+
+/**
+ * Get the file extension of a font output format
+ */
+export function getFontExtension(format: FontOutputFormat): string {
+  return format === "woff" ? ".woff" : ".ttf";
+}
+
+/**
+ * Default game font atlas options
+ */
+export function getDefaultAtlasOptions(name: string): AtlasOptions {
+  return {
+    descriptorFormat: "fnt-text",
+    fontName: name.trim() || "Character Set",
+    columns: 16,
+    scale: 1,
+    padding: 0,
+    spacing: 1,
+    useUnicodeIds: true,
+    foregroundColor: "#ffffff",
+  };
+}
+
+/**
+ * Get the descriptor file extension of an atlas descriptor format
+ */
+export function getAtlasDescriptorExtension(format: AtlasDescriptorFormat): string {
+  return format === "json" ? ".json" : ".fnt";
+}
+
 /**
  * Default PNG options
  */
@@ -252,6 +568,889 @@ export function getDefaultReferenceSheetOptions(name: string): ReferenceSheetOpt
   };
 }
 
+/**
+ * Generate Intel HEX or S-record file content
+ * The ROM image is the same as the binary export for the configuration.
+ */
+export function exportToHexRecords(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: HexRecordOptions,
+  name?: string
+): string {
+  const data = serializeCharacterRom(characters, config);
+  const writeOptions = {
+    baseAddress: options.baseAddress,
+    recordSize: options.recordSize,
+    header: name,
+  };
+  return options.outputFormat === "srec"
+    ? exportToSRecord(data, writeOptions)
+    : exportToIntelHex(data, writeOptions);
+}
+
+/**
+ * Generate BDF font file content
+ * Every character becomes a glyph with the full cell as its bounding
+ * box, encoded from the first encoding in order.
+ */
+export function exportToBdf(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: BdfOptions
+): string {
+  const { width, height } = config;
+  const descent = Math.max(0, Math.min(height, Math.floor(options.descent)));
+  const ascent = height - descent;
+  const rowBytes = Math.ceil(width / 8);
+  const swidth = Math.round((width * 1000) / height);
+
+  const lines: string[] = [
+    "STARTFONT 2.1",
+    `FONT ${options.fontName}`,
+    `SIZE ${height} 72 72`,
+    `FONTBOUNDINGBOX ${width} ${height} 0 ${-descent}`,
+    "STARTPROPERTIES 4",
+    `FAMILY_NAME "${options.fontName.replace(/"/g, '""')}"`,
+    `PIXEL_SIZE ${height}`,
+    `FONT_ASCENT ${ascent}`,
+    `FONT_DESCENT ${descent}`,
+    "ENDPROPERTIES",
+    `CHARS ${characters.length}`,
+  ];
+
+  characters.forEach((char, index) => {
+    const encoding = options.firstEncoding + index;
+    lines.push(
+      `STARTCHAR char${encoding}`,
+      `ENCODING ${encoding}`,
+      `SWIDTH ${swidth} 0`,
+      `DWIDTH ${width} 0`,
+      `BBX ${width} ${height} 0 ${-descent}`,
+      "BITMAP"
+    );
+    for (let row = 0; row < height; row++) {
+      let value = 0;
+      for (let col = 0; col < rowBytes * 8; col++) {
+        value = value * 2 + (char.pixels[row]?.[col] ? 1 : 0);
+      }
+      lines.push(value.toString(16).toUpperCase().padStart(rowBytes * 2, "0"));
+    }
+    lines.push("ENDCHAR");
+  });
+
+  lines.push("ENDFONT");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Encode a code point as UTF-8
+ */
+function encodeUtf8(codePoint: number): number[] {
+  if (codePoint < 0x80) return [codePoint];
+  if (codePoint < 0x800) return [0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f)];
+  if (codePoint < 0x10000) {
+    return [0xe0 | (codePoint >> 12), 0x80 | ((codePoint >> 6) & 0x3f), 0x80 | (codePoint & 0x3f)];
+  }
+  return [
+    0xf0 | (codePoint >> 18),
+    0x80 | ((codePoint >> 12) & 0x3f),
+    0x80 | ((codePoint >> 6) & 0x3f),
+    0x80 | (codePoint & 0x3f),
+  ];
+}
+
+/**
+ * Generate a PSF2 font
+ * The Unicode table uses the set's Unicode mapping when given,
+ * otherwise each character index is its own code point.
+ */
+export function exportToPsf2(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: PsfOptions,
+  unicodeMap?: (number | null)[]
+): Uint8Array {
+  const { width, height } = config;
+  const rowBytes = Math.ceil(width / 8);
+  const charSize = rowBytes * height;
+
+  const table: number[] = [];
+  if (options.includeUnicodeTable) {
+    characters.forEach((_, index) => {
+      const codePoint = unicodeMap ? unicodeMap[index] : index;
+      if (codePoint !== null && codePoint !== undefined && codePoint >= 0 && codePoint <= 0x10ffff) {
+        table.push(...encodeUtf8(codePoint));
+      }
+      table.push(PSF2_SEPARATOR);
+    });
+  }
+
+  const data = new Uint8Array(PSF2_HEADER_SIZE + characters.length * charSize + table.length);
+  const view = new DataView(data.buffer);
+  data.set(PSF2_MAGIC, 0);
+  view.setUint32(4, 0, true);
+  view.setUint32(8, PSF2_HEADER_SIZE, true);
+  view.setUint32(12, options.includeUnicodeTable ? PSF2_HAS_UNICODE_TABLE : 0, true);
+  view.setUint32(16, characters.length, true);
+  view.setUint32(20, charSize, true);
+  view.setUint32(24, height, true);
+  view.setUint32(28, width, true);
+
+  characters.forEach((char, index) => {
+    const start = PSF2_HEADER_SIZE + index * charSize;
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        if (char.pixels[row]?.[col]) {
+          data[start + row * rowBytes + (col >> 3)] |= 0x80 >> (col & 7);
+        }
+      }
+    }
+  });
+
+  data.set(table, PSF2_HEADER_SIZE + characters.length * charSize);
+  return data;
+}
+
+/**
+ * Generate GNU Unifont .hex content
+ * Glyphs are written in code point order, 8 or 16 pixels wide and
+ * padded with blank rows to the Unifont height of 16. Characters
+ * without a code point in the Unicode mapping are skipped.
+ */
+export function exportToUnifont(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: UnifontOptions,
+  unicodeMap?: (number | null)[]
+): string {
+  const rowDigits = config.width <= 8 ? 2 : 4;
+  const glyphs = new Map<number, string>();
+
+  characters.forEach((char, index) => {
+    const codePoint =
+      options.useUnicodeMap && unicodeMap ? unicodeMap[index] : options.firstCodePoint + index;
+    if (codePoint === null || codePoint === undefined || codePoint < 0 || codePoint > 0x10ffff) return;
+    if (glyphs.has(codePoint)) return;
+
+    let bits = "";
+    for (let row = 0; row < UNIFONT_HEIGHT; row++) {
+      let value = 0;
+      for (let col = 0; col < rowDigits * 4; col++) {
+        value = value * 2 + (char.pixels[row]?.[col] ? 1 : 0);
+      }
+      bits += value.toString(16).toUpperCase().padStart(rowDigits, "0");
+    }
+    glyphs.set(codePoint, bits);
+  });
+
+  const lines = Array.from(glyphs.keys())
+    .sort((a, b) => a - b)
+    .map((codePoint) => {
+      const code = codePoint.toString(16).toUpperCase().padStart(codePoint > 0xffff ? 6 : 4, "0");
+      return `${code}:${glyphs.get(codePoint)}`;
+    });
+
+  return lines.length > 0 ? lines.join("\n") + "\n" : "";
+}
+
+/** WOFF 1.0 header and table directory entry sizes */
+const WOFF_HEADER_SIZE = 44;
+const WOFF_TABLE_ENTRY_SIZE = 20;
+
+/** sfnt header and table record sizes */
+const SFNT_HEADER_SIZE = 12;
+const SFNT_TABLE_RECORD_SIZE = 16;
+
+/** sfnt version of fonts with TrueType outlines */
+const SFNT_VERSION_TRUETYPE = 0x00010000;
+
+// Type definitions for the parts of opentype.js used to build fonts
+interface OpenTypePath {
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  close(): void;
+}
+
+interface OpenTypeGlyphOptions {
+  name: string;
+  unicode?: number;
+  advanceWidth: number;
+  path: OpenTypePath;
+}
+
+interface OpenTypeFontOptions {
+  familyName: string;
+  styleName: string;
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+  glyphs: unknown[];
+}
+
+interface OpenTypeBuilder {
+  Path: new () => OpenTypePath;
+  Glyph: new (options: OpenTypeGlyphOptions) => unknown;
+  Font: new (options: OpenTypeFontOptions) => { toArrayBuffer(): ArrayBuffer };
+}
+
+/**
+ * A rectangle of lit pixels
+ */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Merge the lit pixels of a character into rectangles
+ * Runs of pixels in a row are joined first, then identical runs in
+ * consecutive rows are joined into taller rectangles.
+ */
+export function pixelsToRectangles(pixels: boolean[][]): PixelRect[] {
+  const rects: PixelRect[] = [];
+  // Rectangles that reach the previous row, keyed by "x,width"
+  let open = new Map<string, PixelRect>();
+
+  pixels.forEach((row, y) => {
+    const next = new Map<string, PixelRect>();
+    let x = 0;
+    while (x < row.length) {
+      if (!row[x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < row.length && row[x]) x++;
+
+      const key = `${start},${x - start}`;
+      const rect = open.get(key);
+      if (rect) {
+        rect.height++;
+        next.set(key, rect);
+      } else {
+        const created = { x: start, y, width: x - start, height: 1 };
+        rects.push(created);
+        next.set(key, created);
+      }
+    }
+    open = next;
+  });
+
+  return rects;
+}
+
+/**
+ * A rectangle of a glyph outline in font units
+ */
+interface FontUnitRect {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * A glyph written with TrueType outlines
+ */
+interface TrueTypeGlyph {
+  name: string;
+  outline: FontUnitRect[];
+}
+
+/**
+ * Read the tables of an sfnt font, keyed by tag
+ */
+function readSfntTables(sfnt: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(sfnt.buffer, sfnt.byteOffset, sfnt.byteLength);
+  const tables = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const entry = SFNT_HEADER_SIZE + i * SFNT_TABLE_RECORD_SIZE;
+    const tag = String.fromCharCode(...sfnt.subarray(entry, entry + 4));
+    const offset = view.getUint32(entry + 8);
+    tables.set(tag, sfnt.slice(offset, offset + view.getUint32(entry + 12)));
+  }
+
+  return tables;
+}
+
+/**
+ * Sum data as big-endian 32-bit words, zero-padded to a multiple of 4 bytes
+ */
+function sfntChecksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const word = (data[i] << 24) | ((data[i + 1] ?? 0) << 16) | ((data[i + 2] ?? 0) << 8) | (data[i + 3] ?? 0);
+    sum = (sum + word) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * Write an sfnt font from its tables
+ * The checksum adjustment of the head table must be zero; it is set
+ * once the whole font has been written.
+ */
+function writeSfnt(version: number, tables: Map<string, Uint8Array>): Uint8Array {
+  const tags = Array.from(tables.keys()).sort();
+  const align4 = (value: number) => (value + 3) & ~3;
+
+  let size = SFNT_HEADER_SIZE + tags.length * SFNT_TABLE_RECORD_SIZE;
+  const offsets = tags.map((tag) => {
+    const offset = size;
+    size += align4(tables.get(tag)!.length);
+    return offset;
+  });
+
+  const sfnt = new Uint8Array(size);
+  const view = new DataView(sfnt.buffer);
+  const entrySelector = Math.floor(Math.log2(tags.length));
+  const searchRange = 2 ** entrySelector * SFNT_TABLE_RECORD_SIZE;
+  view.setUint32(0, version);
+  view.setUint16(4, tags.length);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, entrySelector);
+  view.setUint16(10, tags.length * SFNT_TABLE_RECORD_SIZE - searchRange);
+
+  tags.forEach((tag, i) => {
+    const data = tables.get(tag)!;
+    const entry = SFNT_HEADER_SIZE + i * SFNT_TABLE_RECORD_SIZE;
+    for (let c = 0; c < 4; c++) {
+      view.setUint8(entry + c, tag.charCodeAt(c));
+    }
+    view.setUint32(entry + 4, sfntChecksum(data));
+    view.setUint32(entry + 8, offsets[i]);
+    view.setUint32(entry + 12, data.length);
+    sfnt.set(data, offsets[i]);
+  });
+
+  const head = tags.indexOf("head");
+  if (head >= 0) {
+    view.setUint32(offsets[head] + 8, (0xb1b0afba - sfntChecksum(sfnt)) >>> 0);
+  }
+  return sfnt;
+}
+
+/**
+ * Build the glyf and loca tables of rectangle outlines
+ * Each rectangle becomes a clockwise contour of four on-curve points, as
+ * TrueType outlines expect. Offsets are written in the long loca format.
+ */
+function buildGlyfTable(glyphs: TrueTypeGlyph[]): { glyf: Uint8Array; loca: Uint8Array; maxContours: number } {
+  const loca = new Uint8Array((glyphs.length + 1) * 4);
+  const locaView = new DataView(loca.buffer);
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  let maxContours = 0;
+
+  glyphs.forEach(({ outline: rects }, index) => {
+    locaView.setUint32(index * 4, offset);
+    if (rects.length === 0) return;
+
+    const points = rects.flatMap((rect) => [
+      [rect.left, rect.bottom],
+      [rect.left, rect.top],
+      [rect.right, rect.top],
+      [rect.right, rect.bottom],
+    ]);
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+
+    // Header, contour end points, instruction length, flags and 16-bit coordinate deltas
+    const length = 10 + rects.length * 2 + 2 + points.length * 5;
+    const glyph = new Uint8Array((length + 3) & ~3);
+    const view = new DataView(glyph.buffer);
+    view.setInt16(0, rects.length);
+    view.setInt16(2, Math.min(...xs));
+    view.setInt16(4, Math.min(...ys));
+    view.setInt16(6, Math.max(...xs));
+    view.setInt16(8, Math.max(...ys));
+
+    let pos = 10;
+    rects.forEach((_, i) => {
+      view.setUint16(pos, i * 4 + 3);
+      pos += 2;
+    });
+    pos += 2; // No instructions
+    glyph.fill(0x01, pos, pos + points.length); // On-curve, full-size coordinates
+    pos += points.length;
+    [xs, ys].forEach((coordinates) => {
+      let previous = 0;
+      for (const value of coordinates) {
+        view.setInt16(pos, value - previous);
+        previous = value;
+        pos += 2;
+      }
+    });
+
+    chunks.push(glyph);
+    offset += glyph.length;
+    maxContours = Math.max(maxContours, rects.length);
+  });
+  locaView.setUint32(glyphs.length * 4, offset);
+
+  const glyf = new Uint8Array(offset);
+  let position = 0;
+  for (const chunk of chunks) {
+    glyf.set(chunk, position);
+    position += chunk.length;
+  }
+
+  return { glyf, loca, maxContours };
+}
+
+/**
+ * Build a version 2.0 post table, which holds the glyph names of TrueType fonts
+ * (CFF fonts keep them in the CFF table)
+ *
+ * @param post - Version 3.0 post table to take the header fields from
+ * @param names - Glyph names in glyph order
+ */
+function buildPostTable(post: Uint8Array, names: string[]): Uint8Array {
+  // ".notdef" is the first standard Macintosh glyph name, all others are stored
+  const custom = names.filter((name) => name !== ".notdef");
+  const size = 32 + 2 + names.length * 2 + custom.reduce((total, name) => total + 1 + name.length, 0);
+  const table = new Uint8Array(size);
+  const view = new DataView(table.buffer);
+  table.set(post.subarray(0, 32));
+  view.setUint32(0, 0x00020000);
+  view.setUint16(32, names.length);
+
+  let pos = 34;
+  let nameIndex = 258;
+  for (const name of names) {
+    view.setUint16(pos, name === ".notdef" ? 0 : nameIndex++);
+    pos += 2;
+  }
+  for (const name of custom) {
+    table[pos++] = name.length;
+    for (let i = 0; i < name.length; i++) {
+      table[pos++] = name.charCodeAt(i);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Replace the CFF outlines of a font written by opentype.js with TrueType outlines
+ * The naming, character map and metrics tables are kept.
+ *
+ * @param sfnt - Font with CFF outlines
+ * @param glyphs - Name and outline of each glyph, in glyph order
+ * @returns Font with glyf outlines
+ */
+function cffToTrueType(sfnt: Uint8Array, glyphs: TrueTypeGlyph[]): Uint8Array {
+  const tables = readSfntTables(sfnt);
+  const { glyf, loca, maxContours } = buildGlyfTable(glyphs);
+  tables.delete("CFF ");
+  tables.set("glyf", glyf);
+  tables.set("loca", loca);
+  tables.set("post", buildPostTable(tables.get("post")!, glyphs.map((glyph) => glyph.name)));
+
+  // Version 1.0 maximum profile, without hinting
+  const maxp = new Uint8Array(32);
+  const maxpView = new DataView(maxp.buffer);
+  maxpView.setUint32(0, 0x00010000);
+  maxpView.setUint16(4, glyphs.length);
+  maxpView.setUint16(6, maxContours * 4);
+  maxpView.setUint16(8, maxContours);
+  maxpView.setUint16(14, 2); // maxZones
+  tables.set("maxp", maxp);
+
+  // Clear the checksum adjustment and switch to long loca offsets
+  const head = tables.get("head")!;
+  const headView = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  headView.setUint32(8, 0);
+  headView.setInt16(50, 1);
+
+  return writeSfnt(SFNT_VERSION_TRUETYPE, tables);
+}
+
+/**
+ * Wrap an sfnt font in a WOFF 1.0 container, compressing each table
+ * Tables that do not shrink are stored uncompressed, as the format requires.
+ */
+function sfntToWoff(sfnt: Uint8Array): Uint8Array {
+  const view = new DataView(sfnt.buffer, sfnt.byteOffset, sfnt.byteLength);
+  const numTables = view.getUint16(4);
+
+  const tables = Array.from({ length: numTables }, (_, i) => {
+    const entry = 12 + i * 16;
+    const offset = view.getUint32(entry + 8);
+    const length = view.getUint32(entry + 12);
+    const data = sfnt.subarray(offset, offset + length);
+    const compressed = zlibSync(data, { level: 9 });
+    return {
+      tag: view.getUint32(entry),
+      checksum: view.getUint32(entry + 4),
+      length,
+      data: compressed.length < length ? compressed : data,
+    };
+  });
+
+  const align4 = (value: number) => (value + 3) & ~3;
+  let size = WOFF_HEADER_SIZE + numTables * WOFF_TABLE_ENTRY_SIZE;
+  const offsets = tables.map((table) => {
+    const offset = size;
+    size += align4(table.data.length);
+    return offset;
+  });
+  const totalSfntSize = tables.reduce((total, table) => total + align4(table.length), 12 + numTables * 16);
+
+  const woff = new Uint8Array(size);
+  const out = new DataView(woff.buffer);
+  out.setUint32(0, 0x774f4646); // "wOFF"
+  out.setUint32(4, view.getUint32(0));
+  out.setUint32(8, size);
+  out.setUint16(12, numTables);
+  out.setUint32(16, totalSfntSize);
+  out.setUint16(20, 1);
+
+  tables.forEach((table, i) => {
+    const entry = WOFF_HEADER_SIZE + i * WOFF_TABLE_ENTRY_SIZE;
+    out.setUint32(entry, table.tag);
+    out.setUint32(entry + 4, offsets[i]);
+    out.setUint32(entry + 8, table.data.length);
+    out.setUint32(entry + 12, table.length);
+    out.setUint32(entry + 16, table.checksum);
+    woff.set(table.data, offsets[i]);
+  });
+
+  return woff;
+}
+
+/**
+ * Generate a TrueType or WOFF font
+ * Every lit pixel becomes part of a square outline, with runs merged into
+ * rectangles. Characters are mapped by the set's Unicode mapping, or as
+ * ASCII without one; unmapped characters and control codes are left out.
+ * opentype.js writes the naming, character map and metrics tables; its
+ * CFF outlines are replaced with TrueType (glyf) outlines.
+ */
+export async function exportToFont(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: FontExportOptions,
+  unicodeMap?: (number | null)[]
+): Promise<Uint8Array> {
+  let opentype: OpenTypeBuilder;
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    opentype = await import("opentype.js" as any);
+  } catch {
+    throw new Error("Font export requires the opentype.js library");
+  }
+
+  const { unitsPerEm, ascent, descent } = options;
+  if (ascent + descent <= 0) {
+    throw new Error("Font ascent and descent must add up to more than zero");
+  }
+  const pixelSize = (ascent + descent) / config.height;
+  const advanceWidth = Math.round(config.width * pixelSize);
+  const toX = (col: number) => Math.round(col * pixelSize);
+  const toY = (row: number) => Math.round(ascent - row * pixelSize);
+
+  const glyphs: unknown[] = [
+    new opentype.Glyph({ name: ".notdef", advanceWidth, path: new opentype.Path() }),
+  ];
+  const trueTypeGlyphs: TrueTypeGlyph[] = [{ name: ".notdef", outline: [] }];
+  const mapped = new Set<number>();
+
+  characters.forEach((char, index) => {
+    const codePoint = getIndexCodePoint(index, unicodeMap);
+    if (codePoint === null || !isPrintableCodePoint(codePoint) || mapped.has(codePoint)) return;
+    mapped.add(codePoint);
+
+    // The path gives opentype.js the glyph bounds for the metrics tables
+    const path = new opentype.Path();
+    const rects = pixelsToRectangles(char.pixels).map((rect) => ({
+      left: toX(rect.x),
+      right: toX(rect.x + rect.width),
+      top: toY(rect.y),
+      bottom: toY(rect.y + rect.height),
+    }));
+    for (const { left, right, top, bottom } of rects) {
+      path.moveTo(left, bottom);
+      path.lineTo(right, bottom);
+      path.lineTo(right, top);
+      path.lineTo(left, top);
+      path.close();
+    }
+
+    const hex = codePoint.toString(16).toUpperCase();
+    const name = codePoint > 0xffff ? `u${hex}` : `uni${hex.padStart(4, "0")}`;
+    trueTypeGlyphs.push({ name, outline: rects });
+    glyphs.push(
+      new opentype.Glyph({
+        name,
+        unicode: codePoint,
+        advanceWidth,
+        path,
+      })
+    );
+  });
+
+  const font = new opentype.Font({
+    familyName: options.fontName.trim() || "Character Set",
+    styleName: "Regular",
+    unitsPerEm,
+    ascender: ascent,
+    descender: -descent,
+    glyphs,
+  });
+
+  const sfnt = cffToTrueType(new Uint8Array(font.toArrayBuffer()), trueTypeGlyphs);
+  return options.outputFormat === "woff" ? sfntToWoff(sfnt) : sfnt;
+}
+
+/**
+ * A glyph placed in a font atlas
+ */
+export interface AtlasGlyph {
+  /** Character ID written to the descriptor */
+  id: number;
+  /** Index of the character in the set */
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  xoffset: number;
+  yoffset: number;
+  xadvance: number;
+}
+
+/**
+ * Placement of all glyphs in a font atlas
+ */
+export interface AtlasLayout {
+  /** Atlas image size */
+  width: number;
+  height: number;
+  lineHeight: number;
+  /** Distance from the top of a line to the baseline */
+  base: number;
+  glyphs: AtlasGlyph[];
+}
+
+/**
+ * Place the characters of a set in a font atlas
+ * With Unicode IDs, unmapped characters, control codes and repeated code
+ * points are left out. Padding is part of each glyph rectangle and is
+ * cancelled by negative offsets, as BMFont does.
+ */
+export function getAtlasLayout(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: AtlasOptions,
+  unicodeMap?: (number | null)[]
+): AtlasLayout {
+  const { scale, padding, spacing } = options;
+  const columns = Math.max(1, options.columns);
+  const width = config.width * scale + padding * 2;
+  const height = config.height * scale + padding * 2;
+
+  const ids: { id: number; index: number }[] = [];
+  const used = new Set<number>();
+  characters.forEach((_, index) => {
+    if (!options.useUnicodeIds) {
+      ids.push({ id: index, index });
+      return;
+    }
+    const codePoint = getIndexCodePoint(index, unicodeMap);
+    if (codePoint === null || !isPrintableCodePoint(codePoint) || used.has(codePoint)) return;
+    used.add(codePoint);
+    ids.push({ id: codePoint, index });
+  });
+
+  const glyphs = ids.map(({ id, index }, i) => ({
+    id,
+    index,
+    x: (i % columns) * (width + spacing),
+    y: Math.floor(i / columns) * (height + spacing),
+    width,
+    height,
+    xoffset: -padding,
+    yoffset: -padding,
+    xadvance: config.width * scale,
+  }));
+
+  const usedColumns = Math.min(columns, glyphs.length);
+  const rows = Math.ceil(glyphs.length / columns);
+  return {
+    width: Math.max(1, usedColumns * (width + spacing) - spacing),
+    height: Math.max(1, rows * (height + spacing) - spacing),
+    lineHeight: config.height * scale,
+    base: (config.height - Math.floor(config.height / 8)) * scale,
+    glyphs,
+  };
+}
+
+/**
+ * Get the file names of the atlas image and descriptor
+ */
+export function getAtlasFileNames(options: AtlasOptions): { image: string; descriptor: string } {
+  const base = getSuggestedFilename(options.fontName).replace(/\.bin$/, "");
+  return { image: `${base}.png`, descriptor: base + getAtlasDescriptorExtension(options.descriptorFormat) };
+}
+
+/**
+ * Escape a string for an XML attribute
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Generate the atlas descriptor in BMFont text, BMFont XML or JSON format
+ */
+export function exportToAtlasDescriptor(layout: AtlasLayout, options: AtlasOptions): string {
+  const { padding, spacing } = options;
+  const face = options.fontName.trim() || "Character Set";
+  const imageFile = getAtlasFileNames(options).image;
+  const info = {
+    face,
+    size: layout.lineHeight,
+    bold: 0,
+    italic: 0,
+    charset: "",
+    unicode: options.useUnicodeIds ? 1 : 0,
+    stretchH: 100,
+    smooth: 0,
+    aa: 1,
+    padding: [padding, padding, padding, padding],
+    spacing: [spacing, spacing],
+  };
+  const common = {
+    lineHeight: layout.lineHeight,
+    base: layout.base,
+    scaleW: layout.width,
+    scaleH: layout.height,
+    pages: 1,
+    packed: 0,
+  };
+  const chars = layout.glyphs.map(({ id, x, y, width, height, xoffset, yoffset, xadvance }) => ({
+    id,
+    x,
+    y,
+    width,
+    height,
+    xoffset,
+    yoffset,
+    xadvance,
+    page: 0,
+    chnl: 15,
+  }));
+
+  if (options.descriptorFormat === "json") {
+    return JSON.stringify({ pages: [imageFile], info, common, chars, kernings: [] }, null, 2) + "\n";
+  }
+
+  // Attributes in BMFont order; strings are quoted, lists comma separated
+  const attributes = (values: Record<string, string | number | number[]>, xml: boolean) =>
+    Object.entries(values)
+      .map(([key, value]) => {
+        if (typeof value === "string") {
+          return `${key}="${xml ? escapeXml(value) : value.replace(/"/g, "'")}"`;
+        }
+        const text = Array.isArray(value) ? value.join(",") : String(value);
+        return xml ? `${key}="${text}"` : `${key}=${text}`;
+      })
+      .join(" ");
+
+  if (options.descriptorFormat === "fnt-xml") {
+    return [
+      '<?xml version="1.0"?>',
+      "<font>",
+      `  <info ${attributes(info, true)}/>`,
+      `  <common ${attributes(common, true)}/>`,
+      "  <pages>",
+      `    <page id="0" file="${escapeXml(imageFile)}"/>`,
+      "  </pages>",
+      `  <chars count="${chars.length}">`,
+      ...chars.map((char) => `    <char ${attributes(char, true)}/>`),
+      "  </chars>",
+      "</font>",
+      "",
+    ].join("\n");
+  }
+
+  return [
+    `info ${attributes(info, false)}`,
+    `common ${attributes(common, false)}`,
+    `page id=0 file="${imageFile}"`,
+    `chars count=${chars.length}`,
+    ...chars.map((char) => `char ${attributes(char, false)}`),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Generate a game font atlas
+ * Returns a zip with the atlas PNG (glyphs on a transparent background)
+ * and its descriptor.
+ */
+export async function exportToAtlas(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: AtlasOptions,
+  unicodeMap?: (number | null)[]
+): Promise<Blob> {
+  const layout = getAtlasLayout(characters, config, options, unicodeMap);
+  const { scale, padding, foregroundColor } = options;
+  const palette = getMulticolorPalette(foregroundColor, "#000000");
+
+  const canvas = document.createElement("canvas");
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    throw new Error("Could not create canvas context");
+  }
+
+  for (const glyph of layout.glyphs) {
+    const character = characters[glyph.index];
+    for (let py = 0; py < config.height; py++) {
+      for (let px = 0; px < config.width; px++) {
+        if (!character.pixels[py]?.[px]) continue;
+        ctx.fillStyle = character.colors
+          ? (palette[getPixelColor(character, py, px)] ?? foregroundColor)
+          : foregroundColor;
+        ctx.fillRect(glyph.x + padding + px * scale, glyph.y + padding + py * scale, scale, scale);
+      }
+    }
+  }
+
+  const png = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error("Failed to create PNG blob"));
+        }
+      },
+      "image/png"
+    );
+  });
+
+  const files = getAtlasFileNames(options);
+  const zip = zipSync({
+    [files.image]: new Uint8Array(await png.arrayBuffer()),
+    [files.descriptor]: new TextEncoder().encode(exportToAtlasDescriptor(layout, options)),
+  });
+  return new Blob([zip.buffer as ArrayBuffer], { type: "application/zip" });
+}
+
 /**
  * Generate C/C++ header file content
  */
@@ -273,6 +1472,12 @@ export function exportToCHeader(
     lines.push(` * Character dimensions: ${config.width}x${config.height}`);
     lines.push(` * Total characters: ${characters.length}`);
     lines.push(` * Bytes per character: ${charSize}`);
+    if (config.bitsPerPixel === 2) {
+      lines.push(` * Bits per pixel: 2 (multicolor)`);
+    }
+    if (config.byteLayout === "column") {
+      lines.push(` * Byte layout: column-major (one column per byte group)`);
+    }
     lines.push(" */");
     lines.push("");
   }
@@ -345,6 +1550,12 @@ export function exportToAssembly(
     lines.push(`; Character dimensions: ${config.width}x${config.height}`);
     lines.push(`; Total characters: ${characters.length}`);
     lines.push(`; Bytes per character: ${charSize}`);
+    if (config.bitsPerPixel === 2) {
+      lines.push(`; Bits per pixel: 2 (multicolor)`);
+    }
+    if (config.byteLayout === "column") {
+      lines.push(`; Byte layout: column-major (one column per byte group)`);
+    }
     lines.push("; " + "=".repeat(60));
     lines.push("");
   }
@@ -383,6 +1594,300 @@ export function exportToAssembly(
   return lines.join("\n");
 }
 
+/**
+ * Words of an FPGA memory
+ */
+export interface MemoryWords {
+  /** Word values, without depth padding */
+  words: number[];
+  /** Memory depth in words, including padding */
+  depth: number;
+  /** Address bus width */
+  addressBits: number;
+  /** Words per character, or null when characters do not start on a word boundary */
+  wordsPerCharacter: number | null;
+}
+
+/**
+ * Pack the character bytes into memory words
+ * Uses the same bytes as the binary export. A partial last word is
+ * filled with zero bytes.
+ */
+export function getMemoryWords(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: MemoryInitOptions
+): MemoryWords {
+  const wordBytes = options.dataWidth / 8;
+  const bytes: number[] = [];
+  for (const character of characters) {
+    bytes.push(...characterToBytes(character, config));
+  }
+
+  const words: number[] = [];
+  for (let i = 0; i < bytes.length; i += wordBytes) {
+    let word = 0;
+    for (let j = 0; j < wordBytes; j++) {
+      word = word * 256 + (bytes[i + j] ?? 0);
+    }
+    words.push(word);
+  }
+
+  const addressBits = Math.max(1, Math.ceil(Math.log2(Math.max(1, words.length))));
+  const charSize = bytesPerCharacter(config);
+  return {
+    words,
+    depth: options.padToPowerOfTwo ? 2 ** addressBits : words.length,
+    addressBits,
+    wordsPerCharacter: charSize % wordBytes === 0 ? charSize / wordBytes : null,
+  };
+}
+
+/**
+ * Format a memory word in hex or binary with leading zeros
+ */
+function formatWord(word: number, dataWidth: number, radix: "hex" | "binary"): string {
+  return radix === "binary"
+    ? word.toString(2).padStart(dataWidth, "0")
+    : word.toString(16).padStart(dataWidth / 4, "0").toUpperCase();
+}
+
+/**
+ * Get the character a word starts, if it is the first word of one
+ */
+function getWordCharacter(memory: MemoryWords, address: number): number | null {
+  const { wordsPerCharacter } = memory;
+  return wordsPerCharacter && address % wordsPerCharacter === 0 ? address / wordsPerCharacter : null;
+}
+
+/**
+ * Header comment lines shared by the memory formats
+ */
+function getMemoryHeader(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: MemoryInitOptions,
+  memory: MemoryWords
+): string[] {
+  return [
+    `${options.moduleName} - Character ROM Data`,
+    "Generated by RetroStack Character ROM Editor",
+    "",
+    `Character dimensions: ${config.width}x${config.height}`,
+    `Total characters: ${characters.length}`,
+    `Memory: ${memory.depth} x ${options.dataWidth} bits`,
+  ];
+}
+
+/**
+ * Generate a Verilog memory file for $readmemh or $readmemb
+ * Depth padding is written as zero words.
+ */
+export function exportToMem(characters: Character[], config: CharacterSetConfig, options: MemoryInitOptions): string {
+  const memory = getMemoryWords(characters, config, options);
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...getMemoryHeader(characters, config, options, memory).map((line) => `// ${line}`.trimEnd()));
+    lines.push(`// Load with $readmem${options.memRadix === "binary" ? "b" : "h"}`);
+  }
+
+  for (let address = 0; address < memory.depth; address++) {
+    const value = formatWord(memory.words[address] ?? 0, options.dataWidth, options.memRadix);
+    const char = getWordCharacter(memory, address);
+    lines.push(options.includeComments && char !== null && address < memory.words.length ? `${value}  // Char ${char}` : value);
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Generate an Intel/Altera Memory Initialization File
+ * Depth padding is written as a single address range.
+ */
+export function exportToMif(characters: Character[], config: CharacterSetConfig, options: MemoryInitOptions): string {
+  const memory = getMemoryWords(characters, config, options);
+  const addressDigits = Math.ceil(memory.addressBits / 4);
+  const formatAddress = (address: number) => address.toString(16).padStart(addressDigits, "0").toUpperCase();
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...getMemoryHeader(characters, config, options, memory).map((line) => `-- ${line}`.trimEnd()));
+    lines.push("");
+  }
+
+  lines.push(`WIDTH=${options.dataWidth};`);
+  lines.push(`DEPTH=${memory.depth};`);
+  lines.push("");
+  lines.push("ADDRESS_RADIX=HEX;");
+  lines.push("DATA_RADIX=HEX;");
+  lines.push("");
+  lines.push("CONTENT BEGIN");
+
+  memory.words.forEach((word, address) => {
+    const line = `\t${formatAddress(address)} : ${formatWord(word, options.dataWidth, "hex")};`;
+    const char = getWordCharacter(memory, address);
+    lines.push(options.includeComments && char !== null ? `${line}  -- Char ${char}` : line);
+  });
+
+  if (memory.depth > memory.words.length) {
+    const first = formatAddress(memory.words.length);
+    const last = formatAddress(memory.depth - 1);
+    const zero = formatWord(0, options.dataWidth, "hex");
+    lines.push(memory.depth - memory.words.length === 1 ? `\t${first} : ${zero};` : `\t[${first}..${last}] : ${zero};`);
+  }
+
+  lines.push("END;");
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Generate a Xilinx coefficient file for block memory generators
+ * Depth padding is written as zero words.
+ */
+export function exportToCoe(characters: Character[], config: CharacterSetConfig, options: MemoryInitOptions): string {
+  const memory = getMemoryWords(characters, config, options);
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...getMemoryHeader(characters, config, options, memory).map((line) => `; ${line}`.trimEnd()));
+  }
+
+  lines.push("memory_initialization_radix=16;");
+  lines.push("memory_initialization_vector=");
+  for (let address = 0; address < memory.depth; address++) {
+    const value = formatWord(memory.words[address] ?? 0, options.dataWidth, "hex");
+    lines.push(`${value}${address === memory.depth - 1 ? ";" : ","}`);
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Generate a synthesizable Verilog ROM module
+ * The ROM has a registered output; addresses beyond the data read zero.
+ */
+export function exportToVerilogRom(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: MemoryInitOptions
+): string {
+  const memory = getMemoryWords(characters, config, options);
+  const { dataWidth } = options;
+  const addressDigits = Math.ceil(memory.addressBits / 4);
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...getMemoryHeader(characters, config, options, memory).map((line) => `// ${line}`.trimEnd()));
+    lines.push("");
+  }
+
+  lines.push(`module ${options.moduleName} (`);
+  lines.push("    input  wire clk,");
+  lines.push(`    input  wire [${memory.addressBits - 1}:0] addr,`);
+  lines.push(`    output reg  [${dataWidth - 1}:0] data`);
+  lines.push(");");
+  lines.push("");
+  lines.push("    always @(posedge clk) begin");
+  lines.push("        case (addr)");
+
+  memory.words.forEach((word, address) => {
+    const line =
+      `            ${memory.addressBits}'h${address.toString(16).padStart(addressDigits, "0").toUpperCase()}: ` +
+      `data <= ${dataWidth}'h${formatWord(word, dataWidth, "hex")};`;
+    const char = getWordCharacter(memory, address);
+    lines.push(options.includeComments && char !== null ? `${line}  // Char ${char}` : line);
+  });
+
+  lines.push(`            default: data <= ${dataWidth}'h${formatWord(0, dataWidth, "hex")};`);
+  lines.push("        endcase");
+  lines.push("    end");
+  lines.push("");
+  lines.push("endmodule");
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Generate a synthesizable VHDL ROM entity
+ * The ROM has a registered output and always spans the full address range.
+ */
+export function exportToVhdlRom(
+  characters: Character[],
+  config: CharacterSetConfig,
+  options: MemoryInitOptions
+): string {
+  const memory = getMemoryWords(characters, config, options);
+  const { dataWidth, moduleName } = options;
+  const lines: string[] = [];
+
+  if (options.includeComments) {
+    lines.push(...getMemoryHeader(characters, config, options, memory).map((line) => `-- ${line}`.trimEnd()));
+    lines.push("");
+  }
+
+  lines.push("library ieee;");
+  lines.push("use ieee.std_logic_1164.all;");
+  lines.push("use ieee.numeric_std.all;");
+  lines.push("");
+  lines.push(`entity ${moduleName} is`);
+  lines.push("    port (");
+  lines.push("        clk  : in  std_logic;");
+  lines.push(`        addr : in  std_logic_vector(${memory.addressBits - 1} downto 0);`);
+  lines.push(`        data : out std_logic_vector(${dataWidth - 1} downto 0)`);
+  lines.push("    );");
+  lines.push(`end entity ${moduleName};`);
+  lines.push("");
+  lines.push(`architecture rtl of ${moduleName} is`);
+  lines.push(`    type rom_t is array (0 to ${2 ** memory.addressBits - 1}) of std_logic_vector(${dataWidth - 1} downto 0);`);
+  lines.push("    constant ROM : rom_t := (");
+
+  memory.words.forEach((word, address) => {
+    const line = `        x"${formatWord(word, dataWidth, "hex")}",`;
+    const char = getWordCharacter(memory, address);
+    lines.push(options.includeComments && char !== null ? `${line}  -- Char ${char}` : line);
+  });
+
+  lines.push("        others => (others => '0')");
+  lines.push("    );");
+  lines.push("begin");
+  lines.push("    process (clk)");
+  lines.push("    begin");
+  lines.push("        if rising_edge(clk) then");
+  lines.push("            data <= ROM(to_integer(unsigned(addr)));");
+  lines.push("        end if;");
+  lines.push("    end process;");
+  lines.push("end architecture rtl;");
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Generate an FPGA memory initialization file in the given format
+ */
+export function exportToMemoryInit(
+  characters: Character[],
+  config: CharacterSetConfig,
+  format: MemoryInitFormat,
+  options: MemoryInitOptions
+): string {
+  switch (format) {
+    case "mem":
+      return exportToMem(characters, config, options);
+    case "mif":
+      return exportToMif(characters, config, options);
+    case "coe":
+      return exportToCoe(characters, config, options);
+    case "verilog":
+      return exportToVerilogRom(characters, config, options);
+    case "vhdl":
+      return exportToVhdlRom(characters, config, options);
+  }
+}
+
 /**
  * Generate PNG image as data URL
  * Returns a promise that resolves to a data URL
@@ -398,6 +1903,7 @@ export async function exportToPng(
   const rows = Math.ceil(characters.length / columns);
   const charWidth = config.width;
   const charHeight = config.height;
+  const palette = options.palette ?? getMulticolorPalette(foregroundColor, backgroundColor);
 
   // Calculate canvas size
   const gridThickness = showGrid ? 1 : 0;
@@ -451,7 +1957,12 @@ export async function exportToPng(
       for (let px = 0; px < charWidth; px++) {
         const isOn = character.pixels[py]?.[px] || false;
 
-        if (isOn) {
+        if (isOn && character.colors) {
+          // Multicolor pixel - draw with its palette color
+          ctx.fillStyle = palette[getPixelColor(character, py, px)] ?? foregroundColor;
+          ctx.fillRect(baseX + px * scale, baseY + py * scale, scale, scale);
+          ctx.fillStyle = foregroundColor;
+        } else if (isOn) {
           ctx.fillRect(baseX + px * scale, baseY + py * scale, scale, scale);
         } else if (!transparent && !hasBloom) {
           // Only draw background pixels if no bloom (bloom looks better without explicit bg pixels)
@@ -535,11 +2046,12 @@ export async function exportToPng(
 }
 
 /**
- * Get printable ASCII character or control code name
+ * Get the printable character or control code name of a code point
  */
-function getAsciiLabel(code: number): string {
-  if (code >= 32 && code <= 126) {
-    return String.fromCharCode(code);
+function getAsciiLabel(code: number | null): string {
+  if (code === null) return "";
+  if (isPrintableCodePoint(code)) {
+    return String.fromCodePoint(code);
   }
   // Control characters
   const controlNames: Record<number, string> = {
@@ -554,12 +2066,14 @@ function getAsciiLabel(code: number): string {
 
 /**
  * Generate Reference Sheet Canvas
- * Creates a canvas with the printable reference
+ * Creates a canvas with the printable reference.
+ * Character labels use the set's Unicode mapping when it has one.
  */
 function generateReferenceSheetCanvas(
   characters: Character[],
   config: CharacterSetConfig,
-  options: ReferenceSheetOptions
+  options: ReferenceSheetOptions,
+  unicodeMap?: (number | null)[]
 ): HTMLCanvasElement {
   const {
     columns,
@@ -798,11 +2312,12 @@ function generateReferenceSheetCanvas(
 
         // ASCII
         if (showAscii || showNonPrintableAscii) {
-          const isPrintable = charIdx >= 32 && charIdx <= 126;
+          const codePoint = getIndexCodePoint(charIdx, unicodeMap);
+          const isPrintable = codePoint !== null && isPrintableCodePoint(codePoint);
           const shouldShow = (isPrintable && showAscii) || (!isPrintable && showNonPrintableAscii);
 
           if (shouldShow) {
-            const asciiLabel = getAsciiLabel(charIdx);
+            const asciiLabel = getAsciiLabel(codePoint);
             if (asciiLabel) {
               ctx.fillStyle = isPrintable ? asciiColor : nonPrintableAsciiColor;
               ctx.fillText(asciiLabel, colX + asciiColWidth / 2, rowY + 6 * resMult);
@@ -975,11 +2490,12 @@ function generateReferenceSheetCanvas(
       }
 
       if (showAscii || showNonPrintableAscii) {
-        const isPrintable = i >= 32 && i <= 126;
+        const codePoint = getIndexCodePoint(i, unicodeMap);
+        const isPrintable = codePoint !== null && isPrintableCodePoint(codePoint);
         const shouldShow = (isPrintable && showAscii) || (!isPrintable && showNonPrintableAscii);
 
         if (shouldShow) {
-          const asciiLabel = getAsciiLabel(i);
+          const asciiLabel = getAsciiLabel(codePoint);
           if (asciiLabel) {
             ctx.fillStyle = isPrintable ? asciiColor : nonPrintableAsciiColor;
             ctx.fillText(asciiLabel, labelX, labelY);
@@ -1017,9 +2533,10 @@ function generateReferenceSheetCanvas(
 export async function exportToReferenceSheet(
   characters: Character[],
   config: CharacterSetConfig,
-  options: ReferenceSheetOptions
+  options: ReferenceSheetOptions,
+  unicodeMap?: (number | null)[]
 ): Promise<Blob> {
-  const canvas = generateReferenceSheetCanvas(characters, config, options);
+  const canvas = generateReferenceSheetCanvas(characters, config, options, unicodeMap);
 
   // Convert to blob
   return new Promise((resolve, reject) => {
@@ -1043,9 +2560,10 @@ export async function exportToReferenceSheet(
 export async function exportToReferenceSheetPdf(
   characters: Character[],
   config: CharacterSetConfig,
-  options: ReferenceSheetOptions
+  options: ReferenceSheetOptions,
+  unicodeMap?: (number | null)[]
 ): Promise<Blob> {
-  const canvas = generateReferenceSheetCanvas(characters, config, options);
+  const canvas = generateReferenceSheetCanvas(characters, config, options, unicodeMap);
 
   // Get canvas dimensions
   const imgWidth = canvas.width;
@@ -1149,7 +2667,10 @@ export function getBitLayoutVisualization(
   row: number = 0
 ): { bits: string; hex: string; padding: string } {
   const bytes = characterToBytes(character, config);
-  const bpl = bytesPerLine(config.width);
+  // Column-major data stores one column per line instead of one row
+  const lineLength = config.byteLayout === "column" ? config.height : config.width;
+  const bpl = bytesPerLine(lineLength, config.bitsPerPixel);
+  const dataBits = lineLength * (config.bitsPerPixel ?? 1);
   const rowBytes = bytes.slice(row * bpl, (row + 1) * bpl);
 
   // Get bits as string
@@ -1160,13 +2681,13 @@ export function getBitLayoutVisualization(
 
   // Mark padding bits
   const totalBits = bpl * 8;
-  const paddingBits = totalBits - config.width;
+  const paddingBits = totalBits - dataBits;
   let padding = "";
 
   if (config.padding === "left") {
-    padding = "P".repeat(paddingBits) + "D".repeat(config.width);
+    padding = "P".repeat(paddingBits) + "D".repeat(dataBits);
   } else {
-    padding = "D".repeat(config.width) + "P".repeat(paddingBits);
+    padding = "D".repeat(dataBits) + "P".repeat(paddingBits);
   }
 
   // Get hex representation
@@ -22,6 +22,8 @@ export interface FontImportOptions {
   threshold: number;
   centerGlyphs: boolean;
   baselineOffset: number;
+  bitmapStrikePpem: number | null;
+  codePoints: (number | null)[] | null;
 }
 
 export interface FontParseResult {
@@ -29,6 +31,8 @@ export interface FontParseResult {
   fontFamily: string;
   importedCount: number;
   missingCount: number;
+  bitmapCount: number;
+  missingIndices: number[];
 }
 
 // ============================================================================
@@ -45,6 +49,8 @@ export function getDefaultFontImportOptions(): FontImportOptions {
     threshold: 128,
     centerGlyphs: true,
     baselineOffset: 0,
+    bitmapStrikePpem: null,
+    codePoints: null,
   };
 }
 
@@ -128,6 +134,8 @@ export class FontParseController {
       fontFamily: "Mock Font",
       importedCount: 0,
       missingCount: 0,
+      bitmapCount: 0,
+      missingIndices: [],
     };
   }
 
@@ -196,5 +204,7 @@ export async function parseFontToCharacters(
     fontFamily: "Mock Font",
     importedCount: 0,
     missingCount: 0,
+    bitmapCount: 0,
+    missingIndices: [],
   };
 }
@@ -0,0 +1,185 @@
+/**
+ * Character ROM Editor - BDF Import Tests
+ *
+ * Tests for BDF bitmap font parsing:
+ * - Header, bounding box and property parsing
+ * - Glyph placement with BBX offsets
+ * - Encodings and error handling
+ * - Round trips with exportToBdf
+ */
+
+// Mock jsPDF to avoid TextEncoder issues in test environment
+jest.mock("jspdf", () => ({
+  jsPDF: jest.fn(),
+}));
+
+import { isBdfFile, isBdfContent, parseBdf } from "@/lib/character-editor/import/bdf";
+import { bitmapFontToCharacters } from "@/lib/character-editor/import/bitmapFont";
+import { exportToBdf } from "@/lib/character-editor/exports";
+import {
+  createMockCharacters,
+  createMockConfig,
+  characterArraysEqual,
+} from "@/lib/character-editor/__tests__/testUtils";
+
+/**
+ * Build a BDF font from glyph definitions
+ */
+function createBdf(
+  glyphs: { encoding: string; bbx: string; rows: string[] }[],
+  fontBoundingBox = "8 8 0 -1"
+): string {
+  return [
+    "STARTFONT 2.1",
+    "FONT -Test-Tiny-Medium-R-Normal--8-80-75-75-C-80-ISO10646-1",
+    "SIZE 8 75 75",
+    `FONTBOUNDINGBOX ${fontBoundingBox}`,
+    "STARTPROPERTIES 2",
+    'FAMILY_NAME "Tiny"',
+    "FONT_ASCENT 7",
+    "ENDPROPERTIES",
+    `CHARS ${glyphs.length}`,
+    ...glyphs.flatMap((glyph, i) => [
+      `STARTCHAR glyph${i}`,
+      `ENCODING ${glyph.encoding}`,
+      "SWIDTH 1000 0",
+      "DWIDTH 8 0",
+      `BBX ${glyph.bbx}`,
+      "BITMAP",
+      ...glyph.rows,
+      "ENDCHAR",
+    ]),
+    "ENDFONT",
+  ].join("\n");
+}
+
+/**
+ * Render glyph pixels as strings for readable assertions
+ */
+function render(pixels: boolean[][]): string[] {
+  return pixels.map((row) => row.map((pixel) => (pixel ? "#" : ".")).join(""));
+}
+
+describe("isBdfFile and isBdfContent", () => {
+  it("recognizes BDF files", () => {
+    expect(isBdfFile("font.bdf")).toBe(true);
+    expect(isBdfFile("FONT.BDF")).toBe(true);
+    expect(isBdfFile("font.ttf")).toBe(false);
+    expect(isBdfContent("STARTFONT 2.1\n")).toBe(true);
+    expect(isBdfContent("hello")).toBe(false);
+  });
+});
+
+describe("parseBdf", () => {
+  it("reads the font name and cell size", () => {
+    const font = parseBdf(createBdf([{ encoding: "65", bbx: "8 8 0 -1", rows: Array(8).fill("00") }]));
+
+    expect(font.name).toBe("Tiny");
+    expect(font.family).toBe("Tiny");
+    expect(font.width).toBe(8);
+    expect(font.height).toBe(8);
+    expect(font.ascent).toBe(7);
+    expect(font.glyphs).toHaveLength(1);
+    expect(font.glyphs[0].encoding).toBe(65);
+    expect(font.glyphs[0].name).toBe("glyph0");
+  });
+
+  it("decodes full-cell bitmaps", () => {
+    const font = parseBdf(
+      createBdf([{ encoding: "1", bbx: "8 8 0 -1", rows: ["FF", "81", "81", "81", "81", "81", "81", "FF"] }])
+    );
+
+    expect(render(font.glyphs[0].pixels)[0]).toBe("########");
+    expect(render(font.glyphs[0].pixels)[1]).toBe("#......#");
+  });
+
+  it("places glyphs by their BBX offsets", () => {
+    // A 2x2 glyph, 3 pixels right, with its bottom 2 rows above the baseline
+    const font = parseBdf(createBdf([{ encoding: "46", bbx: "2 2 3 2", rows: ["C0", "C0"] }]));
+
+    // Baseline is 7 rows from the top, so the glyph covers rows 3-4
+    expect(render(font.glyphs[0].pixels)).toEqual([
+      "........",
+      "........",
+      "........",
+      "...##...",
+      "...##...",
+      "........",
+      "........",
+      "........",
+    ]);
+  });
+
+  it("places descenders below the baseline", () => {
+    const font = parseBdf(createBdf([{ encoding: "103", bbx: "1 2 0 -1", rows: ["80", "80"] }]));
+
+    expect(render(font.glyphs[0].pixels)[6]).toBe("#.......");
+    expect(render(font.glyphs[0].pixels)[7]).toBe("#.......");
+  });
+
+  it("clips glyphs that extend beyond the cell", () => {
+    const font = parseBdf(createBdf([{ encoding: "1", bbx: "8 2 4 6", rows: ["FF", "FF"] }]));
+
+    expect(render(font.glyphs[0].pixels)[0]).toBe("....####");
+    expect(font.glyphs[0].pixels.every((row) => row.length === 8)).toBe(true);
+  });
+
+  it("handles glyphs wider than 8 pixels", () => {
+    const font = parseBdf(createBdf([{ encoding: "1", bbx: "10 1 0 0", rows: ["FFC0"] }], "10 2 0 -1"));
+
+    expect(render(font.glyphs[0].pixels)[0]).toBe("##########");
+  });
+
+  it("uses alternate encodings and skips unencoded glyphs", () => {
+    const font = parseBdf(
+      createBdf([
+        { encoding: "-1 200", bbx: "1 1 0 0", rows: ["80"] },
+        { encoding: "-1", bbx: "1 1 0 0", rows: ["80"] },
+      ])
+    );
+
+    expect(font.glyphs.map((glyph) => glyph.encoding)).toEqual([200]);
+  });
+
+  it("rejects invalid files", () => {
+    expect(() => parseBdf("hello")).toThrow("Not a BDF font");
+    expect(() => parseBdf("STARTFONT 2.1\nENDFONT\n")).toThrow("no FONTBOUNDINGBOX");
+    expect(() => parseBdf(createBdf([{ encoding: "1", bbx: "8 1 0 0", rows: ["XY"] }]))).toThrow(
+      "Invalid bitmap data"
+    );
+    expect(() => parseBdf(createBdf([{ encoding: "1", bbx: "8 a 0 0", rows: ["FF"] }]))).toThrow("Invalid BBX");
+    expect(() => parseBdf(createBdf([{ encoding: "-1", bbx: "8 1 0 0", rows: ["FF"] }]))).toThrow(
+      "no encoded glyphs"
+    );
+  });
+});
+
+describe("round trips with exportToBdf", () => {
+  it("re-imports exported characters at their indices", () => {
+    const config = createMockConfig({ width: 8, height: 8 });
+    const characters = createMockCharacters(16, 8, 8, ["checkerboard", "diagonal", "filled", "empty"]);
+    const text = exportToBdf(characters, config, { fontName: "Test", firstEncoding: 32, descent: 1 });
+
+    const font = parseBdf(text);
+    const result = bitmapFontToCharacters(font, { startCode: 32, endCode: 47 });
+
+    expect(font.ascent).toBe(7);
+    expect(result.missing).toEqual([]);
+    expect(characterArraysEqual(result.characters, characters)).toBe(true);
+  });
+
+  it("round-trips narrow and wide characters", () => {
+    for (const [width, height] of [
+      [5, 7],
+      [12, 16],
+    ]) {
+      const config = createMockConfig({ width, height });
+      const characters = createMockCharacters(4, width, height, ["diagonal", "checkerboard"]);
+      const text = exportToBdf(characters, config, { fontName: "Test", firstEncoding: 0, descent: 2 });
+
+      const result = bitmapFontToCharacters(parseBdf(text), { startCode: 0, endCode: 3 });
+
+      expect(characterArraysEqual(result.characters, characters)).toBe(true);
+    }
+  });
+});
@@ -508,6 +508,235 @@ describe("byte order round-trip tests", () => {
   });
 });
 
+describe("multicolor (2bpp) conversion", () => {
+  const mcConfig = createMockConfig({ width: 4, height: 2, bitsPerPixel: 2 });
+
+  it("reads bit pairs as color indices", () => {
+    // 0xE4 = 11 10 01 00
+    const character = bytesToCharacter(new Uint8Array([0xe4, 0x1b]), mcConfig);
+
+    expect(character.colors).toEqual([
+      [3, 2, 1, 0],
+      [0, 1, 2, 3],
+    ]);
+    expect(character.pixels[0]).toEqual([true, true, true, false]);
+  });
+
+  it("orders bit pairs from the right with lsb bit direction", () => {
+    const config = { ...mcConfig, bitDirection: "lsb" as const };
+    const character = bytesToCharacter(new Uint8Array([0xe4, 0x00]), config);
+
+    expect(character.colors?.[0]).toEqual([0, 1, 2, 3]);
+  });
+
+  it("writes color indices as bit pairs", () => {
+    const character: Character = {
+      pixels: [
+        [true, true, true, false],
+        [false, false, false, false],
+      ],
+      colors: [
+        [3, 2, 1, 0],
+        [0, 0, 0, 0],
+      ],
+    };
+
+    expect(Array.from(characterToBytes(character, mcConfig))).toEqual([0xe4, 0x00]);
+  });
+
+  it("writes monochrome pixels as color 3", () => {
+    const character: Character = {
+      pixels: [
+        [true, false, false, true],
+        [false, false, false, false],
+      ],
+    };
+
+    expect(Array.from(characterToBytes(character, mcConfig))).toEqual([0xc3, 0x00]);
+  });
+
+  it("uses two bytes per row for 8 pixel wide characters", () => {
+    const config = createMockConfig({ width: 8, height: 8, bitsPerPixel: 2 });
+    const characters = parseCharacterRom(new Uint8Array(32), config);
+
+    expect(characters).toHaveLength(2);
+    expect(characters[0].pixels[0]).toHaveLength(8);
+  });
+
+  it("round-trips through serializeCharacterRom and parseCharacterRom", () => {
+    const config = createMockConfig({ width: 4, height: 8, bitsPerPixel: 2, padding: "left" });
+    const original = Array.from({ length: 3 }, (_, i) => ({
+      pixels: Array.from({ length: 8 }, (_, row) =>
+        Array.from({ length: 4 }, (_, col) => (row + col + i) % 4 !== 0)
+      ),
+      colors: Array.from({ length: 8 }, (_, row) =>
+        Array.from({ length: 4 }, (_, col) => (row + col + i) % 4)
+      ),
+    }));
+
+    const restored = parseCharacterRom(serializeCharacterRom(original, config), config);
+
+    expect(restored.map((c) => c.colors)).toEqual(original.map((c) => c.colors));
+  });
+
+  it("leaves 1bpp characters without a color plane", () => {
+    const config = createMockConfig({ width: 8, height: 1 });
+    const character = bytesToCharacter(new Uint8Array([0xaa]), config);
+
+    expect(character.colors).toBeUndefined();
+  });
+});
+
+describe("column-major (vertical byte) conversion", () => {
+  // Letter "A" from a 5x8 SSD1306 font (bit 0 = top pixel)
+  const ssd1306A = new Uint8Array([0x7c, 0x12, 0x11, 0x12, 0x7c]);
+  const ssd1306Config = createMockConfig({
+    width: 5,
+    height: 8,
+    bitDirection: "lsb",
+    byteLayout: "column",
+  });
+
+  it("reads one byte per column with the top pixel in bit 0", () => {
+    const character = bytesToCharacter(ssd1306A, ssd1306Config);
+
+    expect(character.pixels).toHaveLength(8);
+    expect(character.pixels[0]).toEqual([false, false, true, false, false]);
+    expect(character.pixels[1]).toEqual([false, true, false, true, false]);
+    expect(character.pixels[2]).toEqual([true, false, false, false, true]);
+    expect(character.pixels[7]).toEqual([false, false, false, false, false]);
+  });
+
+  it("reads the top pixel from bit 7 with msb bit direction", () => {
+    const config = createMockConfig({ width: 2, height: 8, byteLayout: "column" });
+    const character = bytesToCharacter(new Uint8Array([0x80, 0x01]), config);
+
+    expect(character.pixels[0]).toEqual([true, false]);
+    expect(character.pixels[7]).toEqual([false, true]);
+  });
+
+  it("writes one byte per column", () => {
+    const character = bytesToCharacter(ssd1306A, ssd1306Config);
+
+    expect(Array.from(characterToBytes(character, ssd1306Config))).toEqual(Array.from(ssd1306A));
+  });
+
+  it("uses two bytes per column for characters taller than 8 pixels", () => {
+    const config = createMockConfig({ width: 8, height: 16, byteLayout: "column" });
+    const bytes = characterToBytes(createMockCharacter(8, 16, "diagonal"), config);
+
+    expect(bytes).toHaveLength(16);
+  });
+
+  it("honors byte order within multi-byte columns", () => {
+    const big = createMockConfig({ width: 1, height: 16, byteLayout: "column", byteOrder: "big" });
+    const little = { ...big, byteOrder: "little" as const };
+    const character = bytesToCharacter(new Uint8Array([0x80, 0x00]), big);
+
+    expect(character.pixels[0][0]).toBe(true);
+    expect(Array.from(characterToBytes(character, little))).toEqual([0x00, 0x80]);
+  });
+
+  it("pads columns that are not a multiple of 8 pixels", () => {
+    const config = createMockConfig({ width: 1, height: 7, byteLayout: "column", padding: "left" });
+    const character = createMockCharacter(1, 7, "filled");
+
+    expect(Array.from(characterToBytes(character, config))).toEqual([0x7f]);
+  });
+
+  it("round-trips through serializeCharacterRom and parseCharacterRom", () => {
+    const config = createMockConfig({ width: 6, height: 12, byteLayout: "column" });
+    const original = createMockCharacters(4, 6, 12, ["checkerboard", "diagonal", "filled"]);
+    const data = serializeCharacterRom(original, config);
+
+    expect(data).toHaveLength(4 * 6 * 2);
+    expect(characterArraysEqual(parseCharacterRom(data, config), original)).toBe(true);
+  });
+
+  it("round-trips multicolor columns", () => {
+    const config = createMockConfig({ width: 2, height: 4, byteLayout: "column", bitsPerPixel: 2 });
+    const character = bytesToCharacter(new Uint8Array([0xe4, 0x1b]), config);
+
+    expect(character.colors?.map((row) => row[0])).toEqual([3, 2, 1, 0]);
+    expect(Array.from(characterToBytes(character, config))).toEqual([0xe4, 0x1b]);
+  });
+});
+
+describe("ROM layout (stride, skip and split) conversion", () => {
+  it("reads characters from padded slots", () => {
+    const config = createMockConfig({ width: 8, height: 2, romLayout: { stride: 4, skip: 2 } });
+    const data = new Uint8Array([0xee, 0xee, 0xff, 0x81, 0xee, 0xee, 0x18, 0x00, 0xee, 0xee]);
+    const characters = parseCharacterRom(data, config);
+
+    expect(characters).toHaveLength(2);
+    expect(Array.from(characterToBytes(characters[0], config))).toEqual([0xff, 0x81]);
+    expect(Array.from(characterToBytes(characters[1], config))).toEqual([0x18, 0x00]);
+  });
+
+  it("writes zero-filled gaps between slots", () => {
+    const config = createMockConfig({ width: 8, height: 2, romLayout: { stride: 4, skip: 2 } });
+    const characters = createMockCharacters(2, 8, 2, ["filled"]);
+
+    expect(Array.from(serializeCharacterRom(characters, config))).toEqual([
+      0, 0, 0xff, 0xff, 0, 0, 0xff, 0xff, 0, 0,
+    ]);
+  });
+
+  it("writes gaps between slots as the fill byte", () => {
+    const config = createMockConfig({ width: 8, height: 2, romLayout: { stride: 4, skip: 2 } });
+    const characters = createMockCharacters(2, 8, 2, ["empty"]);
+
+    expect(Array.from(serializeCharacterRom(characters, config, 0xff))).toEqual([
+      0xff, 0xff, 0, 0, 0xff, 0xff, 0, 0, 0xff, 0xff,
+    ]);
+  });
+
+  it("reads split ROMs like the IBM MDA character generator", () => {
+    // Rows 0-7 of each character at 0x000, rows 8-13 at 0x800
+    const config = createMockConfig({
+      width: 8,
+      height: 14,
+      romLayout: { stride: 8, splitRow: 8, splitOffset: 0x800 },
+    });
+    const data = new Uint8Array(0x1000);
+    data[8] = 0x81; // Character 1, row 0
+    data[0x800 + 8 + 5] = 0x3c; // Character 1, row 13
+
+    const characters = parseCharacterRom(data, config);
+    const bytes = characterToBytes(characters[1], config);
+
+    expect(characters).toHaveLength(256);
+    expect(bytes[0]).toBe(0x81);
+    expect(bytes[13]).toBe(0x3c);
+  });
+
+  it("round-trips split ROMs", () => {
+    const config = createMockConfig({
+      width: 8,
+      height: 14,
+      romLayout: { stride: 8, splitRow: 8, splitOffset: 0x800 },
+    });
+    const original = createMockCharacters(256, 8, 14, ["checkerboard", "diagonal", "filled"]);
+    const data = serializeCharacterRom(original, config);
+
+    expect(data).toHaveLength(0x1000);
+    expect(characterArraysEqual(parseCharacterRom(data, config), original)).toBe(true);
+  });
+
+  it("stores character sets packed", () => {
+    const config = createMockConfig({ width: 8, height: 8, romLayout: { stride: 16, skip: 4 } });
+    const original = createMockCharacters(4, 8, 8, ["diagonal"]);
+    const serialized = serializeCharacterSet({
+      metadata: createMockMetadata(),
+      config,
+      characters: original,
+    });
+
+    expect(base64ToBinary(serialized.binaryData)).toHaveLength(32);
+    expect(characterArraysEqual(deserializeCharacterSet(serialized).characters, original)).toBe(true);
+  });
+});
+
 // ============================================================================
 // characterToBytes Tests
 // ============================================================================
@@ -1102,6 +1331,18 @@ describe("serializeCharacterSet", () => {
     // 256 chars * 8 bytes = 2048 bytes, base64 of that is ~2730 chars
     expect(serialized.binaryData.length).toBeGreaterThan(2000);
   });
+
+  it("includes banks only when present", () => {
+    const characterSet = createMockCharacterSet({ characterCount: 16 });
+    expect(serializeCharacterSet(characterSet)).not.toHaveProperty("banks");
+
+    const banks = [
+      { name: "Upper", characterCount: 8 },
+      { name: "Lower", characterCount: 8 },
+    ];
+    const serialized = serializeCharacterSet({ ...characterSet, banks });
+    expect(serialized.banks).toEqual(banks);
+  });
 });
 
 // ============================================================================
@@ -1138,6 +1379,25 @@ describe("deserializeCharacterSet", () => {
     expect(characterSet.characters[0].pixels[0].every((p) => p === true)).toBe(true);
   });
 
+  it("restores banks from the serialized data", () => {
+    const config = createMockConfig();
+    const characters = createMockCharacters(4, config.width, config.height, ["filled"]);
+    const banks = [
+      { name: "A", characterCount: 2 },
+      { name: "B", characterCount: 2 },
+    ];
+    const serialized = {
+      metadata: createMockMetadata(),
+      config,
+      binaryData: binaryToBase64(serializeCharacterRom(characters, config)),
+      banks,
+    };
+    const characterSet = deserializeCharacterSet(serialized);
+
+    expect(characterSet.banks).toEqual(banks);
+    expect(characterSet.characters.length).toBe(4);
+  });
+
   it("preserves metadata on deserialization", () => {
     const metadata = createMockMetadata({
       name: "Restored ROM",
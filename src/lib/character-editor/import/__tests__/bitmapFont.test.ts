@@ -0,0 +1,102 @@
+/**
+ * Character ROM Editor - Bitmap Font Import Tests
+ *
+ * Tests for mapping bitmap font glyphs to characters:
+ * - Encoding ranges and default import options
+ * - Placing glyphs at their encoding minus the start code
+ * - Missing glyphs and cell size limits
+ */
+
+import {
+  BitmapFont,
+  bitmapFontToCharacters,
+  getBitmapFontEncodingRange,
+  getDefaultBitmapFontImportOptions,
+} from "@/lib/character-editor/import/bitmapFont";
+import { createMockCharacter } from "@/lib/character-editor/__tests__/testUtils";
+
+/**
+ * Create a font with filled glyphs at the given encodings
+ */
+function createFont(encodings: number[], width = 8, height = 8): BitmapFont {
+  return {
+    name: "Test",
+    width,
+    height,
+    ascent: height - 1,
+    glyphs: encodings.map((encoding) => ({
+      encoding,
+      pixels: createMockCharacter(width, height, "filled").pixels,
+    })),
+  };
+}
+
+describe("getBitmapFontEncodingRange", () => {
+  it("returns the lowest and highest encodings", () => {
+    expect(getBitmapFontEncodingRange(createFont([65, 32, 126]))).toEqual({ min: 32, max: 126 });
+  });
+
+  it("returns null for fonts without glyphs", () => {
+    expect(getBitmapFontEncodingRange(createFont([]))).toBeNull();
+  });
+});
+
+describe("getDefaultBitmapFontImportOptions", () => {
+  it("imports 128 characters for 7-bit fonts", () => {
+    expect(getDefaultBitmapFontImportOptions(createFont([32, 126]))).toEqual({ startCode: 0, endCode: 127 });
+  });
+
+  it("imports 256 characters for 8-bit fonts", () => {
+    expect(getDefaultBitmapFontImportOptions(createFont([0, 200]))).toEqual({ startCode: 0, endCode: 255 });
+  });
+
+  it("starts at the lowest encoding for fonts without 8-bit glyphs", () => {
+    expect(getDefaultBitmapFontImportOptions(createFont([0x2500, 0x257f]))).toEqual({
+      startCode: 0x2500,
+      endCode: 0x25ff,
+    });
+    expect(getDefaultBitmapFontImportOptions(createFont([32, 0x2500]))).toEqual({ startCode: 0, endCode: 255 });
+  });
+});
+
+describe("bitmapFontToCharacters", () => {
+  it("places glyphs at their encoding minus the start code", () => {
+    const result = bitmapFontToCharacters(createFont([65, 66]), { startCode: 64, endCode: 67 });
+
+    expect(result.characters).toHaveLength(4);
+    expect(result.characters[1].pixels[0][0]).toBe(true);
+    expect(result.characters[2].pixels[0][0]).toBe(true);
+    expect(result.missing).toEqual([0, 3]);
+    expect(result.config).toEqual({ width: 8, height: 8, padding: "right", bitDirection: "msb" });
+  });
+
+  it("fills missing glyphs with blank characters", () => {
+    const result = bitmapFontToCharacters(createFont([1], 5, 7), { startCode: 0, endCode: 1 });
+
+    expect(result.characters[0].pixels).toHaveLength(7);
+    expect(result.characters[0].pixels[0]).toHaveLength(5);
+    expect(result.characters[0].pixels.flat().some(Boolean)).toBe(false);
+  });
+
+  it("keeps the first glyph for duplicate encodings", () => {
+    const font = createFont([0, 0]);
+    font.glyphs[1].pixels = createMockCharacter(8, 8, "empty").pixels;
+
+    expect(bitmapFontToCharacters(font, { startCode: 0, endCode: 0 }).characters[0].pixels[0][0]).toBe(true);
+  });
+
+  it("maps characters to the first Unicode value of their glyph", () => {
+    const font = createFont([0, 1, 2]);
+    font.glyphs[0].unicode = [0x2591, 0x2592];
+    font.glyphs[2].unicode = [0x41];
+
+    expect(bitmapFontToCharacters(font, { startCode: 0, endCode: 3 }).unicodeMap).toEqual([0x2591, null, 0x41, null]);
+    expect(bitmapFontToCharacters(createFont([0]), { startCode: 0, endCode: 0 }).unicodeMap).toBeUndefined();
+  });
+
+  it("rejects cells larger than the editor supports", () => {
+    expect(() => bitmapFontToCharacters(createFont([0], 24, 24), { startCode: 0, endCode: 0 })).toThrow(
+      "Font cell is 24x24 pixels"
+    );
+  });
+});
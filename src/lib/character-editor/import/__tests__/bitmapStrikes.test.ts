@@ -0,0 +1,285 @@
+/**
+ * Character ROM Editor - Bitmap Strike Tests
+ *
+ * Tests for reading embedded bitmap strikes from font files:
+ * - Strike records in EBLC/CBLC
+ * - Index subtable formats and EBDT image formats
+ * - PNG glyphs in CBDT
+ * - Placing strike glyphs in character cells
+ */
+
+import { zlibSync } from "fflate";
+import {
+  getBitmapStrikes,
+  getStrikeGlyph,
+  readBitmapStrikes,
+  renderStrikeGlyph,
+  strikeGlyphToCharacter,
+} from "@/lib/character-editor/import/bitmapStrikes";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const u8 = (value: number) => [value & 0xff];
+const u16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+const u32 = (value: number) => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+interface TestStrike {
+  ppem: number;
+  bitDepth?: number;
+  firstGlyph: number;
+  lastGlyph: number;
+  /** Index subtable after its 8-byte header */
+  indexFormat: number;
+  imageFormat: number;
+  indexBody: number[];
+  /** Offset of this strike's images in the data table */
+  imageDataOffset: number;
+}
+
+/**
+ * Build an EBLC/CBLC table with one index subtable per strike
+ */
+function createLocationTable(strikes: TestStrike[]): number[] {
+  const header = [...u32(0x00020000), ...u32(strikes.length)];
+  const records: number[] = [];
+  const subTables: number[] = [];
+  let arrayOffset = 8 + strikes.length * 48;
+
+  for (const strike of strikes) {
+    const subTable = [...u16(strike.indexFormat), ...u16(strike.imageFormat), ...u32(strike.imageDataOffset), ...strike.indexBody];
+    const array = [...u16(strike.firstGlyph), ...u16(strike.lastGlyph), ...u32(8)];
+    records.push(
+      ...u32(arrayOffset),
+      ...u32(array.length + subTable.length),
+      ...u32(1),
+      ...u32(0),
+      // Horizontal line metrics: ascender 6, descender -2, widthMax 8
+      ...u8(6), ...u8(-2), ...u8(8), ...Array(9).fill(0),
+      ...Array(12).fill(0),
+      ...u16(strike.firstGlyph),
+      ...u16(strike.lastGlyph),
+      ...u8(strike.ppem),
+      ...u8(strike.ppem),
+      ...u8(strike.bitDepth ?? 1),
+      ...u8(1)
+    );
+    subTables.push(...array, ...subTable);
+    arrayOffset += array.length + subTable.length;
+  }
+
+  return [...header, ...records, ...subTables];
+}
+
+/**
+ * Build an sfnt file from tables
+ */
+function createFont(tables: Record<string, number[]>): ArrayBuffer {
+  const tags = Object.keys(tables);
+  let offset = 12 + tags.length * 16;
+  const directory: number[] = [...u32(0x00010000), ...u16(tags.length), ...u16(0), ...u16(0), ...u16(0)];
+  const bodies: number[] = [];
+
+  for (const tag of tags) {
+    directory.push(...Array.from(tag, (c) => c.charCodeAt(0)), ...u32(0), ...u32(offset), ...u32(tables[tag].length));
+    bodies.push(...tables[tag]);
+    offset += tables[tag].length;
+  }
+
+  return new Uint8Array([...directory, ...bodies]).buffer;
+}
+
+/**
+ * Build a grayscale+alpha PNG without checksums
+ */
+function createPng(rows: string[]): number[] {
+  const chunk = (type: string, data: number[]) => [
+    ...u32(data.length),
+    ...Array.from(type, (c) => c.charCodeAt(0)),
+    ...data,
+    ...u32(0),
+  ];
+  const raw = rows.flatMap((row) => [0, ...Array.from(row).flatMap((c) => (c === "#" ? [0, 255] : [255, 0]))]);
+  return [
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...chunk("IHDR", [...u32(rows[0].length), ...u32(rows.length), 8, 4, 0, 0, 0]),
+    ...chunk("IDAT", Array.from(zlibSync(new Uint8Array(raw)))),
+    ...chunk("IEND", []),
+  ];
+}
+
+/**
+ * Render glyph pixels as strings for readable assertions
+ */
+function render(pixels: boolean[][]): string[] {
+  return pixels.map((row) => row.map((pixel) => (pixel ? "#" : ".")).join(""));
+}
+
+/**
+ * A font with an 8 ppem strike for glyphs 1-2 (index format 1, byte-aligned small metrics)
+ * Glyph 2 has no bitmap.
+ */
+function createMonoFont(): ArrayBuffer {
+  const glyph1 = [...u8(3), ...u8(4), ...u8(1), ...u8(5), ...u8(6), 0b11110000, 0b10010000, 0b11110000];
+  const eblc = createLocationTable([
+    {
+      ppem: 8,
+      firstGlyph: 1,
+      lastGlyph: 2,
+      indexFormat: 1,
+      imageFormat: 1,
+      indexBody: [...u32(0), ...u32(glyph1.length), ...u32(glyph1.length)],
+      imageDataOffset: 4,
+    },
+  ]);
+  return createFont({ EBLC: eblc, EBDT: [...u32(0x00020000), ...glyph1] });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe("readBitmapStrikes and getBitmapStrikes", () => {
+  it("reads strike records", () => {
+    const strikes = getBitmapStrikes(createMonoFont());
+
+    expect(strikes).toHaveLength(1);
+    expect(strikes[0]).toMatchObject({
+      ppemX: 8,
+      ppemY: 8,
+      bitDepth: 1,
+      ascender: 6,
+      descender: -2,
+      maxWidth: 8,
+      startGlyph: 1,
+      endGlyph: 2,
+      color: false,
+    });
+  });
+
+  it("returns nothing for fonts without strikes or other files", () => {
+    expect(getBitmapStrikes(createFont({ head: Array(54).fill(0) }))).toEqual([]);
+    expect(getBitmapStrikes(new Uint8Array([1, 2, 3]).buffer)).toEqual([]);
+    expect(readBitmapStrikes(new TextEncoder().encode("wOF2 not supported").buffer as ArrayBuffer)).toBeNull();
+  });
+});
+
+describe("getStrikeGlyph", () => {
+  it("decodes byte-aligned glyphs with small metrics", () => {
+    const tables = readBitmapStrikes(createMonoFont())!;
+    const glyph = getStrikeGlyph(tables, 8, 1)!;
+
+    expect(glyph).toMatchObject({ width: 4, height: 3, bearingX: 1, bearingY: 5, advance: 6 });
+    expect(render(glyph.pixels)).toEqual(["####", "#..#", "####"]);
+  });
+
+  it("returns null for missing glyphs and sizes", () => {
+    const tables = readBitmapStrikes(createMonoFont())!;
+
+    expect(getStrikeGlyph(tables, 8, 2)).toBeNull();
+    expect(getStrikeGlyph(tables, 8, 7)).toBeNull();
+    expect(getStrikeGlyph(tables, 12, 1)).toBeNull();
+  });
+
+  it("decodes bit-aligned glyphs with shared metrics (index format 2, image format 5)", () => {
+    // Two 3x3 glyphs packed without row padding: 9 bits each, 2 bytes per image
+    const bigMetrics = [...u8(3), ...u8(3), ...u8(0), ...u8(3), ...u8(4), 0, 0, 0];
+    const eblc = createLocationTable([
+      {
+        ppem: 10,
+        firstGlyph: 5,
+        lastGlyph: 6,
+        indexFormat: 2,
+        imageFormat: 5,
+        indexBody: [...u32(2), ...bigMetrics],
+        imageDataOffset: 4,
+      },
+    ]);
+    // Glyph 5: "#.#" ".#." "#.#" = 101 010 101 -> 10101010 1(0000000)
+    // Glyph 6: "###" "..." "###" = 111 000 111 -> 11100011 1(0000000)
+    const ebdt = [...u32(0x00020000), 0b10101010, 0b10000000, 0b11100011, 0b10000000];
+    const tables = readBitmapStrikes(createFont({ EBLC: eblc, EBDT: ebdt }))!;
+
+    expect(render(getStrikeGlyph(tables, 10, 5)!.pixels)).toEqual(["#.#", ".#.", "#.#"]);
+    expect(render(getStrikeGlyph(tables, 10, 6)!.pixels)).toEqual(["###", "...", "###"]);
+  });
+
+  it("decodes grayscale glyphs", () => {
+    // 2-bit pixels 0, 1, 2, 3: the upper half is set
+    const glyph = [...u8(1), ...u8(4), ...u8(0), ...u8(1), ...u8(4), 0b00011011];
+    const eblc = createLocationTable([
+      {
+        ppem: 8,
+        bitDepth: 2,
+        firstGlyph: 1,
+        lastGlyph: 1,
+        indexFormat: 1,
+        imageFormat: 2,
+        indexBody: [...u32(0), ...u32(glyph.length)],
+        imageDataOffset: 4,
+      },
+    ]);
+    const tables = readBitmapStrikes(createFont({ EBLC: eblc, EBDT: [...u32(0x00020000), ...glyph] }))!;
+
+    expect(render(getStrikeGlyph(tables, 8, 1)!.pixels)).toEqual(["..##"]);
+  });
+
+  it("decodes PNG glyphs from CBDT", () => {
+    const png = createPng(["#..", ".#.", "..#"]);
+    const glyph = [...u8(3), ...u8(3), ...u8(0), ...u8(3), ...u8(3), ...u32(png.length), ...png];
+    const cblc = createLocationTable([
+      {
+        ppem: 16,
+        bitDepth: 32,
+        firstGlyph: 3,
+        lastGlyph: 3,
+        indexFormat: 1,
+        imageFormat: 17,
+        indexBody: [...u32(0), ...u32(glyph.length)],
+        imageDataOffset: 4,
+      },
+    ]);
+    const tables = readBitmapStrikes(createFont({ CBLC: cblc, CBDT: [...u32(0x00030000), ...glyph] }))!;
+
+    expect(tables.strikes[0].color).toBe(true);
+    expect(render(getStrikeGlyph(tables, 16, 3)!.pixels)).toEqual(["#..", ".#.", "..#"]);
+  });
+});
+
+describe("strikeGlyphToCharacter and renderStrikeGlyph", () => {
+  const placement = { charWidth: 8, charHeight: 8, centerGlyphs: false, baselineOffset: 0 };
+
+  it("places glyphs by their bearings above the baseline", () => {
+    const tables = readBitmapStrikes(createMonoFont())!;
+    const glyph = getStrikeGlyph(tables, 8, 1)!;
+    const char = strikeGlyphToCharacter(glyph, tables.strikes[0], placement);
+
+    // Baseline is 2 rows above the bottom; the glyph top is 5 rows above it
+    expect(render(char.pixels)).toEqual([
+      "........",
+      ".####...",
+      ".#..#...",
+      ".####...",
+      "........",
+      "........",
+      "........",
+      "........",
+    ]);
+  });
+
+  it("centers glyphs by their advance", () => {
+    const tables = readBitmapStrikes(createMonoFont())!;
+    const glyph = getStrikeGlyph(tables, 8, 1)!;
+    const char = strikeGlyphToCharacter(glyph, tables.strikes[0], { ...placement, charWidth: 10, centerGlyphs: true });
+
+    expect(render(char.pixels)[1]).toBe("...####...");
+  });
+
+  it("returns null when the strike has no bitmap so callers can rasterize", () => {
+    const tables = readBitmapStrikes(createMonoFont())!;
+
+    expect(renderStrikeGlyph(tables, 8, 1, { ...placement, threshold: 128 })).not.toBeNull();
+    expect(renderStrikeGlyph(tables, 8, 2, { ...placement, threshold: 128 })).toBeNull();
+  });
+});
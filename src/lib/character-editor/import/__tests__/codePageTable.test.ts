@@ -0,0 +1,187 @@
+/**
+ * Character ROM Editor - Code Page Table Tests
+ *
+ * Tests for code page mappings:
+ * - Built-in code page tables
+ * - Looking up the code point of a character index and back
+ * - Keeping mappings in sync with inserted, deleted and reordered characters
+ * - CSV and plain-text mapping tables
+ * - JSON mapping tables
+ */
+
+import { parseCodePageTable, parseCodePoint } from "@/lib/character-editor/import/codePageTable";
+import {
+  CODE_PAGES,
+  adjustUnicodeMapForDelete,
+  adjustUnicodeMapForInsert,
+  createCodePointLookup,
+  findCodePage,
+  formatCodePoint,
+  getCodePage,
+  getIndexCodePoint,
+  isPrintableCodePoint,
+  reorderUnicodeMap,
+} from "@/lib/character-editor/data/codePages";
+
+describe("built-in code pages", () => {
+  it("have unique IDs and valid code points", () => {
+    expect(new Set(CODE_PAGES.map((page) => page.id)).size).toBe(CODE_PAGES.length);
+    for (const page of CODE_PAGES) {
+      for (const codePoint of page.codePoints) {
+        if (codePoint !== null) {
+          expect(codePoint).toBeGreaterThanOrEqual(0);
+          expect(codePoint).toBeLessThanOrEqual(0x10ffff);
+        }
+      }
+    }
+  });
+
+  it("map characters in ROM order", () => {
+    const cp437 = getCodePage("cp437")!.codePoints;
+    expect(cp437).toHaveLength(256);
+    expect(cp437[1]).toBe(0x263a);
+    expect(cp437[0x41]).toBe(0x41);
+    expect(cp437[0xdb]).toBe(0x2588);
+
+    const petscii = getCodePage("petscii")!.codePoints;
+    expect(petscii).toHaveLength(256);
+    expect(petscii[0]).toBe(0x40);
+    expect(petscii[1]).toBe(0x41);
+    expect(petscii[0x20]).toBe(0x20);
+    expect(petscii[0x80]).toBeNull();
+
+    const atascii = getCodePage("atascii")!.codePoints;
+    expect(atascii).toHaveLength(128);
+    expect(atascii[0]).toBe(0x20);
+    expect(atascii[0x40]).toBe(0x2665);
+    expect(atascii[0x61]).toBe(0x61);
+
+    const spectrum = getCodePage("zx-spectrum")!.codePoints;
+    expect(spectrum).toHaveLength(96);
+    expect(spectrum[0x60 - 0x20]).toBe(0xa3);
+  });
+
+  it("returns undefined for unknown code pages", () => {
+    expect(getCodePage("cp850")).toBeUndefined();
+  });
+});
+
+describe("formatCodePoint", () => {
+  it("formats code points with at least 4 digits", () => {
+    expect(formatCodePoint(0x41)).toBe("U+0041");
+    expect(formatCodePoint(0x1fb70)).toBe("U+1FB70");
+  });
+});
+
+describe("getIndexCodePoint and isPrintableCodePoint", () => {
+  it("treats sets without a mapping as ASCII", () => {
+    expect(getIndexCodePoint(65)).toBe(65);
+    expect(getIndexCodePoint(200)).toBeNull();
+  });
+
+  it("uses the set's mapping", () => {
+    const petscii = getCodePage("petscii")!.codePoints;
+    expect(getIndexCodePoint(1, petscii)).toBe(0x41);
+    expect(getIndexCodePoint(0x80, petscii)).toBeNull();
+    expect(getIndexCodePoint(300, petscii)).toBeNull();
+  });
+
+  it("rejects control codes", () => {
+    expect(isPrintableCodePoint(0x41)).toBe(true);
+    expect(isPrintableCodePoint(0x2588)).toBe(true);
+    expect(isPrintableCodePoint(0x0a)).toBe(false);
+    expect(isPrintableCodePoint(0x7f)).toBe(false);
+    expect(isPrintableCodePoint(0x85)).toBe(false);
+  });
+});
+
+describe("createCodePointLookup", () => {
+  it("maps code points back to the first index", () => {
+    const lookup = createCodePointLookup(4, [0x41, null, 0x42, 0x41]);
+    expect(lookup.get(0x41)).toBe(0);
+    expect(lookup.get(0x42)).toBe(2);
+    expect(lookup.size).toBe(2);
+  });
+
+  it("ignores mapping entries beyond the set", () => {
+    expect(createCodePointLookup(1, [0x41, 0x42]).has(0x42)).toBe(false);
+  });
+});
+
+describe("unicode map adjustments", () => {
+  it("inserts unmapped entries", () => {
+    expect(adjustUnicodeMapForInsert([0x41, 0x42], 1, 2)).toEqual([0x41, null, null, 0x42]);
+    expect(adjustUnicodeMapForInsert([0x41, 0x42], 5, 1)).toEqual([0x41, 0x42]);
+    expect(adjustUnicodeMapForInsert(undefined, 0, 1)).toBeUndefined();
+  });
+
+  it("removes deleted entries", () => {
+    expect(adjustUnicodeMapForDelete([0x41, 0x42, 0x43], [0, 2])).toEqual([0x42]);
+    expect(adjustUnicodeMapForDelete(undefined, [0])).toBeUndefined();
+  });
+
+  it("reorders entries with the characters", () => {
+    expect(reorderUnicodeMap([0x41, 0x42, 0x43], [2, 0, 1])).toEqual([0x43, 0x41, 0x42]);
+    expect(reorderUnicodeMap([0x41], [1, 0])).toEqual([null, 0x41]);
+    expect(reorderUnicodeMap(undefined, [1, 0])).toBeUndefined();
+  });
+});
+
+describe("findCodePage", () => {
+  it("finds the code page a mapping came from", () => {
+    expect(findCodePage(getCodePage("atascii")!.codePoints)?.id).toBe("atascii");
+    expect(findCodePage(getCodePage("cp437")!.codePoints.slice(0, 128))?.id).toBe("cp437");
+    expect(findCodePage([0x263a, 0x263a])).toBeUndefined();
+  });
+});
+
+describe("parseCodePoint", () => {
+  it("parses single values", () => {
+    expect(parseCodePoint("U+00A3")).toBe(0xa3);
+    expect(parseCodePoint("£")).toBe(0xa3);
+    expect(parseCodePoint("")).toBeNull();
+    expect(parseCodePoint("U+FFFFFF")).toBeUndefined();
+  });
+});
+
+describe("parseCodePageTable", () => {
+  describe("CSV tables", () => {
+    it("parses index,codepoint pairs in any number format", () => {
+      const table = parseCodePageTable("index,codepoint\n0,64\n1,0x41\n2,U+263A\n$3,'£'\n");
+      expect(table).toEqual([64, 0x41, 0x263a, 0xa3]);
+    });
+
+    it("reads Unicode mapping files with comments", () => {
+      const table = parseCodePageTable("# CP437 excerpt\n0x01\t0x263A\t#WHITE SMILING FACE\n0x03\t0x2665\n");
+      expect(table).toEqual([null, 0x263a, null, 0x2665]);
+    });
+
+    it("leaves empty and dash values unmapped", () => {
+      expect(parseCodePageTable("0,\n1;-\n2 65")).toEqual([null, null, 65]);
+    });
+
+    it("reports the line of invalid entries", () => {
+      expect(() => parseCodePageTable("0,65\nfoo,66")).toThrow("Invalid character index on line 2");
+      expect(() => parseCodePageTable("0,65\n1,0x110000")).toThrow("Invalid code point on line 2");
+      expect(() => parseCodePageTable("0,65\n1,AB")).toThrow("Invalid code point on line 2");
+      expect(() => parseCodePageTable("# nothing here\n")).toThrow("Mapping table is empty");
+    });
+  });
+
+  describe("JSON tables", () => {
+    it("parses arrays of code points", () => {
+      expect(parseCodePageTable('[64, "A", "U+263A", null]')).toEqual([64, 0x41, 0x263a, null]);
+    });
+
+    it("parses objects keyed by index", () => {
+      expect(parseCodePageTable('{"0x02": 9731, "0": "0x40"}')).toEqual([0x40, null, 9731]);
+    });
+
+    it("rejects invalid JSON tables", () => {
+      expect(() => parseCodePageTable("[1, 2")).toThrow("not valid JSON");
+      expect(() => parseCodePageTable('{"a": 1}')).toThrow('Invalid character index "a"');
+      expect(() => parseCodePageTable("[1.5]")).toThrow("Invalid code point for index 0");
+      expect(() => parseCodePageTable("[]")).toThrow("Mapping table is empty");
+    });
+  });
+});
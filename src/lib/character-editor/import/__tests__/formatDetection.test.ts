@@ -0,0 +1,157 @@
+/**
+ * Character ROM Editor - Binary Format Detection Tests
+ *
+ * Tests for detectBinaryFormats:
+ * - Detection of built-in character ROMs
+ * - Padding and glyph structure heuristics
+ * - Ranking, limits and system/chip preference
+ */
+
+import { detectBinaryFormats } from "@/lib/character-editor/import/formatDetection";
+import { base64ToBinary, serializeCharacterRom } from "@/lib/character-editor/import/binary";
+import { getBuiltInCharacterSetById } from "@/lib/character-editor/defaults";
+import { createMockConfig } from "@/lib/character-editor/__tests__/testUtils";
+import type { Character } from "@/lib/character-editor/types";
+
+/**
+ * Get the packed ROM data of a built-in character set
+ */
+function getBuiltInRom(id: string): Uint8Array {
+  const set = getBuiltInCharacterSetById(id);
+  if (!set) throw new Error(`Missing built-in set ${id}`);
+  return base64ToBinary(set.binaryData);
+}
+
+/**
+ * Create simple glyphs: a blank space at index 32 and boxes with blank margins elsewhere
+ */
+function createGlyphs(count: number, width: number, height: number): Character[] {
+  return Array.from({ length: count }, (_, index) => ({
+    pixels: Array.from({ length: height }, (_, row) =>
+      Array.from({ length: width }, (_, col) => {
+        if (index === 32) return false;
+        const inside = row > 0 && row < height - 2 && col < width - 1;
+        return inside && ((row + col + index) % 3 === 0 || col === 0);
+      })
+    ),
+  }));
+}
+
+// ============================================================================
+// Built-in ROM Tests
+// ============================================================================
+
+describe("detectBinaryFormats", () => {
+  describe("built-in character ROMs", () => {
+    it("detects an 8x8 ROM", () => {
+      const [best] = detectBinaryFormats(getBuiltInRom("c64-chargen"));
+
+      expect(best.config.height).toBe(8);
+      expect(best.characterCount * 8).toBe(getBuiltInRom("c64-chargen").length);
+    });
+
+    it("detects a 5x10 LCD font stored in 10-byte characters", () => {
+      const [best] = detectBinaryFormats(getBuiltInRom("hd44780u-english-chargen"));
+
+      expect(best.config.height).toBe(10);
+      expect(best.config.width).toBeLessThanOrEqual(8);
+      expect(best.characterCount).toBe(256);
+    });
+
+    it("detects a 6x10 teletext font", () => {
+      const [best] = detectBinaryFormats(getBuiltInRom("saa5050-chargen"));
+
+      expect(best.config.height).toBe(10);
+      expect(best.characterCount).toBe(96);
+    });
+  });
+
+  // ==========================================================================
+  // Heuristic Tests
+  // ==========================================================================
+
+  describe("heuristics", () => {
+    it("returns no candidates for empty data", () => {
+      expect(detectBinaryFormats(new Uint8Array(0))).toEqual([]);
+    });
+
+    it("prefers the height with repeating blank rows", () => {
+      const config = createMockConfig({ width: 8, height: 12 });
+      const data = serializeCharacterRom(createGlyphs(128, 8, 12), config);
+      const [best] = detectBinaryFormats(data);
+
+      expect(best.config.height).toBe(12);
+      expect(best.reasons).toContain("Character 32 is a blank space");
+    });
+
+    it("rejects widths whose padding bits contain data", () => {
+      const config = createMockConfig({ width: 8, height: 8 });
+      const data = serializeCharacterRom(createGlyphs(256, 8, 8), config);
+      const narrow = detectBinaryFormats(data, { maxCandidates: 100 }).find(
+        (candidate) => candidate.config.width === 5 && candidate.config.padding === "right"
+      );
+
+      expect(narrow?.reasons).toContain("Padding bits contain data");
+    });
+
+    it("detects left-padded narrow characters", () => {
+      const config = createMockConfig({ width: 5, height: 8, padding: "left" });
+      const data = serializeCharacterRom(createGlyphs(256, 5, 8), config);
+      const [best] = detectBinaryFormats(data);
+
+      expect(best.config.height).toBe(8);
+      expect(best.config.padding === "left" || best.config.width === 8).toBe(true);
+    });
+  });
+
+  // ==========================================================================
+  // Ranking Tests
+  // ==========================================================================
+
+  describe("ranking", () => {
+    const data = getBuiltInRom("c64-chargen");
+
+    it("sorts candidates by score", () => {
+      const candidates = detectBinaryFormats(data);
+      const scores = candidates.map((candidate) => candidate.score);
+
+      expect(scores).toEqual([...scores].sort((a, b) => b - a));
+      scores.forEach((score) => {
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(100);
+      });
+    });
+
+    it("limits the number of candidates", () => {
+      expect(detectBinaryFormats(data)).toHaveLength(6);
+      expect(detectBinaryFormats(data, { maxCandidates: 2 })).toHaveLength(2);
+    });
+
+    it("returns unique configurations", () => {
+      const keys = detectBinaryFormats(data, { maxCandidates: 100 }).map(
+        ({ config }) =>
+          `${config.width}x${config.height}-${config.padding}-${config.bitDirection}-${config.byteOrder}`
+      );
+
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it("lists known systems using the detected dimensions", () => {
+      const eightByEight = detectBinaryFormats(data, { maxCandidates: 100 }).find(
+        (candidate) => candidate.config.width === 8 && candidate.config.height === 8
+      );
+
+      expect(eightByEight?.matches.length).toBeGreaterThan(0);
+    });
+
+    it("boosts the dimensions of the selected system", () => {
+      const find = (candidates: ReturnType<typeof detectBinaryFormats>) =>
+        candidates.find((c) => c.config.width === 8 && c.config.height === 8 && c.config.bitDirection === "msb");
+      const plain = find(detectBinaryFormats(data, { maxCandidates: 100 }));
+      const preferred = find(detectBinaryFormats(data, { maxCandidates: 100, system: "C64" }));
+
+      expect(preferred!.score).toBeGreaterThan(plain!.score);
+      expect(preferred!.reasons).toContain("Matches the selected system or chip");
+    });
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Character ROM Editor - Intel HEX and S-Record Tests
+ *
+ * Tests for hex record conversion:
+ * - Format detection from file names and content
+ * - Intel HEX parsing (address gaps, extended addresses, checksums)
+ * - S-record parsing (S1/S2/S3 records, checksums)
+ * - Round trips against serializeCharacterRom
+ */
+
+import {
+  getHexRecordFormatForFile,
+  detectHexRecordFormat,
+  parseIntelHex,
+  parseSRecord,
+  parseHexRecords,
+  exportToIntelHex,
+  exportToSRecord,
+  MAX_HEX_RECORD_IMAGE_SIZE,
+} from "@/lib/character-editor/import/hexRecords";
+import { parseCharacterRom, serializeCharacterRom } from "@/lib/character-editor/import/binary";
+import {
+  createMockCharacters,
+  createMockConfig,
+  characterArraysEqual,
+} from "@/lib/character-editor/__tests__/testUtils";
+
+// ============================================================================
+// Format Detection Tests
+// ============================================================================
+
+describe("getHexRecordFormatForFile", () => {
+  it("recognizes Intel HEX extensions", () => {
+    expect(getHexRecordFormatForFile("chargen.hex")).toBe("intel-hex");
+    expect(getHexRecordFormatForFile("CHARGEN.IHX")).toBe("intel-hex");
+  });
+
+  it("recognizes S-record extensions", () => {
+    expect(getHexRecordFormatForFile("font.s19")).toBe("srec");
+    expect(getHexRecordFormatForFile("font.srec")).toBe("srec");
+    expect(getHexRecordFormatForFile("font.mot")).toBe("srec");
+  });
+
+  it("returns null for other files", () => {
+    expect(getHexRecordFormatForFile("chargen.bin")).toBeNull();
+    expect(getHexRecordFormatForFile("chargen")).toBeNull();
+  });
+});
+
+describe("detectHexRecordFormat", () => {
+  it("detects the format from the first record", () => {
+    expect(detectHexRecordFormat("\n:0400000001020304F2\n")).toBe("intel-hex");
+    expect(detectHexRecordFormat("S107000001020304EE\n")).toBe("srec");
+  });
+
+  it("returns null for other content", () => {
+    expect(detectHexRecordFormat("STARTCHAR A")).toBeNull();
+    expect(detectHexRecordFormat("")).toBeNull();
+  });
+});
+
+// ============================================================================
+// Intel HEX Tests
+// ============================================================================
+
+describe("parseIntelHex", () => {
+  it("parses data records", () => {
+    const image = parseIntelHex(":0400000001020304F2\n:00000001FF\n");
+
+    expect(Array.from(image.data)).toEqual([1, 2, 3, 4]);
+    expect(image.baseAddress).toBe(0);
+    expect(image.format).toBe("intel-hex");
+  });
+
+  it("fills address gaps", () => {
+    const text = ":020000001122CB\n:02000400334483\n:00000001FF\n";
+
+    expect(Array.from(parseIntelHex(text).data)).toEqual([0x11, 0x22, 0xff, 0xff, 0x33, 0x44]);
+    expect(Array.from(parseIntelHex(text, { fill: 0 }).data)).toEqual([0x11, 0x22, 0, 0, 0x33, 0x44]);
+  });
+
+  it("starts the image at the lowest address", () => {
+    const image = parseIntelHex(exportToIntelHex(new Uint8Array([9, 8, 7]), { baseAddress: 0xc000 }));
+
+    expect(image.baseAddress).toBe(0xc000);
+    expect(Array.from(image.data)).toEqual([9, 8, 7]);
+  });
+
+  it("applies extended segment addresses", () => {
+    // Segment 0x1000 -> 0x10000
+    const image = parseIntelHex(":020000021000EC\n:0100000042BD\n:00000001FF\n");
+
+    expect(image.baseAddress).toBe(0x10000);
+    expect(Array.from(image.data)).toEqual([0x42]);
+  });
+
+  it("ignores records after the end of file record", () => {
+    const image = parseIntelHex(":0100000042BD\n:00000001FF\n:0100010043BB\n");
+
+    expect(Array.from(image.data)).toEqual([0x42]);
+  });
+
+  it("rejects checksum mismatches", () => {
+    expect(() => parseIntelHex(":0400000001020304F3\n")).toThrow("Checksum mismatch on line 1");
+  });
+
+  it("rejects malformed records", () => {
+    expect(() => parseIntelHex(":0500000001020304F1\n")).toThrow("Invalid record length on line 1");
+    expect(() => parseIntelHex(":04000000010203ZZF2\n")).toThrow("Invalid hex digits on line 1");
+    expect(() => parseIntelHex("0400000001020304F2\n")).toThrow("not an Intel HEX record");
+    expect(() => parseIntelHex(":00000001FF\n")).toThrow("No data records found");
+  });
+
+  it("rejects records spread over more than the maximum image size", () => {
+    const low = exportToIntelHex(new Uint8Array([1]), { baseAddress: 0 });
+    const high = exportToIntelHex(new Uint8Array([2]), { baseAddress: 0xffffff00 });
+    const content = low.replace(/^:00000001FF\n/m, "") + high;
+
+    expect(() => parseIntelHex(content)).toThrow("Records span 0x0-0xFFFFFF00, more than the 1 MB");
+  });
+
+  it("accepts images up to the maximum size", () => {
+    const content =
+      exportToIntelHex(new Uint8Array([1]), { baseAddress: 0 }).replace(/^:00000001FF\n/m, "") +
+      exportToIntelHex(new Uint8Array([2]), { baseAddress: MAX_HEX_RECORD_IMAGE_SIZE - 1 });
+
+    expect(parseIntelHex(content).data).toHaveLength(MAX_HEX_RECORD_IMAGE_SIZE);
+  });
+});
+
+describe("exportToIntelHex", () => {
+  it("writes records with checksums and an end of file record", () => {
+    const text = exportToIntelHex(new Uint8Array([1, 2, 3, 4]));
+
+    expect(text).toBe(":0400000001020304F2\n:00000001FF\n");
+  });
+
+  it("splits data into records of the given size", () => {
+    const lines = exportToIntelHex(new Uint8Array(40), { recordSize: 8 }).trim().split("\n");
+
+    expect(lines).toHaveLength(6);
+    expect(lines[0].startsWith(":08000000")).toBe(true);
+    expect(lines[4].startsWith(":08002000")).toBe(true);
+  });
+
+  it("writes extended linear addresses above 64K", () => {
+    const data = Uint8Array.from({ length: 32 }, (_, i) => i);
+    const text = exportToIntelHex(data, { baseAddress: 0xfff8 });
+
+    // The first record stops at the 64K boundary
+    expect(text).toContain(":08FFF800");
+    expect(text).toContain(":020000040001F9");
+    expect(parseIntelHex(text).baseAddress).toBe(0xfff8);
+    expect(Array.from(parseIntelHex(text).data)).toEqual(Array.from(data));
+  });
+});
+
+// ============================================================================
+// S-Record Tests
+// ============================================================================
+
+describe("parseSRecord", () => {
+  it("parses S1 records", () => {
+    const image = parseSRecord("S00600004844521B\nS107000001020304EE\nS9030000FC\n");
+
+    expect(Array.from(image.data)).toEqual([1, 2, 3, 4]);
+    expect(image.format).toBe("srec");
+  });
+
+  it("rejects checksum mismatches", () => {
+    expect(() => parseSRecord("S107000001020304EF\n")).toThrow("Checksum mismatch on line 1");
+  });
+
+  it("rejects malformed records", () => {
+    expect(() => parseSRecord("S108000001020304EE\n")).toThrow("Invalid record length on line 1");
+    expect(() => parseSRecord("X107000001020304EE\n")).toThrow("not an S-record");
+  });
+
+  it("rejects records spread over more than the maximum image size", () => {
+    const dataRecords = (baseAddress: number) =>
+      exportToSRecord(new Uint8Array([1]), { baseAddress })
+        .split("\n")
+        .filter((line) => /^S[123]/.test(line));
+    const content = [...dataRecords(0), ...dataRecords(0xffffff00)].join("\n");
+
+    expect(() => parseSRecord(content)).toThrow("Records span 0x0-0xFFFFFF00, more than the 1 MB");
+  });
+});
+
+describe("exportToSRecord", () => {
+  it("writes a header, data, count and termination records", () => {
+    const lines = exportToSRecord(new Uint8Array([1, 2, 3, 4]), { header: "HDR" }).trim().split("\n");
+
+    expect(lines).toEqual([
+      "S00600004844521B",
+      "S107000001020304EE",
+      "S5030001FB",
+      "S9030000FC",
+    ]);
+  });
+
+  it("uses S2 and S3 records for higher addresses", () => {
+    const data = new Uint8Array([0xaa]);
+    const s2 = exportToSRecord(data, { baseAddress: 0x12345 });
+    const s3 = exportToSRecord(data, { baseAddress: 0x1234567 });
+
+    expect(s2).toMatch(/^S2/m);
+    expect(s2).toMatch(/^S8/m);
+    expect(s3).toMatch(/^S3/m);
+    expect(s3).toMatch(/^S7/m);
+    expect(parseSRecord(s2).baseAddress).toBe(0x12345);
+    expect(parseSRecord(s3).baseAddress).toBe(0x1234567);
+  });
+
+  it.each([
+    ["S1", 0],
+    ["S2", 0x12345],
+    ["S3", 0x1234567],
+  ])("keeps %s record counts within a byte at the largest record size", (type, baseAddress) => {
+    const data = Uint8Array.from({ length: 600 }, (_, i) => i & 0xff);
+    const content = exportToSRecord(data, { baseAddress, recordSize: 255 });
+
+    for (const line of content.trim().split("\n")) {
+      expect(parseInt(line.slice(2, 4), 16) * 2).toBe(line.length - 4);
+    }
+    expect(content).toMatch(new RegExp(`^${type}FF`, "m"));
+
+    const image = parseSRecord(content);
+    expect(image.baseAddress).toBe(baseAddress);
+    expect(Array.from(image.data)).toEqual(Array.from(data));
+  });
+});
+
+// ============================================================================
+// Round Trip Tests
+// ============================================================================
+
+describe("round trips against serializeCharacterRom", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  const characters = createMockCharacters(256, 8, 8, ["checkerboard", "diagonal", "filled", "empty"]);
+  const rom = serializeCharacterRom(characters, config);
+
+  it.each([
+    ["intel-hex", exportToIntelHex],
+    ["srec", exportToSRecord],
+  ] as const)("round-trips a 2K ROM as %s", (format, exporter) => {
+    const image = parseHexRecords(exporter(rom, { baseAddress: 0x2000, recordSize: 32 }));
+
+    expect(image.format).toBe(format);
+    expect(image.baseAddress).toBe(0x2000);
+    expect(Array.from(image.data)).toEqual(Array.from(rom));
+    expect(characterArraysEqual(parseCharacterRom(image.data, config), characters)).toBe(true);
+  });
+
+  it("round-trips non-byte-aligned characters", () => {
+    const narrowConfig = createMockConfig({ width: 5, height: 7, padding: "left" });
+    const narrow = createMockCharacters(64, 5, 7, ["diagonal", "checkerboard"]);
+    const data = serializeCharacterRom(narrow, narrowConfig);
+
+    const image = parseHexRecords(exportToSRecord(data, { recordSize: 7 }));
+
+    expect(characterArraysEqual(parseCharacterRom(image.data, narrowConfig), narrow)).toBe(true);
+  });
+});
+
+describe("parseHexRecords", () => {
+  it("rejects content that is not hex records", () => {
+    expect(() => parseHexRecords("hello")).toThrow("Unrecognized file format");
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Character ROM Editor - PSF Import Tests
+ *
+ * Tests for PC Screen Font parsing:
+ * - PSF1 and PSF2 headers and glyph bitmaps
+ * - PSF1 (UCS-2) and PSF2 (UTF-8) Unicode tables
+ * - Gzip-compressed fonts
+ * - Round trips with exportToPsf2
+ */
+
+// Mock jsPDF to avoid TextEncoder issues in test environment
+jest.mock("jspdf", () => ({
+  jsPDF: jest.fn(),
+}));
+
+import { gzipSync } from "fflate";
+import { isPsfFile, parsePsf } from "@/lib/character-editor/import/psf";
+import { bitmapFontToCharacters } from "@/lib/character-editor/import/bitmapFont";
+import { exportToPsf2 } from "@/lib/character-editor/exports";
+import {
+  createMockCharacters,
+  createMockConfig,
+  characterArraysEqual,
+} from "@/lib/character-editor/__tests__/testUtils";
+
+/**
+ * Build a PSF1 font with 256 glyphs of the given height
+ * Glyph N has the byte value N in every row.
+ */
+function createPsf1(height: number, unicodeTable?: number[][]): Uint8Array {
+  const bytes = [0x36, 0x04, unicodeTable ? 0x02 : 0x00, height];
+  for (let glyph = 0; glyph < 256; glyph++) {
+    for (let row = 0; row < height; row++) bytes.push(glyph);
+  }
+  if (unicodeTable) {
+    for (let glyph = 0; glyph < 256; glyph++) {
+      for (const value of unicodeTable[glyph] ?? []) bytes.push(value & 0xff, value >> 8);
+      bytes.push(0xff, 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+describe("isPsfFile", () => {
+  it("recognizes PSF files", () => {
+    expect(isPsfFile("default8x16.psf")).toBe(true);
+    expect(isPsfFile("Lat2-Terminus16.psfu.gz")).toBe(true);
+    expect(isPsfFile("font.bdf")).toBe(false);
+  });
+});
+
+describe("parsePsf", () => {
+  it("parses PSF1 fonts", () => {
+    const font = parsePsf(createPsf1(8));
+
+    expect(font.width).toBe(8);
+    expect(font.height).toBe(8);
+    expect(font.glyphs).toHaveLength(256);
+    expect(font.glyphs[0x81].encoding).toBe(0x81);
+    expect(font.glyphs[0x81].pixels[3]).toEqual([true, false, false, false, false, false, false, true]);
+    expect(font.glyphs[0].unicode).toBeUndefined();
+  });
+
+  it("reads PSF1 Unicode tables and skips sequences", () => {
+    const table: number[][] = [];
+    table[65] = [0x41, 0x391, 0xfffe, 0x41, 0x30a];
+    const font = parsePsf(createPsf1(8, table));
+
+    expect(font.glyphs[65].unicode).toEqual([0x41, 0x391]);
+    expect(font.glyphs[66].unicode).toBeUndefined();
+  });
+
+  it("parses PSF2 fonts with Unicode tables", () => {
+    const config = createMockConfig({ width: 10, height: 12 });
+    const characters = createMockCharacters(3, 10, 12, ["diagonal", "filled", "checkerboard"]);
+    const font = parsePsf(exportToPsf2(characters, config, { includeUnicodeTable: true }, [0x2591, null, 0x1f600]));
+
+    expect(font.width).toBe(10);
+    expect(font.height).toBe(12);
+    expect(font.glyphs[0].unicode).toEqual([0x2591]);
+    expect(font.glyphs[1].unicode).toBeUndefined();
+    expect(font.glyphs[2].unicode).toEqual([0x1f600]);
+  });
+
+  it("decompresses gzip fonts", () => {
+    const font = parsePsf(gzipSync(createPsf1(16)));
+
+    expect(font.height).toBe(16);
+    expect(font.glyphs).toHaveLength(256);
+  });
+
+  it("rejects invalid files", () => {
+    expect(() => parsePsf(new Uint8Array([1, 2, 3, 4]))).toThrow("Not a PSF font");
+    expect(() => parsePsf(createPsf1(8).subarray(0, 100))).toThrow("PSF font is truncated");
+  });
+});
+
+describe("exportToPsf2", () => {
+  const config = createMockConfig({ width: 8, height: 8 });
+  const characters = createMockCharacters(4, 8, 8, ["checkerboard", "diagonal", "filled", "empty"]);
+
+  it("writes the PSF2 header", () => {
+    const data = exportToPsf2(characters, config, { includeUnicodeTable: false });
+    const view = new DataView(data.buffer);
+
+    expect(Array.from(data.subarray(0, 4))).toEqual([0x72, 0xb5, 0x4a, 0x86]);
+    expect(view.getUint32(8, true)).toBe(32);
+    expect(view.getUint32(12, true)).toBe(0);
+    expect(view.getUint32(16, true)).toBe(4);
+    expect(view.getUint32(20, true)).toBe(8);
+    expect(data.length).toBe(32 + 4 * 8);
+  });
+
+  it("maps indices to code points without a set mapping", () => {
+    const font = parsePsf(exportToPsf2(characters, config, { includeUnicodeTable: true }));
+
+    expect(font.glyphs.map((glyph) => glyph.unicode)).toEqual([[0], [1], [2], [3]]);
+  });
+
+  it("round-trips characters and the Unicode mapping", () => {
+    const unicodeMap = [0x41, 0xe9, null, 0x2588];
+    const font = parsePsf(exportToPsf2(characters, config, { includeUnicodeTable: true }, unicodeMap));
+    const result = bitmapFontToCharacters(font, { startCode: 0, endCode: 3 });
+
+    expect(characterArraysEqual(result.characters, characters)).toBe(true);
+    expect(result.unicodeMap).toEqual(unicodeMap);
+  });
+});
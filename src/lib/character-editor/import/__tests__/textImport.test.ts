@@ -319,6 +319,13 @@ describe("textImport", () => {
         expect(result.invalidCount).toBe(3);
         expect(result.error).toBe("No valid byte values found (all values were out of range 0-255)");
       });
+
+      it("rejects GNU Unifont .hex content instead of reading code points as bytes", () => {
+        const result = parseTextToBytes("0041:0000000018242442427E424242420000\n");
+
+        expect(result.bytes).toEqual([]);
+        expect(result.error).toContain("GNU Unifont");
+      });
     });
 
     describe("format detection", () => {
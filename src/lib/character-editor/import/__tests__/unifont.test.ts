@@ -0,0 +1,126 @@
+/**
+ * Character ROM Editor - Unifont Import Tests
+ *
+ * Tests for GNU Unifont .hex parsing:
+ * - Content detection versus Intel HEX
+ * - 8x16 and 16x16 glyphs
+ * - Code points as encodings and Unicode values
+ * - Round trips with exportToUnifont
+ */
+
+// Mock jsPDF to avoid TextEncoder issues in test environment
+jest.mock("jspdf", () => ({
+  jsPDF: jest.fn(),
+}));
+
+import { isUnifontContent, isUnifontFile, parseUnifont } from "@/lib/character-editor/import/unifont";
+import { bitmapFontToCharacters } from "@/lib/character-editor/import/bitmapFont";
+import { exportToUnifont } from "@/lib/character-editor/exports";
+import {
+  createMockCharacters,
+  createMockConfig,
+  characterArraysEqual,
+} from "@/lib/character-editor/__tests__/testUtils";
+
+/** Unifont glyph for "A" (U+0041) */
+const GLYPH_A = "0041:0000000018242442427E424242420000";
+
+/** Unifont glyph for a full block (U+2588), 16 pixels wide */
+const GLYPH_BLOCK = "2588:" + "FFFF".repeat(16);
+
+/**
+ * Render glyph pixels as strings for readable assertions
+ */
+function render(pixels: boolean[][]): string[] {
+  return pixels.map((row) => row.map((pixel) => (pixel ? "#" : ".")).join(""));
+}
+
+describe("isUnifontFile and isUnifontContent", () => {
+  it("recognizes Unifont files", () => {
+    expect(isUnifontFile("unifont-15.1.05.hex")).toBe(true);
+    expect(isUnifontFile("font.bdf")).toBe(false);
+    expect(isUnifontContent(`# comment\n${GLYPH_A}\n`)).toBe(true);
+  });
+
+  it("does not mistake Intel HEX for Unifont", () => {
+    expect(isUnifontContent(":10000000000102030405060708090A0B0C0D0E0F78\n:00000001FF\n")).toBe(false);
+    expect(isUnifontContent("0041:FF\n")).toBe(false);
+  });
+});
+
+describe("parseUnifont", () => {
+  it("parses 8x16 glyphs", () => {
+    const font = parseUnifont(GLYPH_A);
+
+    expect(font.width).toBe(8);
+    expect(font.height).toBe(16);
+    expect(font.glyphs[0].encoding).toBe(0x41);
+    expect(font.glyphs[0].unicode).toEqual([0x41]);
+    expect(render(font.glyphs[0].pixels).slice(4, 7)).toEqual(["...##...", "..#..#..", "..#..#.."]);
+  });
+
+  it("widens the cell for 16x16 glyphs and left-aligns narrow glyphs", () => {
+    const font = parseUnifont(`${GLYPH_A}\n${GLYPH_BLOCK}\n`);
+
+    expect(font.width).toBe(16);
+    expect(render(font.glyphs[0].pixels)[4]).toBe("...##...........");
+    expect(render(font.glyphs[1].pixels)[0]).toBe("################");
+  });
+
+  it("maps code points via a range", () => {
+    const font = parseUnifont(`${GLYPH_A}\n${GLYPH_BLOCK}\n`);
+    const result = bitmapFontToCharacters(font, { startCode: 0x2580, endCode: 0x258f });
+
+    expect(result.characters).toHaveLength(16);
+    expect(result.characters[8].pixels[0][0]).toBe(true);
+    expect(result.unicodeMap?.[8]).toBe(0x2588);
+  });
+
+  it("rejects invalid files", () => {
+    expect(() => parseUnifont("0041:FFFF")).toThrow("Invalid Unifont glyph on line 1");
+    expect(() => parseUnifont("# only a comment\n")).toThrow("no glyphs");
+  });
+});
+
+describe("exportToUnifont", () => {
+  it("writes one glyph per line from the first code point", () => {
+    const config = createMockConfig({ width: 8, height: 16 });
+    const characters = createMockCharacters(2, 8, 16, ["filled", "empty"]);
+    const text = exportToUnifont(characters, config, { firstCodePoint: 0x41, useUnicodeMap: false });
+
+    expect(text).toBe(`0041:${"FF".repeat(16)}\n0042:${"00".repeat(16)}\n`);
+  });
+
+  it("pads short characters to 16 rows", () => {
+    const config = createMockConfig({ width: 8, height: 8 });
+    const characters = createMockCharacters(1, 8, 8, ["filled"]);
+    const text = exportToUnifont(characters, config, { firstCodePoint: 0, useUnicodeMap: false });
+
+    expect(text).toBe(`0000:${"FF".repeat(8)}${"00".repeat(8)}\n`);
+  });
+
+  it("sorts by the Unicode mapping and skips unmapped characters", () => {
+    const config = createMockConfig({ width: 8, height: 16 });
+    const characters = createMockCharacters(3, 8, 16, ["filled", "empty", "filled"]);
+    const text = exportToUnifont(characters, config, { firstCodePoint: 0, useUnicodeMap: true }, [
+      0x1f600,
+      null,
+      0x41,
+    ]);
+
+    expect(text.split("\n").map((line) => line.split(":")[0])).toEqual(["0041", "01F600", ""]);
+  });
+
+  it("round-trips 16-pixel-wide characters", () => {
+    const config = createMockConfig({ width: 12, height: 16 });
+    const characters = createMockCharacters(8, 12, 16, ["diagonal", "checkerboard"]);
+    const text = exportToUnifont(characters, config, { firstCodePoint: 0x100, useUnicodeMap: false });
+
+    const font = parseUnifont(text);
+    const result = bitmapFontToCharacters(font, { startCode: 0x100, endCode: 0x107 });
+    const cropped = result.characters.map((char) => ({ pixels: char.pixels.map((row) => row.slice(0, 12)) }));
+
+    expect(font.width).toBe(16);
+    expect(characterArraysEqual(cropped, characters)).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Character ROM Editor - Windows Raster Font Import Tests
+ *
+ * Tests for Windows .fnt/.fon parsing:
+ * - FNT 2.0 and 3.0 headers and character tables
+ * - Column-major glyph bitmaps and variable-pitch glyphs
+ * - Font resources in NE .fon containers
+ */
+
+import {
+  isWinFontContent,
+  isWinFontFile,
+  parseWinFnt,
+  parseWinFon,
+  parseWinFont,
+} from "@/lib/character-editor/import/winfnt";
+
+/**
+ * Build an FNT resource from glyphs drawn with "#" and "."
+ */
+function createFnt(glyphs: string[][], options: { version?: number; firstChar?: number; face?: string } = {}) {
+  const { version = 0x0200, firstChar = 65, face = "Test" } = options;
+  const height = glyphs[0].length;
+  const widths = glyphs.map((rows) => rows[0].length);
+  const isV3 = version === 0x0300;
+  const headerSize = isV3 ? 148 : 118;
+  const entrySize = isV3 ? 6 : 4;
+  const tableSize = (glyphs.length + 1) * entrySize;
+  const faceOffset = headerSize + tableSize;
+  let bitsOffset = faceOffset + face.length + 1;
+  const size = bitsOffset + glyphs.reduce((sum, rows) => sum + Math.ceil(rows[0].length / 8) * height, 0);
+
+  const data = new Uint8Array(size);
+  const view = new DataView(data.buffer);
+  view.setUint16(0, version, true);
+  view.setUint32(2, size, true);
+  view.setUint16(74, height - 2, true);
+  const fixed = widths.every((width) => width === widths[0]);
+  view.setUint16(86, fixed ? widths[0] : 0, true);
+  view.setUint16(88, height, true);
+  view.setUint16(93, Math.max(...widths), true);
+  data[95] = firstChar;
+  data[96] = firstChar + glyphs.length - 1;
+  view.setUint32(105, faceOffset, true);
+  data.set(Array.from(face, (c) => c.charCodeAt(0)), faceOffset);
+
+  glyphs.forEach((rows, i) => {
+    const entry = headerSize + i * entrySize;
+    view.setUint16(entry, widths[i], true);
+    if (isV3) view.setUint32(entry + 2, bitsOffset, true);
+    else view.setUint16(entry + 2, bitsOffset, true);
+
+    rows.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        if (row[x] === "#") data[bitsOffset + (x >> 3) * height + y] |= 0x80 >> (x & 7);
+      }
+    });
+    bitsOffset += Math.ceil(widths[i] / 8) * height;
+  });
+
+  return data;
+}
+
+/**
+ * Wrap FNT resources in a minimal NE executable
+ */
+function createFon(fonts: Uint8Array[]): Uint8Array {
+  const neOffset = 0x40;
+  const resourceTable = 0x40;
+  const tableSize = 2 + 8 + fonts.length * 12 + 2;
+  let offset = neOffset + resourceTable + tableSize;
+  const size = offset + fonts.reduce((sum, font) => sum + font.length, 0);
+
+  const data = new Uint8Array(size);
+  const view = new DataView(data.buffer);
+  data.set([0x4d, 0x5a], 0);
+  view.setUint32(0x3c, neOffset, true);
+  data.set([0x4e, 0x45], neOffset);
+  view.setUint16(neOffset + 0x24, resourceTable, true);
+
+  let pos = neOffset + resourceTable;
+  view.setUint16(pos, 0, true); // Alignment shift
+  view.setUint16(pos + 2, 0x8008, true);
+  view.setUint16(pos + 4, fonts.length, true);
+  pos += 10;
+  fonts.forEach((font) => {
+    view.setUint16(pos, offset, true);
+    view.setUint16(pos + 2, font.length, true);
+    data.set(font, offset);
+    offset += font.length;
+    pos += 12;
+  });
+
+  return data;
+}
+
+/**
+ * Render glyph pixels as strings for readable assertions
+ */
+function render(pixels: boolean[][]): string[] {
+  return pixels.map((row) => row.map((pixel) => (pixel ? "#" : ".")).join(""));
+}
+
+const GLYPH_A = ["..##....", ".#..#...", ".####...", ".#..#..."];
+const GLYPH_B = [".###....", ".###....", ".#..#...", ".###...."];
+
+describe("isWinFontFile and isWinFontContent", () => {
+  it("recognizes Windows font files", () => {
+    expect(isWinFontFile("TERMINAL.FON")).toBe(true);
+    expect(isWinFontFile("vgaoem.fnt")).toBe(true);
+    expect(isWinFontFile("font.bdf")).toBe(false);
+    expect(isWinFontContent(createFnt([GLYPH_A]))).toBe(true);
+    expect(isWinFontContent(new Uint8Array(2048))).toBe(false);
+  });
+});
+
+describe("parseWinFnt", () => {
+  it("parses FNT 2.0 fonts", () => {
+    const font = parseWinFnt(createFnt([GLYPH_A, GLYPH_B]));
+
+    expect(font.name).toBe("Test");
+    expect(font.width).toBe(8);
+    expect(font.height).toBe(4);
+    expect(font.ascent).toBe(2);
+    expect(font.glyphs.map((glyph) => glyph.encoding)).toEqual([65, 66]);
+    expect(render(font.glyphs[0].pixels)).toEqual(GLYPH_A);
+    expect(render(font.glyphs[1].pixels)).toEqual(GLYPH_B);
+  });
+
+  it("parses FNT 3.0 fonts", () => {
+    const font = parseWinFnt(createFnt([GLYPH_A], { version: 0x0300, firstChar: 0 }));
+
+    expect(font.glyphs[0].encoding).toBe(0);
+    expect(render(font.glyphs[0].pixels)).toEqual(GLYPH_A);
+  });
+
+  it("reads glyphs wider than 8 pixels column by column", () => {
+    const wide = ["##########", "#........#"];
+    const font = parseWinFnt(createFnt([wide]));
+
+    expect(font.width).toBe(10);
+    expect(render(font.glyphs[0].pixels)).toEqual(wide);
+  });
+
+  it("left-aligns variable-pitch glyphs", () => {
+    const font = parseWinFnt(createFnt([["#.", "#."], ["###", "..#"]]));
+
+    expect(font.width).toBe(3);
+    expect(render(font.glyphs[0].pixels)).toEqual(["#..", "#.."]);
+  });
+
+  it("rejects invalid fonts", () => {
+    const vector = createFnt([GLYPH_A]);
+    vector[66] = 1;
+    expect(() => parseWinFnt(vector)).toThrow("Vector Windows fonts are not supported");
+    expect(() => parseWinFnt(createFnt([GLYPH_A]).subarray(0, 120))).toThrow("Windows font is truncated");
+  });
+});
+
+describe("parseWinFon", () => {
+  it("extracts every font resource", () => {
+    const small = createFnt([GLYPH_A]);
+    const large = createFnt([["#".repeat(12), ".".repeat(12), "#".repeat(12)]], { face: "Large" });
+    const fonts = parseWinFon(createFon([small, large]));
+
+    expect(fonts).toHaveLength(2);
+    expect(fonts[0].width).toBe(8);
+    expect(fonts[1].name).toBe("Large");
+    expect(fonts[1].width).toBe(12);
+    expect(fonts[1].height).toBe(3);
+  });
+
+  it("rejects PE and empty containers", () => {
+    const pe = createFon([createFnt([GLYPH_A])]);
+    pe.set([0x50, 0x45], 0x40);
+    expect(() => parseWinFon(pe)).toThrow("32-bit (PE) .fon files are not supported");
+    expect(() => parseWinFon(createFon([]))).toThrow("contains no fonts");
+  });
+});
+
+describe("parseWinFont", () => {
+  it("parses .fnt and .fon data by content", () => {
+    expect(parseWinFont(createFnt([GLYPH_A]))).toHaveLength(1);
+    expect(parseWinFont(createFon([createFnt([GLYPH_A])]))).toHaveLength(1);
+    expect(() => parseWinFont(new Uint8Array(2048))).toThrow("Not a Windows raster font");
+  });
+});
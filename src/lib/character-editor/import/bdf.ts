@@ -0,0 +1,237 @@
+/**
+ * Character ROM Editor - BDF Import
+ *
+ * Parses Glyph Bitmap Distribution Format (BDF 2.1) fonts, the bitmap
+ * font format used by X11, u8g2 and many firmware projects.
+ *
+ * Each glyph's BBX offsets place its bitmap relative to the baseline.
+ * Glyphs are decoded into cells the size of the FONTBOUNDINGBOX, with
+ * the baseline at the bottom of the font ascent.
+ */
+
+import { BitmapFont, BitmapFontGlyph } from "./bitmapFont";
+
+/**
+ * Bounding box from a FONTBOUNDINGBOX or BBX line
+ */
+interface BoundingBox {
+  width: number;
+  height: number;
+  xOffset: number;
+  yOffset: number;
+}
+
+/**
+ * Glyph as written in the file, before placement in the cell
+ */
+interface BdfRawGlyph {
+  name: string;
+  encoding: number;
+  bbx: BoundingBox | null;
+  rows: string[];
+}
+
+/** File extensions of BDF fonts */
+const BDF_EXTENSIONS = [".bdf"];
+
+/**
+ * Check if a file is a BDF font
+ */
+export function isBdfFile(fileName: string): boolean {
+  const ext = fileName.toLowerCase().substring(fileName.lastIndexOf("."));
+  return BDF_EXTENSIONS.includes(ext);
+}
+
+/**
+ * Check if text content looks like a BDF font
+ */
+export function isBdfContent(text: string): boolean {
+  return /^\s*STARTFONT\s/.test(text);
+}
+
+/**
+ * Parse integer arguments of a BDF line
+ */
+function parseNumbers(args: string, count: number, keyword: string, lineNumber: number): number[] {
+  const values = args.trim().split(/\s+/).slice(0, count).map(Number);
+  if (values.length < count || values.some((value) => !Number.isInteger(value))) {
+    throw new Error(`Invalid ${keyword} on line ${lineNumber}`);
+  }
+  return values;
+}
+
+/**
+ * Parse a bounding box (width, height, x offset, y offset)
+ */
+function parseBoundingBox(args: string, keyword: string, lineNumber: number): BoundingBox {
+  const [width, height, xOffset, yOffset] = parseNumbers(args, 4, keyword, lineNumber);
+  return { width, height, xOffset, yOffset };
+}
+
+/**
+ * Unquote a BDF property value
+ */
+function parsePropertyValue(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2) {
+    return trimmed.slice(1, -1).replace(/""/g, '"');
+  }
+  return trimmed;
+}
+
+/**
+ * Place a glyph bitmap into a font cell
+ */
+function placeGlyph(
+  glyph: BdfRawGlyph,
+  fontBox: BoundingBox,
+  ascent: number
+): boolean[][] {
+  const bbx = glyph.bbx ?? fontBox;
+  const pixels = Array.from({ length: fontBox.height }, () => new Array<boolean>(fontBox.width).fill(false));
+
+  // Top row of the glyph in the cell (rows counted down from the cell top)
+  const top = ascent - (bbx.yOffset + bbx.height);
+  const left = bbx.xOffset - fontBox.xOffset;
+
+  for (let y = 0; y < bbx.height && y < glyph.rows.length; y++) {
+    const row = glyph.rows[y];
+    const cellY = top + y;
+    if (cellY < 0 || cellY >= fontBox.height) continue;
+
+    for (let x = 0; x < bbx.width; x++) {
+      const nibble = parseInt(row[x >> 2] ?? "0", 16);
+      if (!(nibble & (8 >> (x & 3)))) continue;
+      const cellX = left + x;
+      if (cellX >= 0 && cellX < fontBox.width) {
+        pixels[cellY][cellX] = true;
+      }
+    }
+  }
+
+  return pixels;
+}
+
+/**
+ * Parse a BDF font
+ *
+ * Glyphs with ENCODING -1 use their alternate encoding when present
+ * and are skipped otherwise.
+ *
+ * @param text - BDF file content
+ * @returns Font with glyphs decoded into cells
+ */
+export function parseBdf(text: string): BitmapFont {
+  if (!isBdfContent(text)) {
+    throw new Error("Not a BDF font (missing STARTFONT)");
+  }
+
+  let name = "";
+  let fontBox: BoundingBox | null = null;
+  const properties: Record<string, string> = {};
+  const rawGlyphs: BdfRawGlyph[] = [];
+
+  let inProperties = false;
+  let glyph: BdfRawGlyph | null = null;
+  let inBitmap = false;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNumber = i + 1;
+    if (!line) continue;
+
+    const space = line.indexOf(" ");
+    const keyword = space < 0 ? line : line.slice(0, space);
+    const args = space < 0 ? "" : line.slice(space + 1);
+
+    if (inBitmap && glyph) {
+      if (keyword === "ENDCHAR") {
+        rawGlyphs.push(glyph);
+        glyph = null;
+        inBitmap = false;
+      } else if (/^[0-9a-f]+$/i.test(line)) {
+        glyph.rows.push(line);
+      } else {
+        throw new Error(`Invalid bitmap data on line ${lineNumber}`);
+      }
+      continue;
+    }
+
+    if (inProperties) {
+      if (keyword === "ENDPROPERTIES") {
+        inProperties = false;
+      } else {
+        properties[keyword] = parsePropertyValue(args);
+      }
+      continue;
+    }
+
+    switch (keyword) {
+      case "FONT":
+        name = args.trim();
+        break;
+      case "FONTBOUNDINGBOX":
+        fontBox = parseBoundingBox(args, keyword, lineNumber);
+        break;
+      case "STARTPROPERTIES":
+        inProperties = true;
+        break;
+      case "STARTCHAR":
+        glyph = { name: args.trim(), encoding: -1, bbx: null, rows: [] };
+        break;
+      case "ENCODING":
+        if (glyph) {
+          const [encoding, alternate] = args.trim().split(/\s+/).map(Number);
+          glyph.encoding = encoding >= 0 ? encoding : Number.isInteger(alternate) ? alternate : -1;
+        }
+        break;
+      case "BBX":
+        if (glyph) glyph.bbx = parseBoundingBox(args, keyword, lineNumber);
+        break;
+      case "BITMAP":
+        if (glyph) inBitmap = true;
+        break;
+      case "ENDCHAR":
+        if (glyph) rawGlyphs.push(glyph);
+        glyph = null;
+        break;
+      case "ENDFONT":
+        i = lines.length;
+        break;
+      default:
+        // SIZE, CHARS, SWIDTH, DWIDTH and other lines do not affect the bitmap
+        break;
+    }
+  }
+
+  if (!fontBox) {
+    throw new Error("BDF font has no FONTBOUNDINGBOX");
+  }
+  if (fontBox.width < 1 || fontBox.height < 1) {
+    throw new Error("BDF font has an empty FONTBOUNDINGBOX");
+  }
+
+  const cell = fontBox;
+  const ascent = cell.height + cell.yOffset;
+  const glyphs: BitmapFontGlyph[] = rawGlyphs
+    .filter((raw) => raw.encoding >= 0)
+    .map((raw) => ({
+      encoding: raw.encoding,
+      name: raw.name,
+      pixels: placeGlyph(raw, cell, ascent),
+    }));
+
+  if (glyphs.length === 0) {
+    throw new Error("BDF font contains no encoded glyphs");
+  }
+
+  return {
+    name: properties.FAMILY_NAME || name,
+    family: properties.FAMILY_NAME,
+    width: cell.width,
+    height: cell.height,
+    ascent,
+    glyphs,
+  };
+}
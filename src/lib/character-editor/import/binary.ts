@@ -2,7 +2,8 @@
  * Character ROM Editor - Binary Conversion
  *
  * Handles conversion between binary ROM data and Character objects.
- * Supports configurable padding and bit direction.
+ * Supports configurable padding, bit direction, bit depth, byte layout
+ * and ROM layout (stride, skip and split regions).
  */
 
 import {
@@ -13,7 +14,50 @@ import {
   bytesPerLine,
   bytesPerCharacter,
   createEmptyCharacter,
+  cloneCharacter,
 } from "../types";
+import { getPixelColor, applyToColorPlanes } from "../multicolor";
+import {
+  hasRomLayout,
+  getPackedConfig,
+  getRomCharacterCount,
+  getRomSize,
+  readCharacterBytes,
+  writeCharacterBytes,
+} from "../romLayout";
+
+/**
+ * Swap rows and columns of a character (including its color plane)
+ */
+function transposeCharacter(character: Character): Character {
+  const height = character.pixels.length;
+  const width = character.pixels[0]?.length ?? 0;
+  const transposed: Character = {
+    pixels: Array.from({ length: width }, (_, row) =>
+      Array.from({ length: height }, (_, col) => character.pixels[col]?.[row] ?? false)
+    ),
+  };
+  if (character.colors) {
+    const colors = character.colors;
+    transposed.colors = Array.from({ length: width }, (_, row) =>
+      Array.from({ length: height }, (_, col) => colors[col]?.[row] ?? 0)
+    );
+  }
+  return transposed;
+}
+
+/**
+ * Get the row-major configuration that reads column-major data
+ * Each column becomes a row, so width and height are swapped.
+ */
+function getTransposedConfig(config: CharacterSetConfig): CharacterSetConfig {
+  return {
+    ...config,
+    width: config.height,
+    height: config.width,
+    byteLayout: "row",
+  };
+}
 
 /**
  * Convert a Uint8Array of bytes to a Character object
@@ -24,6 +68,12 @@ import {
  * - Big-endian (big): Byte 0 = pixels 0-7, Byte 1 = pixels 8-15 (default)
  * - Little-endian (little): Byte 0 = pixels 8-15, Byte 1 = pixels 0-7
  *
+ * With 2 bits per pixel, each pixel is a bit pair (high bit first) and
+ * bit direction orders the pairs. The result then carries a color plane.
+ *
+ * With column-major layout, the same rules apply to each column (top to
+ * bottom) instead of each row.
+ *
  * @param bytes - Raw binary data for one character
  * @param config - Character set configuration
  * @returns Character object with pixel data
@@ -32,14 +82,19 @@ export function bytesToCharacter(
   bytes: Uint8Array,
   config: CharacterSetConfig
 ): Character {
-  const { width, height, padding, bitDirection, byteOrder = "big" } = config;
-  const bpl = bytesPerLine(width);
+  if (config.byteLayout === "column") {
+    return transposeCharacter(bytesToCharacter(bytes, getTransposedConfig(config)));
+  }
+
+  const { width, height, padding, bitDirection, byteOrder = "big", bitsPerPixel = 1 } = config;
+  const bpl = bytesPerLine(width, bitsPerPixel);
   const pixels: boolean[][] = [];
+  const colors: number[][] = [];
 
   for (let row = 0; row < height; row++) {
     const rowStart = row * bpl;
     const totalBits = bpl * 8;
-    const paddingBits = totalBits - width;
+    const paddingBits = totalBits - width * bitsPerPixel;
 
     // Get row bytes
     const rowBytes: number[] = [];
@@ -63,22 +118,31 @@ export function bytesToCharacter(
 
     // Extract pixels from allBits
     const rowPixels: boolean[] = [];
+    const rowColors: number[] = [];
     for (let i = 0; i < width; i++) {
-      let bitIndex: number;
+      let slot: number;
       if (bitDirection === "msb") {
         // MSB first: pixel 0 at first data position
-        bitIndex = (padding === "left" ? paddingBits : 0) + i;
+        slot = i;
       } else {
         // LSB first: pixel 0 at last data position
-        bitIndex = (padding === "left" ? paddingBits : 0) + (width - 1 - i);
+        slot = width - 1 - i;
       }
-      rowPixels.push(allBits[bitIndex]);
+      const bitIndex = (padding === "left" ? paddingBits : 0) + slot * bitsPerPixel;
+
+      let value = 0;
+      for (let bit = 0; bit < bitsPerPixel; bit++) {
+        value = (value << 1) | (allBits[bitIndex + bit] ? 1 : 0);
+      }
+      rowPixels.push(value !== 0);
+      rowColors.push(value);
     }
 
     pixels.push(rowPixels);
+    colors.push(rowColors);
   }
 
-  return { pixels };
+  return bitsPerPixel > 1 ? { pixels, colors } : { pixels };
 }
 
 /**
@@ -94,6 +158,12 @@ export function bytesToCharacter(
  *
  * Padding is then added on the specified side.
  *
+ * With 2 bits per pixel, each pixel's color index is written as a bit pair
+ * (high bit first). Monochrome characters write "on" pixels as color 3.
+ *
+ * With column-major layout, each column is written top to bottom using the
+ * same rules.
+ *
  * Example for 7-bit data `0001110`:
  * - MSB first, left padding:  `00001110`
  * - MSB first, right padding: `00011100`
@@ -108,32 +178,44 @@ export function characterToBytes(
   character: Character,
   config: CharacterSetConfig
 ): Uint8Array {
-  const { width, height, padding, bitDirection, byteOrder = "big" } = config;
-  const bpl = bytesPerLine(width);
+  if (config.byteLayout === "column") {
+    return characterToBytes(transposeCharacter(character), getTransposedConfig(config));
+  }
+
+  const { width, height, padding, bitDirection, byteOrder = "big", bitsPerPixel = 1 } = config;
+  const bpl = bytesPerLine(width, bitsPerPixel);
   const bytes = new Uint8Array(height * bpl);
 
   for (let row = 0; row < height; row++) {
     const totalBits = bpl * 8;
-    const paddingBits = totalBits - width;
+    const paddingBits = totalBits - width * bitsPerPixel;
 
     // Build the full bit array for this row
     // Index 0 = MSB (bit 7) of first byte, index 7 = LSB (bit 0) of first byte, etc.
     const allBits: boolean[] = new Array(totalBits).fill(false);
 
     for (let i = 0; i < width; i++) {
-      const pixel = character.pixels[row]?.[i] || false;
+      const value =
+        bitsPerPixel > 1
+          ? getPixelColor(character, row, i)
+          : character.pixels[row]?.[i]
+            ? 1
+            : 0;
 
       // Determine the position in allBits for this pixel
-      let bitIndex: number;
+      let slot: number;
       if (bitDirection === "msb") {
         // MSB first: pixel 0 at first data position, pixel (width-1) at last
-        bitIndex = (padding === "left" ? paddingBits : 0) + i;
+        slot = i;
       } else {
         // LSB first: pixel 0 at last data position, pixel (width-1) at first
-        bitIndex = (padding === "left" ? paddingBits : 0) + (width - 1 - i);
+        slot = width - 1 - i;
       }
+      const bitIndex = (padding === "left" ? paddingBits : 0) + slot * bitsPerPixel;
 
-      allBits[bitIndex] = pixel;
+      for (let bit = 0; bit < bitsPerPixel; bit++) {
+        allBits[bitIndex + bit] = ((value >> (bitsPerPixel - 1 - bit)) & 1) !== 0;
+      }
     }
 
     // Convert allBits to bytes (allBits[0] = bit 7 of byte 0, etc.)
@@ -166,6 +248,8 @@ export function characterToBytes(
 /**
  * Parse a complete binary ROM into an array of Characters
  *
+ * Honors the configuration's ROM layout (stride, skip and split region).
+ *
  * @param data - Complete binary data (ArrayBuffer or Uint8Array)
  * @param config - Character set configuration
  * @returns Array of Character objects
@@ -175,9 +259,18 @@ export function parseCharacterRom(
   config: CharacterSetConfig
 ): Character[] {
   const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const characters: Character[] = [];
+
+  if (hasRomLayout(config)) {
+    const charCount = getRomCharacterCount(bytes.length, config);
+    for (let i = 0; i < charCount; i++) {
+      characters.push(bytesToCharacter(readCharacterBytes(bytes, i, config), config));
+    }
+    return characters;
+  }
+
   const charSize = bytesPerCharacter(config);
   const charCount = Math.floor(bytes.length / charSize);
-  const characters: Character[] = [];
 
   for (let i = 0; i < charCount; i++) {
     const charBytes = bytes.slice(i * charSize, (i + 1) * charSize);
@@ -190,14 +283,27 @@ export function parseCharacterRom(
 /**
  * Serialize an array of Characters to binary ROM data
  *
+ * Honors the configuration's ROM layout. Bytes that do not belong to a
+ * character (skip, slot padding) are written as the fill byte.
+ *
  * @param characters - Array of Character objects
  * @param config - Character set configuration
+ * @param fillByte - Value of the bytes between character slots (default: 0)
  * @returns Uint8Array of binary data
  */
 export function serializeCharacterRom(
   characters: Character[],
-  config: CharacterSetConfig
+  config: CharacterSetConfig,
+  fillByte: number = 0
 ): Uint8Array {
+  if (hasRomLayout(config)) {
+    const bytes = new Uint8Array(getRomSize(characters.length, config)).fill(fillByte & 0xff);
+    for (let i = 0; i < characters.length; i++) {
+      writeCharacterBytes(bytes, i, characterToBytes(characters[i], config), config);
+    }
+    return bytes;
+  }
+
   const charSize = bytesPerCharacter(config);
   const bytes = new Uint8Array(characters.length * charSize);
 
@@ -234,19 +340,24 @@ export function base64ToBinary(base64: string): Uint8Array {
 
 /**
  * Serialize a CharacterSet to storage format
+ * Stored binary data is always packed; the ROM layout is kept in the config.
  */
 export function serializeCharacterSet(
   characterSet: CharacterSet
 ): SerializedCharacterSet {
   const binaryData = serializeCharacterRom(
     characterSet.characters,
-    characterSet.config
+    getPackedConfig(characterSet.config)
   );
-  return {
+  const serialized: SerializedCharacterSet = {
     metadata: characterSet.metadata,
     config: characterSet.config,
     binaryData: binaryToBase64(binaryData),
   };
+  if (characterSet.banks) {
+    serialized.banks = characterSet.banks;
+  }
+  return serialized;
 }
 
 /**
@@ -256,12 +367,16 @@ export function deserializeCharacterSet(
   serialized: SerializedCharacterSet
 ): CharacterSet {
   const binaryData = base64ToBinary(serialized.binaryData);
-  const characters = parseCharacterRom(binaryData, serialized.config);
-  return {
+  const characters = parseCharacterRom(binaryData, getPackedConfig(serialized.config));
+  const characterSet: CharacterSet = {
     metadata: serialized.metadata,
     config: serialized.config,
     characters,
   };
+  if (serialized.banks) {
+    characterSet.banks = serialized.banks;
+  }
+  return characterSet;
 }
 
 /**
@@ -281,9 +396,14 @@ export function convertCharacter(
 
   // If dimensions are the same, just return a copy
   if (sourceWidth === targetWidth && sourceHeight === targetHeight) {
-    return {
-      pixels: character.pixels.map((row) => [...row]),
-    };
+    return cloneCharacter(character);
+  }
+
+  // Multicolor characters are converted plane by plane
+  if (character.colors) {
+    return applyToColorPlanes(character, (plane) =>
+      convertCharacter(plane, sourceConfig, targetConfig, anchor)
+    );
   }
 
   // Create new character with target dimensions
@@ -0,0 +1,150 @@
+/**
+ * Character ROM Editor - Bitmap Font Import
+ *
+ * Shared model for bitmap font files (BDF, PSF and similar formats).
+ * Parsers decode glyphs into fixed-size cells; this module maps
+ * glyph encodings to character indices to build a character set.
+ */
+
+import { Character, CharacterSetConfig, createEmptyCharacter } from "../types";
+
+/** Largest cell the editor supports */
+const MAX_CELL_SIZE = 16;
+
+/**
+ * Glyph decoded into a character cell
+ */
+export interface BitmapFontGlyph {
+  /** Code point or encoding of the glyph */
+  encoding: number;
+  /** Glyph name from the file (if any) */
+  name?: string;
+  /** Cell pixels [row][column] */
+  pixels: boolean[][];
+  /** Unicode code points the glyph represents (from a font Unicode table) */
+  unicode?: number[];
+}
+
+/**
+ * Bitmap font decoded into fixed-size cells
+ */
+export interface BitmapFont {
+  /** Font name from the file */
+  name: string;
+  /** Font family (if the file provides one) */
+  family?: string;
+  /** Cell width in pixels */
+  width: number;
+  /** Cell height in pixels */
+  height: number;
+  /** Rows from the top of the cell to the baseline */
+  ascent: number;
+  /** Glyphs in file order */
+  glyphs: BitmapFontGlyph[];
+}
+
+/**
+ * Encoding range to import from a bitmap font
+ */
+export interface BitmapFontImportOptions {
+  /** Encoding placed at character index 0 */
+  startCode: number;
+  /** Last encoding to import */
+  endCode: number;
+}
+
+/**
+ * Result of converting a bitmap font to characters
+ */
+export interface BitmapFontImportResult {
+  characters: Character[];
+  config: CharacterSetConfig;
+  /** Indices in the range without a glyph in the font */
+  missing: number[];
+  /** Unicode code point of each character (when the font has a Unicode table) */
+  unicodeMap?: (number | null)[];
+}
+
+/**
+ * Get the lowest and highest glyph encodings of a font
+ */
+export function getBitmapFontEncodingRange(font: BitmapFont): { min: number; max: number } | null {
+  if (font.glyphs.length === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const glyph of font.glyphs) {
+    min = Math.min(min, glyph.encoding);
+    max = Math.max(max, glyph.encoding);
+  }
+  return { min, max };
+}
+
+/**
+ * Get the default import range for a font
+ * Fonts within 8-bit encodings import 128 or 256 characters from 0,
+ * larger fonts import 256 encodings from 0 (or from the lowest
+ * encoding when the font has no 8-bit glyphs).
+ */
+export function getDefaultBitmapFontImportOptions(font: BitmapFont): BitmapFontImportOptions {
+  const range = getBitmapFontEncodingRange(font);
+  if (!range) return { startCode: 0, endCode: 255 };
+  if (range.max <= 255) {
+    return { startCode: 0, endCode: range.max < 128 ? 127 : 255 };
+  }
+  const startCode = range.min > 255 ? range.min : 0;
+  return { startCode, endCode: startCode + 255 };
+}
+
+/**
+ * Convert a bitmap font to characters, placing each glyph at
+ * its encoding minus the start code
+ *
+ * @param font - Decoded bitmap font
+ * @param options - Encoding range to import
+ * @returns Characters, configuration and missing indices
+ */
+export function bitmapFontToCharacters(
+  font: BitmapFont,
+  options: BitmapFontImportOptions
+): BitmapFontImportResult {
+  if (font.width > MAX_CELL_SIZE || font.height > MAX_CELL_SIZE) {
+    throw new Error(
+      `Font cell is ${font.width}x${font.height} pixels. Characters can be at most ${MAX_CELL_SIZE}x${MAX_CELL_SIZE}.`
+    );
+  }
+
+  const count = Math.max(0, options.endCode - options.startCode + 1);
+  const slots: (Character | null)[] = new Array(count).fill(null);
+  const unicodeMap: (number | null)[] = new Array(count).fill(null);
+  let hasUnicode = false;
+
+  for (const glyph of font.glyphs) {
+    const index = glyph.encoding - options.startCode;
+    if (index >= 0 && index < count && !slots[index]) {
+      slots[index] = { pixels: glyph.pixels.map((row) => [...row]) };
+      if (glyph.unicode && glyph.unicode.length > 0) {
+        unicodeMap[index] = glyph.unicode[0];
+        hasUnicode = true;
+      }
+    }
+  }
+
+  const missing: number[] = [];
+  const characters = slots.map((character, index) => {
+    if (character) return character;
+    missing.push(index);
+    return createEmptyCharacter(font.width, font.height);
+  });
+
+  return {
+    characters,
+    config: {
+      width: font.width,
+      height: font.height,
+      padding: "right",
+      bitDirection: "msb",
+    },
+    missing,
+    ...(hasUnicode && { unicodeMap }),
+  };
+}
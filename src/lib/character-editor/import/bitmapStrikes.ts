@@ -0,0 +1,587 @@
+/**
+ * Character ROM Editor - Embedded Bitmap Strikes
+ *
+ * Reads the bitmap strikes that TrueType/OpenType fonts can embed next
+ * to their outlines, so font import can copy the designer's pixels
+ * instead of rasterizing:
+ * - EBLC/EBDT: monochrome and grayscale bitmaps
+ * - CBLC/CBDT: PNG bitmaps (color fonts)
+ *
+ * Plain sfnt files, TrueType collections (first font) and WOFF 1.0
+ * files are supported. Glyphs are looked up by glyph index; mapping
+ * characters to glyph indices is left to the outline font parser.
+ */
+
+import { unzlibSync } from "fflate";
+import { Character } from "../types";
+
+/**
+ * A bitmap strike: one pixel size of the embedded bitmaps
+ */
+export interface BitmapStrike {
+  /** Horizontal pixels per em */
+  ppemX: number;
+  /** Vertical pixels per em */
+  ppemY: number;
+  /** Bits per pixel (1, 2, 4, 8; 32 for color PNG strikes) */
+  bitDepth: number;
+  /** Rows above the baseline */
+  ascender: number;
+  /** Rows below the baseline (negative) */
+  descender: number;
+  /** Widest glyph in pixels */
+  maxWidth: number;
+  /** First glyph index with a bitmap */
+  startGlyph: number;
+  /** Last glyph index with a bitmap */
+  endGlyph: number;
+  /** Whether the strike comes from CBLC/CBDT (PNG) tables */
+  color: boolean;
+}
+
+/**
+ * A glyph bitmap taken from a strike
+ */
+export interface StrikeGlyph {
+  width: number;
+  height: number;
+  /** Pixels from the origin to the left edge */
+  bearingX: number;
+  /** Pixels from the baseline to the top edge */
+  bearingY: number;
+  /** Horizontal advance in pixels */
+  advance: number;
+  pixels: boolean[][];
+}
+
+/**
+ * Bitmap location and data tables of a font
+ */
+export interface BitmapStrikeTables {
+  strikes: BitmapStrike[];
+  /** EBLC or CBLC table */
+  location: Uint8Array;
+  /** EBDT or CBDT table */
+  data: Uint8Array;
+  /** Offsets of the BitmapSize records in the location table, one per strike */
+  sizeOffsets: number[];
+}
+
+/**
+ * Glyph metrics as stored in the tables
+ */
+interface GlyphMetrics {
+  width: number;
+  height: number;
+  bearingX: number;
+  bearingY: number;
+  advance: number;
+}
+
+/** Size of a BitmapSize record in EBLC/CBLC */
+const BITMAP_SIZE_RECORD = 48;
+
+/**
+ * Read a tag of 4 ASCII characters
+ */
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Find tables by tag in an sfnt, TrueType collection or WOFF file
+ * Returns null for containers that cannot be read (such as WOFF2).
+ */
+function readTables(fontData: ArrayBuffer, tags: string[]): Map<string, Uint8Array> | null {
+  const bytes = new Uint8Array(fontData);
+  const view = new DataView(fontData);
+  if (bytes.length < 12) return null;
+
+  const tables = new Map<string, Uint8Array>();
+  const signature = readTag(view, 0);
+
+  if (signature === "wOFF") {
+    const numTables = view.getUint16(12);
+    for (let i = 0; i < numTables; i++) {
+      const record = 44 + i * 20;
+      if (record + 20 > bytes.length) return null;
+      const tag = readTag(view, record);
+      if (!tags.includes(tag)) continue;
+      const offset = view.getUint32(record + 4);
+      const compLength = view.getUint32(record + 8);
+      const origLength = view.getUint32(record + 12);
+      const table = bytes.subarray(offset, offset + compLength);
+      tables.set(tag, compLength < origLength ? unzlibSync(table) : table);
+    }
+    return tables;
+  }
+
+  let directory = 0;
+  if (signature === "ttcf") {
+    directory = view.getUint32(12);
+  } else if (signature !== "true" && signature !== "OTTO" && view.getUint32(0) !== 0x00010000) {
+    return null;
+  }
+
+  const numTables = view.getUint16(directory + 4);
+  for (let i = 0; i < numTables; i++) {
+    const record = directory + 12 + i * 16;
+    if (record + 16 > bytes.length) return null;
+    const tag = readTag(view, record);
+    if (!tags.includes(tag)) continue;
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+    tables.set(tag, bytes.subarray(offset, offset + length));
+  }
+  return tables;
+}
+
+/**
+ * Read the EBLC/EBDT or CBLC/CBDT tables and their strike records
+ */
+function parseStrikeTables(fontData: ArrayBuffer): BitmapStrikeTables | null {
+  const tables = readTables(fontData, ["EBLC", "EBDT", "CBLC", "CBDT"]);
+  if (!tables) return null;
+
+  const color = !tables.has("EBLC") && tables.has("CBLC");
+  const location = tables.get(color ? "CBLC" : "EBLC");
+  const data = tables.get(color ? "CBDT" : "EBDT");
+  if (!location || !data || location.length < 8) return null;
+
+  const view = new DataView(location.buffer, location.byteOffset, location.byteLength);
+  const numSizes = view.getUint32(4);
+  const strikes: BitmapStrike[] = [];
+  const sizeOffsets: number[] = [];
+
+  for (let i = 0; i < numSizes; i++) {
+    const record = 8 + i * BITMAP_SIZE_RECORD;
+    if (record + BITMAP_SIZE_RECORD > location.length) break;
+    strikes.push({
+      ascender: view.getInt8(record + 16),
+      descender: view.getInt8(record + 17),
+      maxWidth: view.getUint8(record + 18),
+      startGlyph: view.getUint16(record + 40),
+      endGlyph: view.getUint16(record + 42),
+      ppemX: view.getUint8(record + 44),
+      ppemY: view.getUint8(record + 45),
+      bitDepth: view.getUint8(record + 46),
+      color,
+    });
+    sizeOffsets.push(record);
+  }
+
+  return strikes.length > 0 ? { strikes, location, data, sizeOffsets } : null;
+}
+
+/**
+ * Read the bitmap strike tables of a font
+ * Malformed tables are treated as missing, so import falls back to rasterization.
+ *
+ * @param fontData - Font file content
+ * @returns Strike tables, or null if the font has no bitmap strikes
+ */
+export function readBitmapStrikes(fontData: ArrayBuffer): BitmapStrikeTables | null {
+  try {
+    return parseStrikeTables(fontData);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the bitmap strikes of a font, smallest first
+ *
+ * @param fontData - Font file content
+ * @returns Strikes, or an empty list if the font has none
+ */
+export function getBitmapStrikes(fontData: ArrayBuffer): BitmapStrike[] {
+  const tables = readBitmapStrikes(fontData);
+  if (!tables) return [];
+  return [...tables.strikes].sort((a, b) => a.ppemY - b.ppemY);
+}
+
+/**
+ * Read glyph metrics
+ * Small (5 byte) and big (8 byte) metrics start with the same horizontal fields.
+ */
+function readMetrics(view: DataView, offset: number): GlyphMetrics {
+  return {
+    height: view.getUint8(offset),
+    width: view.getUint8(offset + 1),
+    bearingX: view.getInt8(offset + 2),
+    bearingY: view.getInt8(offset + 3),
+    advance: view.getUint8(offset + 4),
+  };
+}
+
+/**
+ * Locate a glyph's image in the data table
+ */
+function locateGlyph(
+  tables: BitmapStrikeTables,
+  strikeIndex: number,
+  glyphIndex: number
+): { imageFormat: number; offset: number; length: number; metrics: GlyphMetrics | null } | null {
+  const { location } = tables;
+  const view = new DataView(location.buffer, location.byteOffset, location.byteLength);
+  const record = tables.sizeOffsets[strikeIndex];
+  const arrayOffset = view.getUint32(record);
+  const numSubTables = view.getUint32(record + 8);
+
+  for (let i = 0; i < numSubTables; i++) {
+    const entry = arrayOffset + i * 8;
+    if (entry + 8 > location.length) return null;
+    const first = view.getUint16(entry);
+    const last = view.getUint16(entry + 2);
+    if (glyphIndex < first || glyphIndex > last) continue;
+
+    const subTable = arrayOffset + view.getUint32(entry + 4);
+    const indexFormat = view.getUint16(subTable);
+    const imageFormat = view.getUint16(subTable + 2);
+    const imageDataOffset = view.getUint32(subTable + 4);
+    const body = subTable + 8;
+    const n = glyphIndex - first;
+
+    switch (indexFormat) {
+      case 1: {
+        const start = view.getUint32(body + n * 4);
+        const end = view.getUint32(body + (n + 1) * 4);
+        return end > start ? { imageFormat, offset: imageDataOffset + start, length: end - start, metrics: null } : null;
+      }
+      case 2: {
+        const imageSize = view.getUint32(body);
+        const metrics = readMetrics(view, body + 4);
+        return { imageFormat, offset: imageDataOffset + n * imageSize, length: imageSize, metrics };
+      }
+      case 3: {
+        const start = view.getUint16(body + n * 2);
+        const end = view.getUint16(body + (n + 1) * 2);
+        return end > start ? { imageFormat, offset: imageDataOffset + start, length: end - start, metrics: null } : null;
+      }
+      case 4: {
+        const numGlyphs = view.getUint32(body);
+        for (let g = 0; g < numGlyphs; g++) {
+          const pair = body + 4 + g * 4;
+          if (view.getUint16(pair) !== glyphIndex) continue;
+          const start = view.getUint16(pair + 2);
+          const end = view.getUint16(pair + 6);
+          return { imageFormat, offset: imageDataOffset + start, length: end - start, metrics: null };
+        }
+        return null;
+      }
+      case 5: {
+        const imageSize = view.getUint32(body);
+        const metrics = readMetrics(view, body + 4);
+        const numGlyphs = view.getUint32(body + 12);
+        for (let g = 0; g < numGlyphs; g++) {
+          if (view.getUint16(body + 16 + g * 2) === glyphIndex) {
+            return { imageFormat, offset: imageDataOffset + g * imageSize, length: imageSize, metrics };
+          }
+        }
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode packed pixels with the given bit depth
+ * Gray levels at or above half intensity count as set.
+ */
+function decodeBits(
+  bytes: Uint8Array,
+  offset: number,
+  metrics: GlyphMetrics,
+  bitDepth: number,
+  byteAligned: boolean
+): boolean[][] {
+  const maxValue = (1 << bitDepth) - 1;
+  const rowBits = metrics.width * bitDepth;
+  const rowStride = byteAligned ? Math.ceil(rowBits / 8) * 8 : rowBits;
+
+  return Array.from({ length: metrics.height }, (_, row) =>
+    Array.from({ length: metrics.width }, (_, col) => {
+      const bit = offset * 8 + row * rowStride + col * bitDepth;
+      let value = 0;
+      for (let b = 0; b < bitDepth; b++) {
+        const position = bit + b;
+        value = (value << 1) | ((bytes[position >> 3] >> (7 - (position & 7))) & 1);
+      }
+      return value * 2 > maxValue;
+    })
+  );
+}
+
+/**
+ * Undo PNG row filters
+ */
+function unfilterPng(raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? out[dst + x - bpp] : 0;
+      const up = y > 0 ? out[dst - stride + x] : 0;
+      const upLeft = x >= bpp && y > 0 ? out[dst - stride + x - bpp] : 0;
+      let predictor = 0;
+      switch (filter) {
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+      out[dst + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decode a PNG glyph image to pixels
+ * Opaque pixels are set; images without transparency use the brightness threshold.
+ */
+function decodePng(png: Uint8Array, threshold: number): boolean[][] | null {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  if (png.length < 33 || view.getUint32(0) !== 0x89504e47) return null;
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= png.length) {
+    const length = view.getUint32(pos);
+    const type = readTag(view, pos + 4);
+    const chunk = png.subarray(pos + 8, pos + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(pos + 8);
+      height = view.getUint32(pos + 12);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) return null; // Interlaced images are not supported
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+    pos += 12 + length;
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (!channels || width === 0 || height === 0 || idat.length === 0) return null;
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+  let filled = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, filled);
+    filled += chunk.length;
+  }
+
+  const stride = Math.ceil((width * channels * bitDepth) / 8);
+  const bpp = Math.max(1, (channels * bitDepth) >> 3);
+  const image = unfilterPng(unzlibSync(compressed), height, stride, bpp);
+  const maxValue = (1 << bitDepth) - 1;
+
+  // Read a sample scaled to 0-255
+  const sample = (row: number, index: number): number => {
+    if (bitDepth === 16) return image[row * stride + index * 2];
+    if (bitDepth === 8) return image[row * stride + index];
+    const bit = index * bitDepth;
+    const value = (image[row * stride + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxValue;
+    return colorType === 3 ? value : Math.round((value * 255) / maxValue);
+  };
+
+  return Array.from({ length: height }, (_, row) =>
+    Array.from({ length: width }, (_, col) => {
+      let r: number, g: number, b: number;
+      let alpha = 255;
+      if (colorType === 3) {
+        const index = sample(row, col);
+        if (!palette) return false;
+        [r, g, b] = [palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2]];
+        if (transparency && index < transparency.length) alpha = transparency[index];
+      } else if (colorType === 0 || colorType === 4) {
+        r = g = b = sample(row, col * channels);
+        if (colorType === 4) alpha = sample(row, col * channels + 1);
+      } else {
+        r = sample(row, col * channels);
+        g = sample(row, col * channels + 1);
+        b = sample(row, col * channels + 2);
+        if (colorType === 6) alpha = sample(row, col * channels + 3);
+      }
+
+      const hasAlpha = colorType === 4 || colorType === 6 || transparency !== null;
+      if (hasAlpha) return alpha >= 128;
+      return 0.299 * r + 0.587 * g + 0.114 * b < threshold;
+    })
+  );
+}
+
+/**
+ * Read a glyph bitmap from a strike
+ *
+ * @param tables - Strike tables from readBitmapStrikes
+ * @param ppem - Vertical pixels per em of the strike
+ * @param glyphIndex - Glyph index from the font's character map
+ * @param threshold - Brightness threshold for opaque PNG images (0-255)
+ * @returns Glyph bitmap, or null if the strike has no bitmap for the glyph
+ */
+export function getStrikeGlyph(
+  tables: BitmapStrikeTables,
+  ppem: number,
+  glyphIndex: number,
+  threshold = 128
+): StrikeGlyph | null {
+  const strikeIndex = tables.strikes.findIndex((strike) => strike.ppemY === ppem);
+  if (strikeIndex < 0) return null;
+  const strike = tables.strikes[strikeIndex];
+  if (glyphIndex < strike.startGlyph || glyphIndex > strike.endGlyph) return null;
+
+  try {
+    return decodeStrikeGlyph(tables, strikeIndex, glyphIndex, threshold);
+  } catch {
+    // Malformed bitmap data: let the rasterizer draw the glyph
+    return null;
+  }
+}
+
+/**
+ * Locate and decode a glyph image
+ */
+function decodeStrikeGlyph(
+  tables: BitmapStrikeTables,
+  strikeIndex: number,
+  glyphIndex: number,
+  threshold: number
+): StrikeGlyph | null {
+  const strike = tables.strikes[strikeIndex];
+  const located = locateGlyph(tables, strikeIndex, glyphIndex);
+  if (!located || located.offset + located.length > tables.data.length) return null;
+
+  const { data } = tables;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const { imageFormat, offset } = located;
+  let metrics = located.metrics;
+  let pixels: boolean[][] | null = null;
+
+  switch (imageFormat) {
+    case 1:
+    case 2:
+      metrics = readMetrics(view, offset);
+      pixels = decodeBits(data, offset + 5, metrics, strike.bitDepth, imageFormat === 1);
+      break;
+    case 5:
+      if (!metrics) return null;
+      pixels = decodeBits(data, offset, metrics, strike.bitDepth, false);
+      break;
+    case 6:
+    case 7:
+      metrics = readMetrics(view, offset);
+      pixels = decodeBits(data, offset + 8, metrics, strike.bitDepth, imageFormat === 6);
+      break;
+    case 17:
+      metrics = readMetrics(view, offset);
+      pixels = decodePng(data.subarray(offset + 9, offset + 9 + view.getUint32(offset + 5)), threshold);
+      break;
+    case 18:
+      metrics = readMetrics(view, offset);
+      pixels = decodePng(data.subarray(offset + 12, offset + 12 + view.getUint32(offset + 8)), threshold);
+      break;
+    case 19:
+      if (!metrics) return null;
+      pixels = decodePng(data.subarray(offset + 4, offset + 4 + view.getUint32(offset)), threshold);
+      break;
+    default:
+      // Composite glyphs (formats 8 and 9) are left to the rasterizer
+      return null;
+  }
+
+  if (!metrics || !pixels) return null;
+  return { ...metrics, pixels };
+}
+
+/**
+ * Cell layout options shared with the outline rasterizer
+ */
+export interface StrikePlacementOptions {
+  charWidth: number;
+  charHeight: number;
+  centerGlyphs: boolean;
+  baselineOffset: number;
+}
+
+/**
+ * Copy a glyph from a strike into a character cell
+ *
+ * @returns Character, or null if the strike has no bitmap for the glyph
+ */
+export function renderStrikeGlyph(
+  tables: BitmapStrikeTables,
+  ppem: number,
+  glyphIndex: number,
+  options: StrikePlacementOptions & { threshold: number }
+): Character | null {
+  const strike = tables.strikes.find((entry) => entry.ppemY === ppem);
+  const glyph = strike ? getStrikeGlyph(tables, ppem, glyphIndex, options.threshold) : null;
+  return strike && glyph ? strikeGlyphToCharacter(glyph, strike, options) : null;
+}
+
+/**
+ * Place a strike glyph in a character cell
+ * Positions follow the outline rasterizer: the baseline sits above the
+ * strike's descender, and centering uses the advance and line height.
+ */
+export function strikeGlyphToCharacter(
+  glyph: StrikeGlyph,
+  strike: BitmapStrike,
+  options: StrikePlacementOptions
+): Character {
+  const { charWidth, charHeight, centerGlyphs, baselineOffset } = options;
+
+  let originX = 0;
+  let baseline = charHeight + strike.descender + baselineOffset;
+  if (centerGlyphs) {
+    originX = Math.floor((charWidth - glyph.advance) / 2);
+    const verticalOffset = Math.floor((charHeight - (strike.ascender - strike.descender)) / 2);
+    baseline = charHeight + strike.descender - verticalOffset + baselineOffset;
+  }
+
+  const left = originX + glyph.bearingX;
+  const top = baseline - glyph.bearingY;
+
+  const pixels = Array.from({ length: charHeight }, (_, y) =>
+    Array.from({ length: charWidth }, (_, x) => glyph.pixels[y - top]?.[x - left] === true)
+  );
+  return { pixels };
+}
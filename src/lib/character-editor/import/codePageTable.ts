@@ -0,0 +1,141 @@
+/**
+ * Character ROM Editor - Code Page Table Import
+ *
+ * Parses custom index -> code point tables:
+ * - CSV/text: one "index,codepoint" pair per line (comma, semicolon,
+ *   tab or space separated), "#" starts a comment. This also reads
+ *   the Unicode consortium mapping files (e.g. CP437.TXT).
+ * - JSON: an array of code points, or an object keyed by index
+ *
+ * Numbers may be decimal, 0x/$ hex, or U+XXXX. A code point may also
+ * be given as the character itself. Empty values, "-" and null leave
+ * an index unmapped.
+ */
+
+/** Highest character index a table may use */
+const MAX_TABLE_INDEX = 0xffff;
+
+/** Highest Unicode code point */
+const MAX_CODE_POINT = 0x10ffff;
+
+/**
+ * Parse an index or code point number
+ * @returns The number, or null if the text is not a number
+ */
+function parseNumber(text: string): number | null {
+  const match = text.match(/^(?:(0x|\$|U\+)([0-9A-Fa-f]+)|(\d+))$/i);
+  if (!match) return null;
+  return match[3] !== undefined ? parseInt(match[3], 10) : parseInt(match[2], 16);
+}
+
+/**
+ * Parse a code point value: a number, U+XXXX, 0x/$ hex or the character itself
+ * @returns The code point, null for an unmapped index, or undefined if invalid
+ */
+export function parseCodePoint(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 0 && value <= MAX_CODE_POINT ? value : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const text = value.trim();
+  if (text === "" || text === "-" || text.toLowerCase() === "null") return null;
+  const number = parseNumber(text);
+  if (number !== null) return number <= MAX_CODE_POINT ? number : undefined;
+
+  // A single character stands for itself
+  const chars = Array.from(text.replace(/^(["'])(.+)\1$/, "$2"));
+  return chars.length === 1 ? chars[0].codePointAt(0) : undefined;
+}
+
+/**
+ * Turn index -> code point entries into a table
+ */
+function entriesToTable(entries: [number, number | null][]): (number | null)[] {
+  if (entries.length === 0) {
+    throw new Error("Mapping table is empty");
+  }
+  const length = Math.max(...entries.map(([index]) => index)) + 1;
+  const table: (number | null)[] = Array(length).fill(null);
+  for (const [index, codePoint] of entries) {
+    table[index] = codePoint;
+  }
+  return table;
+}
+
+/**
+ * Parse a JSON mapping table
+ */
+function parseJsonTable(text: string): (number | null)[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Mapping table is not valid JSON");
+  }
+
+  const pairs: [string, unknown][] = Array.isArray(data)
+    ? data.map((value, index) => [String(index), value])
+    : data && typeof data === "object"
+      ? Object.entries(data)
+      : [];
+  if (!Array.isArray(data) && pairs.length === 0) {
+    throw new Error("Mapping table must be a JSON array or object");
+  }
+
+  const entries: [number, number | null][] = pairs.map(([key, value]) => {
+    const index = parseNumber(key.trim());
+    if (index === null || index > MAX_TABLE_INDEX) {
+      throw new Error(`Invalid character index "${key}"`);
+    }
+    const codePoint = parseCodePoint(value);
+    if (codePoint === undefined) {
+      throw new Error(`Invalid code point for index ${index}`);
+    }
+    return [index, codePoint];
+  });
+  return entriesToTable(entries);
+}
+
+/**
+ * Parse a CSV or plain-text mapping table
+ */
+function parseCsvTable(text: string): (number | null)[] {
+  const entries: [number, number | null][] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) return;
+
+    const fields = line.split(/\s*[,;\t]\s*|\s+/);
+    const index = parseNumber(fields[0]);
+    if (index === null) {
+      // Allow a header row such as "index,codepoint"
+      if (entries.length === 0 && /^[A-Za-z_]/.test(fields[0])) return;
+      throw new Error(`Invalid character index on line ${lineIndex + 1}`);
+    }
+    if (index > MAX_TABLE_INDEX) {
+      throw new Error(`Character index out of range on line ${lineIndex + 1}`);
+    }
+
+    const codePoint = parseCodePoint(fields[1] ?? "");
+    if (codePoint === undefined) {
+      throw new Error(`Invalid code point on line ${lineIndex + 1}`);
+    }
+    entries.push([index, codePoint]);
+  });
+
+  return entriesToTable(entries);
+}
+
+/**
+ * Parse a custom code page table
+ *
+ * @param text - File content (CSV, plain text or JSON)
+ * @returns Unicode code point for each character index (null = unmapped)
+ */
+export function parseCodePageTable(text: string): (number | null)[] {
+  const trimmed = text.trim();
+  return trimmed.startsWith("[") || trimmed.startsWith("{") ? parseJsonTable(trimmed) : parseCsvTable(text);
+}
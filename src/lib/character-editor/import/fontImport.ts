@@ -8,12 +8,15 @@
  * - Web Worker rendering for non-blocking UI
  * - Chunked main-thread fallback with requestIdleCallback
  * - Cancellation of in-flight operations
+ * - Copying embedded bitmap strikes (EBDT/CBDT) instead of rasterizing
+ * - Code page tables that map each character index to a code point
  *
  * Note: Requires opentype.js to be installed: npm install opentype.js
  */
 
 import { Character } from "../types";
 import type { WorkerRequest, WorkerResponse } from "./fontImportWorker";
+import { BitmapStrikeTables, readBitmapStrikes, renderStrikeGlyph } from "./bitmapStrikes";
 
 // Type definitions for opentype.js (optional dependency)
 interface OpenTypeFont {
@@ -58,6 +61,10 @@ export interface FontImportOptions {
   centerGlyphs: boolean;
   /** Baseline offset (0 = auto, positive = move up) */
   baselineOffset: number;
+  /** Embedded bitmap strike to copy glyphs from (ppem), or null to rasterize outlines */
+  bitmapStrikePpem: number | null;
+  /** Code point for each character index (replaces startCode/endCode), or null to use the range */
+  codePoints: (number | null)[] | null;
 }
 
 /**
@@ -73,6 +80,8 @@ export function getDefaultFontImportOptions(): FontImportOptions {
     threshold: 128,
     centerGlyphs: true,
     baselineOffset: 0,
+    bitmapStrikePpem: null,
+    codePoints: null,
   };
 }
 
@@ -100,6 +109,10 @@ export interface FontParseResult {
   importedCount: number;
   /** Number of missing glyphs (replaced with blank) */
   missingCount: number;
+  /** Number of glyphs copied from the bitmap strike instead of rasterized */
+  bitmapCount: number;
+  /** Character indices whose glyph is missing from the font */
+  missingIndices: number[];
 }
 
 /**
@@ -173,7 +186,7 @@ function renderGlyphToCharacter(
   ctx.fillRect(0, 0, charWidth, charHeight);
 
   // Get the glyph
-  const glyph = font.charToGlyph(String.fromCharCode(charCode));
+  const glyph = font.charToGlyph(String.fromCodePoint(charCode));
 
   if (!glyph || glyph.index === 0) {
     // Glyph not found, return empty character
@@ -224,6 +237,40 @@ function renderGlyphToCharacter(
   return { pixels };
 }
 
+/**
+ * Copy a glyph from the selected bitmap strike, if it has one
+ */
+function renderStrikeCharacter(
+  font: OpenTypeFont,
+  strikes: BitmapStrikeTables | null,
+  charCode: number,
+  options: FontImportOptions
+): Character | null {
+  if (!strikes || options.bitmapStrikePpem === null) return null;
+  const glyph = font.charToGlyph(String.fromCodePoint(charCode));
+  if (!glyph || glyph.index === 0) return null;
+  return renderStrikeGlyph(strikes, options.bitmapStrikePpem, glyph.index, options);
+}
+
+/**
+ * Read bitmap strikes when a strike size is selected
+ */
+async function loadStrikes(file: File, options: FontImportOptions): Promise<BitmapStrikeTables | null> {
+  return options.bitmapStrikePpem === null ? null : readBitmapStrikes(await file.arrayBuffer());
+}
+
+/**
+ * Get the code point to import for each character index
+ */
+function getImportCodePoints(options: FontImportOptions): (number | null)[] {
+  if (options.codePoints) return options.codePoints;
+  const codes: number[] = [];
+  for (let code = options.startCode; code <= options.endCode; code++) {
+    codes.push(code);
+  }
+  return codes;
+}
+
 /**
  * Create an empty character with all pixels off
  */
@@ -243,15 +290,26 @@ export async function parseFontToCharacters(
   options: FontImportOptions
 ): Promise<FontParseResult> {
   const font = await loadFontFile(file);
+  const strikes = await loadStrikes(file, options);
 
   const fontFamily = font.names?.fontFamily?.en || font.names?.fullName?.en || "Unknown Font";
 
   const characters: Character[] = [];
+  const missingIndices: number[] = [];
   let importedCount = 0;
   let missingCount = 0;
+  let bitmapCount = 0;
 
-  for (let code = options.startCode; code <= options.endCode; code++) {
-    const char = renderGlyphToCharacter(font, code, options);
+  getImportCodePoints(options).forEach((code, index) => {
+    if (code === null) {
+      // Unmapped index in the code page
+      characters.push(createEmptyCharacter(options.charWidth, options.charHeight));
+      return;
+    }
+
+    const bitmap = renderStrikeCharacter(font, strikes, code, options);
+    if (bitmap) bitmapCount++;
+    const char = bitmap ?? renderGlyphToCharacter(font, code, options);
     characters.push(char);
 
     // Check if glyph was found (has any pixels set)
@@ -261,14 +319,17 @@ export async function parseFontToCharacters(
     } else if (code >= 33) {
       // Only count as missing if it's a printable character (not space/control)
       missingCount++;
+      missingIndices.push(index);
     }
-  }
+  });
 
   return {
     characters,
     fontFamily,
     importedCount,
     missingCount,
+    bitmapCount,
+    missingIndices,
   };
 }
 
@@ -398,6 +459,8 @@ class FontWorkerManager {
               fontFamily: message.fontFamily,
               importedCount: message.importedCount,
               missingCount: message.missingCount,
+              bitmapCount: message.bitmapCount,
+              missingIndices: message.missingIndices,
             });
             break;
 
@@ -455,6 +518,8 @@ class FontWorkerManager {
           threshold: options.threshold,
           centerGlyphs: options.centerGlyphs,
           baselineOffset: options.baselineOffset,
+          bitmapStrikePpem: options.bitmapStrikePpem,
+          codePoints: options.codePoints,
         },
       };
 
@@ -503,6 +568,7 @@ async function parseFontChunked(
   onProgress?: (processed: number, total: number) => void
 ): Promise<FontParseResult> {
   const font = await loadFontFile(file);
+  const strikes = await loadStrikes(file, options);
 
   if (signal.aborted) {
     throw new Error("Cancelled");
@@ -512,10 +578,13 @@ async function parseFontChunked(
     font.names?.fontFamily?.en || font.names?.fullName?.en || "Unknown Font";
 
   const characters: Character[] = [];
+  const missingIndices: number[] = [];
   let importedCount = 0;
   let missingCount = 0;
+  let bitmapCount = 0;
 
-  const totalChars = options.endCode - options.startCode + 1;
+  const codePoints = getImportCodePoints(options);
+  const totalChars = codePoints.length;
   const CHUNK_SIZE = 8; // Process 8 characters per idle callback
 
   // Use requestIdleCallback if available, otherwise use setTimeout
@@ -535,7 +604,7 @@ async function parseFontChunked(
   };
 
   return new Promise((resolve, reject) => {
-    let currentCode = options.startCode;
+    let currentIndex = 0;
     let callbackId: number;
 
     const processChunk = () => {
@@ -544,10 +613,18 @@ async function parseFontChunked(
         return;
       }
 
-      const chunkEnd = Math.min(currentCode + CHUNK_SIZE, options.endCode + 1);
+      const chunkEnd = Math.min(currentIndex + CHUNK_SIZE, totalChars);
+
+      for (let index = currentIndex; index < chunkEnd; index++) {
+        const code = codePoints[index];
+        if (code === null) {
+          characters.push(createEmptyCharacter(options.charWidth, options.charHeight));
+          continue;
+        }
 
-      for (let code = currentCode; code < chunkEnd; code++) {
-        const char = renderGlyphToCharacter(font, code, options);
+        const bitmap = renderStrikeCharacter(font, strikes, code, options);
+        if (bitmap) bitmapCount++;
+        const char = bitmap ?? renderGlyphToCharacter(font, code, options);
         characters.push(char);
 
         const hasPixels = char.pixels.some((row) => row.some((p) => p));
@@ -555,14 +632,14 @@ async function parseFontChunked(
           importedCount++;
         } else if (code >= 33) {
           missingCount++;
+          missingIndices.push(index);
         }
       }
 
-      currentCode = chunkEnd;
-      const processed = currentCode - options.startCode;
-      onProgress?.(processed, totalChars);
+      currentIndex = chunkEnd;
+      onProgress?.(currentIndex, totalChars);
 
-      if (currentCode <= options.endCode) {
+      if (currentIndex < totalChars) {
         callbackId = scheduleChunk(processChunk);
       } else {
         resolve({
@@ -570,6 +647,8 @@ async function parseFontChunked(
           fontFamily,
           importedCount,
           missingCount,
+          bitmapCount,
+          missingIndices,
         });
       }
     };
@@ -2,9 +2,13 @@
  * Font Import Web Worker
  *
  * Handles font parsing and glyph rendering off the main thread
- * using OffscreenCanvas for rendering.
+ * using OffscreenCanvas for rendering. Glyphs in the selected
+ * embedded bitmap strike are copied instead of rendered.
+ * Characters come from a code point range or a code page table.
  */
 
+import { readBitmapStrikes, renderStrikeGlyph } from "./bitmapStrikes";
+
 // Message types for worker communication
 export interface WorkerRequest {
   type: "parse";
@@ -19,6 +23,8 @@ export interface WorkerRequest {
     threshold: number;
     centerGlyphs: boolean;
     baselineOffset: number;
+    bitmapStrikePpem: number | null;
+    codePoints: (number | null)[] | null;
   };
 }
 
@@ -36,6 +42,8 @@ export interface WorkerResultMessage {
   fontFamily: string;
   importedCount: number;
   missingCount: number;
+  bitmapCount: number;
+  missingIndices: number[];
 }
 
 export interface WorkerErrorMessage {
@@ -122,26 +130,54 @@ self.onmessage = async (event: MessageEvent<WorkerRequest | { type: "cancel"; id
 
       // Parse font
       const font: OpenTypeFont = opentype.parse(fontData);
+      const strikes = options.bitmapStrikePpem === null ? null : readBitmapStrikes(fontData);
       const fontFamily =
         font.names?.fontFamily?.en || font.names?.fullName?.en || "Unknown Font";
 
       const characters: { pixels: boolean[][] }[] = [];
+      const missingIndices: number[] = [];
       let importedCount = 0;
       let missingCount = 0;
-      const totalChars = options.endCode - options.startCode + 1;
+      let bitmapCount = 0;
+
+      // Code point for each character index
+      const codePoints: (number | null)[] =
+        options.codePoints ??
+        Array.from({ length: options.endCode - options.startCode + 1 }, (_, i) => options.startCode + i);
+      const totalChars = codePoints.length;
 
       // Process in chunks, yielding to event loop between chunks
       // This allows cancel messages to be processed
       const CHUNK_SIZE = 16;
       let processed = 0;
-      let currentCode = options.startCode;
+      let currentIndex = 0;
 
-      while (currentCode <= options.endCode) {
+      while (currentIndex < totalChars) {
         // Process one chunk
-        const chunkEnd = Math.min(currentCode + CHUNK_SIZE, options.endCode + 1);
+        const chunkEnd = Math.min(currentIndex + CHUNK_SIZE, totalChars);
+
+        for (let index = currentIndex; index < chunkEnd; index++) {
+          const code = codePoints[index];
+          processed++;
+          if (code === null) {
+            // Unmapped index in the code page
+            characters.push(createEmptyCharacter(options.charWidth, options.charHeight));
+            continue;
+          }
 
-        for (let code = currentCode; code < chunkEnd; code++) {
-          const char = renderGlyphToCharacter(font, code, options);
+          // Copy the glyph from the bitmap strike, falling back to the outline
+          let char: { pixels: boolean[][] } | null = null;
+          if (strikes && options.bitmapStrikePpem !== null) {
+            const glyph = font.charToGlyph(String.fromCodePoint(code));
+            if (glyph && glyph.index !== 0) {
+              char = renderStrikeGlyph(strikes, options.bitmapStrikePpem, glyph.index, options);
+            }
+          }
+          if (char) {
+            bitmapCount++;
+          } else {
+            char = renderGlyphToCharacter(font, code, options);
+          }
           characters.push(char);
 
           // Check if glyph was found
@@ -150,12 +186,11 @@ self.onmessage = async (event: MessageEvent<WorkerRequest | { type: "cancel"; id
             importedCount++;
           } else if (code >= 33) {
             missingCount++;
+            missingIndices.push(index);
           }
-
-          processed++;
         }
 
-        currentCode = chunkEnd;
+        currentIndex = chunkEnd;
 
         // Send progress update
         self.postMessage({
@@ -166,7 +201,7 @@ self.onmessage = async (event: MessageEvent<WorkerRequest | { type: "cancel"; id
         } as WorkerProgressMessage);
 
         // Yield to event loop to allow cancel messages to be processed
-        if (currentCode <= options.endCode) {
+        if (currentIndex < totalChars) {
           await yieldToEventLoop();
 
           // Check if cancelled during yield
@@ -192,6 +227,8 @@ self.onmessage = async (event: MessageEvent<WorkerRequest | { type: "cancel"; id
         fontFamily,
         importedCount,
         missingCount,
+        bitmapCount,
+        missingIndices,
       } as WorkerResultMessage);
     } catch (error) {
       cancelledJobs.delete(id);
@@ -234,7 +271,7 @@ function renderGlyphToCharacter(
   ctx.fillRect(0, 0, charWidth, charHeight);
 
   // Get the glyph
-  const glyph = font.charToGlyph(String.fromCharCode(charCode));
+  const glyph = font.charToGlyph(String.fromCodePoint(charCode));
 
   if (!glyph || glyph.index === 0) {
     return createEmptyCharacter(charWidth, charHeight);
@@ -292,5 +329,3 @@ function createEmptyCharacter(width: number, height: number): { pixels: boolean[
   return { pixels };
 }
 
-// Export empty object to make this a module
-export {};
@@ -0,0 +1,454 @@
+/**
+ * Character ROM Editor - Binary Format Detection
+ *
+ * Guesses the format of an unknown binary ROM by scoring candidate
+ * configurations. Each candidate is rated on:
+ * - How well the file size divides into characters
+ * - Whether padding bits are unused (narrow characters)
+ * - Glyph-like structure: empty top/bottom rows, a blank space character
+ * - Matching character dimensions of known systems and chips
+ *
+ * The result is a ranked list of candidates for the import wizard.
+ */
+
+import {
+  BitDirection,
+  ByteOrder,
+  Character,
+  CharacterSetConfig,
+  PaddingDirection,
+  bytesPerCharacter,
+  bytesPerLine,
+} from "../types";
+import { parseCharacterRom } from "./binary";
+import {
+  CHIPS,
+  SYSTEMS_WITH_CHARACTER_ROM,
+  getSystemBinaryFormat,
+  getSystemCharacterRom,
+  getSystemByName,
+  getChipByPartNumber,
+} from "../data/systems";
+
+/**
+ * A candidate binary format with its score
+ */
+export interface FormatCandidate {
+  /** Configuration to parse the file with */
+  config: CharacterSetConfig;
+  /** Number of complete characters in the file */
+  characterCount: number;
+  /** Confidence score (0-100, higher = more likely) */
+  score: number;
+  /** Short explanations of what contributed to the score */
+  reasons: string[];
+  /** Systems and chips that use these character dimensions */
+  matches: string[];
+}
+
+/**
+ * Options for format detection
+ */
+export interface FormatDetectionOptions {
+  /** Maximum number of candidates to return (default: 6) */
+  maxCandidates?: number;
+  /** System name chosen by the user (its dimensions get a bonus) */
+  system?: string;
+  /** Chip part number chosen by the user (its dimensions get a bonus) */
+  chip?: string;
+}
+
+/**
+ * Known character dimensions with the formats and counts used for them
+ */
+interface DimensionHint {
+  width: number;
+  height: number;
+  names: string[];
+  counts: Set<number>;
+  formats: { padding: PaddingDirection; bitDirection: BitDirection; byteOrder: ByteOrder }[];
+}
+
+/**
+ * Structure measured on the characters of a candidate
+ */
+interface GlyphStats {
+  /** Fraction of lines whose padding bits are all zero */
+  cleanPadding: number;
+  /** Fraction of glyphs whose top row is uniform (all on or all off) */
+  topUniform: number;
+  /** Fraction of glyphs whose bottom row is uniform */
+  bottomUniform: number;
+  /** Largest fraction of glyphs with a uniform row at the vertical center */
+  middleUniform: number;
+  /** How much more likely a uniform line is followed by one a character later (0-1) */
+  periodicity: number;
+  /** Fraction of glyphs with an empty leftmost column */
+  leftEmpty: number;
+  /** Fraction of glyphs with an empty rightmost column */
+  rightEmpty: number;
+  /** Number of edge columns that are empty in every glyph */
+  unusedColumns: number;
+  /** Whether character 32 (space) is blank */
+  blankSpace: boolean;
+  /** Whether any character is blank */
+  hasBlank: boolean;
+}
+
+/** Dimensions tried even if no known system uses them */
+const COMMON_DIMENSIONS: [number, number][] = [
+  [5, 7],
+  [5, 8],
+  [5, 10],
+  [6, 8],
+  [6, 10],
+  [7, 8],
+  [7, 12],
+  [8, 8],
+  [8, 9],
+  [8, 10],
+  [8, 12],
+  [8, 14],
+  [8, 16],
+  [16, 16],
+];
+
+/** Character counts typical for character ROMs */
+const COMMON_COUNTS = new Set([64, 96, 128, 192, 256, 512, 1024, 2048]);
+
+/** Files with fewer characters than this are not considered */
+const MIN_CHARACTERS = 16;
+
+/** Number of characters analyzed per candidate */
+const SAMPLE_CHARACTERS = 512;
+
+let dimensionHints: DimensionHint[] | null = null;
+
+/**
+ * Collect character dimensions from known systems and chips (cached)
+ */
+function getDimensionHints(): DimensionHint[] {
+  if (dimensionHints) return dimensionHints;
+
+  const hints = new Map<string, DimensionHint>();
+  const getHint = (width: number, height: number) => {
+    const key = `${width}x${height}`;
+    let hint = hints.get(key);
+    if (!hint) {
+      hint = { width, height, names: [], counts: new Set(), formats: [] };
+      hints.set(key, hint);
+    }
+    return hint;
+  };
+  const addFormat = (
+    hint: DimensionHint,
+    padding: PaddingDirection,
+    bitDirection: BitDirection,
+    byteOrder: ByteOrder = "big"
+  ) => {
+    const exists = hint.formats.some(
+      (f) => f.padding === padding && f.bitDirection === bitDirection && f.byteOrder === byteOrder
+    );
+    if (!exists) hint.formats.push({ padding, bitDirection, byteOrder });
+  };
+
+  for (const system of SYSTEMS_WITH_CHARACTER_ROM) {
+    const rom = getSystemCharacterRom(system);
+    if (!rom) continue;
+    const hint = getHint(rom.width, rom.height);
+    const format = getSystemBinaryFormat(system);
+    hint.names.push(system.name);
+    hint.counts.add(rom.characterCount);
+    addFormat(hint, format.padding, format.bitOrder, format.byteOrder);
+  }
+
+  for (const chip of CHIPS) {
+    const hint = getHint(chip.glyph.width, chip.glyph.height);
+    hint.names.push(chip.partNumber);
+    hint.counts.add(chip.glyphCount);
+    if (chip.binaryFormat) {
+      addFormat(hint, chip.binaryFormat.padding, chip.binaryFormat.bitOrder, chip.binaryFormat.byteOrder);
+    }
+  }
+
+  for (const [width, height] of COMMON_DIMENSIONS) {
+    getHint(width, height);
+  }
+
+  dimensionHints = Array.from(hints.values()).filter(
+    (hint) => hint.width > 0 && hint.width <= 16 && hint.height > 0 && hint.height <= 32
+  );
+  return dimensionHints;
+}
+
+/**
+ * Get the character dimensions of the system or chip chosen by the user
+ */
+function getPreferredDimensions(options: FormatDetectionOptions): string[] {
+  const preferred: string[] = [];
+  const system = options.system ? getSystemByName(options.system) : undefined;
+  const rom = system ? getSystemCharacterRom(system) : undefined;
+  if (rom) preferred.push(`${rom.width}x${rom.height}`);
+  const chip = options.chip ? getChipByPartNumber(options.chip) : undefined;
+  if (chip) preferred.push(`${chip.glyph.width}x${chip.glyph.height}`);
+  return preferred;
+}
+
+/**
+ * Check whether a row of pixels is all on or all off
+ */
+function isUniformRow(row: boolean[]): boolean {
+  return row.every((pixel) => pixel === row[0]);
+}
+
+/**
+ * Check whether a character has no pixels set
+ */
+function isBlankCharacter(character: Character): boolean {
+  return character.pixels.every((row) => row.every((pixel) => !pixel));
+}
+
+/**
+ * Check whether the padding bits of one line are all zero
+ */
+function hasCleanPadding(
+  lineBytes: Uint8Array,
+  paddingBits: number,
+  config: CharacterSetConfig
+): boolean {
+  if (paddingBits === 0) return true;
+  const bytes = Array.from(lineBytes);
+  if (config.byteOrder === "little") bytes.reverse();
+
+  // Bit 0 is the most significant bit of the first byte
+  const totalBits = bytes.length * 8;
+  const firstPaddingBit = config.padding === "left" ? 0 : totalBits - paddingBits;
+  for (let bit = firstPaddingBit; bit < firstPaddingBit + paddingBits; bit++) {
+    if (bytes[bit >> 3] & (0x80 >> (bit & 7))) return false;
+  }
+  return true;
+}
+
+/**
+ * Measure the glyph structure of a candidate configuration
+ */
+function measureGlyphs(data: Uint8Array, config: CharacterSetConfig, count: number): GlyphStats {
+  const sampleCount = Math.min(count, SAMPLE_CHARACTERS);
+  const characters = parseCharacterRom(
+    data.subarray(0, sampleCount * bytesPerCharacter(config)),
+    config
+  );
+
+  // Padding bits should be unused in narrow characters
+  const bpl = bytesPerLine(config.width);
+  const paddingBits = bpl * 8 - config.width;
+  const lineCount = sampleCount * config.height;
+  let cleanLines = 0;
+  for (let line = 0; line < lineCount; line++) {
+    if (hasCleanPadding(data.subarray(line * bpl, (line + 1) * bpl), paddingBits, config)) {
+      cleanLines++;
+    }
+  }
+
+  const glyphs = characters.filter((character) => !isBlankCharacter(character));
+  const glyphCount = Math.max(1, glyphs.length);
+  const fraction = (test: (character: Character) => boolean) =>
+    glyphs.filter(test).length / glyphCount;
+
+  const { width, height } = config;
+  const middleRows = height >= 12 && height % 2 === 0 ? [height / 2 - 1, height / 2] : [];
+  const columnEmpty = (character: Character, col: number) =>
+    character.pixels.every((row) => !row[col]);
+
+  let unusedColumns = 0;
+  if (glyphs.length > 0) {
+    for (let col = 0; col < width && glyphs.every((c) => columnEmpty(c, col)); col++) {
+      unusedColumns++;
+    }
+    for (let col = width - 1; col > unusedColumns && glyphs.every((c) => columnEmpty(c, col)); col--) {
+      unusedColumns++;
+    }
+  }
+
+  // Uniform lines (e.g. spacing rows) repeat once per character height
+  const uniformLines = characters.flatMap((c) => c.pixels.map(isUniformRow));
+  let uniformCount = 0;
+  let pairs = 0;
+  let repeats = 0;
+  uniformLines.forEach((uniform, line) => {
+    if (!uniform) return;
+    uniformCount++;
+    if (line + height < uniformLines.length) {
+      pairs++;
+      if (uniformLines[line + height]) repeats++;
+    }
+  });
+  const baseline = uniformLines.length > 0 ? uniformCount / uniformLines.length : 0;
+  const periodicity =
+    pairs > 0 && baseline < 1 ? Math.max(0, (repeats / pairs - baseline) / (1 - baseline)) : 0;
+
+  return {
+    cleanPadding: lineCount > 0 ? cleanLines / lineCount : 0,
+    topUniform: fraction((c) => isUniformRow(c.pixels[0])),
+    bottomUniform: fraction((c) => isUniformRow(c.pixels[height - 1])),
+    middleUniform: Math.max(
+      0,
+      ...middleRows.map((row) => fraction((c) => isUniformRow(c.pixels[row])))
+    ),
+    periodicity,
+    leftEmpty: fraction((c) => columnEmpty(c, 0)),
+    rightEmpty: fraction((c) => columnEmpty(c, width - 1)),
+    unusedColumns,
+    blankSpace: characters.length > 32 && isBlankCharacter(characters[32]),
+    hasBlank: glyphs.length < characters.length,
+  };
+}
+
+/**
+ * Score a candidate configuration
+ */
+function scoreCandidate(
+  data: Uint8Array,
+  config: CharacterSetConfig,
+  hint: DimensionHint,
+  preferred: boolean,
+  formatMatch: boolean
+): FormatCandidate {
+  const charSize = bytesPerCharacter(config);
+  const count = Math.floor(data.length / charSize);
+  const stats = measureGlyphs(data, config, count);
+  const reasons: string[] = [];
+  let score = 0;
+
+  // File size
+  if (data.length % charSize === 0) {
+    score += 15;
+    reasons.push("File size is an exact multiple");
+  }
+  if (COMMON_COUNTS.has(count)) {
+    score += 10;
+    reasons.push(`${count} characters is a typical ROM size`);
+  } else if (count % 32 === 0) {
+    score += 5;
+  }
+
+  // Padding bits
+  if (bytesPerLine(config.width) * 8 > config.width) {
+    if (stats.cleanPadding < 0.95) {
+      score -= 40;
+      reasons.push("Padding bits contain data");
+    }
+  }
+
+  // Glyph structure
+  const edgeRows = Math.max(stats.topUniform, stats.bottomUniform);
+  score += Math.round(15 * edgeRows + 25 * stats.periodicity);
+  if (edgeRows >= 0.75) {
+    reasons.push("Glyphs have empty margin rows");
+  }
+  if (stats.middleUniform >= 0.75) {
+    score -= 20;
+    reasons.push("Looks like two glyphs stacked");
+  }
+  if (stats.blankSpace) {
+    score += 10;
+    reasons.push("Character 32 is a blank space");
+  } else if (stats.hasBlank) {
+    score += 5;
+  }
+  if (stats.rightEmpty > stats.leftEmpty) {
+    score += 5;
+  }
+  // One blank column is normal letter spacing, more suggest a narrower font
+  score -= 3 * Math.max(0, stats.unusedColumns - 1);
+
+  // Known dimensions
+  if (hint.names.length > 0) {
+    score += 10;
+    if (hint.counts.has(count)) score += 5;
+    if (formatMatch) score += 5;
+  }
+  if (preferred) {
+    score += 15;
+    reasons.push("Matches the selected system or chip");
+  }
+
+  return {
+    config,
+    characterCount: count,
+    score: Math.max(0, Math.min(100, score)),
+    reasons,
+    matches: hint.names.slice(0, 5),
+  };
+}
+
+/**
+ * Get a unique key for a configuration
+ */
+function getConfigKey(config: CharacterSetConfig): string {
+  return `${config.width}x${config.height}-${config.padding}-${config.bitDirection}-${config.byteOrder}`;
+}
+
+/**
+ * Detect likely binary formats of a character ROM
+ *
+ * @param data - Raw ROM data
+ * @param options - Detection options
+ * @returns Candidates sorted by score (best first)
+ */
+export function detectBinaryFormats(
+  data: Uint8Array,
+  options: FormatDetectionOptions = {}
+): FormatCandidate[] {
+  const { maxCandidates = 6 } = options;
+  if (data.length === 0) return [];
+
+  const preferred = getPreferredDimensions(options);
+  const candidates = new Map<string, FormatCandidate>();
+
+  for (const hint of getDimensionHints()) {
+    const key = `${hint.width}x${hint.height}`;
+    const baseConfig: CharacterSetConfig = {
+      width: hint.width,
+      height: hint.height,
+      padding: "right",
+      bitDirection: "msb",
+    };
+    if (Math.floor(data.length / bytesPerCharacter(baseConfig)) < MIN_CHARACTERS) continue;
+
+    // Padding only matters for widths that do not fill whole bytes
+    const paddings: PaddingDirection[] = hint.width % 8 === 0 ? ["right"] : ["left", "right"];
+    const variants = [
+      ...paddings.map((padding) => ({ padding, bitDirection: "msb" as BitDirection, byteOrder: "big" as ByteOrder })),
+      ...hint.formats,
+    ];
+
+    for (const variant of variants) {
+      const padding = hint.width % 8 === 0 ? "right" : variant.padding;
+      const byteOrder = hint.width > 8 ? variant.byteOrder : "big";
+      const config: CharacterSetConfig = {
+        ...baseConfig,
+        padding,
+        bitDirection: variant.bitDirection,
+        byteOrder,
+      };
+      const configKey = getConfigKey(config);
+      if (candidates.has(configKey)) continue;
+
+      const formatMatch = hint.formats.some(
+        (f) =>
+          f.bitDirection === config.bitDirection &&
+          (hint.width % 8 === 0 || f.padding === config.padding) &&
+          (hint.width <= 8 || f.byteOrder === byteOrder)
+      );
+      candidates.set(
+        configKey,
+        scoreCandidate(data, config, hint, preferred.includes(key), formatMatch)
+      );
+    }
+  }
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score || b.characterCount - a.characterCount)
+    .slice(0, maxCandidates);
+}
@@ -0,0 +1,354 @@
+/**
+ * Character ROM Editor - Intel HEX and Motorola S-Record
+ *
+ * Converts between ROM images and the text formats used by EPROM
+ * programmers and many old toolchains:
+ * - Intel HEX (.hex, .ihx) with extended segment and linear addresses
+ * - Motorola S-record (.s19, .s28, .s37, .srec, .mot)
+ *
+ * Parsing verifies record checksums and fills address gaps with a fill
+ * byte (0xFF by default, the value of erased EPROM cells). Images are
+ * limited to the size of binary ROM files, so records at far apart
+ * addresses can't make the parser allocate gigabytes.
+ */
+
+/**
+ * Hex record file format
+ */
+export type HexRecordFormat = "intel-hex" | "srec";
+
+/**
+ * ROM image decoded from hex records
+ */
+export interface HexRecordImage {
+  /** Image data from the lowest to the highest written address */
+  data: Uint8Array;
+  /** Address of the first byte of data */
+  baseAddress: number;
+  /** Format the image was read from */
+  format: HexRecordFormat;
+}
+
+/**
+ * Options for parsing hex records
+ */
+export interface HexRecordParseOptions {
+  /** Value for bytes in address gaps (default: 0xFF) */
+  fill?: number;
+}
+
+/**
+ * Options for writing hex records
+ */
+export interface HexRecordWriteOptions {
+  /** Address of the first byte (default: 0) */
+  baseAddress?: number;
+  /** Data bytes per record (default: 16) */
+  recordSize?: number;
+  /** Header text written to the S0 record (S-record only) */
+  header?: string;
+}
+
+/** File extensions of Intel HEX files */
+const INTEL_HEX_EXTENSIONS = [".hex", ".ihx", ".ihex"];
+
+/** File extensions of S-record files */
+const SREC_EXTENSIONS = [".s19", ".s28", ".s37", ".srec", ".mot"];
+
+/** Largest data size of a single record */
+const MAX_RECORD_SIZE = 255;
+
+/** Largest decoded image (the size limit of binary ROM files) */
+export const MAX_HEX_RECORD_IMAGE_SIZE = 1024 * 1024;
+
+/**
+ * Data bytes at their absolute addresses
+ */
+interface AddressedChunk {
+  address: number;
+  bytes: number[];
+}
+
+/**
+ * Get the hex record format of a file name, or null for other files
+ */
+export function getHexRecordFormatForFile(fileName: string): HexRecordFormat | null {
+  const dot = fileName.lastIndexOf(".");
+  if (dot < 0) return null;
+  const ext = fileName.slice(dot).toLowerCase();
+  if (INTEL_HEX_EXTENSIONS.includes(ext)) return "intel-hex";
+  if (SREC_EXTENSIONS.includes(ext)) return "srec";
+  return null;
+}
+
+/**
+ * Detect the hex record format from file content
+ */
+export function detectHexRecordFormat(text: string): HexRecordFormat | null {
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim().length > 0)?.trim() ?? "";
+  if (/^:[0-9a-f]{10,}$/i.test(firstLine)) return "intel-hex";
+  if (/^S[0-9][0-9a-f]{6,}$/i.test(firstLine)) return "srec";
+  return null;
+}
+
+/**
+ * Parse a string of hex digit pairs into bytes
+ */
+function parseHexBytes(hex: string, lineNumber: number): number[] {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    throw new Error(`Invalid hex digits on line ${lineNumber}`);
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+/**
+ * Combine addressed chunks into one contiguous image
+ */
+function buildImage(chunks: AddressedChunk[], fill: number, format: HexRecordFormat): HexRecordImage {
+  const nonEmpty = chunks.filter((chunk) => chunk.bytes.length > 0);
+  if (nonEmpty.length === 0) {
+    throw new Error("No data records found");
+  }
+
+  const start = nonEmpty.reduce((min, chunk) => Math.min(min, chunk.address), Infinity);
+  const end = nonEmpty.reduce((max, chunk) => Math.max(max, chunk.address + chunk.bytes.length), 0);
+  if (end - start > MAX_HEX_RECORD_IMAGE_SIZE) {
+    const hex = (address: number) => `0x${address.toString(16).toUpperCase()}`;
+    throw new Error(
+      `Records span ${hex(start)}-${hex(end - 1)}, more than the ${MAX_HEX_RECORD_IMAGE_SIZE / (1024 * 1024)} MB a ROM image can have`
+    );
+  }
+  const data = new Uint8Array(end - start).fill(fill);
+  for (const chunk of nonEmpty) {
+    data.set(chunk.bytes, chunk.address - start);
+  }
+
+  return { data, baseAddress: start, format };
+}
+
+/**
+ * Parse an Intel HEX file
+ *
+ * @param text - File content
+ * @param options - Parse options
+ * @returns Decoded ROM image
+ */
+export function parseIntelHex(text: string, options: HexRecordParseOptions = {}): HexRecordImage {
+  const { fill = 0xff } = options;
+  const chunks: AddressedChunk[] = [];
+  let upperAddress = 0;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNumber = i + 1;
+    if (!line) continue;
+    if (!line.startsWith(":")) {
+      throw new Error(`Line ${lineNumber} is not an Intel HEX record`);
+    }
+
+    const bytes = parseHexBytes(line.slice(1), lineNumber);
+    if (bytes.length < 5 || bytes.length !== bytes[0] + 5) {
+      throw new Error(`Invalid record length on line ${lineNumber}`);
+    }
+    const sum = bytes.reduce((total, byte) => total + byte, 0);
+    if ((sum & 0xff) !== 0) {
+      throw new Error(`Checksum mismatch on line ${lineNumber}`);
+    }
+
+    const [count, addressHigh, addressLow, type] = bytes;
+    const payload = bytes.slice(4, 4 + count);
+    const address = (addressHigh << 8) | addressLow;
+
+    switch (type) {
+      case 0x00:
+        chunks.push({ address: upperAddress + address, bytes: payload });
+        break;
+      case 0x01:
+        return buildImage(chunks, fill, "intel-hex");
+      case 0x02:
+        upperAddress = ((payload[0] << 8) | payload[1]) * 16;
+        break;
+      case 0x04:
+        upperAddress = ((payload[0] << 8) | payload[1]) * 0x10000;
+        break;
+      case 0x03:
+      case 0x05:
+        // Start addresses do not affect the image
+        break;
+      default:
+        throw new Error(`Unknown record type ${type} on line ${lineNumber}`);
+    }
+  }
+
+  return buildImage(chunks, fill, "intel-hex");
+}
+
+/**
+ * Parse a Motorola S-record file
+ *
+ * @param text - File content
+ * @param options - Parse options
+ * @returns Decoded ROM image
+ */
+export function parseSRecord(text: string, options: HexRecordParseOptions = {}): HexRecordImage {
+  const { fill = 0xff } = options;
+  const chunks: AddressedChunk[] = [];
+  // Address size in bytes of each data record type
+  const addressSizes: Record<string, number> = { "1": 2, "2": 3, "3": 4 };
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNumber = i + 1;
+    if (!line) continue;
+    if (!/^S[0-9]/i.test(line)) {
+      throw new Error(`Line ${lineNumber} is not an S-record`);
+    }
+
+    const type = line[1];
+    const bytes = parseHexBytes(line.slice(2), lineNumber);
+    if (bytes.length < 3 || bytes.length !== bytes[0] + 1) {
+      throw new Error(`Invalid record length on line ${lineNumber}`);
+    }
+    const sum = bytes.reduce((total, byte) => total + byte, 0);
+    if ((sum & 0xff) !== 0xff) {
+      throw new Error(`Checksum mismatch on line ${lineNumber}`);
+    }
+
+    const addressSize = addressSizes[type];
+    if (addressSize) {
+      const address = bytes
+        .slice(1, 1 + addressSize)
+        .reduce((total, byte) => total * 256 + byte, 0);
+      chunks.push({ address, bytes: bytes.slice(1 + addressSize, -1) });
+    } else if (type === "7" || type === "8" || type === "9") {
+      return buildImage(chunks, fill, "srec");
+    }
+    // S0 (header) and S5/S6 (record count) carry no image data
+  }
+
+  return buildImage(chunks, fill, "srec");
+}
+
+/**
+ * Parse Intel HEX or S-record content, detecting the format
+ *
+ * @param text - File content
+ * @param options - Parse options
+ * @returns Decoded ROM image
+ */
+export function parseHexRecords(text: string, options: HexRecordParseOptions = {}): HexRecordImage {
+  const format = detectHexRecordFormat(text);
+  if (format === "intel-hex") return parseIntelHex(text, options);
+  if (format === "srec") return parseSRecord(text, options);
+  throw new Error("Unrecognized file format. Expected Intel HEX or S-record data.");
+}
+
+/**
+ * Format bytes as uppercase hex digit pairs
+ */
+function toHex(bytes: number[]): string {
+  return bytes.map((byte) => byte.toString(16).toUpperCase().padStart(2, "0")).join("");
+}
+
+/**
+ * Clamp a record size to the range a record can hold
+ */
+function getRecordSize(recordSize: number | undefined): number {
+  return Math.max(1, Math.min(MAX_RECORD_SIZE, Math.floor(recordSize ?? 16)));
+}
+
+/**
+ * Write a ROM image as Intel HEX
+ *
+ * Uses extended linear address records for images above 64K. Records
+ * never cross a 64K boundary.
+ *
+ * @param data - ROM image
+ * @param options - Write options
+ * @returns Intel HEX file content
+ */
+export function exportToIntelHex(data: Uint8Array, options: HexRecordWriteOptions = {}): string {
+  const baseAddress = Math.max(0, Math.floor(options.baseAddress ?? 0));
+  const recordSize = getRecordSize(options.recordSize);
+  const record = (type: number, address: number, payload: number[]) => {
+    const bytes = [payload.length, (address >> 8) & 0xff, address & 0xff, type, ...payload];
+    const checksum = (0x100 - (bytes.reduce((sum, byte) => sum + byte, 0) & 0xff)) & 0xff;
+    return `:${toHex([...bytes, checksum])}`;
+  };
+
+  const lines: string[] = [];
+  let upperAddress = 0;
+  let offset = 0;
+
+  while (offset < data.length) {
+    const address = baseAddress + offset;
+    const upper = Math.floor(address / 0x10000);
+    if (upper !== upperAddress) {
+      lines.push(record(0x04, 0, [(upper >> 8) & 0xff, upper & 0xff]));
+      upperAddress = upper;
+    }
+
+    const lower = address % 0x10000;
+    const length = Math.min(recordSize, data.length - offset, 0x10000 - lower);
+    lines.push(record(0x00, lower, Array.from(data.subarray(offset, offset + length))));
+    offset += length;
+  }
+
+  lines.push(record(0x01, 0, []));
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Write a ROM image as Motorola S-records
+ *
+ * Picks S1/S9, S2/S8 or S3/S7 records depending on the highest address
+ * and adds an S5 record count when it fits. The record size is limited
+ * so the count byte stays within 0xFF.
+ *
+ * @param data - ROM image
+ * @param options - Write options
+ * @returns S-record file content
+ */
+export function exportToSRecord(data: Uint8Array, options: HexRecordWriteOptions = {}): string {
+  const baseAddress = Math.max(0, Math.floor(options.baseAddress ?? 0));
+  const lastAddress = baseAddress + Math.max(0, data.length - 1);
+  const addressSize = lastAddress <= 0xffff ? 2 : lastAddress <= 0xffffff ? 3 : 4;
+  // The count byte covers the address, the data and the checksum
+  const recordSize = Math.min(getRecordSize(options.recordSize), MAX_RECORD_SIZE - addressSize - 1);
+  const dataType = addressSize - 1;
+  const endType = 11 - addressSize;
+
+  const record = (type: number, address: number, payload: number[], size: number) => {
+    const addressBytes = Array.from({ length: size }, (_, i) =>
+      Math.floor(address / 256 ** (size - 1 - i)) & 0xff
+    );
+    const bytes = [addressBytes.length + payload.length + 1, ...addressBytes, ...payload];
+    const checksum = ~bytes.reduce((sum, byte) => sum + byte, 0) & 0xff;
+    return `S${type}${toHex([...bytes, checksum])}`;
+  };
+
+  const header = Array.from(options.header ?? "", (char) => char.charCodeAt(0) & 0xff).slice(
+    0,
+    MAX_RECORD_SIZE - 3
+  );
+  const lines: string[] = [record(0, 0, header, 2)];
+
+  let dataRecords = 0;
+  for (let offset = 0; offset < data.length; offset += recordSize) {
+    const payload = Array.from(data.subarray(offset, offset + recordSize));
+    lines.push(record(dataType, baseAddress + offset, payload, addressSize));
+    dataRecords++;
+  }
+
+  if (dataRecords <= 0xffff) {
+    lines.push(record(5, dataRecords, [], 2));
+  }
+  lines.push(record(endType, baseAddress, [], addressSize));
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,231 @@
+/**
+ * Character ROM Editor - PSF Import
+ *
+ * Parses PC Screen Font files, the Linux console font format:
+ * - PSF1: 8 pixels wide, 256 or 512 glyphs, UCS-2 Unicode table
+ * - PSF2: any size, UTF-8 Unicode table
+ *
+ * Gzip-compressed fonts (.psf.gz, as shipped in /usr/share/consolefonts)
+ * are decompressed first. Glyph indices become character indices and
+ * the optional Unicode table is kept with each glyph.
+ */
+
+import { gunzipSync } from "fflate";
+import { BitmapFont, BitmapFontGlyph } from "./bitmapFont";
+
+/** PSF1 magic bytes */
+const PSF1_MAGIC = [0x36, 0x04];
+
+/** PSF2 magic bytes */
+export const PSF2_MAGIC = [0x72, 0xb5, 0x4a, 0x86];
+
+/** PSF1 mode flag: 512 glyphs */
+const PSF1_MODE512 = 0x01;
+/** PSF1 mode flags: Unicode table present */
+const PSF1_MODEHASTAB = 0x02 | 0x04;
+/** PSF1 Unicode table: start of sequences */
+const PSF1_STARTSEQ = 0xfffe;
+/** PSF1 Unicode table: end of glyph entry */
+const PSF1_SEPARATOR = 0xffff;
+
+/** PSF2 header flag: Unicode table present */
+export const PSF2_HAS_UNICODE_TABLE = 0x01;
+/** PSF2 header size in bytes */
+export const PSF2_HEADER_SIZE = 32;
+/** PSF2 Unicode table: start of sequences */
+const PSF2_STARTSEQ = 0xfe;
+/** PSF2 Unicode table: end of glyph entry */
+export const PSF2_SEPARATOR = 0xff;
+
+/** File extensions of PSF fonts */
+const PSF_EXTENSIONS = [".psf", ".psfu", ".psf.gz", ".psfu.gz"];
+
+/**
+ * Check if a file is a PSF font
+ */
+export function isPsfFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return PSF_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/**
+ * Check if data starts with the given magic bytes
+ */
+function hasMagic(data: Uint8Array, magic: number[]): boolean {
+  return magic.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Decode glyph bitmaps with rows padded to whole bytes
+ */
+function decodeGlyphs(
+  data: Uint8Array,
+  offset: number,
+  count: number,
+  width: number,
+  height: number,
+  charSize: number
+): boolean[][][] {
+  const rowBytes = Math.ceil(width / 8);
+  if (offset + count * charSize > data.length) {
+    throw new Error("PSF font is truncated");
+  }
+
+  return Array.from({ length: count }, (_, glyph) => {
+    const start = offset + glyph * charSize;
+    return Array.from({ length: height }, (_, row) =>
+      Array.from({ length: width }, (_, col) => {
+        const byte = data[start + row * rowBytes + (col >> 3)];
+        return (byte & (0x80 >> (col & 7))) !== 0;
+      })
+    );
+  });
+}
+
+/**
+ * Decode UTF-8 bytes to code points
+ */
+function decodeUtf8(bytes: Uint8Array): number[] {
+  const codePoints: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const length = byte < 0x80 ? 1 : byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 0;
+    if (length === 0 || i + length > bytes.length) {
+      throw new Error("Invalid UTF-8 in PSF Unicode table");
+    }
+    let codePoint = length === 1 ? byte : byte & (0xff >> (length + 1));
+    for (let j = 1; j < length; j++) {
+      codePoint = (codePoint << 6) | (bytes[i + j] & 0x3f);
+    }
+    codePoints.push(codePoint);
+    i += length;
+  }
+  return codePoints;
+}
+
+/**
+ * Parse a PSF1 Unicode table (UCS-2 little-endian)
+ * Only single code points are kept; sequences are skipped.
+ */
+function parsePsf1UnicodeTable(data: Uint8Array, offset: number, count: number): number[][] {
+  const table: number[][] = [];
+  let pos = offset;
+  for (let glyph = 0; glyph < count; glyph++) {
+    const codePoints: number[] = [];
+    let inSequences = false;
+    while (pos + 1 < data.length) {
+      const value = data[pos] | (data[pos + 1] << 8);
+      pos += 2;
+      if (value === PSF1_SEPARATOR) break;
+      if (value === PSF1_STARTSEQ) {
+        inSequences = true;
+      } else if (!inSequences) {
+        codePoints.push(value);
+      }
+    }
+    table.push(codePoints);
+  }
+  return table;
+}
+
+/**
+ * Parse a PSF2 Unicode table (UTF-8)
+ * Only single code points are kept; sequences are skipped.
+ */
+function parsePsf2UnicodeTable(data: Uint8Array, offset: number, count: number): number[][] {
+  const table: number[][] = [];
+  let pos = offset;
+  for (let glyph = 0; glyph < count; glyph++) {
+    let end = pos;
+    while (end < data.length && data[end] !== PSF2_SEPARATOR) end++;
+    const entry = data.subarray(pos, end);
+    const sequenceStart = entry.indexOf(PSF2_STARTSEQ);
+    table.push(decodeUtf8(sequenceStart < 0 ? entry : entry.subarray(0, sequenceStart)));
+    pos = end + 1;
+  }
+  return table;
+}
+
+/**
+ * Build glyphs from bitmaps and an optional Unicode table
+ */
+function createGlyphs(bitmaps: boolean[][][], table: number[][] | null): BitmapFontGlyph[] {
+  return bitmaps.map((pixels, index) => ({
+    encoding: index,
+    pixels,
+    ...(table && table[index]?.length > 0 && { unicode: table[index] }),
+  }));
+}
+
+/**
+ * Parse a PSF1 font
+ */
+function parsePsf1(data: Uint8Array): BitmapFont {
+  if (data.length < 4) {
+    throw new Error("PSF font is truncated");
+  }
+  const mode = data[2];
+  const height = data[3];
+  const count = mode & PSF1_MODE512 ? 512 : 256;
+  if (height < 1) {
+    throw new Error("PSF font has zero-height glyphs");
+  }
+
+  const bitmaps = decodeGlyphs(data, 4, count, 8, height, height);
+  const table = mode & PSF1_MODEHASTAB ? parsePsf1UnicodeTable(data, 4 + count * height, count) : null;
+
+  return {
+    name: "",
+    width: 8,
+    height,
+    ascent: height,
+    glyphs: createGlyphs(bitmaps, table),
+  };
+}
+
+/**
+ * Parse a PSF2 font
+ */
+function parsePsf2(data: Uint8Array): BitmapFont {
+  if (data.length < PSF2_HEADER_SIZE) {
+    throw new Error("PSF font is truncated");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const headerSize = view.getUint32(8, true);
+  const flags = view.getUint32(12, true);
+  const count = view.getUint32(16, true);
+  const charSize = view.getUint32(20, true);
+  const height = view.getUint32(24, true);
+  const width = view.getUint32(28, true);
+
+  if (width < 1 || height < 1 || charSize < height * Math.ceil(width / 8)) {
+    throw new Error("PSF font has an invalid glyph size");
+  }
+
+  const bitmaps = decodeGlyphs(data, headerSize, count, width, height, charSize);
+  const table =
+    flags & PSF2_HAS_UNICODE_TABLE ? parsePsf2UnicodeTable(data, headerSize + count * charSize, count) : null;
+
+  return {
+    name: "",
+    width,
+    height,
+    ascent: height,
+    glyphs: createGlyphs(bitmaps, table),
+  };
+}
+
+/**
+ * Parse a PSF1 or PSF2 font, decompressing gzip data first
+ *
+ * @param data - File content
+ * @returns Font with glyphs at their glyph index
+ */
+export function parsePsf(data: Uint8Array): BitmapFont {
+  const bytes = data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data;
+
+  if (hasMagic(bytes, PSF2_MAGIC)) return parsePsf2(bytes);
+  if (hasMagic(bytes, PSF1_MAGIC)) return parsePsf1(bytes);
+  throw new Error("Not a PSF font (unknown magic number)");
+}
@@ -9,9 +9,11 @@ import {
   Character,
   CharacterSetConfig,
   ByteOrder,
+  ByteLayout,
   createDefaultConfig,
 } from "../types";
 import { parseCharacterRom } from "./binary";
+import { isUnifontContent } from "./unifont";
 
 /**
  * Text import options
@@ -22,6 +24,8 @@ export interface TextImportOptions {
   padding: "left" | "right";
   bitDirection: "msb" | "lsb";
   byteOrder?: ByteOrder;
+  /** Byte layout (defaults to row-major) */
+  byteLayout?: ByteLayout;
 }
 
 /**
@@ -122,6 +126,16 @@ export function parseTextToBytes(text: string): {
     };
   }
 
+  // Unifont code points would otherwise be read as decimal bytes
+  if (isUnifontContent(text)) {
+    return {
+      bytes: [],
+      format: "hex",
+      invalidCount: 0,
+      error: "This looks like a GNU Unifont .hex font. Use the Bitmap Font importer instead.",
+    };
+  }
+
   // Match all potential byte values
   // - 0x followed by 1-2 hex digits
   // - $ followed by 1-2 hex digits
@@ -220,6 +234,7 @@ export function parseTextToCharacters(
     padding: options.padding,
     bitDirection: options.bitDirection,
     byteOrder: options.byteOrder,
+    byteLayout: options.byteLayout,
   };
 
   const characters = parseCharacterRom(bytes, config);
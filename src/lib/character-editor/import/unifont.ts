@@ -0,0 +1,93 @@
+/**
+ * Character ROM Editor - GNU Unifont Import
+ *
+ * Parses GNU Unifont .hex files, one glyph per line:
+ *   CODEPOINT:HEXBITS
+ *
+ * Glyphs are 16 rows high. 32 hex digits make an 8x16 glyph and
+ * 64 digits a 16x16 glyph. Each glyph keeps its code point as its
+ * encoding and as its Unicode value.
+ */
+
+import { BitmapFont, BitmapFontGlyph } from "./bitmapFont";
+
+/** Height of every Unifont glyph */
+export const UNIFONT_HEIGHT = 16;
+
+/** Pattern of a glyph line */
+const UNIFONT_LINE = /^([0-9A-Fa-f]{1,6}):([0-9A-Fa-f]+)$/;
+
+/**
+ * Check if a file is a Unifont .hex file by its name
+ * The .hex extension is shared with Intel HEX, so check the content as well.
+ */
+export function isUnifontFile(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith(".hex");
+}
+
+/**
+ * Check if text looks like Unifont .hex content
+ * Intel HEX records start with a colon, so they never match.
+ */
+export function isUnifontContent(text: string): boolean {
+  const firstLine = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("#"));
+  return !!firstLine && UNIFONT_LINE.test(firstLine) && firstLine.split(":")[1].length % 32 === 0;
+}
+
+/**
+ * Parse a Unifont .hex file
+ * The cell is as wide as the widest glyph; narrower glyphs are left-aligned.
+ *
+ * @param text - File content
+ * @returns Font with glyphs at their code point
+ */
+export function parseUnifont(text: string): BitmapFont {
+  const glyphs: BitmapFontGlyph[] = [];
+  let width = 0;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const match = line.match(UNIFONT_LINE);
+    if (!match || match[2].length % 32 !== 0) {
+      throw new Error(`Invalid Unifont glyph on line ${index + 1}`);
+    }
+
+    const codePoint = parseInt(match[1], 16);
+    const rowDigits = match[2].length / UNIFONT_HEIGHT;
+    const glyphWidth = rowDigits * 4;
+    width = Math.max(width, glyphWidth);
+
+    const pixels = Array.from({ length: UNIFONT_HEIGHT }, (_, row) => {
+      const rowHex = match[2].slice(row * rowDigits, (row + 1) * rowDigits);
+      return Array.from({ length: glyphWidth }, (_, col) => {
+        const nibble = parseInt(rowHex[col >> 2], 16);
+        return (nibble & (0x8 >> (col & 3))) !== 0;
+      });
+    });
+
+    glyphs.push({ encoding: codePoint, pixels, unicode: [codePoint] });
+  });
+
+  if (glyphs.length === 0) {
+    throw new Error("Unifont file contains no glyphs");
+  }
+
+  // Pad narrow glyphs to the cell width
+  for (const glyph of glyphs) {
+    glyph.pixels = glyph.pixels.map((row) => [...row, ...Array(width - row.length).fill(false)]);
+  }
+
+  return {
+    name: "",
+    width,
+    height: UNIFONT_HEIGHT,
+    // Unifont glyphs have 2 rows below the baseline
+    ascent: UNIFONT_HEIGHT - 2,
+    glyphs,
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Character ROM Editor - Windows Raster Font Import
+ *
+ * Parses Windows bitmap fonts with exact pixels:
+ * - .fnt: a single FNT resource (version 2.0 or 3.0)
+ * - .fon: a 16-bit NE executable holding one FNT resource per size
+ *
+ * Glyph bitmaps are stored column by column, one byte column of 8
+ * pixels at a time. Variable-pitch glyphs are left-aligned in a cell
+ * as wide as the widest glyph.
+ */
+
+import { BitmapFont, BitmapFontGlyph } from "./bitmapFont";
+
+/** FNT version 2.0 (Windows 2.x and 3.x) */
+const FNT_VERSION_2 = 0x0200;
+/** FNT version 3.0 (Windows 3.x, 32-bit offsets) */
+const FNT_VERSION_3 = 0x0300;
+
+/** Size of the version 2.0 header, where its character table starts */
+const FNT_V2_HEADER_SIZE = 118;
+/** Size of the version 3.0 header, where its character table starts */
+const FNT_V3_HEADER_SIZE = 148;
+
+/** NE resource type of font resources */
+const NE_RT_FONT = 0x8008;
+
+/** File extensions of Windows raster fonts */
+const WIN_FONT_EXTENSIONS = [".fnt", ".fon"];
+
+/**
+ * Check if a file is a Windows raster font by its name
+ * The .fnt extension is also used for raw ROM dumps, so check the content as well.
+ */
+export function isWinFontFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return WIN_FONT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/**
+ * Check if data starts with a Windows FNT header or an MZ executable header
+ */
+export function isWinFontContent(data: Uint8Array): boolean {
+  if (data.length < 2) return false;
+  if (data[0] === 0x4d && data[1] === 0x5a) return true;
+  const version = data[0] | (data[1] << 8);
+  return (version === FNT_VERSION_2 || version === FNT_VERSION_3) && data.length >= FNT_V2_HEADER_SIZE;
+}
+
+/**
+ * Read a null-terminated string
+ */
+function readString(data: Uint8Array, offset: number): string {
+  let end = offset;
+  while (end < data.length && data[end] !== 0) end++;
+  return String.fromCharCode(...Array.from(data.subarray(offset, end)));
+}
+
+/**
+ * Parse a single FNT resource
+ *
+ * @param data - FNT resource bytes; offsets inside are relative to its start
+ * @returns Font with glyphs at their character code
+ */
+export function parseWinFnt(data: Uint8Array): BitmapFont {
+  if (data.length < FNT_V2_HEADER_SIZE) {
+    throw new Error("Windows font is truncated");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const version = view.getUint16(0, true);
+  if (version !== FNT_VERSION_2 && version !== FNT_VERSION_3) {
+    throw new Error(`Unsupported Windows font version ${version >> 8}.${version & 0xff}`);
+  }
+  if (view.getUint16(66, true) & 0x01) {
+    throw new Error("Vector Windows fonts are not supported");
+  }
+
+  const ascent = view.getUint16(74, true);
+  const pixelWidth = view.getUint16(86, true);
+  const height = view.getUint16(88, true);
+  const maxWidth = view.getUint16(93, true);
+  const firstChar = data[95];
+  const lastChar = data[96];
+  const faceOffset = view.getUint32(105, true);
+  const face = faceOffset > 0 && faceOffset < data.length ? readString(data, faceOffset) : "";
+
+  const isV3 = version === FNT_VERSION_3;
+  const tableOffset = isV3 ? FNT_V3_HEADER_SIZE : FNT_V2_HEADER_SIZE;
+  const entrySize = isV3 ? 6 : 4;
+  const count = lastChar - firstChar + 1;
+  if (count < 1 || height < 1) {
+    throw new Error("Windows font has no glyphs");
+  }
+  if (tableOffset + count * entrySize > data.length) {
+    throw new Error("Windows font is truncated");
+  }
+
+  const glyphs: BitmapFontGlyph[] = [];
+  let width = pixelWidth || maxWidth;
+
+  for (let i = 0; i < count; i++) {
+    const entry = tableOffset + i * entrySize;
+    const glyphWidth = view.getUint16(entry, true);
+    const offset = isV3 ? view.getUint32(entry + 2, true) : view.getUint16(entry + 2, true);
+    const byteColumns = Math.ceil(glyphWidth / 8);
+    if (offset + byteColumns * height > data.length) {
+      throw new Error("Windows font is truncated");
+    }
+    width = Math.max(width, glyphWidth);
+
+    const pixels = Array.from({ length: height }, (_, row) =>
+      Array.from({ length: glyphWidth }, (_, col) => {
+        const byte = data[offset + (col >> 3) * height + row];
+        return (byte & (0x80 >> (col & 7))) !== 0;
+      })
+    );
+    glyphs.push({ encoding: firstChar + i, pixels });
+  }
+
+  // Left-align variable-pitch glyphs in the cell
+  for (const glyph of glyphs) {
+    glyph.pixels = glyph.pixels.map((row) => [...row, ...Array(width - row.length).fill(false)]);
+  }
+
+  return {
+    name: face,
+    family: face || undefined,
+    width,
+    height,
+    ascent,
+    glyphs,
+  };
+}
+
+/**
+ * Extract and parse every font resource of a 16-bit NE .fon file
+ *
+ * @param data - File content
+ * @returns One font per resource, in resource table order
+ */
+export function parseWinFon(data: Uint8Array): BitmapFont[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length < 0x40 || data[0] !== 0x4d || data[1] !== 0x5a) {
+    throw new Error("Not a Windows .fon file (missing MZ header)");
+  }
+
+  const neOffset = view.getUint32(0x3c, true);
+  if (neOffset + 0x40 > data.length) {
+    throw new Error("Windows font is truncated");
+  }
+  const signature = String.fromCharCode(data[neOffset], data[neOffset + 1]);
+  if (signature === "PE") {
+    throw new Error("32-bit (PE) .fon files are not supported. Only 16-bit (NE) font files can be read.");
+  }
+  if (signature !== "NE") {
+    throw new Error("Not a Windows .fon file (missing NE header)");
+  }
+
+  let pos = neOffset + view.getUint16(neOffset + 0x24, true);
+  const alignShift = view.getUint16(pos, true);
+  pos += 2;
+
+  const fonts: BitmapFont[] = [];
+  while (pos + 8 <= data.length) {
+    const typeId = view.getUint16(pos, true);
+    if (typeId === 0) break;
+    const count = view.getUint16(pos + 2, true);
+    pos += 8;
+
+    for (let i = 0; i < count; i++, pos += 12) {
+      if (typeId !== NE_RT_FONT) continue;
+      const offset = view.getUint16(pos, true) << alignShift;
+      const length = view.getUint16(pos + 2, true) << alignShift;
+      if (offset >= data.length) {
+        throw new Error("Windows font is truncated");
+      }
+      // The last resource may be shorter than its aligned length
+      fonts.push(parseWinFnt(data.subarray(offset, Math.min(offset + length, data.length))));
+    }
+  }
+
+  if (fonts.length === 0) {
+    throw new Error("Windows .fon file contains no fonts");
+  }
+  return fonts;
+}
+
+/**
+ * Parse a .fnt or .fon file by its content
+ *
+ * @param data - File content
+ * @returns All fonts in the file
+ */
+export function parseWinFont(data: Uint8Array): BitmapFont[] {
+  if (!isWinFontContent(data)) {
+    throw new Error("Not a Windows raster font");
+  }
+  return data[0] === 0x4d && data[1] === 0x5a ? parseWinFon(data) : [parseWinFnt(data)];
+}
@@ -0,0 +1,132 @@
+/**
+ * Character ROM Editor - Multicolor Characters
+ *
+ * Helpers for characters with 2 bits per pixel:
+ * - Reading and writing color indices
+ * - Splitting characters into 1bpp bit planes and recombining them
+ * - Default four-color palette for display and export
+ *
+ * Monochrome characters have no color plane. Their "on" pixels read as the
+ * highest color index, so 1bpp data can be shown and exported as multicolor.
+ */
+
+import { BitsPerPixel, Character, CharacterSetConfig } from "./types";
+
+/**
+ * Highest color index of a multicolor pixel
+ */
+export const MAX_MULTICOLOR_INDEX = 3;
+
+/**
+ * Default colors for indices 1 and 2 (0 and 3 use background and foreground)
+ */
+export const DEFAULT_MULTICOLOR_COLORS: [string, string] = ["#55ffff", "#ff55ff"];
+
+/**
+ * Get the bits per pixel of a configuration (defaults to 1)
+ */
+export function getBitsPerPixel(config: CharacterSetConfig): BitsPerPixel {
+  return config.bitsPerPixel ?? 1;
+}
+
+/**
+ * Check whether a configuration uses multicolor (2bpp) pixels
+ */
+export function isMulticolorConfig(config: CharacterSetConfig): boolean {
+  return getBitsPerPixel(config) === 2;
+}
+
+/**
+ * Get the color index of a pixel
+ */
+export function getPixelColor(character: Character, row: number, col: number): number {
+  const color = character.colors?.[row]?.[col];
+  if (color !== undefined) return color;
+  return character.pixels[row]?.[col] ? MAX_MULTICOLOR_INDEX : 0;
+}
+
+/**
+ * Get the full color plane of a character
+ */
+export function getColorIndices(character: Character): number[][] {
+  return character.pixels.map((row, rowIndex) =>
+    row.map((_, colIndex) => getPixelColor(character, rowIndex, colIndex))
+  );
+}
+
+/**
+ * Create a multicolor character from color indices
+ */
+export function createMulticolorCharacter(colors: number[][]): Character {
+  return {
+    pixels: colors.map((row) => row.map((color) => color !== 0)),
+    colors: colors.map((row) => [...row]),
+  };
+}
+
+/**
+ * Set the color index of a single pixel
+ */
+export function setPixelColor(
+  character: Character,
+  row: number,
+  col: number,
+  color: number
+): Character {
+  const clamped = Math.max(0, Math.min(MAX_MULTICOLOR_INDEX, Math.floor(color)));
+  const colors = getColorIndices(character).map((r, ri) =>
+    ri === row ? r.map((c, ci) => (ci === col ? clamped : c)) : r
+  );
+  return createMulticolorCharacter(colors);
+}
+
+/**
+ * Split a character into its two bit planes
+ * Returns [low bit plane, high bit plane]
+ */
+export function splitColorPlanes(character: Character): [Character, Character] {
+  const colors = getColorIndices(character);
+  return [
+    { pixels: colors.map((row) => row.map((color) => (color & 1) !== 0)) },
+    { pixels: colors.map((row) => row.map((color) => (color & 2) !== 0)) },
+  ];
+}
+
+/**
+ * Combine two bit planes into a multicolor character
+ */
+export function combineColorPlanes(low: Character, high: Character): Character {
+  const colors = low.pixels.map((row, rowIndex) =>
+    row.map((bit, colIndex) => (bit ? 1 : 0) | (high.pixels[rowIndex]?.[colIndex] ? 2 : 0))
+  );
+  return createMulticolorCharacter(colors);
+}
+
+/**
+ * Apply a 1bpp pixel transform to both bit planes of a multicolor character
+ *
+ * Works for any transform that moves pixels without looking at their
+ * neighbours' values (rotate, flip, shift, resize, invert).
+ */
+export function applyToColorPlanes(
+  character: Character,
+  transform: (plane: Character) => Character
+): Character {
+  const [low, high] = splitColorPlanes(character);
+  return combineColorPlanes(transform(low), transform(high));
+}
+
+/**
+ * Build the four-color palette used to draw multicolor characters
+ *
+ * @param foregroundColor - Color of index 3 (same as 1bpp "on")
+ * @param backgroundColor - Color of index 0 (same as 1bpp "off")
+ * @param colors - Colors of indices 1 and 2
+ */
+export function getMulticolorPalette(
+  foregroundColor: string,
+  backgroundColor: string,
+  colors: [string, string] = DEFAULT_MULTICOLOR_COLORS
+): string[] {
+  return [backgroundColor, colors[0], colors[1], foregroundColor];
+}
@@ -0,0 +1,72 @@
+/**
+ * Character ROM Editor - Onion Skin
+ *
+ * Settings for ghosting neighboring characters of the same set under
+ * the edited character:
+ * - Relative index offsets (e.g. previous/next or ±128 for inverse sets)
+ * - Ghost color and opacity
+ */
+
+/**
+ * Onion skin settings
+ */
+export interface OnionSkinSettings {
+  /** Whether neighboring characters are shown */
+  enabled: boolean;
+  /** Index offsets of the ghosted characters relative to the edited one */
+  offsets: number[];
+  /** Ghost color (CSS color) */
+  color: string;
+  /** Ghost opacity (0-1) */
+  opacity: number;
+}
+
+/**
+ * Common onion skin offsets
+ */
+export const ONION_SKIN_PRESETS: { name: string; offsets: number[] }[] = [
+  { name: "Prev/Next", offsets: [-1, 1] },
+  { name: "Prev", offsets: [-1] },
+  { name: "Next", offsets: [1] },
+  { name: "±128", offsets: [-128, 128] },
+];
+
+/**
+ * Default onion skin settings
+ */
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = {
+  enabled: false,
+  offsets: [-1, 1],
+  color: "#ff00ff",
+  opacity: 0.35,
+};
+
+/**
+ * Parse a list of offsets such as "-1, +1, 128"
+ * Invalid entries, zero and duplicates are skipped.
+ */
+export function parseOnionSkinOffsets(text: string): number[] {
+  const offsets: number[] = [];
+  for (const part of text.split(/[\s,;]+/)) {
+    if (!/^[+-]?\d+$/.test(part)) continue;
+    const offset = parseInt(part, 10);
+    if (offset !== 0 && !offsets.includes(offset)) {
+      offsets.push(offset);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Format offsets for editing (e.g. "-1, +1")
+ */
+export function formatOnionSkinOffsets(offsets: number[]): string {
+  return offsets.map((offset) => (offset > 0 ? `+${offset}` : `${offset}`)).join(", ");
+}
+
+/**
+ * Get the indices of the ghosted characters that exist in the set
+ */
+export function getOnionSkinIndices(index: number, offsets: number[], characterCount: number): number[] {
+  return offsets.map((offset) => index + offset).filter((ghost) => ghost >= 0 && ghost < characterCount);
+}
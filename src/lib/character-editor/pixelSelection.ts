@@ -0,0 +1,206 @@
+/**
+ * Character ROM Editor - Pixel Selection
+ *
+ * Rectangular selections inside a single character:
+ * - Copying, clearing and pasting regions (clipped to the character)
+ * - Floating selections that are moved, flipped and rotated before being placed
+ *
+ * A floating selection lifted from a character remembers where it came
+ * from and which transforms were applied, so in batch mode every selected
+ * character moves its own pixels instead of the primary character's.
+ */
+
+import { Character } from "./types";
+import { createMulticolorCharacter, getColorIndices, getPixelColor } from "./multicolor";
+import { flipHorizontal, flipVertical } from "./transforms";
+import { PixelPoint } from "./drawing";
+
+/**
+ * Rectangular region of a character
+ */
+export interface PixelRect {
+  row: number;
+  col: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Transform applied to a floating selection
+ */
+export type SelectionTransform = "flip-horizontal" | "flip-vertical" | "rotate-left" | "rotate-right";
+
+/**
+ * Pixels being moved before they are placed into the character
+ */
+export interface FloatingSelection {
+  /** Selected pixels with all transforms applied */
+  clip: Character;
+  /** Region the pixels were lifted from (null for pasted pixels) */
+  source: PixelRect | null;
+  /** Transforms applied since the pixels were lifted */
+  transforms: SelectionTransform[];
+  /** Current position of the top-left pixel */
+  row: number;
+  col: number;
+}
+
+/**
+ * Get the rectangle spanned by two corner pixels
+ */
+export function getSelectionRect(from: PixelPoint, to: PixelPoint): PixelRect {
+  const row = Math.min(from.row, to.row);
+  const col = Math.min(from.col, to.col);
+  return {
+    row,
+    col,
+    width: Math.abs(to.col - from.col) + 1,
+    height: Math.abs(to.row - from.row) + 1,
+  };
+}
+
+/**
+ * Check whether a pixel lies inside a rectangle
+ */
+export function isPointInRect(point: PixelPoint, rect: PixelRect): boolean {
+  return (
+    point.row >= rect.row &&
+    point.row < rect.row + rect.height &&
+    point.col >= rect.col &&
+    point.col < rect.col + rect.width
+  );
+}
+
+/**
+ * Get the size of a character
+ */
+function getSize(character: Character): { width: number; height: number } {
+  return { width: character.pixels[0]?.length ?? 0, height: character.pixels.length };
+}
+
+/**
+ * Get the rectangle covered by a floating selection
+ */
+export function getFloatingRect(floating: FloatingSelection): PixelRect {
+  return { row: floating.row, col: floating.col, ...getSize(floating.clip) };
+}
+
+/**
+ * Create a character from a grid of color indices in the format of another character
+ */
+function fromColorIndices(colors: number[][], multicolor: boolean): Character {
+  return multicolor ? createMulticolorCharacter(colors) : { pixels: colors.map((row) => row.map((c) => c > 0)) };
+}
+
+/**
+ * Copy the pixels of a region (the part outside the character is dropped)
+ */
+export function copyRegion(character: Character, rect: PixelRect): Character {
+  const { width, height } = getSize(character);
+  const top = Math.max(0, rect.row);
+  const left = Math.max(0, rect.col);
+  const bottom = Math.min(height, rect.row + rect.height);
+  const right = Math.min(width, rect.col + rect.width);
+
+  const colors = getColorIndices(character)
+    .slice(top, Math.max(top, bottom))
+    .map((row) => row.slice(left, Math.max(left, right)));
+  return fromColorIndices(colors, !!character.colors);
+}
+
+/**
+ * Clear the pixels of a region
+ */
+export function clearRegion(character: Character, rect: PixelRect): Character {
+  const colors = getColorIndices(character).map((row, r) =>
+    row.map((color, c) => (isPointInRect({ row: r, col: c }, rect) ? 0 : color))
+  );
+  return fromColorIndices(colors, !!character.colors);
+}
+
+/**
+ * Paste pixels into a character with their top-left pixel at a position
+ *
+ * Pixels falling outside the character are clipped. Pasted multicolor
+ * pixels keep their color in multicolor characters and are "on" in
+ * monochrome characters when their color isn't the background.
+ */
+export function pasteRegion(character: Character, clip: Character, row: number, col: number): Character {
+  const { width, height } = getSize(clip);
+  const colors = getColorIndices(character).map((cells, r) =>
+    cells.map((color, c) => {
+      const clipRow = r - row;
+      const clipCol = c - col;
+      if (clipRow < 0 || clipRow >= height || clipCol < 0 || clipCol >= width) return color;
+      return getPixelColor(clip, clipRow, clipCol);
+    })
+  );
+  return fromColorIndices(colors, !!character.colors);
+}
+
+/**
+ * Rotate pixels 90 degrees (width and height are swapped)
+ */
+function rotateRegion(clip: Character, direction: "left" | "right"): Character {
+  const { width, height } = getSize(clip);
+  const colors = getColorIndices(clip);
+  const rotated = Array.from({ length: width }, (_, r) =>
+    Array.from({ length: height }, (_, c) =>
+      direction === "right" ? colors[height - 1 - c][r] : colors[c][width - 1 - r]
+    )
+  );
+  return fromColorIndices(rotated, !!clip.colors);
+}
+
+/**
+ * Apply a selection transform to pixels
+ */
+export function transformRegion(clip: Character, transform: SelectionTransform): Character {
+  switch (transform) {
+    case "flip-horizontal":
+      return flipHorizontal(clip);
+    case "flip-vertical":
+      return flipVertical(clip);
+    case "rotate-left":
+      return rotateRegion(clip, "left");
+    case "rotate-right":
+      return rotateRegion(clip, "right");
+  }
+}
+
+/**
+ * Lift the pixels of a region into a floating selection
+ */
+export function liftSelection(character: Character, rect: PixelRect): FloatingSelection {
+  return { clip: copyRegion(character, rect), source: rect, transforms: [], row: rect.row, col: rect.col };
+}
+
+/**
+ * Apply a transform to a floating selection
+ * Rotations keep the top-left corner in place.
+ */
+export function transformFloatingSelection(
+  floating: FloatingSelection,
+  transform: SelectionTransform
+): FloatingSelection {
+  return {
+    ...floating,
+    clip: transformRegion(floating.clip, transform),
+    transforms: [...floating.transforms, transform],
+  };
+}
+
+/**
+ * Place a floating selection into a character
+ *
+ * Lifted selections take their pixels from the given character, so the
+ * same floating selection can be placed into several characters at once.
+ */
+export function placeFloatingSelection(character: Character, floating: FloatingSelection): Character {
+  if (!floating.source) {
+    return pasteRegion(character, floating.clip, floating.row, floating.col);
+  }
+
+  const clip = floating.transforms.reduce(transformRegion, copyRegion(character, floating.source));
+  return pasteRegion(clearRegion(character, floating.source), clip, floating.row, floating.col);
+}
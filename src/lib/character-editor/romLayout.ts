@@ -0,0 +1,188 @@
+/**
+ * Character ROM Editor - ROM Layout
+ *
+ * Helpers for ROM images whose characters are not tightly packed:
+ * - Per-character stride (e.g. 8x14 glyphs in 16-byte slots)
+ * - Leading skip before the first character
+ * - Split mapping where later rows live in another region of the ROM
+ * - Regions of larger ROM dumps that contain a character set
+ *
+ * Character data inside the editor and in storage is always packed; the
+ * layout is applied when reading or writing ROM images.
+ */
+
+import { CharacterSetConfig, RomLayout, bytesPerCharacter } from "./types";
+
+/**
+ * Resolved byte positions of one character slot
+ */
+export interface RomSlotLayout {
+  /** Bytes skipped before the first character */
+  skip: number;
+  /** Distance from one character slot to the next */
+  stride: number;
+  /** Bytes of each character stored in the first region */
+  firstBytes: number;
+  /** Bytes of each character stored in the split region (0 without a split) */
+  secondBytes: number;
+  /** Offset of the split region, relative to the first character */
+  splitOffset: number;
+}
+
+/**
+ * Check whether a configuration places characters differently from a packed ROM
+ */
+export function hasRomLayout(config: CharacterSetConfig): boolean {
+  const layout = config.romLayout;
+  if (!layout) return false;
+  const slot = getRomSlotLayout(config);
+  return slot.skip > 0 || slot.secondBytes > 0 || slot.stride !== bytesPerCharacter(config);
+}
+
+/**
+ * Get a configuration without ROM layout (tightly packed characters)
+ */
+export function getPackedConfig(config: CharacterSetConfig): CharacterSetConfig {
+  if (!config.romLayout) return config;
+  const packed = { ...config };
+  delete packed.romLayout;
+  return packed;
+}
+
+/**
+ * Resolve the byte positions used by a configuration's ROM layout
+ *
+ * Invalid values are sanitized: a split row outside the character is
+ * ignored and the stride is never smaller than the first region's bytes.
+ */
+export function getRomSlotLayout(config: CharacterSetConfig): RomSlotLayout {
+  const layout: RomLayout = config.romLayout ?? {};
+  const charSize = bytesPerCharacter(config);
+  const lines = config.byteLayout === "column" ? config.width : config.height;
+  const lineBytes = lines > 0 ? charSize / lines : 0;
+
+  const splitRow = Math.floor(layout.splitRow ?? 0);
+  const hasSplit = splitRow > 0 && splitRow < lines && layout.splitOffset !== undefined;
+  const firstBytes = hasSplit ? splitRow * lineBytes : charSize;
+  const secondBytes = hasSplit ? charSize - firstBytes : 0;
+
+  return {
+    skip: Math.max(0, Math.floor(layout.skip ?? 0)),
+    stride: Math.max(firstBytes, Math.floor(layout.stride ?? firstBytes), 1),
+    firstBytes,
+    secondBytes,
+    splitOffset: hasSplit ? Math.max(0, Math.floor(layout.splitOffset ?? 0)) : 0,
+  };
+}
+
+/**
+ * Count the characters that fit into ROM data of the given length
+ */
+export function getRomCharacterCount(dataLength: number, config: CharacterSetConfig): number {
+  const slot = getRomSlotLayout(config);
+
+  const countRegion = (regionLength: number, bytes: number) =>
+    regionLength >= bytes && bytes > 0 ? Math.floor((regionLength - bytes) / slot.stride) + 1 : 0;
+
+  if (slot.secondBytes === 0) {
+    return countRegion(dataLength - slot.skip, slot.firstBytes);
+  }
+
+  // Characters in the first region must end before the split region starts
+  return Math.min(
+    countRegion(Math.min(slot.splitOffset, dataLength - slot.skip), slot.firstBytes),
+    countRegion(dataLength - slot.skip - slot.splitOffset, slot.secondBytes)
+  );
+}
+
+/**
+ * Get the ROM image size needed for a number of characters
+ * Every character occupies a full slot, so trailing slot padding is included.
+ */
+export function getRomSize(characterCount: number, config: CharacterSetConfig): number {
+  if (characterCount <= 0) return 0;
+  const slot = getRomSlotLayout(config);
+  const lastSlot = (characterCount - 1) * slot.stride;
+
+  if (slot.secondBytes === 0) {
+    return slot.skip + Math.max(characterCount * slot.stride, lastSlot + slot.firstBytes);
+  }
+  return (
+    slot.skip +
+    slot.splitOffset +
+    Math.max(characterCount * slot.stride, lastSlot + slot.secondBytes)
+  );
+}
+
+/**
+ * Read the packed bytes of one character from ROM data
+ */
+export function readCharacterBytes(
+  data: Uint8Array,
+  index: number,
+  config: CharacterSetConfig
+): Uint8Array {
+  const slot = getRomSlotLayout(config);
+  const bytes = new Uint8Array(slot.firstBytes + slot.secondBytes);
+  const start = slot.skip + index * slot.stride;
+
+  bytes.set(data.subarray(start, start + slot.firstBytes), 0);
+  if (slot.secondBytes > 0) {
+    const splitStart = start + slot.splitOffset;
+    bytes.set(data.subarray(splitStart, splitStart + slot.secondBytes), slot.firstBytes);
+  }
+
+  return bytes;
+}
+
+/**
+ * Write the packed bytes of one character into ROM data
+ */
+export function writeCharacterBytes(
+  target: Uint8Array,
+  index: number,
+  bytes: Uint8Array,
+  config: CharacterSetConfig
+): void {
+  const slot = getRomSlotLayout(config);
+  const start = slot.skip + index * slot.stride;
+
+  target.set(bytes.subarray(0, slot.firstBytes), start);
+  if (slot.secondBytes > 0) {
+    target.set(bytes.subarray(slot.firstBytes), start + slot.splitOffset);
+  }
+}
+
+/**
+ * Extract a region of a larger ROM dump (e.g. a font inside a system ROM)
+ * The region is clamped to the data; a missing length extends to the end.
+ */
+export function extractRomRegion(data: Uint8Array, offset: number, length?: number): Uint8Array {
+  const start = Math.max(0, Math.min(data.length, Math.floor(offset)));
+  const end =
+    length === undefined ? data.length : Math.min(data.length, start + Math.max(0, Math.floor(length)));
+  return data.slice(start, end);
+}
+
+/**
+ * Parse a byte offset entered by the user
+ * Accepts decimal ("2048") and hex ("0x800", "$800", "800h") notation.
+ * Returns null for invalid input.
+ */
+export function parseByteOffset(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  let parsed: number;
+  if (trimmed.startsWith("0x")) {
+    parsed = /^0x[0-9a-f]+$/.test(trimmed) ? parseInt(trimmed.slice(2), 16) : NaN;
+  } else if (trimmed.startsWith("$")) {
+    parsed = /^\$[0-9a-f]+$/.test(trimmed) ? parseInt(trimmed.slice(1), 16) : NaN;
+  } else if (trimmed.endsWith("h")) {
+    parsed = /^[0-9a-f]+h$/.test(trimmed) ? parseInt(trimmed.slice(0, -1), 16) : NaN;
+  } else {
+    parsed = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+  }
+
+  return Number.isNaN(parsed) ? null : parsed;
+}
@@ -0,0 +1,148 @@
+/**
+ * Character ROM Editor - System ROM Patching
+ *
+ * Helpers for writing a character set back into a larger ROM dump
+ * (e.g. the chargen area of a combined BASIC/KERNAL/CHAR image):
+ * - Finding the font by matching known glyphs
+ * - Writing characters in the set's binary format and ROM layout
+ * - Byte-level diffs of the patched image
+ */
+
+import { Character, CharacterSetConfig } from "./types";
+import { characterToBytes } from "./import/binary";
+import { getRomSize, getRomSlotLayout, writeCharacterBytes } from "./romLayout";
+
+/**
+ * Location of a character set found inside a ROM dump
+ */
+export interface RomMatch {
+  /** Offset where the character set's ROM image starts */
+  offset: number;
+  /** Number of characters whose bytes match exactly */
+  matchedCharacters: number;
+}
+
+/**
+ * Row of a ROM diff (16 bytes per row)
+ */
+export interface RomDiffRow {
+  /** Offset of the first byte of the row */
+  offset: number;
+  /** Bytes before patching */
+  before: number[];
+  /** Bytes after patching */
+  after: number[];
+}
+
+/**
+ * Byte-level differences between two ROM images
+ */
+export interface RomDiff {
+  /** Number of changed bytes */
+  changedBytes: number;
+  /** Rows that contain at least one changed byte */
+  rows: RomDiffRow[];
+}
+
+/** Bytes shown per diff row */
+const DIFF_ROW_BYTES = 16;
+
+/**
+ * Find a character set inside a ROM dump
+ *
+ * Every character votes for the offsets where its bytes appear in the
+ * data, so edited characters don't prevent the rest of the font from
+ * being found. Characters made of a single repeated byte (such as the
+ * space) appear almost everywhere and are ignored.
+ *
+ * Returns null when no offset holds at least two matching characters.
+ */
+export function findCharacterSetInRom(
+  data: Uint8Array,
+  characters: Character[],
+  config: CharacterSetConfig
+): RomMatch | null {
+  const slot = getRomSlotLayout(config);
+  const romSize = getRomSize(characters.length, config);
+  if (characters.length === 0 || romSize > data.length) return null;
+
+  // Map the first-region bytes of each distinctive character to its indices
+  const indicesByKey = new Map<string, number[]>();
+  characters.forEach((character, index) => {
+    const bytes = characterToBytes(character, config).subarray(0, slot.firstBytes);
+    if (bytes.every((byte) => byte === bytes[0])) return;
+    const key = bytes.join(",");
+    indicesByKey.set(key, [...(indicesByKey.get(key) ?? []), index]);
+  });
+
+  const votes = new Map<number, number>();
+  for (let position = 0; position + slot.firstBytes <= data.length; position++) {
+    const indices = indicesByKey.get(data.subarray(position, position + slot.firstBytes).join(","));
+    if (!indices) continue;
+
+    for (const index of indices) {
+      const offset = position - slot.skip - index * slot.stride;
+      if (offset >= 0 && offset + romSize <= data.length) {
+        votes.set(offset, (votes.get(offset) ?? 0) + 1);
+      }
+    }
+  }
+
+  let best: RomMatch | null = null;
+  for (const [offset, count] of votes) {
+    const isBetter =
+      !best || count > best.matchedCharacters || (count === best.matchedCharacters && offset < best.offset);
+    if (count >= 2 && isBetter) {
+      best = { offset, matchedCharacters: count };
+    }
+  }
+  return best;
+}
+
+/**
+ * Write a character set into a copy of a ROM dump
+ * Only the character bytes are written; gaps of the ROM layout keep their original content.
+ */
+export function patchRom(
+  data: Uint8Array,
+  characters: Character[],
+  config: CharacterSetConfig,
+  offset: number
+): Uint8Array {
+  if (offset < 0 || offset + getRomSize(characters.length, config) > data.length) {
+    throw new Error("The character set does not fit into the ROM at this offset");
+  }
+
+  const patched = data.slice();
+  const target = patched.subarray(offset);
+  characters.forEach((character, index) => {
+    writeCharacterBytes(target, index, characterToBytes(character, config), config);
+  });
+  return patched;
+}
+
+/**
+ * Compare two ROM images of the same size byte by byte
+ */
+export function diffRoms(before: Uint8Array, after: Uint8Array): RomDiff {
+  const rows: RomDiffRow[] = [];
+  let changedBytes = 0;
+
+  for (let offset = 0; offset < before.length; offset += DIFF_ROW_BYTES) {
+    const end = Math.min(offset + DIFF_ROW_BYTES, before.length);
+    let rowChanges = 0;
+    for (let i = offset; i < end; i++) {
+      if (before[i] !== after[i]) rowChanges++;
+    }
+    if (rowChanges > 0) {
+      changedBytes += rowChanges;
+      rows.push({
+        offset,
+        before: Array.from(before.subarray(offset, end)),
+        after: Array.from(after.subarray(offset, end)),
+      });
+    }
+  }
+
+  return { changedBytes, rows };
+}
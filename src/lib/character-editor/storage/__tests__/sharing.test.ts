@@ -100,6 +100,37 @@ describe("encodeCharacterSet / decodeCharacterSet", () => {
     }
   });
 
+  it("round-trips multicolor sets", () => {
+    const config = createMockConfig({ width: 4, height: 2, bitsPerPixel: 2 });
+    const characters = [
+      {
+        pixels: [
+          [false, true, true, true],
+          [true, false, false, false],
+        ],
+        colors: [
+          [0, 1, 2, 3],
+          [2, 0, 0, 0],
+        ],
+      },
+    ];
+
+    const decoded = decodeCharacterSet(encodeCharacterSet("MC", "", characters, config));
+
+    expect(decoded.config).toEqual(config);
+    expect(decoded.characters[0].colors).toEqual(characters[0].colors);
+  });
+
+  it("round-trips column-major sets", () => {
+    const config = createMockConfig({ width: 5, height: 8, bitDirection: "lsb", byteLayout: "column" });
+    const characters = createMockCharacters(4, 5, 8, ["diagonal", "checkerboard"]);
+
+    const decoded = decodeCharacterSet(encodeCharacterSet("LCD", "", characters, config));
+
+    expect(decoded.config).toEqual(config);
+    expect(decoded.characters.map((c) => c.pixels)).toEqual(characters.map((c) => c.pixels));
+  });
+
   it("round-trips 256-character 8x8 set", () => {
     const characters = createMockCharacters(256, 8, 8, ["empty", "filled", "checkerboard"]);
     const config = createMockConfig();
@@ -157,6 +188,29 @@ describe("encodeCharacterSet / decodeCharacterSet", () => {
       }
     }
   });
+
+  it("round-trips the bank layout of multi-bank sets", () => {
+    const characters = createMockCharacters(8, 8, 8, ["checkerboard", "diagonal"]);
+    const banks = [
+      { name: "Uppercase/Graphics", characterCount: 5 },
+      { name: "Lowercase", characterCount: 3 },
+    ];
+
+    const decoded = decodeCharacterSet(encodeCharacterSet("C64", "", characters, createMockConfig(), banks));
+
+    expect(decoded.banks).toEqual(banks);
+    expect(decoded.characters.map((c) => c.pixels)).toEqual(characters.map((c) => c.pixels));
+  });
+
+  it("leaves the banks of single-bank sets undefined", () => {
+    const characters = createMockCharacters(4);
+    const single = encodeCharacterSet("One", "", characters, createMockConfig(), [
+      { name: "Bank 1", characterCount: 4 },
+    ]);
+
+    expect(single).toBe(encodeCharacterSet("One", "", characters, createMockConfig()));
+    expect(decodeCharacterSet(single).banks).toBeUndefined();
+  });
 });
 
 // ============================================================================
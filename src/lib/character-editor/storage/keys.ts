@@ -63,3 +63,6 @@ export const CHARACTER_EDITOR_STORAGE_KEY_CRT_SETTINGS = "retrostack-character-e
 
 /** localStorage key for tips overlay preferences */
 export const CHARACTER_EDITOR_STORAGE_KEY_TIPS_OVERLAY = "retrostack-character-editor-tips-overlay";
+
+/** localStorage key for user-defined code export templates */
+export const CHARACTER_EDITOR_STORAGE_KEY_CODE_TEMPLATES = "retrostack-character-editor-code-templates";
@@ -5,8 +5,10 @@
  * Uses v2 compressed format with DEFLATE compression and base64url encoding.
  */
 
-import { Character, CharacterSetConfig } from "../types";
+import { Character, CharacterBank, CharacterSetConfig } from "../types";
 import { serializeCharacterRom, parseCharacterRom } from "../import/binary";
+import { getPackedConfig } from "../romLayout";
+import { hasMultipleBanks, normalizeBanks } from "../banks";
 import { base64urlEncode, base64urlDecode, compressData, decompressData } from "./compression";
 
 /**
@@ -25,34 +27,68 @@ export const MAX_RECOMMENDED_URL_LENGTH = 2000;
  */
 export const MAX_URL_LENGTH = 8000;
 
+/**
+ * Encode the bank layout of a shared character set
+ *
+ * Format: [bankCount:1] then per bank [name:UTF8\0][characterCount:2 LE]
+ */
+function encodeBanks(banks: CharacterBank[], encoder: TextEncoder): Uint8Array {
+  const parts = banks.map((bank) => encoder.encode(bank.name));
+  const table = new Uint8Array(1 + parts.reduce((sum, nameBytes) => sum + nameBytes.length + 3, 0));
+
+  let offset = 0;
+  table[offset++] = banks.length;
+  banks.forEach((bank, index) => {
+    table.set(parts[index], offset);
+    offset += parts[index].length;
+    table[offset++] = 0;
+    table[offset++] = bank.characterCount & 0xff;
+    table[offset++] = (bank.characterCount >> 8) & 0xff;
+  });
+
+  return table;
+}
+
 /**
  * Encode a character set for sharing using v2 compressed format.
  *
  * Binary format before compression:
- * [width:1][height:1][flags:1][name:UTF8\0][desc:UTF8\0][character data]
+ * [width:1][height:1][flags:1][name:UTF8\0][desc:UTF8\0][banks][character data]
+ *
+ * flags byte: bit0=padding(left=1), bit1=bitDir(lsb=1), bit2=multicolor(2bpp=1),
+ *             bit3=byteLayout(column=1), bit4=banks(present=1)
  *
- * flags byte: bit0=padding(left=1), bit1=bitDir(lsb=1)
+ * The bank table is only written for sets with more than one bank, so
+ * single-bank links stay the same as before banks existed.
  */
 export function encodeCharacterSet(
   name: string,
   description: string,
   characters: Character[],
-  config: CharacterSetConfig
+  config: CharacterSetConfig,
+  banks?: CharacterBank[]
 ): string {
-  const binaryData = serializeCharacterRom(characters, config);
+  // Shared data is always packed (the ROM layout is not part of the share format)
+  const binaryData = serializeCharacterRom(characters, getPackedConfig(config));
 
   // Encode name and description as UTF-8
   const encoder = new TextEncoder();
   const nameBytes = encoder.encode(name);
   const descBytes = encoder.encode(description);
+  const bankBytes = hasMultipleBanks(banks)
+    ? encodeBanks(normalizeBanks(banks, characters.length), encoder)
+    : new Uint8Array(0);
 
   // Build flags byte
   const flags =
     (config.padding === "left" ? 1 : 0) |
-    (config.bitDirection === "lsb" ? 2 : 0);
+    (config.bitDirection === "lsb" ? 2 : 0) |
+    (config.bitsPerPixel === 2 ? 4 : 0) |
+    (config.byteLayout === "column" ? 8 : 0) |
+    (bankBytes.length > 0 ? 16 : 0);
 
-  // Calculate total size: 3 header bytes + name + null + desc + null + data
-  const headerSize = 3 + nameBytes.length + 1 + descBytes.length + 1;
+  // Calculate total size: 3 header bytes + name + null + desc + null + banks + data
+  const headerSize = 3 + nameBytes.length + 1 + descBytes.length + 1 + bankBytes.length;
   const payload = new Uint8Array(headerSize + binaryData.length);
 
   // Write header
@@ -71,6 +107,10 @@ export function encodeCharacterSet(
   offset += descBytes.length;
   payload[offset++] = 0;
 
+  // Write bank table
+  payload.set(bankBytes, offset);
+  offset += bankBytes.length;
+
   // Write character data
   payload.set(binaryData, offset);
 
@@ -87,6 +127,7 @@ export function decodeCharacterSet(encoded: string): {
   description: string;
   characters: Character[];
   config: CharacterSetConfig;
+  banks?: CharacterBank[];
 } {
   try {
     // Validate version prefix
@@ -106,6 +147,9 @@ export function decodeCharacterSet(encoded: string): {
 
     const padding = (flags & 1) ? "left" : "right";
     const bitDirection = (flags & 2) ? "lsb" : "msb";
+    const multicolor = (flags & 4) !== 0;
+    const columnLayout = (flags & 8) !== 0;
+    const hasBanks = (flags & 16) !== 0;
 
     // Parse null-terminated strings
     const decoder = new TextDecoder();
@@ -127,6 +171,23 @@ export function decodeCharacterSet(encoded: string): {
     const description = decoder.decode(data.slice(offset, descEnd));
     offset = descEnd + 1;
 
+    // Parse bank table (name\0 + 16-bit character count per bank)
+    let banks: CharacterBank[] | undefined;
+    if (hasBanks) {
+      const bankCount = data[offset++];
+      banks = [];
+      for (let i = 0; i < bankCount; i++) {
+        const bankNameEnd = data.indexOf(0, offset);
+        if (bankNameEnd === -1 || bankNameEnd + 2 >= data.length) {
+          throw new Error("Invalid share format: bank table truncated");
+        }
+        const bankName = decoder.decode(data.slice(offset, bankNameEnd));
+        const characterCount = data[bankNameEnd + 1] | (data[bankNameEnd + 2] << 8);
+        banks.push({ name: bankName, characterCount });
+        offset = bankNameEnd + 3;
+      }
+    }
+
     // Remaining bytes are character data
     const binaryData = data.slice(offset);
 
@@ -135,6 +196,8 @@ export function decodeCharacterSet(encoded: string): {
       height,
       padding: padding as CharacterSetConfig["padding"],
       bitDirection: bitDirection as CharacterSetConfig["bitDirection"],
+      ...(multicolor && { bitsPerPixel: 2 as const }),
+      ...(columnLayout && { byteLayout: "column" as const }),
     };
 
     const characters = parseCharacterRom(binaryData, config);
@@ -144,6 +207,7 @@ export function decodeCharacterSet(encoded: string): {
       description,
       characters,
       config,
+      ...(banks && { banks: normalizeBanks(banks, characters.length) }),
     };
   } catch (error) {
     throw new Error(`Failed to decode shared character set: ${error}`);
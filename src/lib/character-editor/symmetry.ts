@@ -0,0 +1,174 @@
+/**
+ * Character ROM Editor - Symmetry
+ *
+ * Mirror drawing for the editor's drawing tools:
+ * - Horizontal (left/right), vertical (top/bottom) and four-way symmetry
+ * - Mirror axes through a pixel column/row or between two of them
+ * - Finding pixels that break the symmetry
+ *
+ * Axes are given in pixel coordinates: an axis at 3 runs through the
+ * centre of column 3, an axis at 3.5 runs between columns 3 and 4 (the
+ * centre of an 8 pixel wide character).
+ */
+
+import { Character } from "./types";
+import { getPixelColor } from "./multicolor";
+import { PixelPoint } from "./drawing";
+
+/**
+ * Symmetry mode of the drawing tools
+ * - horizontal: mirrored left/right across a vertical axis
+ * - vertical: mirrored top/bottom across a horizontal axis
+ * - four-way: mirrored across both axes
+ */
+export type SymmetryMode = "none" | "horizontal" | "vertical" | "four-way";
+
+/**
+ * Symmetry settings of the drawing tools
+ */
+export interface SymmetrySettings {
+  mode: SymmetryMode;
+  /** Column of the vertical axis (default: centre of the character) */
+  axisCol?: number;
+  /** Row of the horizontal axis (default: centre of the character) */
+  axisRow?: number;
+}
+
+/**
+ * Symmetry mode display info
+ */
+export const SYMMETRY_MODES: { id: SymmetryMode; name: string }[] = [
+  { id: "none", name: "Off" },
+  { id: "horizontal", name: "Left/Right" },
+  { id: "vertical", name: "Top/Bottom" },
+  { id: "four-way", name: "4-Way" },
+];
+
+/**
+ * Get the axis in the centre of a size (between pixels for even sizes)
+ */
+export function getCenterAxis(size: number): number {
+  return (size - 1) / 2;
+}
+
+/**
+ * Get the mirror axes of the settings for a character size
+ */
+export function getSymmetryAxes(
+  settings: SymmetrySettings,
+  width: number,
+  height: number
+): { col: number; row: number } {
+  return {
+    col: settings.axisCol ?? getCenterAxis(width),
+    row: settings.axisRow ?? getCenterAxis(height),
+  };
+}
+
+/**
+ * Parse an axis entered by the user
+ *
+ * Rounds to the nearest half pixel and clamps to the character
+ * (0 to size - 1). Returns null for empty or non-numeric input.
+ */
+export function parseSymmetryAxis(text: string, size: number): number | null {
+  if (text.trim() === "") return null;
+  const value = Number(text);
+  if (!Number.isFinite(value)) return null;
+  return Math.min(Math.max(Math.round(value * 2) / 2, 0), Math.max(size - 1, 0));
+}
+
+/**
+ * Check whether the settings mirror left/right and top/bottom
+ */
+function getMirroring(mode: SymmetryMode): { cols: boolean; rows: boolean } {
+  return {
+    cols: mode === "horizontal" || mode === "four-way",
+    rows: mode === "vertical" || mode === "four-way",
+  };
+}
+
+/**
+ * Get the mirror images of a pixel, including the pixel itself
+ * Mirror images outside the character are dropped.
+ */
+export function getMirroredPoints(
+  point: PixelPoint,
+  settings: SymmetrySettings,
+  width: number,
+  height: number
+): PixelPoint[] {
+  const axes = getSymmetryAxes(settings, width, height);
+  const mirroring = getMirroring(settings.mode);
+  const cols = mirroring.cols ? [point.col, Math.round(2 * axes.col - point.col)] : [point.col];
+  const rows = mirroring.rows ? [point.row, Math.round(2 * axes.row - point.row)] : [point.row];
+
+  const points: PixelPoint[] = [];
+  for (const row of rows) {
+    for (const col of cols) {
+      const isInside = row >= 0 && row < height && col >= 0 && col < width;
+      if (isInside && !points.some((p) => p.row === row && p.col === col)) {
+        points.push({ row, col });
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Add the mirror images of all points
+ */
+export function applySymmetry(
+  points: PixelPoint[],
+  settings: SymmetrySettings,
+  width: number,
+  height: number
+): PixelPoint[] {
+  if (settings.mode === "none") return points;
+
+  const seen = new Set<string>();
+  const result: PixelPoint[] = [];
+  for (const point of points) {
+    for (const mirrored of getMirroredPoints(point, settings, width, height)) {
+      const key = `${mirrored.row},${mirrored.col}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        result.push(mirrored);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Find the pixels that break the symmetry
+ *
+ * A pixel breaks the symmetry when one of its mirror images has a
+ * different color. Mirror images outside the character count as
+ * background, so set pixels that can't be mirrored are reported too.
+ */
+export function getAsymmetricPixels(character: Character, settings: SymmetrySettings): PixelPoint[] {
+  if (settings.mode === "none") return [];
+
+  const height = character.pixels.length;
+  const width = character.pixels[0]?.length ?? 0;
+  const axes = getSymmetryAxes(settings, width, height);
+  const mirroring = getMirroring(settings.mode);
+  const colorAt = (row: number, col: number) =>
+    row >= 0 && row < height && col >= 0 && col < width ? getPixelColor(character, row, col) : 0;
+
+  const result: PixelPoint[] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const color = colorAt(row, col);
+      const mirrorCol = Math.round(2 * axes.col - col);
+      const mirrorRow = Math.round(2 * axes.row - row);
+      const breaksCols = mirroring.cols && colorAt(row, mirrorCol) !== color;
+      const breaksRows = mirroring.rows && colorAt(mirrorRow, col) !== color;
+      if (breaksCols || breaksRows) {
+        result.push({ row, col });
+      }
+    }
+  }
+  return result;
+}
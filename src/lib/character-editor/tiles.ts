@@ -0,0 +1,99 @@
+/**
+ * Character ROM Editor - Tiles
+ *
+ * Helpers for editing a block of characters as one large image:
+ * - Character indices covered by a tile (row by row)
+ * - Combining the characters into a single tile character
+ * - Writing an edited tile back to the individual characters
+ *
+ * Useful for semigraphics, big-letter logos and game tiles that span
+ * several characters.
+ */
+
+import { Character, CharacterSetConfig, createEmptyCharacter } from "./types";
+import { createMulticolorCharacter, isMulticolorConfig } from "./multicolor";
+import { copyRegion, pasteRegion } from "./pixelSelection";
+
+/**
+ * Block of characters edited as one tile
+ */
+export interface TileLayout {
+  /** Index of the top-left character */
+  start: number;
+  /** Characters per tile row */
+  columns: number;
+  /** Character rows of the tile */
+  rows: number;
+  /** Index difference between tile rows (usually equal to columns) */
+  stride: number;
+}
+
+/**
+ * Create a tile layout whose rows use consecutive character indices
+ */
+export function createTileLayout(start: number, columns: number, rows: number): TileLayout {
+  return { start, columns, rows, stride: columns };
+}
+
+/**
+ * Get the character index of every tile cell, row by row
+ */
+export function getTileIndices(layout: TileLayout): number[] {
+  const indices: number[] = [];
+  for (let row = 0; row < layout.rows; row++) {
+    for (let col = 0; col < layout.columns; col++) {
+      indices.push(layout.start + row * layout.stride + col);
+    }
+  }
+  return indices;
+}
+
+/**
+ * Get the configuration of the combined tile character
+ */
+export function getTileConfig(config: CharacterSetConfig, layout: TileLayout): CharacterSetConfig {
+  return { ...config, width: config.width * layout.columns, height: config.height * layout.rows };
+}
+
+/**
+ * Combine the characters of a tile into one character
+ * Cells past the end of the character set are left empty.
+ */
+export function combineTile(characters: Character[], config: CharacterSetConfig, layout: TileLayout): Character {
+  const { width, height } = getTileConfig(config, layout);
+  let tile = isMulticolorConfig(config)
+    ? createMulticolorCharacter(Array.from({ length: height }, () => Array(width).fill(0)))
+    : createEmptyCharacter(width, height);
+
+  getTileIndices(layout).forEach((index, cell) => {
+    const character = characters[index];
+    if (!character) return;
+    const row = Math.floor(cell / layout.columns) * config.height;
+    const col = (cell % layout.columns) * config.width;
+    tile = pasteRegion(tile, character, row, col);
+  });
+
+  return tile;
+}
+
+/**
+ * Write a tile character back to the characters it covers
+ * Returns a new character array; cells past the end of the set are ignored.
+ */
+export function writeTile(
+  characters: Character[],
+  config: CharacterSetConfig,
+  layout: TileLayout,
+  tile: Character
+): Character[] {
+  const result = [...characters];
+
+  getTileIndices(layout).forEach((index, cell) => {
+    if (index < 0 || index >= result.length) return;
+    const row = Math.floor(cell / layout.columns) * config.height;
+    const col = (cell % layout.columns) * config.width;
+    result[index] = copyRegion(tile, { row, col, width: config.width, height: config.height });
+  });
+
+  return result;
+}
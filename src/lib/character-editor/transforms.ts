@@ -6,9 +6,18 @@
  * - Shift up/down/left/right with wrap
  * - Resize with anchor point
  * - Invert, flip, mirror
+ *
+ * Multicolor characters are transformed bit plane by bit plane,
+ * so their color indices move together with the pixels.
  */
 
 import { Character, AnchorPoint, createEmptyCharacter } from "./types";
+import {
+  applyToColorPlanes,
+  getPixelColor,
+  setPixelColor,
+  MAX_MULTICOLOR_INDEX,
+} from "./multicolor";
 
 /**
  * Scale algorithm type for scaling operations
@@ -23,6 +32,10 @@ export function rotateCharacter(
   character: Character,
   direction: "left" | "right"
 ): Character {
+  if (character.colors) {
+    return applyToColorPlanes(character, (plane) => rotateCharacter(plane, direction));
+  }
+
   const height = character.pixels.length;
   const width = character.pixels[0]?.length || 0;
 
@@ -70,6 +83,10 @@ export function shiftCharacter(
   direction: "up" | "down" | "left" | "right",
   wrap: boolean = true
 ): Character {
+  if (character.colors) {
+    return applyToColorPlanes(character, (plane) => shiftCharacter(plane, direction, wrap));
+  }
+
   const height = character.pixels.length;
   const width = character.pixels[0]?.length || 0;
   const newPixels: boolean[][] = [];
@@ -141,6 +158,12 @@ export function resizeCharacter(
   newHeight: number,
   anchor: AnchorPoint
 ): Character {
+  if (character.colors) {
+    return applyToColorPlanes(character, (plane) =>
+      resizeCharacter(plane, newWidth, newHeight, anchor)
+    );
+  }
+
   const oldHeight = character.pixels.length;
   const oldWidth = character.pixels[0]?.length || 0;
 
@@ -199,8 +222,13 @@ export function resizeCharacter(
 
 /**
  * Invert all pixels in character
+ * Multicolor pixels are inverted per bit (color n becomes 3 - n)
  */
 export function invertCharacter(character: Character): Character {
+  if (character.colors) {
+    return applyToColorPlanes(character, invertCharacter);
+  }
+
   return {
     pixels: character.pixels.map((row) => row.map((pixel) => !pixel)),
   };
@@ -210,6 +238,10 @@ export function invertCharacter(character: Character): Character {
  * Flip character horizontally (mirror)
  */
 export function flipHorizontal(character: Character): Character {
+  if (character.colors) {
+    return applyToColorPlanes(character, flipHorizontal);
+  }
+
   return {
     pixels: character.pixels.map((row) => [...row].reverse()),
   };
@@ -219,6 +251,10 @@ export function flipHorizontal(character: Character): Character {
  * Flip character vertically
  */
 export function flipVertical(character: Character): Character {
+  if (character.colors) {
+    return applyToColorPlanes(character, flipVertical);
+  }
+
   return {
     pixels: [...character.pixels].reverse().map((row) => [...row]),
   };
@@ -244,12 +280,21 @@ export function fillCharacter(width: number, height: number): Character {
 
 /**
  * Toggle a single pixel
+ *
+ * When a color is given (multicolor sets), the pixel toggles between
+ * that color and the background color instead.
  */
 export function togglePixel(
   character: Character,
   row: number,
-  col: number
+  col: number,
+  color?: number
 ): Character {
+  if (color !== undefined) {
+    const current = getPixelColor(character, row, col);
+    return setPixelColor(character, row, col, current === color ? 0 : color);
+  }
+
   const newPixels = character.pixels.map((r, ri) =>
     ri === row ? r.map((p, ci) => (ci === col ? !p : p)) : [...r]
   );
@@ -258,13 +303,21 @@ export function togglePixel(
 
 /**
  * Set a single pixel to a specific value
+ *
+ * When a color is given (multicolor sets), "on" pixels are set to that color.
  */
 export function setPixel(
   character: Character,
   row: number,
   col: number,
-  value: boolean
+  value: boolean,
+  color?: number
 ): Character {
+  if (color !== undefined || character.colors) {
+    const onColor = color ?? MAX_MULTICOLOR_INDEX;
+    return setPixelColor(character, row, col, value ? onColor : 0);
+  }
+
   const newPixels = character.pixels.map((r, ri) =>
     ri === row ? r.map((p, ci) => (ci === col ? value : p)) : [...r]
   );
@@ -311,19 +364,21 @@ export function getPixelState(
 
 /**
  * Toggle a pixel across multiple characters
+ * An optional color is used for "on" pixels of multicolor sets
  */
 export function batchTogglePixel(
   characters: Character[],
   indices: Set<number>,
   row: number,
-  col: number
+  col: number,
+  color?: number
 ): Character[] {
   const state = getPixelState(characters, indices, row, col);
   const newValue = state !== "same-on"; // If mixed or off, turn on; if on, turn off
 
   return characters.map((char, index) => {
     if (!indices.has(index)) return char;
-    return setPixel(char, row, col, newValue);
+    return setPixel(char, row, col, newValue, color);
   });
 }
 
@@ -401,6 +456,26 @@ export function centerCharacter(character: Character): Character {
     return character;
   }
 
+  return translateCharacter(character, shiftX, shiftY);
+}
+
+/**
+ * Move character content by an offset without wrapping
+ */
+function translateCharacter(
+  character: Character,
+  shiftX: number,
+  shiftY: number
+): Character {
+  if (character.colors) {
+    return applyToColorPlanes(character, (plane) =>
+      translateCharacter(plane, shiftX, shiftY)
+    );
+  }
+
+  const height = character.pixels.length;
+  const width = character.pixels[0]?.length || 0;
+
   // Create new pixel array with shifted content
   const newPixels: boolean[][] = [];
 
@@ -666,6 +741,12 @@ export function scaleCharacter(
     return character;
   }
 
+  if (character.colors) {
+    return applyToColorPlanes(character, (plane) =>
+      scaleCharacter(plane, scale, anchor, algorithm)
+    );
+  }
+
   if (algorithm === "nearest") {
     return scaleNearestNeighbor(character, scale, anchor);
   } else {
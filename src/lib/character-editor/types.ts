@@ -3,7 +3,7 @@
  *
  * Defines the core data structures for character ROM editing:
  * - Character sets with variable dimensions
- * - Binary format configuration (padding, bit direction)
+ * - Binary format configuration (padding, bit direction, bit depth, byte layout, ROM layout)
  * - Metadata for library storage
  */
 
@@ -20,6 +20,17 @@ export type BitDirection = "msb" | "lsb";
 // - "little": Little-endian - Byte 0 = pixels 8-15, Byte 1 = pixels 0-7
 export type ByteOrder = "big" | "little";
 
+// Bits per pixel
+// - 1: Monochrome - each bit is one pixel (default)
+// - 2: Multicolor - each bit pair selects one of four colors (C64 multicolor, ANTIC mode 4)
+export type BitsPerPixel = 1 | 2;
+
+// Byte layout of the binary data
+// - "row": Row-major - each row is stored as bytes, left to right (default, most common)
+// - "column": Column-major - each column is stored as bytes, top to bottom (SSD1306/KS0108 LCD fonts, printer ROMs)
+//   Bit direction, padding and byte order then apply to the column bits, so "lsb" puts the top pixel in bit 0.
+export type ByteLayout = "row" | "column";
+
 // Anchor points for resize operations (3x3 grid)
 export type AnchorPoint =
   | "tl" | "tc" | "tr"   // top-left, top-center, top-right
@@ -31,7 +42,7 @@ export type AnchorPoint =
  * - "created": Made from scratch (new empty set or preset)
  * - "binary": Imported from binary file (.bin, .rom)
  * - "text": Imported from text format (assembly, C arrays, hex)
- * - "font": Imported from font file (TTF, OTF, WOFF)
+ * - "font": Imported from font file (TTF, OTF, WOFF, BDF, PSF, Unifont, FNT/FON)
  * - "image": Imported from image file (PNG, JPG, etc.)
  * - "shared": Imported from shared URL
  * - "copied": Copied/duplicated from another character set
@@ -45,6 +56,24 @@ export type CharacterSetOrigin =
   | "shared"
   | "copied";
 
+/**
+ * Placement of characters within a ROM image
+ *
+ * Describes ROMs whose characters are not tightly packed, e.g. 8x14 glyphs
+ * in 16-byte slots, or the IBM MDA ROM where rows 8-13 of every character
+ * live in the second half of the chip. All values are in bytes.
+ */
+export interface RomLayout {
+  /** Distance from one character slot to the next (defaults to the character's own size) */
+  stride?: number;
+  /** Bytes skipped before the first character */
+  skip?: number;
+  /** First row stored in the split region (first column for column-major data) */
+  splitRow?: number;
+  /** Offset of the split region, relative to the first character */
+  splitOffset?: number;
+}
+
 /**
  * Character set configuration
  * Defines the format of the binary data
@@ -60,6 +89,12 @@ export interface CharacterSetConfig {
   bitDirection: BitDirection;
   /** Byte order for multi-byte rows (width > 8). Defaults to "big" if not specified. */
   byteOrder?: ByteOrder;
+  /** Bits per pixel. Width counts logical pixels, so a multicolor byte holds 4 pixels. Defaults to 1. */
+  bitsPerPixel?: BitsPerPixel;
+  /** Byte layout (row-major or column-major). Defaults to "row" if not specified. */
+  byteLayout?: ByteLayout;
+  /** Placement of characters in the ROM image. Characters are tightly packed if not specified. */
+  romLayout?: RomLayout;
 }
 
 /**
@@ -69,6 +104,26 @@ export interface CharacterSetConfig {
 export interface Character {
   /** Pixel data - true = foreground, false = background */
   pixels: boolean[][];
+  /**
+   * Color indices [row][column] (0-3) for multicolor characters.
+   * When present, pixels[row][col] is true for every non-zero color.
+   * When absent, "on" pixels use the highest color index.
+   */
+  colors?: number[][];
+}
+
+/**
+ * Character bank within a character set
+ *
+ * Banks are contiguous ranges of the character array, stored in order.
+ * ROMs like the C64 901225-01 hold several character sets (e.g. uppercase/graphics
+ * and lowercase), which are modelled as banks of a single character set.
+ */
+export interface CharacterBank {
+  /** Display name (e.g., "Uppercase/Graphics") */
+  name: string;
+  /** Number of characters in this bank */
+  characterCount: number;
 }
 
 /**
@@ -142,6 +197,8 @@ export interface CharacterSetMetadata {
   copiedFromId?: string;
   /** Name of the source character set at time of copy (snapshot, since original may change) */
   copiedFromName?: string;
+  /** Unicode code point of each character index (null for unmapped characters) */
+  unicodeMap?: (number | null)[];
 
   // ============================================================================
   // User-owned fields (preserved during built-in updates, modifiable on any set)
@@ -159,7 +216,10 @@ export interface CharacterSetMetadata {
 export interface CharacterSet {
   metadata: CharacterSetMetadata;
   config: CharacterSetConfig;
+  /** All characters of all banks, in bank order */
   characters: Character[];
+  /** Bank layout of the characters. Undefined means a single bank. */
+  banks?: CharacterBank[];
 }
 
 /**
@@ -169,8 +229,10 @@ export interface CharacterSet {
 export interface SerializedCharacterSet {
   metadata: CharacterSetMetadata;
   config: CharacterSetConfig;
-  /** Base64-encoded binary data */
+  /** Base64-encoded binary data (all banks, in bank order) */
   binaryData: string;
+  /** Bank layout of the binary data. Undefined means a single bank. */
+  banks?: CharacterBank[];
 }
 
 /**
@@ -254,17 +316,20 @@ export interface ExportOptions {
 }
 
 /**
- * Calculate bytes needed per line based on character width
+ * Calculate bytes needed per line based on character width and bit depth
  */
-export function bytesPerLine(width: number): number {
-  return Math.ceil(width / 8);
+export function bytesPerLine(width: number, bitsPerPixel: BitsPerPixel = 1): number {
+  return Math.ceil((width * bitsPerPixel) / 8);
 }
 
 /**
  * Calculate total bytes per character
  */
 export function bytesPerCharacter(config: CharacterSetConfig): number {
-  return bytesPerLine(config.width) * config.height;
+  if (config.byteLayout === "column") {
+    return bytesPerLine(config.height, config.bitsPerPixel) * config.width;
+  }
+  return bytesPerLine(config.width, config.bitsPerPixel) * config.height;
 }
 
 /**
@@ -297,9 +362,13 @@ export function createEmptyCharacter(width: number, height: number): Character {
  * Clone a character (deep copy)
  */
 export function cloneCharacter(char: Character): Character {
-  return {
+  const clone: Character = {
     pixels: char.pixels.map((row) => [...row]),
   };
+  if (char.colors) {
+    clone.colors = char.colors.map((row) => [...row]);
+  }
+  return clone;
 }
 
 /**
@@ -15,6 +15,7 @@
  */
 
 import { Character, CharacterSetConfig } from "./types";
+import { getRomCharacterCount } from "./romLayout";
 
 /**
  * Format file size for display
@@ -78,6 +79,32 @@ export function validateConfig(config: CharacterSetConfig): string[] {
     errors.push("Byte order must be 'big' or 'little'");
   }
 
+  if (
+    config.byteLayout !== undefined &&
+    config.byteLayout !== "row" &&
+    config.byteLayout !== "column"
+  ) {
+    errors.push("Byte layout must be 'row' or 'column'");
+  }
+
+  if (config.romLayout) {
+    const { stride, skip, splitRow, splitOffset } = config.romLayout;
+    const lines = config.byteLayout === "column" ? config.width : config.height;
+
+    if (stride !== undefined && (!Number.isInteger(stride) || stride < 1)) {
+      errors.push("Stride must be a positive number of bytes");
+    }
+    if (skip !== undefined && (!Number.isInteger(skip) || skip < 0)) {
+      errors.push("Skip must be zero or a positive number of bytes");
+    }
+    if (splitRow !== undefined && (!Number.isInteger(splitRow) || splitRow < 1 || splitRow >= lines)) {
+      errors.push(`Split row must be between 1 and ${lines - 1}`);
+    }
+    if (splitOffset !== undefined && (!Number.isInteger(splitOffset) || splitOffset < 1)) {
+      errors.push("Split offset must be a positive number of bytes");
+    }
+  }
+
   return errors;
 }
 
@@ -97,8 +124,11 @@ export function getSuggestedFilename(name: string): string {
  * Validate file type for import
  */
 export function isValidBinaryFile(file: File): boolean {
-  // Accept common ROM extensions and generic binary
-  const validExtensions = [".bin", ".rom", ".chr", ".fnt", ".dat"];
+  // Accept common ROM extensions, hex record files and generic binary
+  const validExtensions = [
+    ".bin", ".rom", ".chr", ".fnt", ".dat",
+    ".hex", ".ihx", ".s19", ".s28", ".s37", ".srec", ".mot",
+  ];
   const ext = file.name.toLowerCase().substring(file.name.lastIndexOf("."));
 
   // Also accept files without extension or with unknown extension
@@ -113,9 +143,7 @@ export function calculateCharacterCount(
   fileSize: number,
   config: CharacterSetConfig
 ): number {
-  const bytesPerLine = Math.ceil(config.width / 8);
-  const bytesPerChar = bytesPerLine * config.height;
-  return Math.floor(fileSize / bytesPerChar);
+  return getRomCharacterCount(fileSize, config);
 }
 
 /**